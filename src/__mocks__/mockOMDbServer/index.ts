@@ -0,0 +1,3 @@
+export * from './omdbFixtures';
+export * from './mockOMDbHandler';
+export * from './mockOMDbServer';
@@ -0,0 +1,217 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { createMockOMDbHandler, resolveOMDbQuery } from './mockOMDbHandler';
+import { createDefaultCatalogue } from './omdbFixtures';
+import { type OMDbMovie, type OMDbSearchResponse, type OMDbSeasonResponse } from '../../types/omdb.types';
+
+describe('mockOMDbHandler', () => {
+  const catalogue = createDefaultCatalogue(2026);
+
+  describe('resolveOMDbQuery', () => {
+    describe('search', () => {
+      it('GIVEN a search term WHEN resolving THEN should return the matching titles as a search page', () => {
+        // GIVEN
+        const query = { s: 'batman' };
+
+        // WHEN
+        const { status, body } = resolveOMDbQuery(query, catalogue);
+
+        // THEN
+        const response = body as OMDbSearchResponse;
+        expect(status).toBe(200);
+        expect(response.Response).toBe('True');
+        expect(response.Search.map((hit) => hit.Title)).toEqual([
+          'Batman',
+          'Batman Begins',
+          'The Lego Batman Movie',
+          'Batman: The Animated Series',
+        ]);
+        expect(response.totalResults).toBe('4');
+        expect(Object.keys(response.Search[0])).toEqual(['Title', 'Year', 'imdbID', 'Type', 'Poster']);
+      });
+
+      it('GIVEN a type and a year WHEN resolving THEN should only return titles of that type running that year', () => {
+        // GIVEN
+        const query = { s: 'batman', type: 'series', y: '1994' };
+
+        // WHEN
+        const { body } = resolveOMDbQuery(query, catalogue);
+
+        // THEN
+        expect((body as OMDbSearchResponse).Search.map((hit) => hit.imdbID)).toEqual(['tt0103359']);
+      });
+
+      it('GIVEN more than ten matches WHEN resolving the second page THEN should return the rest with the full total', () => {
+        // GIVEN
+        const titles: OMDbMovie[] = Array.from({ length: 12 }, (_, index) => ({
+          ...catalogue.titles[0],
+          Title: `Sequel ${index + 1}`,
+          imdbID: `tt000000${index}`,
+        }));
+
+        // WHEN
+        const { body } = resolveOMDbQuery({ s: 'sequel', page: '2' }, { titles });
+
+        // THEN
+        const response = body as OMDbSearchResponse;
+        expect(response.Search.map((hit) => hit.Title)).toEqual(['Sequel 11', 'Sequel 12']);
+        expect(response.totalResults).toBe('12');
+      });
+
+      it.each([
+        { description: 'no match', query: { s: 'zzzzz' }, error: 'Movie not found!' },
+        { description: 'no series match', query: { s: 'zzzzz', type: 'series' }, error: 'Series not found!' },
+        { description: 'a page past the end', query: { s: 'batman', page: '2' }, error: 'Movie not found!' },
+        { description: 'a term that is too short', query: { s: 'ba' }, error: 'Too many results.' },
+      ])('GIVEN $description WHEN resolving THEN should answer "$error"', ({ query, error }) => {
+        // GIVEN & WHEN
+        const { status, body } = resolveOMDbQuery(query, catalogue);
+
+        // THEN
+        expect(status).toBe(200);
+        expect(body).toEqual({ Response: 'False', Error: error });
+      });
+    });
+
+    describe('lookups', () => {
+      it('GIVEN an IMDb ID and a short plot WHEN resolving THEN should return the title with the first sentence of its plot', () => {
+        // GIVEN
+        const query = { i: 'tt0133093', plot: 'short' };
+
+        // WHEN
+        const { body } = resolveOMDbQuery(query, catalogue);
+
+        // THEN
+        const movie = body as OMDbMovie;
+        expect(movie.Title).toBe('The Matrix');
+        expect(movie.Plot).toBe('When a beautiful stranger leads computer hacker Neo to a forbidding underworld, he discovers the shocking truth.');
+      });
+
+      it('GIVEN a title WHEN resolving THEN should match it exactly, ignoring case', () => {
+        // GIVEN
+        const query = { t: 'the dark knight' };
+
+        // WHEN
+        const { body } = resolveOMDbQuery(query, catalogue);
+
+        // THEN
+        expect((body as OMDbMovie).imdbID).toBe('tt0468569');
+      });
+
+      it('GIVEN a series and a season WHEN resolving THEN should list the season\'s episodes in order', () => {
+        // GIVEN
+        const query = { i: 'tt0903747', Season: '1' };
+
+        // WHEN
+        const { body } = resolveOMDbQuery(query, catalogue);
+
+        // THEN
+        const season = body as OMDbSeasonResponse;
+        expect(season).toMatchObject({ Title: 'Breaking Bad', Season: '1', totalSeasons: '5', Response: 'True' });
+        expect(season.Episodes).toHaveLength(7);
+        expect(season.Episodes[0]).toEqual({ Title: 'Pilot', Released: '20 Jan 2008', Episode: '1', imdbRating: '9.0', imdbID: 'tt0959621' });
+      });
+
+      it('GIVEN a series, season and episode WHEN resolving THEN should return the episode', () => {
+        // GIVEN
+        const query = { i: 'tt0903747', Season: '1', Episode: '6' };
+
+        // WHEN
+        const { body } = resolveOMDbQuery(query, catalogue);
+
+        // THEN
+        expect(body).toMatchObject({ Title: 'Crazy Handful of Nothin\'', Type: 'episode', seriesID: 'tt0903747' });
+      });
+
+      it.each([
+        { description: 'an unknown IMDb ID', query: { i: 'tt0000000' }, error: 'Incorrect IMDb ID.' },
+        { description: 'no lookup parameter', query: {}, error: 'Incorrect IMDb ID.' },
+        { description: 'an unknown title', query: { t: 'Not A Film' }, error: 'Movie not found!' },
+        { description: 'a missing season', query: { i: 'tt0903747', Season: '2' }, error: 'Series or season not found!' },
+        { description: 'a missing episode', query: { i: 'tt0903747', Season: '1', Episode: '9' }, error: 'Series or episode not found!' },
+        { description: 'a season of a movie', query: { i: 'tt0133093', Season: '1' }, error: 'Series or season not found!' },
+      ])('GIVEN $description WHEN resolving THEN should answer "$error"', ({ query, error }) => {
+        // GIVEN & WHEN
+        const { body } = resolveOMDbQuery(query, catalogue);
+
+        // THEN
+        expect(body).toEqual({ Response: 'False', Error: error });
+      });
+    });
+  });
+
+  describe('createMockOMDbHandler', () => {
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('GIVEN no API key WHEN handling a request THEN should answer 401 "No API key provided."', async () => {
+      // GIVEN
+      const handle = createMockOMDbHandler({ catalogue });
+
+      // WHEN
+      const response = await handle({ s: 'batman' });
+
+      // THEN
+      expect(response).toEqual({ status: 401, body: { Response: 'False', Error: 'No API key provided.' } });
+    });
+
+    it('GIVEN an accepted key WHEN handling a request with another key THEN should answer 401 "Invalid API key!"', async () => {
+      // GIVEN
+      const handle = createMockOMDbHandler({ catalogue, apiKey: 'secret' });
+
+      // WHEN
+      const rejected = await handle({ s: 'batman', apikey: 'wrong' });
+      const accepted = await handle({ s: 'batman', apikey: 'secret' });
+
+      // THEN
+      expect(rejected).toEqual({ status: 401, body: { Response: 'False', Error: 'Invalid API key!' } });
+      expect(accepted.status).toBe(200);
+    });
+
+    it('GIVEN a request limit WHEN it is used up THEN should answer 401 "Request limit reached!"', async () => {
+      // GIVEN
+      const handle = createMockOMDbHandler({ catalogue, requestLimit: 2 });
+
+      // WHEN
+      const responses = [];
+      for (let index = 0; index < 3; index++) {
+        responses.push(await handle({ i: 'tt0133093', apikey: 'key' }));
+      }
+
+      // THEN
+      expect(responses.map((response) => response.status)).toEqual([200, 200, 401]);
+      expect(responses[2].body).toEqual({ Response: 'False', Error: 'Request limit reached!' });
+    });
+
+    it('GIVEN a failure rate WHEN the random draw falls below it THEN should answer 503', async () => {
+      // GIVEN
+      const draws = [0.1, 0.9];
+      const handle = createMockOMDbHandler({ catalogue, failureRate: 0.5, random: () => draws.shift() ?? 1 });
+
+      // WHEN
+      const failed = await handle({ i: 'tt0133093', apikey: 'key' });
+      const succeeded = await handle({ i: 'tt0133093', apikey: 'key' });
+
+      // THEN
+      expect(failed).toEqual({ status: 503, body: 'Service Unavailable' });
+      expect(succeeded.status).toBe(200);
+    });
+
+    it('GIVEN a latency range WHEN handling a request THEN should answer after a delay within the range', async () => {
+      // GIVEN
+      vi.useFakeTimers();
+      const handle = createMockOMDbHandler({ catalogue, latency: [100, 300], random: () => 0.5 });
+      const onResponse = vi.fn();
+
+      // WHEN
+      handle({ i: 'tt0133093', apikey: 'key' }).then(onResponse);
+      await vi.advanceTimersByTimeAsync(199);
+      const beforeDelay = onResponse.mock.calls.length;
+      await vi.advanceTimersByTimeAsync(1);
+
+      // THEN
+      expect(beforeDelay).toBe(0);
+      expect(onResponse).toHaveBeenCalledWith(expect.objectContaining({ status: 200 }));
+    });
+  });
+});
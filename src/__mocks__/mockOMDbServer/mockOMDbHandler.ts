@@ -0,0 +1,207 @@
+import { type OMDbMovie, type OMDbSearchResponse, type OMDbSeasonResponse } from '../../types/omdb.types';
+import { createDefaultCatalogue, type MockOMDbCatalogue } from './omdbFixtures';
+
+// OMDb answers every search with pages of ten
+const PAGE_SIZE = 10;
+// Shorter search terms are refused as too broad
+const MIN_SEARCH_LENGTH = 3;
+
+/**
+ * Options of the mock OMDb server
+ */
+export interface MockOMDbOptions {
+  /** Titles to answer from; defaults to the fixture catalogue */
+  readonly catalogue?: MockOMDbCatalogue;
+  /** When set, any other key is rejected with "Invalid API key!" */
+  readonly apiKey?: string;
+  /** Requests answered before every further one gets "Request limit reached!" */
+  readonly requestLimit?: number;
+  /** Delay before answering, in ms: a fixed value or a [min, max] range */
+  readonly latency?: number | readonly [number, number];
+  /** Share of requests (0 to 1) answered with a 503, to exercise retries and error states */
+  readonly failureRate?: number;
+  /** Random source for latency and failures, injectable for deterministic tests */
+  readonly random?: () => number;
+}
+
+/**
+ * HTTP status and body of a mock OMDb response; a string body is sent as plain text
+ */
+export interface MockOMDbResponse {
+  readonly status: number;
+  readonly body: object | string;
+}
+
+type OMDbQuery = Readonly<Record<string, string | undefined>>;
+
+const notFound = (message: string): MockOMDbResponse => ({ status: 200, body: { Response: 'False', Error: message } });
+const unauthorized = (message: string): MockOMDbResponse => ({ status: 401, body: { Response: 'False', Error: message } });
+
+// "1999" or "2008–2013" / "2024–"; an open-ended run lasts until today
+const getYearSpan = (year: string): [number, number] => {
+  const [start, end] = year.split(/[–-]/);
+  const from = parseInt(start, 10);
+  if (end === undefined) return [from, from];
+  return [from, end ? parseInt(end, 10) : Number.POSITIVE_INFINITY];
+};
+
+const matchesYear = (movie: OMDbMovie, year: string | undefined): boolean => {
+  if (!year) return true;
+  const [from, to] = getYearSpan(movie.Year);
+  const wanted = parseInt(year, 10);
+  return wanted >= from && wanted <= to;
+};
+
+// Episodes only turn up when asked for by type, as on OMDb
+const matchesType = (movie: OMDbMovie, type: string | undefined): boolean =>
+  type ? movie.Type === type : movie.Type !== 'episode';
+
+const toPlot = (movie: OMDbMovie, plot: string | undefined): OMDbMovie => {
+  if (plot !== 'short' || movie.Plot === 'N/A') return movie;
+  const firstSentence = movie.Plot.match(/^.*?[.!?](?=\s|$)/);
+  return { ...movie, Plot: firstSentence ? firstSentence[0] : movie.Plot };
+};
+
+const notFoundMessage = (type: string | undefined): string =>
+  type === 'series' ? 'Series not found!' : type === 'episode' ? 'Episode not found!' : 'Movie not found!';
+
+const search = (titles: readonly OMDbMovie[], query: OMDbQuery): MockOMDbResponse => {
+  const term = (query.s ?? '').trim().toLowerCase();
+  if (term.length < MIN_SEARCH_LENGTH) {
+    return notFound('Too many results.');
+  }
+
+  const matches = titles.filter((movie) =>
+    movie.Title.toLowerCase().includes(term) && matchesType(movie, query.type) && matchesYear(movie, query.y)
+  );
+  const page = Math.max(parseInt(query.page ?? '1', 10) || 1, 1);
+  const hits = matches.slice((page - 1) * PAGE_SIZE, page * PAGE_SIZE);
+  if (hits.length === 0) {
+    return notFound(notFoundMessage(query.type));
+  }
+
+  const body: OMDbSearchResponse = {
+    Search: hits.map(({ Title, Year, imdbID, Type, Poster }) => ({ Title, Year, imdbID, Type, Poster })),
+    totalResults: String(matches.length),
+    Response: 'True',
+  };
+  return { status: 200, body };
+};
+
+const getSeason = (titles: readonly OMDbMovie[], series: OMDbMovie, season: string): MockOMDbResponse => {
+  const episodes = titles
+    .filter((movie) => movie.seriesID === series.imdbID && movie.Season === season)
+    .sort((a, b) => Number(a.Episode) - Number(b.Episode));
+  if (episodes.length === 0) {
+    return notFound('Series or season not found!');
+  }
+
+  const body: OMDbSeasonResponse = {
+    Title: series.Title,
+    Season: season,
+    totalSeasons: series.totalSeasons ?? '1',
+    Episodes: episodes.map(({ Title, Released, Episode, imdbRating, imdbID }) => ({
+      Title,
+      Released,
+      Episode: Episode ?? '',
+      imdbRating,
+      imdbID,
+    })),
+    Response: 'True',
+  };
+  return { status: 200, body };
+};
+
+const getEpisode = (titles: readonly OMDbMovie[], series: OMDbMovie, query: OMDbQuery): MockOMDbResponse => {
+  const episode = titles.find((movie) =>
+    movie.seriesID === series.imdbID && movie.Season === query.Season && movie.Episode === query.Episode
+  );
+  return episode ? { status: 200, body: toPlot(episode, query.plot) } : notFound('Series or episode not found!');
+};
+
+const getById = (titles: readonly OMDbMovie[], query: OMDbQuery): MockOMDbResponse => {
+  const movie = titles.find((title) => title.imdbID === query.i);
+  if (!movie) {
+    return notFound('Incorrect IMDb ID.');
+  }
+
+  if (query.Season) {
+    if (movie.Type !== 'series') {
+      return notFound(query.Episode ? 'Series or episode not found!' : 'Series or season not found!');
+    }
+    return query.Episode ? getEpisode(titles, movie, query) : getSeason(titles, movie, query.Season);
+  }
+  return { status: 200, body: toPlot(movie, query.plot) };
+};
+
+const getByTitle = (titles: readonly OMDbMovie[], query: OMDbQuery): MockOMDbResponse => {
+  const wanted = (query.t ?? '').trim().toLowerCase();
+  const movie = titles.find((title) =>
+    title.Title.toLowerCase() === wanted && matchesType(title, query.type) && matchesYear(title, query.y)
+  );
+  return movie ? { status: 200, body: toPlot(movie, query.plot) } : notFound(notFoundMessage(query.type));
+};
+
+/**
+ * Answer an OMDb query from a catalogue the way OMDb would, without key checks, latency or failures.
+ * Supports `s` (with `type`, `y`, `page`), `i` (with `Season` and `Episode`), `t` (with `type`, `y`) and `plot`.
+ * @param query - The request's query parameters
+ * @param catalogue - Titles to answer from
+ */
+export const resolveOMDbQuery = (
+  query: OMDbQuery,
+  catalogue: MockOMDbCatalogue = createDefaultCatalogue()
+): MockOMDbResponse => {
+  if (query.s !== undefined) return search(catalogue.titles, query);
+  if (query.i) return getById(catalogue.titles, query);
+  if (query.t) return getByTitle(catalogue.titles, query);
+  return notFound('Incorrect IMDb ID.');
+};
+
+const getLatency = (latency: MockOMDbOptions['latency'], random: () => number): number => {
+  if (latency === undefined) return 0;
+  if (typeof latency === 'number') return latency;
+  const [min, max] = latency;
+  return min + Math.round(random() * (max - min));
+};
+
+const wait = (ms: number): Promise<void> =>
+  ms > 0 ? new Promise((resolve) => setTimeout(resolve, ms)) : Promise.resolve();
+
+/**
+ * Create a mock OMDb request handler that checks the API key and request limit, injects latency and
+ * failures, and answers the rest from the catalogue. The request count is kept per handler.
+ * @param options - Catalogue, accepted key, limit, latency and failure rate
+ */
+export const createMockOMDbHandler = (options: MockOMDbOptions = {}) => {
+  const {
+    catalogue = createDefaultCatalogue(),
+    apiKey,
+    requestLimit = Number.POSITIVE_INFINITY,
+    latency,
+    failureRate = 0,
+    random = Math.random,
+  } = options;
+  let requestCount = 0;
+
+  return async (query: OMDbQuery): Promise<MockOMDbResponse> => {
+    await wait(getLatency(latency, random));
+
+    if (failureRate > 0 && random() < failureRate) {
+      return { status: 503, body: 'Service Unavailable' };
+    }
+    if (!query.apikey) {
+      return unauthorized('No API key provided.');
+    }
+    if (apiKey !== undefined && query.apikey !== apiKey) {
+      return unauthorized('Invalid API key!');
+    }
+    requestCount += 1;
+    if (requestCount > requestLimit) {
+      return unauthorized('Request limit reached!');
+    }
+    return resolveOMDbQuery(query, catalogue);
+  };
+};
+
+export type MockOMDbHandler = ReturnType<typeof createMockOMDbHandler>;
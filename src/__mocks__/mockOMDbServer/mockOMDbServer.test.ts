@@ -0,0 +1,73 @@
+// @vitest-environment node
+import { describe, it, expect, vi, beforeAll, afterAll } from 'vitest';
+import { startMockOMDbServer, type MockOMDbServer } from './mockOMDbServer';
+import { OMDbService } from '../../services/OMDbService';
+import { OMDbInvalidApiKeyError, OMDbNotFoundError } from '../../services/OMDbService/OMDbError';
+
+// Mock the api.config module to avoid import.meta issues
+vi.mock('../../config/api.config', () => ({
+  getApiConfig: vi.fn(),
+  isApiConfigValid: vi.fn(() => true),
+}));
+
+describe('mockOMDbServer', () => {
+  let server: MockOMDbServer;
+
+  const createService = (apiKey: string) => new OMDbService({ apiKey, baseURL: server.url, timeout: 5000 });
+
+  beforeAll(async () => {
+    server = await startMockOMDbServer({ apiKey: 'test-key' });
+  });
+
+  afterAll(async () => {
+    await server.close();
+  });
+
+  it('GIVEN the mock server as base URL WHEN searching with OMDbService THEN should return a page from the catalogue', async () => {
+    // GIVEN
+    const service = createService('test-key');
+
+    // WHEN
+    const page = await service.search({ query: 'batman', type: 'movie' });
+
+    // THEN
+    expect(page.results.map((movie) => movie.title)).toEqual(['Batman', 'Batman Begins', 'The Lego Batman Movie']);
+    expect(page.totalResults).toBe(3);
+    expect(page.hasMore).toBe(false);
+  });
+
+  it('GIVEN the mock server WHEN loading a season and an episode THEN should return them from the catalogue', async () => {
+    // GIVEN
+    const service = createService('test-key');
+
+    // WHEN
+    const season = await service.getTvShowSeason('tt0903747', 1);
+    const episode = await service.getTvShowEpisode('tt0903747', 1, 1);
+
+    // THEN
+    expect(season.episodes).toHaveLength(7);
+    expect(episode.title).toBe('Pilot');
+  });
+
+  it('GIVEN an unknown IMDb ID WHEN loading its details THEN should reject with OMDbNotFoundError', async () => {
+    // GIVEN
+    const service = createService('test-key');
+
+    // WHEN
+    const request = service.getMovieById({ i: 'tt0000000' });
+
+    // THEN
+    await expect(request).rejects.toBeInstanceOf(OMDbNotFoundError);
+  });
+
+  it('GIVEN a key the server does not accept WHEN searching THEN should reject with OMDbInvalidApiKeyError', async () => {
+    // GIVEN
+    const service = createService('wrong-key');
+
+    // WHEN
+    const request = service.searchMovies({ s: 'batman' });
+
+    // THEN
+    await expect(request).rejects.toBeInstanceOf(OMDbInvalidApiKeyError);
+  });
+});
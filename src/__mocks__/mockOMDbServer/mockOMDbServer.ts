@@ -0,0 +1,85 @@
+import { createServer, type IncomingMessage, type ServerResponse } from 'node:http';
+import { type AddressInfo } from 'node:net';
+import { type Plugin } from 'vite';
+import { createMockOMDbHandler, type MockOMDbOptions } from './mockOMDbHandler';
+
+// Path the Vite plugin serves the mock under; point VITE_OMDB_BASE_URL here to use it
+export const MOCK_OMDB_PATH = '/mock-omdb';
+
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, OPTIONS',
+  'Access-Control-Allow-Headers': '*',
+};
+
+/**
+ * Create a Node/Connect middleware answering OMDb requests from the mock handler
+ * @param options - Catalogue, accepted key, limit, latency and failure rate
+ */
+export const createMockOMDbMiddleware = (options: MockOMDbOptions = {}) => {
+  const handle = createMockOMDbHandler(options);
+
+  return (req: IncomingMessage, res: ServerResponse): void => {
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204, CORS_HEADERS).end();
+      return;
+    }
+
+    const query = Object.fromEntries(new URL(req.url ?? '/', 'http://localhost').searchParams);
+    handle(query)
+      .then(({ status, body }) => {
+        const isText = typeof body === 'string';
+        res.writeHead(status, {
+          ...CORS_HEADERS,
+          'Content-Type': isText ? 'text/plain; charset=utf-8' : 'application/json; charset=utf-8',
+        });
+        res.end(isText ? body : JSON.stringify(body));
+      })
+      .catch(() => {
+        res.writeHead(500, CORS_HEADERS).end();
+      });
+  };
+};
+
+/**
+ * A running mock OMDb server
+ */
+export interface MockOMDbServer {
+  /** Base URL to use as the OMDb base URL, e.g. http://127.0.0.1:53211 */
+  readonly url: string;
+  close(): Promise<void>;
+}
+
+/**
+ * Start a standalone mock OMDb server on a free local port, e.g. from a vitest suite running in
+ * the node environment
+ * @param options - Catalogue, accepted key, limit, latency and failure rate
+ */
+export const startMockOMDbServer = (options: MockOMDbOptions = {}): Promise<MockOMDbServer> => {
+  const server = createServer(createMockOMDbMiddleware(options));
+
+  return new Promise((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(0, '127.0.0.1', () => {
+      const { port } = server.address() as AddressInfo;
+      resolve({
+        url: `http://127.0.0.1:${port}`,
+        close: () => new Promise((done, fail) => server.close((error) => (error ? fail(error) : done()))),
+      });
+    });
+  });
+};
+
+/**
+ * Serve the mock OMDb API at /mock-omdb from the Vite dev and preview servers
+ * @param options - Catalogue, accepted key, limit, latency and failure rate
+ */
+export const mockOMDbPlugin = (options: MockOMDbOptions = {}): Plugin => ({
+  name: 'mock-omdb',
+  configureServer(server) {
+    server.middlewares.use(MOCK_OMDB_PATH, createMockOMDbMiddleware(options));
+  },
+  configurePreviewServer(server) {
+    server.middlewares.use(MOCK_OMDB_PATH, createMockOMDbMiddleware(options));
+  },
+});
@@ -0,0 +1,307 @@
+import { type OMDbMovie } from '../../types/omdb.types';
+
+/**
+ * Titles the mock OMDb server answers from. Episodes are titles of type `episode`
+ * carrying the `seriesID`, `Season` and `Episode` of the series they belong to.
+ */
+export interface MockOMDbCatalogue {
+  readonly titles: readonly OMDbMovie[];
+}
+
+type TitleFields = Pick<OMDbMovie, 'Title' | 'Year' | 'imdbID'> & Partial<OMDbMovie>;
+
+// Fill in the fields OMDb reports as "N/A" when it has no data
+const title = (fields: TitleFields): OMDbMovie => ({
+  Rated: 'N/A',
+  Released: 'N/A',
+  Runtime: 'N/A',
+  Genre: 'N/A',
+  Director: 'N/A',
+  Writer: 'N/A',
+  Actors: 'N/A',
+  Plot: 'N/A',
+  Language: 'English',
+  Country: 'United States',
+  Awards: 'N/A',
+  Poster: 'N/A',
+  Ratings: fields.imdbRating ? [{ Source: 'Internet Movie Database', Value: `${fields.imdbRating}/10` }] : [],
+  Metascore: 'N/A',
+  imdbRating: 'N/A',
+  imdbVotes: 'N/A',
+  Type: 'movie',
+  DVD: 'N/A',
+  BoxOffice: 'N/A',
+  Production: 'N/A',
+  Website: 'N/A',
+  Response: 'True',
+  ...fields,
+});
+
+const episode = (seriesID: string, season: number, fields: TitleFields & { Episode: string }): OMDbMovie =>
+  title({ Type: 'episode', seriesID, Season: String(season), Runtime: '47 min', Genre: 'Crime, Drama, Thriller', ...fields });
+
+const MOVIES: OMDbMovie[] = [
+  title({
+    Title: 'The Matrix',
+    Year: '1999',
+    imdbID: 'tt0133093',
+    Rated: 'R',
+    Released: '31 Mar 1999',
+    Runtime: '136 min',
+    Genre: 'Action, Sci-Fi',
+    Director: 'Lana Wachowski, Lilly Wachowski',
+    Writer: 'Lilly Wachowski, Lana Wachowski',
+    Actors: 'Keanu Reeves, Laurence Fishburne, Carrie-Anne Moss',
+    Plot: 'When a beautiful stranger leads computer hacker Neo to a forbidding underworld, he discovers the shocking truth. The life he knows is the elaborate deception of an evil cyber-intelligence.',
+    Ratings: [
+      { Source: 'Internet Movie Database', Value: '8.7/10' },
+      { Source: 'Rotten Tomatoes', Value: '83%' },
+      { Source: 'Metacritic', Value: '73/100' },
+    ],
+    Metascore: '73',
+    imdbRating: '8.7',
+    imdbVotes: '2,100,000',
+  }),
+  title({
+    Title: 'Batman',
+    Year: '1989',
+    imdbID: 'tt0096895',
+    Rated: 'PG-13',
+    Released: '23 Jun 1989',
+    Runtime: '126 min',
+    Genre: 'Action, Adventure',
+    Director: 'Tim Burton',
+    Writer: 'Bob Kane, Sam Hamm, Warren Skaaren',
+    Actors: 'Michael Keaton, Jack Nicholson, Kim Basinger',
+    Plot: 'The Dark Knight of Gotham City begins his war on crime with his first major enemy being Jack Napier, a criminal who becomes the clownishly homicidal Joker.',
+    Ratings: [
+      { Source: 'Internet Movie Database', Value: '7.5/10' },
+      { Source: 'Rotten Tomatoes', Value: '77%' },
+      { Source: 'Metacritic', Value: '69/100' },
+    ],
+    Metascore: '69',
+    imdbRating: '7.5',
+    imdbVotes: '400,000',
+  }),
+  title({
+    Title: 'Batman Begins',
+    Year: '2005',
+    imdbID: 'tt0372784',
+    Rated: 'PG-13',
+    Released: '15 Jun 2005',
+    Runtime: '140 min',
+    Genre: 'Action, Crime, Drama',
+    Director: 'Christopher Nolan',
+    Writer: 'Bob Kane, David S. Goyer, Christopher Nolan',
+    Actors: 'Christian Bale, Michael Caine, Ken Watanabe',
+    Plot: 'After witnessing his parents\' death, Bruce learns the art of fighting to confront injustice.',
+    Metascore: '70',
+    imdbRating: '8.2',
+    imdbVotes: '1,600,000',
+  }),
+  title({
+    Title: 'The Dark Knight',
+    Year: '2008',
+    imdbID: 'tt0468569',
+    Rated: 'PG-13',
+    Released: '18 Jul 2008',
+    Runtime: '152 min',
+    Genre: 'Action, Crime, Drama',
+    Director: 'Christopher Nolan',
+    Writer: 'Jonathan Nolan, Christopher Nolan, David S. Goyer',
+    Actors: 'Christian Bale, Heath Ledger, Aaron Eckhart',
+    Plot: 'When the menace known as the Joker wreaks havoc and chaos on the people of Gotham, Batman must accept one of the greatest psychological and physical tests of his ability to fight injustice.',
+    Metascore: '84',
+    imdbRating: '9.0',
+    imdbVotes: '2,900,000',
+  }),
+  title({
+    Title: 'The Lego Batman Movie',
+    Year: '2017',
+    imdbID: 'tt4116284',
+    Rated: 'PG',
+    Released: '10 Feb 2017',
+    Runtime: '104 min',
+    Genre: 'Animation, Action, Adventure',
+    Director: 'Chris McKay',
+    Plot: 'A cooler-than-ever Bruce Wayne must deal with the usual suspects as they plan to rule Gotham City.',
+    imdbRating: '7.2',
+    imdbVotes: '180,000',
+  }),
+  title({
+    Title: 'The Lego Movie',
+    Year: '2014',
+    imdbID: 'tt1490017',
+    Rated: 'PG',
+    Released: '07 Feb 2014',
+    Runtime: '100 min',
+    Genre: 'Animation, Adventure, Comedy',
+    Director: 'Phil Lord, Christopher Miller',
+    Plot: 'An ordinary LEGO construction worker is recruited to join a quest to stop an evil tyrant from gluing the universe together.',
+    imdbRating: '7.7',
+    imdbVotes: '370,000',
+  }),
+  title({
+    Title: 'Bee Movie',
+    Year: '2007',
+    imdbID: 'tt0389790',
+    Rated: 'PG',
+    Released: '02 Nov 2007',
+    Runtime: '91 min',
+    Genre: 'Animation, Adventure, Comedy',
+    Director: 'Simon J. Smith, Steve Hickner',
+    Plot: 'Barry B. Benson, a bee just graduated from college, is disillusioned at his lone career choice: making honey.',
+    imdbRating: '6.1',
+    imdbVotes: '190,000',
+  }),
+  title({
+    Title: 'Inception',
+    Year: '2010',
+    imdbID: 'tt1375666',
+    Rated: 'PG-13',
+    Released: '16 Jul 2010',
+    Runtime: '148 min',
+    Genre: 'Action, Adventure, Sci-Fi',
+    Director: 'Christopher Nolan',
+    Plot: 'A thief who steals corporate secrets through the use of dream-sharing technology is given the inverse task of planting an idea into the mind of a C.E.O.',
+    Metascore: '74',
+    imdbRating: '8.8',
+    imdbVotes: '2,600,000',
+  }),
+  title({
+    Title: 'Spirited Away',
+    Year: '2001',
+    imdbID: 'tt0245429',
+    Rated: 'PG',
+    Released: '28 Mar 2003',
+    Runtime: '125 min',
+    Genre: 'Animation, Adventure, Family',
+    Director: 'Hayao Miyazaki',
+    Plot: 'During her family\'s move to the suburbs, a sullen 10-year-old girl wanders into a world ruled by gods, witches and spirits.',
+    Language: 'Japanese',
+    Country: 'Japan',
+    Metascore: '96',
+    imdbRating: '8.6',
+    imdbVotes: '900,000',
+  }),
+  title({
+    Title: 'Amélie',
+    Year: '2001',
+    imdbID: 'tt0211915',
+    Rated: 'R',
+    Released: '08 Feb 2002',
+    Runtime: '122 min',
+    Genre: 'Comedy, Romance',
+    Director: 'Jean-Pierre Jeunet',
+    Plot: 'Despite being caught in her imaginative world, Amélie decides to help people find happiness.',
+    Language: 'French, Russian',
+    Country: 'France, Germany',
+    imdbRating: '8.3',
+    imdbVotes: '800,000',
+  }),
+];
+
+const BREAKING_BAD_ID = 'tt0903747';
+
+const SERIES: OMDbMovie[] = [
+  title({
+    Title: 'Breaking Bad',
+    Year: '2008–2013',
+    imdbID: BREAKING_BAD_ID,
+    Type: 'series',
+    Rated: 'TV-MA',
+    Released: '20 Jan 2008',
+    Runtime: '49 min',
+    Genre: 'Crime, Drama, Thriller',
+    Writer: 'Vince Gilligan',
+    Actors: 'Bryan Cranston, Aaron Paul, Anna Gunn',
+    Plot: 'A chemistry teacher diagnosed with inoperable lung cancer turns to manufacturing and selling methamphetamine with a former student in order to secure his family\'s future.',
+    imdbRating: '9.5',
+    imdbVotes: '2,200,000',
+    totalSeasons: '5',
+  }),
+  title({
+    Title: 'Batman: The Animated Series',
+    Year: '1992–1995',
+    imdbID: 'tt0103359',
+    Type: 'series',
+    Rated: 'TV-PG',
+    Released: '05 Sep 1992',
+    Runtime: '23 min',
+    Genre: 'Animation, Action, Adventure',
+    Plot: 'The Dark Knight battles crime in Gotham City with occasional help from Robin and Batgirl.',
+    imdbRating: '9.0',
+    imdbVotes: '120,000',
+    totalSeasons: '4',
+  }),
+];
+
+// Only the first season of Breaking Bad is in the catalogue; other seasons are "not found"
+const EPISODES: OMDbMovie[] = [
+  episode(BREAKING_BAD_ID, 1, { Title: 'Pilot', Year: '2008', imdbID: 'tt0959621', Episode: '1', Released: '20 Jan 2008', imdbRating: '9.0', Runtime: '58 min' }),
+  episode(BREAKING_BAD_ID, 1, { Title: 'Cat\'s in the Bag...', Year: '2008', imdbID: 'tt1054724', Episode: '2', Released: '27 Jan 2008', imdbRating: '8.6' }),
+  episode(BREAKING_BAD_ID, 1, { Title: '...And the Bag\'s in the River', Year: '2008', imdbID: 'tt1054725', Episode: '3', Released: '10 Feb 2008', imdbRating: '8.7' }),
+  episode(BREAKING_BAD_ID, 1, { Title: 'Cancer Man', Year: '2008', imdbID: 'tt1054726', Episode: '4', Released: '17 Feb 2008', imdbRating: '8.2' }),
+  episode(BREAKING_BAD_ID, 1, { Title: 'Gray Matter', Year: '2008', imdbID: 'tt1054727', Episode: '5', Released: '24 Feb 2008', imdbRating: '8.3' }),
+  episode(BREAKING_BAD_ID, 1, { Title: 'Crazy Handful of Nothin\'', Year: '2008', imdbID: 'tt1054728', Episode: '6', Released: '02 Mar 2008', imdbRating: '9.3' }),
+  episode(BREAKING_BAD_ID, 1, { Title: 'A No-Rough-Stuff-Type Deal', Year: '2008', imdbID: 'tt1054729', Episode: '7', Released: '09 Mar 2008', imdbRating: '8.8' }),
+];
+
+/**
+ * Titles dated this year and next, so the homepage sections (which search for "movie" and "series"
+ * in the current and next year) have something to show whenever the catalogue is used
+ * @param currentYear - Year the release calendar is built around
+ */
+export const createReleaseCalendarFixtures = (currentYear: number = new Date().getFullYear()): OMDbMovie[] => [
+  title({
+    Title: 'The Fixture Movie',
+    Year: String(currentYear),
+    imdbID: 'tt9900001',
+    Released: `14 Feb ${currentYear}`,
+    Runtime: '112 min',
+    Genre: 'Comedy, Romance',
+    Plot: 'Two developers fall for each other while writing the same test data.',
+    imdbRating: '7.4',
+    imdbVotes: '12,000',
+  }),
+  title({
+    Title: 'Movie Night in Gotham',
+    Year: String(currentYear),
+    imdbID: 'tt9900002',
+    Released: `03 Jul ${currentYear}`,
+    Runtime: '128 min',
+    Genre: 'Action, Crime',
+    Plot: 'A cinema projectionist uncovers a heist planned for the city\'s biggest premiere.',
+    imdbRating: '6.8',
+    imdbVotes: '8,500',
+  }),
+  title({
+    Title: 'The Upcoming Movie',
+    Year: String(currentYear + 1),
+    imdbID: 'tt9900003',
+    Released: `20 Mar ${currentYear + 1}`,
+    Genre: 'Sci-Fi',
+    Plot: 'A film about a film that has not been released yet.',
+  }),
+  title({
+    Title: 'The Series Finale',
+    Year: `${currentYear}–`,
+    imdbID: 'tt9900004',
+    Type: 'series',
+    Released: `09 Jan ${currentYear}`,
+    Runtime: '42 min',
+    Genre: 'Drama',
+    Plot: 'Writers of a long-running series try to end it without upsetting anyone.',
+    imdbRating: '8.1',
+    imdbVotes: '4,200',
+    totalSeasons: '1',
+  }),
+];
+
+/**
+ * The default catalogue: a handful of well-known movies and series, one season of episodes
+ * and a release calendar around the current year
+ */
+export const createDefaultCatalogue = (currentYear?: number): MockOMDbCatalogue => ({
+  titles: [...MOVIES, ...SERIES, ...EPISODES, ...createReleaseCalendarFixtures(currentYear)],
+});
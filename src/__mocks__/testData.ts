@@ -1,5 +1,5 @@
-import { type Movie, type HeroMovie, type MovieSection } from '../types/movie.types';
-import { type OMDbMovie, type OMDbSearchResponse } from '../types/omdb.types';
+import { type Movie, type HeroMovie, type MovieSection, type TvShowDetails, type Season, type EpisodeDetails } from '../types/movie.types';
+import { type OMDbMovie, type OMDbSearchResponse, type OMDbSeasonResponse } from '../types/omdb.types';
 
 // ============================================================================
 // COMMON MOCK DATA
@@ -77,6 +77,68 @@ export const mockHomePageData = {
   sections: [mockSection],
 };
 
+// ============================================================================
+// TV SHOW MOCK DATA
+// ============================================================================
+
+export const mockOMDbSeries: OMDbMovie = {
+  ...mockOMDbMovie,
+  Title: 'Test Show',
+  imdbID: 'tt0903747',
+  Type: 'series',
+  totalSeasons: '2',
+};
+
+export const mockOMDbSeasonResponse: OMDbSeasonResponse = {
+  Title: 'Test Show',
+  Season: '1',
+  totalSeasons: '2',
+  Episodes: [
+    { Title: 'Pilot', Released: '2008-01-20', Episode: '1', imdbRating: '9.0', imdbID: 'tt0959621' },
+    { Title: 'Second Episode', Released: '2008-01-27', Episode: '2', imdbRating: 'N/A', imdbID: 'tt1054724' },
+  ],
+  Response: 'True',
+};
+
+export const mockOMDbEpisode: OMDbMovie = {
+  ...mockOMDbMovie,
+  Title: 'Pilot',
+  Released: '20 Jan 2008',
+  Runtime: '58 min',
+  Plot: 'Test episode plot',
+  imdbRating: '9.0',
+  imdbID: 'tt0959621',
+  Type: 'episode',
+  seriesID: 'tt0903747',
+  Season: '1',
+  Episode: '1',
+};
+
+export const mockTvShowDetails: TvShowDetails = {
+  ...mockHeroMovie,
+  id: 'tt0903747',
+  title: 'Test Show',
+  original_title: 'Test Show',
+  total_seasons: 2,
+};
+
+export const mockSeason: Season = {
+  season_number: 1,
+  total_seasons: 2,
+  episodes: [
+    { id: 'tt0959621', title: 'Pilot', season_number: 1, episode_number: 1, air_date: '2008-01-20', vote_average: 9.0 },
+    { id: 'tt1054724', title: 'Second Episode', season_number: 1, episode_number: 2, air_date: '2008-01-27', vote_average: 0 },
+  ],
+};
+
+export const mockEpisodeDetails: EpisodeDetails = {
+  ...mockSeason.episodes[0],
+  air_date: '20 Jan 2008',
+  overview: 'Test episode plot',
+  still_path: '/movie.jpg',
+  runtime: 58,
+};
+
 // ============================================================================
 // COMMON MOCK CONFIGURATIONS
 // ============================================================================
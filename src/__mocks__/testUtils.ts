@@ -1,10 +1,19 @@
 import { QueryClient } from '@tanstack/react-query';
 import { configureStore } from '@reduxjs/toolkit';
 import { vi } from 'vitest';
-import { moviesReducer } from '../store/slices/moviesSlice';
 import { uiReducer } from '../store/slices/uiSlice';
 import { filterReducer } from '../store/slices/filterSlice';
-import { mockOMDbMovie, mockHeroMovie, mockOMDbSearchResponse } from './testData';
+import { watchlistReducer } from '../store/slices/watchlistSlice';
+import { searchHistoryReducer } from '../store/slices/searchHistorySlice';
+import {
+  mockMovie,
+  mockOMDbMovie,
+  mockHeroMovie,
+  mockOMDbSearchResponse,
+  mockTvShowDetails,
+  mockSeason,
+  mockEpisodeDetails,
+} from './testData';
 
 // ============================================================================
 // HELPER FUNCTIONS
@@ -25,9 +34,10 @@ export const createQueryClient = (options = {}) => {
 export const createTestStore = () => {
   return configureStore({
     reducer: {
-      movies: moviesReducer,
       ui: uiReducer,
       filter: filterReducer,
+      watchlist: watchlistReducer,
+      searchHistory: searchHistoryReducer,
     },
   });
 };
@@ -41,7 +51,16 @@ export const mockOMDbServiceInstance = {
   getTopRatedMovies: vi.fn(),
   getUpcomingMovies: vi.fn(),
   getMovieDetails: vi.fn(),
+  getMovieSummary: vi.fn(),
+  getMovieById: vi.fn(),
+  search: vi.fn(),
   searchMovies: vi.fn(),
+  searchSeries: vi.fn(),
+  getPopularTvShows: vi.fn(),
+  getTvShowDetails: vi.fn(),
+  getTvShowSeason: vi.fn(),
+  getTvShowEpisode: vi.fn(),
+  updateApiKey: vi.fn(),
 };
 
 export const mockApiServiceInstance = {
@@ -106,7 +125,13 @@ export const mockSuccessfulApiResponse = () => {
   mockOMDbServiceInstance.getTopRatedMovies.mockResolvedValue({ results: [mockOMDbMovie] });
   mockOMDbServiceInstance.getUpcomingMovies.mockResolvedValue({ results: [mockOMDbMovie] });
   mockOMDbServiceInstance.getMovieDetails.mockResolvedValue(mockHeroMovie);
+  mockOMDbServiceInstance.search.mockResolvedValue({ results: [mockMovie], totalResults: 1, hasMore: false });
   mockOMDbServiceInstance.searchMovies.mockResolvedValue(mockOMDbSearchResponse);
+  mockOMDbServiceInstance.searchSeries.mockResolvedValue(mockOMDbSearchResponse);
+  mockOMDbServiceInstance.getPopularTvShows.mockResolvedValue({ results: [mockOMDbMovie] });
+  mockOMDbServiceInstance.getTvShowDetails.mockResolvedValue(mockTvShowDetails);
+  mockOMDbServiceInstance.getTvShowSeason.mockResolvedValue(mockSeason);
+  mockOMDbServiceInstance.getTvShowEpisode.mockResolvedValue(mockEpisodeDetails);
 };
 
 export const mockApiError = (errorMessage = 'Network Error') => {
@@ -115,6 +140,7 @@ export const mockApiError = (errorMessage = 'Network Error') => {
   mockOMDbServiceInstance.getTopRatedMovies.mockRejectedValue(error);
   mockOMDbServiceInstance.getUpcomingMovies.mockRejectedValue(error);
   mockOMDbServiceInstance.getMovieDetails.mockRejectedValue(error);
+  mockOMDbServiceInstance.search.mockRejectedValue(error);
   mockOMDbServiceInstance.searchMovies.mockRejectedValue(error);
 };
 
@@ -123,5 +149,6 @@ export const mockEmptyApiResponse = () => {
   mockOMDbServiceInstance.getTopRatedMovies.mockResolvedValue({ results: [] });
   mockOMDbServiceInstance.getUpcomingMovies.mockResolvedValue({ results: [] });
   mockOMDbServiceInstance.getMovieDetails.mockResolvedValue(null);
+  mockOMDbServiceInstance.search.mockResolvedValue({ results: [], totalResults: 0, hasMore: false });
   mockOMDbServiceInstance.searchMovies.mockResolvedValue({ Search: [], totalResults: '0', Response: 'False' });
 };
@@ -3,6 +3,8 @@ export const mockEnv = {
   VITE_OMDB_API_KEY: 'test-api-key',
   VITE_OMDB_BASE_URL: 'https://www.omdbapi.com',
   VITE_API_TIMEOUT: '10000',
+  VITE_OMDB_REQUESTS_PER_SECOND: '5',
+  VITE_MOVIE_PROVIDER: 'omdb',
   MODE: 'test',
   DEV: false,
   PROD: false,
@@ -0,0 +1,82 @@
+import { render, screen, fireEvent } from '@testing-library/react';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import '@testing-library/jest-dom';
+import { ContentRatingFilter } from './ContentRatingFilter';
+
+describe('ContentRatingFilter', () => {
+  const mockContentRatings = ['G', 'PG', 'PG-13', 'R'];
+
+  const mockOnContentRatingToggle = vi.fn();
+  const mockOnClearAll = vi.fn();
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('Rendering', () => {
+    it('GIVEN ContentRatingFilter with selected ratings WHEN rendered THEN should list every rating and mark the selected ones', () => {
+      // GIVEN & WHEN
+      render(
+        <ContentRatingFilter
+          contentRatings={mockContentRatings}
+          selectedContentRatings={['PG-13']}
+          onContentRatingToggle={mockOnContentRatingToggle}
+          onClearAll={mockOnClearAll}
+        />
+      );
+
+      // THEN
+      expect(screen.getByText('Rated')).toBeInTheDocument();
+      expect(screen.getAllByRole('button', { name: /content rating$/ })).toHaveLength(4);
+      expect(screen.getByLabelText('Select PG-13 content rating')).toHaveAttribute('aria-pressed', 'true');
+      expect(screen.getByLabelText('Select PG-13 content rating')).toHaveClass('content-rating-filter__item--active');
+      expect(screen.getByLabelText('Select PG content rating')).toHaveAttribute('aria-pressed', 'false');
+    });
+
+    it('GIVEN ContentRatingFilter without ratings WHEN rendered THEN should display the empty state', () => {
+      // GIVEN & WHEN
+      render(<ContentRatingFilter contentRatings={[]} selectedContentRatings={[]} />);
+
+      // THEN
+      expect(screen.getByText('No content ratings available')).toBeInTheDocument();
+    });
+  });
+
+  describe('Interactions', () => {
+    it('GIVEN ContentRatingFilter WHEN a rating is clicked THEN should call onContentRatingToggle with it', () => {
+      // GIVEN
+      render(
+        <ContentRatingFilter
+          contentRatings={mockContentRatings}
+          selectedContentRatings={[]}
+          onContentRatingToggle={mockOnContentRatingToggle}
+          onClearAll={mockOnClearAll}
+        />
+      );
+
+      // WHEN
+      fireEvent.click(screen.getByLabelText('Select R content rating'));
+
+      // THEN
+      expect(mockOnContentRatingToggle).toHaveBeenCalledWith('R');
+    });
+
+    it('GIVEN ContentRatingFilter WHEN Clear All is clicked THEN should call onClearAll', () => {
+      // GIVEN
+      render(
+        <ContentRatingFilter
+          contentRatings={mockContentRatings}
+          selectedContentRatings={['G']}
+          onContentRatingToggle={mockOnContentRatingToggle}
+          onClearAll={mockOnClearAll}
+        />
+      );
+
+      // WHEN
+      fireEvent.click(screen.getByLabelText('Clear all content rating selections'));
+
+      // THEN
+      expect(mockOnClearAll).toHaveBeenCalledTimes(1);
+    });
+  });
+});
@@ -0,0 +1,72 @@
+import React from 'react';
+import { type ContentRatingFilterProps } from '../../types/movie.types';
+import { formatResultCount } from '../../utils/filterUtils';
+import './ContentRatingFilter.css';
+
+export const ContentRatingFilter: React.FC<ContentRatingFilterProps> = ({
+  contentRatings,
+  selectedContentRatings,
+  counts,
+  onContentRatingToggle,
+  onClearAll,
+}) => {
+  const handleContentRatingClick = (contentRating: string) => {
+    onContentRatingToggle?.(contentRating);
+  };
+
+  const handleClearAll = () => {
+    onClearAll?.();
+  };
+
+  return (
+    <div className="content-rating-filter">
+      <div className="content-rating-filter__header">
+        <h4 className="content-rating-filter__title">Rated</h4>
+        <div className="content-rating-filter__actions">
+          <button
+            type="button"
+            className="content-rating-filter__action"
+            onClick={handleClearAll}
+            aria-label="Clear all content rating selections"
+          >
+            Clear All
+          </button>
+        </div>
+      </div>
+
+      {contentRatings.length === 0 ? (
+        <div className="content-rating-filter__empty">
+          <p>No content ratings available</p>
+        </div>
+      ) : (
+        <ul className="content-rating-filter__list" role="list" aria-label="Select content ratings">
+          {contentRatings.map((contentRating) => {
+            const isSelected = selectedContentRatings.includes(contentRating);
+            const count = counts ? counts[contentRating] ?? 0 : undefined;
+
+            return (
+              <li key={contentRating} className="content-rating-filter__item">
+                <button
+                  type="button"
+                  className={`content-rating-filter__item-button ${isSelected ? 'content-rating-filter__item--active' : ''}`}
+                  onClick={() => handleContentRatingClick(contentRating)}
+                  disabled={count === 0 && !isSelected}
+                  aria-label={`Select ${contentRating} content rating${count === undefined ? '' : `, ${formatResultCount(count)}`}`}
+                  aria-pressed={isSelected}
+                >
+                  <span className="content-rating-filter__item-text">{contentRating}</span>
+                  {count !== undefined && <span className="content-rating-filter__item-count">{count}</span>}
+                  {isSelected && (
+                    <span className="content-rating-filter__item-check" aria-hidden="true">
+                      ✓
+                    </span>
+                  )}
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
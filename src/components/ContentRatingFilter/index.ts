@@ -0,0 +1 @@
+export { ContentRatingFilter } from './ContentRatingFilter';
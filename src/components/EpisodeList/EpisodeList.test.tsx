@@ -0,0 +1,80 @@
+import { render, screen, fireEvent } from '@testing-library/react';
+import { vi, describe, it, expect } from 'vitest';
+import '@testing-library/jest-dom';
+import { EpisodeList } from './EpisodeList';
+import { type Episode } from '../../types/movie.types';
+
+describe('EpisodeList', () => {
+  const mockEpisodes: Episode[] = [
+    {
+      id: 'tt0959621',
+      title: 'Pilot',
+      season_number: 1,
+      episode_number: 1,
+      air_date: '2008-01-20',
+      vote_average: 9.0,
+    },
+    {
+      id: 'tt1054724',
+      title: "Cat's in the Bag...",
+      season_number: 1,
+      episode_number: 2,
+      air_date: 'N/A',
+      vote_average: 0,
+    },
+  ];
+
+  describe('Rendering', () => {
+    it('GIVEN a list of episodes WHEN rendered THEN should display each episode with its metadata', () => {
+      // GIVEN
+      const episodes = mockEpisodes;
+
+      // WHEN
+      render(<EpisodeList episodes={episodes} />);
+
+      // THEN
+      expect(screen.getByRole('button', { name: 'Episode 1: Pilot' })).toBeInTheDocument();
+      expect(screen.getByRole('button', { name: "Episode 2: Cat's in the Bag..." })).toBeInTheDocument();
+      expect(screen.getByText('2008-01-20')).toBeInTheDocument();
+      expect(screen.getByText('9.0/10')).toBeInTheDocument();
+      expect(screen.getByText('N/A')).toBeInTheDocument();
+    });
+
+    it('GIVEN no episodes WHEN rendered THEN should display the empty message', () => {
+      // GIVEN
+      const episodes: Episode[] = [];
+
+      // WHEN
+      render(<EpisodeList episodes={episodes} />);
+
+      // THEN
+      expect(screen.getByTestId('episode-list-empty')).toHaveTextContent('No episodes available for this season.');
+    });
+
+    it('GIVEN a selected episode WHEN rendered THEN should mark it as pressed', () => {
+      // GIVEN
+      const selectedEpisode = 2;
+
+      // WHEN
+      render(<EpisodeList episodes={mockEpisodes} selectedEpisode={selectedEpisode} />);
+
+      // THEN
+      expect(screen.getByRole('button', { name: 'Episode 1: Pilot' })).toHaveAttribute('aria-pressed', 'false');
+      expect(screen.getByRole('button', { name: "Episode 2: Cat's in the Bag..." })).toHaveAttribute('aria-pressed', 'true');
+    });
+  });
+
+  describe('User Interactions', () => {
+    it('GIVEN an episode list WHEN clicking an episode THEN should call onEpisodeSelect with the episode', () => {
+      // GIVEN
+      const mockOnEpisodeSelect = vi.fn();
+      render(<EpisodeList episodes={mockEpisodes} onEpisodeSelect={mockOnEpisodeSelect} />);
+
+      // WHEN
+      fireEvent.click(screen.getByRole('button', { name: 'Episode 1: Pilot' }));
+
+      // THEN
+      expect(mockOnEpisodeSelect).toHaveBeenCalledWith(mockEpisodes[0]);
+    });
+  });
+});
@@ -0,0 +1,51 @@
+import React from 'react';
+import { type EpisodeListProps } from '../../types/movie.types';
+import './EpisodeList.css';
+
+/**
+ * EpisodeList component that renders the episodes of a TV show season
+ */
+export const EpisodeList: React.FC<EpisodeListProps> = ({
+  episodes,
+  selectedEpisode = null,
+  onEpisodeSelect,
+}) => {
+  if (episodes.length === 0) {
+    return (
+      <p className="episode-list__empty" data-testid="episode-list-empty">
+        No episodes available for this season.
+      </p>
+    );
+  }
+
+  return (
+    <ol className="episode-list" data-testid="episode-list" aria-label="Episodes">
+      {episodes.map((episode) => {
+        const isSelected = selectedEpisode === episode.episode_number;
+
+        return (
+          <li key={episode.id} className="episode-list__item">
+            <button
+              type="button"
+              className={`episode-list__button ${isSelected ? 'episode-list__button--active' : ''}`}
+              onClick={() => onEpisodeSelect?.(episode)}
+              aria-pressed={isSelected}
+              aria-label={`Episode ${episode.episode_number}: ${episode.title}`}
+            >
+              <span className="episode-list__number">{episode.episode_number}</span>
+              <span className="episode-list__title">{episode.title}</span>
+              <span className="episode-list__meta">
+                {episode.air_date !== 'N/A' && (
+                  <span className="episode-list__air-date">{episode.air_date}</span>
+                )}
+                <span className="episode-list__rating">
+                  {episode.vote_average > 0 ? `${episode.vote_average.toFixed(1)}/10` : 'N/A'}
+                </span>
+              </span>
+            </button>
+          </li>
+        );
+      })}
+    </ol>
+  );
+};
@@ -0,0 +1 @@
+export { EpisodeList } from './EpisodeList';
@@ -0,0 +1,101 @@
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import '@testing-library/jest-dom';
+import { FilterPresetPicker } from './FilterPresetPicker';
+import { type FilterPreset } from '../../types/movie.types';
+import { DEFAULT_MOVIE_FILTERS } from '../../utils/filterUtils';
+
+describe('FilterPresetPicker', () => {
+  const mockPresets: FilterPreset[] = [
+    {
+      id: 'preset-1',
+      name: 'French dramas',
+      filters: { ...DEFAULT_MOVIE_FILTERS, selectedGenres: [3], selectedLanguages: ['fr'] },
+      createdAt: 1,
+    },
+    {
+      id: 'preset-2',
+      name: 'Newest first',
+      filters: { ...DEFAULT_MOVIE_FILTERS, sortBy: 'release_date' },
+      createdAt: 2,
+    },
+  ];
+
+  const mockOnSavePreset = vi.fn();
+  const mockOnApplyPreset = vi.fn();
+  const mockOnDeletePreset = vi.fn();
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('GIVEN no presets WHEN rendered THEN should show the empty state and a disabled save button', () => {
+    // GIVEN & WHEN
+    render(<FilterPresetPicker presets={[]} onSavePreset={mockOnSavePreset} />);
+
+    // THEN
+    expect(screen.getByText('No saved presets yet')).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'Save preset' })).toBeDisabled();
+  });
+
+  it('GIVEN saved presets WHEN rendered THEN should list them with a summary and mark the active one', () => {
+    // GIVEN & WHEN
+    render(<FilterPresetPicker presets={mockPresets} activePresetId="preset-1" />);
+
+    // THEN
+    const activeButton = screen.getByRole('button', { name: /^French dramas/ });
+    expect(activeButton).toHaveAttribute('aria-pressed', 'true');
+    expect(activeButton).toHaveTextContent('Drama • French');
+    expect(screen.getByRole('button', { name: /^Newest first/ })).toHaveAttribute('aria-pressed', 'false');
+  });
+
+  it('GIVEN a typed name WHEN saving THEN should call onSavePreset and clear the input', async () => {
+    // GIVEN
+    const user = userEvent.setup();
+    render(<FilterPresetPicker presets={[]} onSavePreset={mockOnSavePreset} />);
+
+    // WHEN
+    await user.type(screen.getByLabelText('Preset name'), 'Weekend picks');
+    await user.click(screen.getByRole('button', { name: 'Save preset' }));
+
+    // THEN
+    expect(mockOnSavePreset).toHaveBeenCalledWith('Weekend picks');
+    expect(screen.getByLabelText('Preset name')).toHaveValue('');
+  });
+
+  it('GIVEN saved presets WHEN applying and deleting one THEN should call the handlers with its id', async () => {
+    // GIVEN
+    const user = userEvent.setup();
+    render(
+      <FilterPresetPicker
+        presets={mockPresets}
+        onApplyPreset={mockOnApplyPreset}
+        onDeletePreset={mockOnDeletePreset}
+      />
+    );
+
+    // WHEN
+    await user.click(screen.getByRole('button', { name: /^Newest first/ }));
+    await user.click(screen.getByRole('button', { name: 'Delete preset French dramas' }));
+
+    // THEN
+    expect(mockOnApplyPreset).toHaveBeenCalledWith('preset-2');
+    expect(mockOnDeletePreset).toHaveBeenCalledWith('preset-1');
+  });
+
+  it('GIVEN a share URL builder WHEN copying a preset link THEN should copy the URL for its filter token', async () => {
+    // GIVEN
+    const user = userEvent.setup();
+    const getShareUrl = vi.fn((token: string) => `https://thoughtflix.test/search?f=${token}`);
+    render(<FilterPresetPicker presets={mockPresets} getShareUrl={getShareUrl} />);
+
+    // WHEN
+    await user.click(screen.getByRole('button', { name: 'Copy link to preset French dramas' }));
+
+    // THEN
+    expect(getShareUrl).toHaveBeenCalledWith('g3~lfr');
+    expect(await navigator.clipboard.readText()).toBe('https://thoughtflix.test/search?f=g3~lfr');
+    expect(screen.getByRole('button', { name: 'Copy link to preset French dramas' })).toHaveTextContent('Link copied');
+  });
+});
@@ -0,0 +1,102 @@
+import React, { useState } from 'react';
+import { type FilterPreset, type FilterPresetPickerProps } from '../../types/movie.types';
+import { encodeFiltersToken, getFilterSummary } from '../../utils/filterUtils';
+import { GENRES } from '../../utils/genreRegistry';
+import { LANGUAGES } from '../../utils/localeRegistry';
+import './FilterPresetPicker.css';
+
+export const FilterPresetPicker: React.FC<FilterPresetPickerProps> = ({
+  presets,
+  activePresetId = null,
+  onSavePreset,
+  onApplyPreset,
+  onDeletePreset,
+  getShareUrl,
+}) => {
+  const [presetName, setPresetName] = useState('');
+  const [copiedPresetId, setCopiedPresetId] = useState<string | null>(null);
+
+  const handleSubmit = (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!presetName.trim()) return;
+
+    onSavePreset?.(presetName);
+    setPresetName('');
+  };
+
+  const handleCopyLink = async (preset: FilterPreset) => {
+    if (!getShareUrl) return;
+
+    try {
+      await navigator.clipboard.writeText(getShareUrl(encodeFiltersToken(preset.filters)));
+      setCopiedPresetId(preset.id);
+    } catch {
+      // Clipboard access can be denied; keep the plain "Copy link" label
+      setCopiedPresetId(null);
+    }
+  };
+
+  return (
+    <div className="filter-preset-picker">
+      {presets.length === 0 ? (
+        <p className="filter-preset-picker__empty">No saved presets yet</p>
+      ) : (
+        <ul className="filter-preset-picker__list" role="list" aria-label="Saved filter presets">
+          {presets.map((preset) => {
+            // Presets may name genres and languages missing from the current results, so use the full registries
+            const summary = getFilterSummary(preset.filters, GENRES, LANGUAGES);
+            const isActive = preset.id === activePresetId;
+
+            return (
+              <li key={preset.id} className="filter-preset-picker__item">
+                <button
+                  type="button"
+                  className={`filter-preset-picker__apply ${isActive ? 'filter-preset-picker__apply--active' : ''}`}
+                  onClick={() => onApplyPreset?.(preset.id)}
+                  aria-pressed={isActive}
+                  title={summary}
+                >
+                  <span className="filter-preset-picker__name">{preset.name}</span>
+                  <span className="filter-preset-picker__summary">{summary}</span>
+                </button>
+                {getShareUrl && (
+                  <button
+                    type="button"
+                    className="filter-preset-picker__action"
+                    onClick={() => handleCopyLink(preset)}
+                    aria-label={`Copy link to preset ${preset.name}`}
+                  >
+                    {copiedPresetId === preset.id ? 'Link copied' : 'Copy link'}
+                  </button>
+                )}
+                <button
+                  type="button"
+                  className="filter-preset-picker__action"
+                  onClick={() => onDeletePreset?.(preset.id)}
+                  aria-label={`Delete preset ${preset.name}`}
+                >
+                  Delete
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      <form className="filter-preset-picker__form" onSubmit={handleSubmit}>
+        <input
+          type="text"
+          className="filter-preset-picker__input"
+          value={presetName}
+          onChange={(event) => setPresetName(event.target.value)}
+          placeholder="Name these filters"
+          aria-label="Preset name"
+          maxLength={40}
+        />
+        <button type="submit" className="filter-preset-picker__action" disabled={!presetName.trim()}>
+          Save preset
+        </button>
+      </form>
+    </div>
+  );
+};
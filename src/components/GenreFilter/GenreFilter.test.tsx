@@ -92,6 +92,27 @@ describe('GenreFilter', () => {
     });
   });
 
+  describe('Result Counts', () => {
+    it('GIVEN GenreFilter with counts WHEN rendered THEN should show them and disable genres without results', () => {
+      // GIVEN & WHEN
+      render(
+        <GenreFilter
+          genres={mockGenres}
+          selectedGenres={[3]}
+          counts={{ 1: 4, 2: 1 }}
+          onGenreToggle={vi.fn()}
+        />
+      );
+
+      // THEN
+      expect(screen.getByLabelText('Select Action genre, 4 titles')).toHaveTextContent('Action4');
+      expect(screen.getByLabelText('Select Comedy genre, 1 title')).toBeEnabled();
+      expect(screen.getByLabelText('Select Horror genre, 0 titles')).toBeDisabled();
+      // A selected genre can still be deselected when nothing matches it
+      expect(screen.getByLabelText('Deselect Drama genre, 0 titles')).toBeEnabled();
+    });
+  });
+
   describe('Genre Selection', () => {
     it('GIVEN GenreFilter WHEN genre button is clicked THEN should call onGenreToggle with genre ID', () => {
       // GIVEN
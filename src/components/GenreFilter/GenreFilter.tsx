@@ -1,10 +1,12 @@
 import React from 'react';
 import { type GenreFilterProps } from '../../types/movie.types';
+import { formatResultCount } from '../../utils/filterUtils';
 import './GenreFilter.css';
 
 export const GenreFilter: React.FC<GenreFilterProps> = ({
   genres,
   selectedGenres,
+  counts,
   onGenreToggle,
   onSelectAll,
   onClearAll,
@@ -58,6 +60,7 @@ export const GenreFilter: React.FC<GenreFilterProps> = ({
       <ul className="genre-filter__list" role="list" aria-label="Select genres">
         {genres.map((genre) => {
           const isSelected = selectedGenres.includes(genre.id);
+          const count = counts ? counts[genre.id] ?? 0 : undefined;
           
           return (
             <li key={genre.id} className="genre-filter__item">
@@ -67,10 +70,14 @@ export const GenreFilter: React.FC<GenreFilterProps> = ({
                   isSelected ? 'genre-filter__item--active' : ''
                 }`}
                 onClick={() => handleGenreClick(genre.id)}
+                disabled={count === 0 && !isSelected}
                 aria-pressed={isSelected}
-                aria-label={`${isSelected ? 'Deselect' : 'Select'} ${genre.name} genre`}
+                aria-label={`${isSelected ? 'Deselect' : 'Select'} ${genre.name} genre${
+                  count === undefined ? '' : `, ${formatResultCount(count)}`
+                }`}
               >
                 <span className="genre-filter__item-text">{genre.name}</span>
+                {count !== undefined && <span className="genre-filter__item-count">{count}</span>}
                 {isSelected && (
                   <span className="genre-filter__item-check" aria-hidden="true">
                     ✓
@@ -1,11 +1,14 @@
 import React from 'react';
 import { type HeroSectionProps } from '../../types/movie.types';
+import { WatchlistButton } from '../WatchlistButton';
 import './HeroSection.css';
 
 export const HeroSection: React.FC<HeroSectionProps> = ({
   movie,
   onPlayClick,
   onMoreInfoClick,
+  isInWatchlist = false,
+  onWatchlistToggle,
 }) => {
   const handlePlayClick = () => {
     onPlayClick?.(movie);
@@ -79,6 +82,13 @@ export const HeroSection: React.FC<HeroSectionProps> = ({
               <span className="hero-button-icon">ℹ</span>
               More Info
             </button>
+            {onWatchlistToggle && (
+              <WatchlistButton
+                isInWatchlist={isInWatchlist}
+                onToggle={() => onWatchlistToggle(movie)}
+                title={movie.title}
+              />
+            )}
           </div>
         </div>
       </div>
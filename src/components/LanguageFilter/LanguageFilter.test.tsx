@@ -93,6 +93,25 @@ describe('LanguageFilter', () => {
     });
   });
 
+  describe('Result Counts', () => {
+    it('GIVEN LanguageFilter with counts WHEN rendered THEN should show them and disable languages without results', () => {
+      // GIVEN & WHEN
+      render(
+        <LanguageFilter
+          languages={mockLanguages}
+          selectedLanguages={['de']}
+          counts={{ en: 12, fr: 1 }}
+          onLanguageToggle={mockOnLanguageToggle}
+        />
+      );
+
+      // THEN
+      expect(screen.getByLabelText('Select English language, 12 titles')).toHaveTextContent('English12');
+      expect(screen.getByLabelText('Select Spanish language, 0 titles')).toBeDisabled();
+      expect(screen.getByLabelText('Select German language, 0 titles')).toBeEnabled();
+    });
+  });
+
   describe('Language Selection', () => {
     it('GIVEN LanguageFilter WHEN language button is clicked THEN should call onLanguageToggle with language code', () => {
       // GIVEN
@@ -1,10 +1,12 @@
 import React from 'react';
 import { type LanguageFilterProps } from '../../types/movie.types';
+import { formatResultCount } from '../../utils/filterUtils';
 import './LanguageFilter.css';
 
 export const LanguageFilter: React.FC<LanguageFilterProps> = ({
   languages,
   selectedLanguages,
+  counts,
   onLanguageToggle,
   onSelectAll,
   onClearAll,
@@ -57,6 +59,7 @@ export const LanguageFilter: React.FC<LanguageFilterProps> = ({
         <ul className="language-filter__list" role="list" aria-label="Select languages">
           {languages.map((language) => {
             const isSelected = isLanguageSelected(language.code);
+            const count = counts ? counts[language.code] ?? 0 : undefined;
 
             return (
               <li key={language.code} className="language-filter__item">
@@ -70,10 +73,12 @@ export const LanguageFilter: React.FC<LanguageFilterProps> = ({
                       handleLanguageClick(language.code);
                     }
                   }}
-                  aria-label={`Select ${language.name} language`}
+                  disabled={count === 0 && !isSelected}
+                  aria-label={`Select ${language.name} language${count === undefined ? '' : `, ${formatResultCount(count)}`}`}
                   aria-pressed={isSelected}
                 >
                   <span className="language-filter__item-text">{language.name}</span>
+                  {count !== undefined && <span className="language-filter__item-count">{count}</span>}
                   {isSelected && (
                     <span className="language-filter__item-check" aria-hidden="true">
                       ✓
@@ -228,6 +228,94 @@ describe('MovieCard Component - Optimized', () => {
     });
   });
 
+  describe('Watchlist Toggle', () => {
+    it('GIVEN MovieCard without onWatchlistToggle WHEN rendering THEN should not display the watchlist button', () => {
+      // GIVEN
+      const props = {
+        movie: mockMovie,
+        onClick: mockOnClick,
+      };
+
+      // WHEN
+      render(<TestWrapper props={props} />);
+
+      // THEN
+      expect(screen.queryByTestId('watchlist-button')).not.toBeInTheDocument();
+    });
+
+    it('GIVEN MovieCard with onWatchlistToggle WHEN clicking the watchlist button THEN should toggle without opening the movie', () => {
+      // GIVEN
+      const mockOnWatchlistToggle = vi.fn();
+      const props = {
+        movie: mockMovie,
+        onClick: mockOnClick,
+        onWatchlistToggle: mockOnWatchlistToggle,
+      };
+
+      // WHEN
+      render(<TestWrapper props={props} />);
+      fireEvent.click(screen.getByRole('button', { name: 'Add Test Movie to My List' }));
+
+      // THEN
+      expect(mockOnWatchlistToggle).toHaveBeenCalledWith(mockMovie);
+      expect(mockOnClick).not.toHaveBeenCalled();
+    });
+
+    it('GIVEN MovieCard for a saved movie WHEN rendering THEN should show the remove action', () => {
+      // GIVEN
+      const props = {
+        movie: mockMovie,
+        onClick: mockOnClick,
+        isInWatchlist: true,
+        onWatchlistToggle: vi.fn(),
+      };
+
+      // WHEN
+      render(<TestWrapper props={props} />);
+
+      // THEN
+      expect(screen.getByRole('button', { name: 'Remove Test Movie from My List' })).toHaveAttribute('aria-pressed', 'true');
+    });
+  });
+
+  describe('Ratings Badge', () => {
+    it('GIVEN a movie with ratings WHEN rendering THEN should show a compact badge per source', () => {
+      // GIVEN
+      const props = {
+        movie: {
+          ...mockMovie,
+          ratings: [
+            { source: 'imdb' as const, value: 8.5, display: '8.5/10' },
+            { source: 'rotten_tomatoes' as const, value: 8.7, display: '87%' },
+          ],
+        },
+        onClick: mockOnClick,
+      };
+
+      // WHEN
+      render(<TestWrapper props={props} />);
+
+      // THEN
+      const badge = screen.getByTestId('movie-ratings-badge');
+      expect(badge).toHaveAttribute('aria-label', 'Ratings: IMDb 8.5/10, Rotten Tomatoes 87%');
+      expect(badge).toHaveTextContent('RT87%');
+    });
+
+    it('GIVEN a movie without ratings WHEN rendering THEN should not show the badge', () => {
+      // GIVEN
+      const props = {
+        movie: mockMovie,
+        onClick: mockOnClick,
+      };
+
+      // WHEN
+      render(<TestWrapper props={props} />);
+
+      // THEN
+      expect(screen.queryByTestId('movie-ratings-badge')).not.toBeInTheDocument();
+    });
+  });
+
   describe('Image Loading', () => {
     it('GIVEN MovieCard component WHEN image loads successfully THEN should display image', () => {
       // GIVEN
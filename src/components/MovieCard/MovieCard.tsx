@@ -1,5 +1,7 @@
 import React, { useCallback, useMemo } from 'react';
 import { type Movie } from '../../types/movie.types';
+import { WatchlistButton } from '../WatchlistButton';
+import { MovieRatings } from '../MovieRatings';
 import './MovieCard.css';
 
 export interface MovieCardProps {
@@ -17,6 +19,10 @@ export interface MovieCardProps {
   readonly loading?: boolean;
   /** Whether to show hover effects */
   readonly hoverable?: boolean;
+  /** Whether the movie is saved in the user's watchlist */
+  readonly isInWatchlist?: boolean;
+  /** Callback function called when the watchlist toggle is clicked */
+  readonly onWatchlistToggle?: (movie: Movie) => void;
 }
 
 // Custom hook for movie card logic
@@ -146,6 +152,8 @@ export const MovieCard: React.FC<MovieCardProps> = React.memo(({
   className = '',
   loading = false,
   hoverable = true,
+  isInWatchlist = false,
+  onWatchlistToggle,
 }) => {
   // Custom hook for movie card logic
   const { posterUrl, releaseYear, truncatedOverview, rating } = useMovieCardLogic(movie);
@@ -164,6 +172,10 @@ export const MovieCard: React.FC<MovieCardProps> = React.memo(({
     }
   }, [handleClick]);
 
+  const handleWatchlistToggle = useCallback(() => {
+    onWatchlistToggle?.(movie);
+  }, [onWatchlistToggle, movie]);
+
   // Memoized computed values
   const cardClasses = useMemo(() => [
     'movie-card',
@@ -201,6 +213,18 @@ export const MovieCard: React.FC<MovieCardProps> = React.memo(({
           loading="lazy"
         />
         {loading && <LoadingOverlay />}
+        {movie.ratings && movie.ratings.length > 0 && (
+          <MovieRatings ratings={movie.ratings} variant="badge" className="movie-card__ratings-badge" />
+        )}
+        {onWatchlistToggle && (
+          <WatchlistButton
+            isInWatchlist={isInWatchlist}
+            onToggle={handleWatchlistToggle}
+            title={movie.title}
+            variant="icon"
+            className="movie-card__watchlist-button"
+          />
+        )}
       </div>
       
       <MovieInfo
@@ -2,7 +2,7 @@ import { render, screen, fireEvent } from '@testing-library/react';
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import '@testing-library/jest-dom';
 import { MovieFilter } from './MovieFilter';
-import { type MovieFilterOptions, type MovieFilters } from '../../types/movie.types';
+import { type FilterFacets, type MovieFilterOptions, type MovieFilters } from '../../types/movie.types';
 
 describe('MovieFilter', () => {
   const mockFilterOptions: MovieFilterOptions = {
@@ -22,7 +22,11 @@ describe('MovieFilter', () => {
   const mockFilters: MovieFilters = {
     selectedGenres: [],
     selectedLanguages: [],
-    selectedReleaseYears: [],
+    releaseYearRange: null,
+    selectedDecades: [],
+    minRating: null,
+    runtimeBand: null,
+    selectedContentRatings: [],
     sortBy: 'popularity',
     sortOrder: 'desc',
   };
@@ -107,6 +111,38 @@ describe('MovieFilter', () => {
       // THEN
       expect(screen.getByText('42 results')).toBeInTheDocument();
     });
+
+    it('GIVEN MovieFilter with facets WHEN rendered THEN should pass the counts to the option filters', () => {
+      // GIVEN
+      const facets: FilterFacets = {
+        genres: { 28: 3 },
+        languages: { en: 2, es: 1 },
+        decades: {},
+        minRatings: {},
+        runtimeBands: {},
+        contentRatings: {},
+      };
+
+      // WHEN
+      render(
+        <MovieFilter
+          isOpen={true}
+          onToggle={vi.fn()}
+          filters={mockFilters}
+          availableOptions={mockFilterOptions}
+          facets={facets}
+          onFiltersChange={mockOnFiltersChange}
+          onClearFilters={mockOnClearFilters}
+          onApplyFilters={mockOnApplyFilters}
+          resultCount={3}
+        />
+      );
+
+      // THEN
+      expect(screen.getByLabelText('Select Action genre, 3 titles')).toBeEnabled();
+      expect(screen.getByLabelText('Select Animation genre, 0 titles')).toBeDisabled();
+      expect(screen.getByLabelText('Select Spanish language, 1 title')).toBeEnabled();
+    });
   });
 
   describe('Filter Interactions', () => {
@@ -170,7 +206,127 @@ describe('MovieFilter', () => {
       });
     });
 
-    it('GIVEN MovieFilter WHEN year is selected THEN should call onFiltersChange', () => {
+    it('GIVEN MovieFilter WHEN decade is selected THEN should call onFiltersChange', () => {
+      // GIVEN
+      const isOpen = true;
+
+      render(
+        <MovieFilter
+          isOpen={isOpen}
+          onToggle={vi.fn()}
+          filters={mockFilters}
+          availableOptions={mockFilterOptions}
+          onFiltersChange={mockOnFiltersChange}
+          onClearFilters={mockOnClearFilters}
+          onApplyFilters={mockOnApplyFilters}
+          resultCount={0}
+        />
+      );
+
+      const decadeButton = screen.getByLabelText('Select the 2020s');
+
+      // WHEN
+      fireEvent.click(decadeButton);
+
+      // THEN
+      expect(mockOnFiltersChange).toHaveBeenCalledTimes(1);
+      expect(mockOnFiltersChange).toHaveBeenCalledWith({
+        ...mockFilters,
+        selectedDecades: [2020],
+      });
+    });
+
+    it('GIVEN MovieFilter WHEN the earliest year is moved THEN should call onFiltersChange', () => {
+      // GIVEN
+      const isOpen = true;
+
+      render(
+        <MovieFilter
+          isOpen={isOpen}
+          onToggle={vi.fn()}
+          filters={mockFilters}
+          availableOptions={mockFilterOptions}
+          onFiltersChange={mockOnFiltersChange}
+          onClearFilters={mockOnClearFilters}
+          onApplyFilters={mockOnApplyFilters}
+          resultCount={0}
+        />
+      );
+
+      const earliestYearSlider = screen.getByLabelText('Earliest release year');
+
+      // WHEN
+      fireEvent.change(earliestYearSlider, { target: { value: '2022' } });
+
+      // THEN
+      expect(mockOnFiltersChange).toHaveBeenCalledTimes(1);
+      expect(mockOnFiltersChange).toHaveBeenCalledWith({
+        ...mockFilters,
+        releaseYearRange: { from: 2022, to: 2024 },
+      });
+    });
+
+    it('GIVEN MovieFilter WHEN minimum rating is selected THEN should call onFiltersChange', () => {
+      // GIVEN
+      const isOpen = true;
+
+      render(
+        <MovieFilter
+          isOpen={isOpen}
+          onToggle={vi.fn()}
+          filters={mockFilters}
+          availableOptions={mockFilterOptions}
+          onFiltersChange={mockOnFiltersChange}
+          onClearFilters={mockOnClearFilters}
+          onApplyFilters={mockOnApplyFilters}
+          resultCount={0}
+        />
+      );
+
+      const rating7Button = screen.getByLabelText('Show titles rated 7 or higher');
+
+      // WHEN
+      fireEvent.click(rating7Button);
+
+      // THEN
+      expect(mockOnFiltersChange).toHaveBeenCalledTimes(1);
+      expect(mockOnFiltersChange).toHaveBeenCalledWith({
+        ...mockFilters,
+        minRating: 7,
+      });
+    });
+
+    it('GIVEN MovieFilter WHEN runtime band is selected THEN should call onFiltersChange', () => {
+      // GIVEN
+      const isOpen = true;
+
+      render(
+        <MovieFilter
+          isOpen={isOpen}
+          onToggle={vi.fn()}
+          filters={mockFilters}
+          availableOptions={mockFilterOptions}
+          onFiltersChange={mockOnFiltersChange}
+          onClearFilters={mockOnClearFilters}
+          onApplyFilters={mockOnApplyFilters}
+          resultCount={0}
+        />
+      );
+
+      const shortRuntimeButton = screen.getByLabelText('Show titles running under 90 min');
+
+      // WHEN
+      fireEvent.click(shortRuntimeButton);
+
+      // THEN
+      expect(mockOnFiltersChange).toHaveBeenCalledTimes(1);
+      expect(mockOnFiltersChange).toHaveBeenCalledWith({
+        ...mockFilters,
+        runtimeBand: 'short',
+      });
+    });
+
+    it('GIVEN MovieFilter WHEN content rating is selected THEN should call onFiltersChange', () => {
       // GIVEN
       const isOpen = true;
 
@@ -187,16 +343,16 @@ describe('MovieFilter', () => {
         />
       );
 
-      const year2021Button = screen.getByLabelText('Select 2021 year');
+      const pg13Button = screen.getByLabelText('Select PG-13 content rating');
 
       // WHEN
-      fireEvent.click(year2021Button);
+      fireEvent.click(pg13Button);
 
       // THEN
       expect(mockOnFiltersChange).toHaveBeenCalledTimes(1);
       expect(mockOnFiltersChange).toHaveBeenCalledWith({
         ...mockFilters,
-        selectedReleaseYears: [2021],
+        selectedContentRatings: ['PG-13'],
       });
     });
 
@@ -341,7 +497,7 @@ describe('MovieFilter', () => {
       // THEN
       expect(screen.getByRole('dialog')).toBeInTheDocument();
       expect(screen.getByLabelText('Close')).toBeInTheDocument();
-      expect(screen.getAllByRole('button', { name: /clear all/i })).toHaveLength(8); // Multiple Clear All buttons
+      expect(screen.getAllByRole('button', { name: /clear all/i })).toHaveLength(12); // Multiple Clear All buttons
       expect(screen.getAllByRole('button', { name: /apply filters/i })).toHaveLength(2); // Two Apply Filters buttons
     });
 
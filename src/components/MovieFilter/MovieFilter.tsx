@@ -1,13 +1,17 @@
 import React, { useRef } from 'react';
-import { type MovieFilterProps } from '../../types/movie.types';
+import { type MovieFilterProps, type RuntimeBand, type YearRange } from '../../types/movie.types';
 import { GenreFilter } from '../GenreFilter';
 import { LanguageFilter } from '../LanguageFilter';
 import { YearFilter } from '../YearFilter';
+import { RatingFilter } from '../RatingFilter';
+import { RuntimeFilter } from '../RuntimeFilter';
+import { ContentRatingFilter } from '../ContentRatingFilter';
 import { SortFilter } from '../SortFilter';
 import { FilterButton } from '../FilterButton';
 import { FilterDropdown } from '../FilterDropdown';
 import { FilterSection } from '../FilterSection';
-import { getFilterCount } from '../../utils/filterUtils';
+import { FilterPresetPicker } from '../FilterPresetPicker';
+import { CONTENT_RATINGS, getFilterCount } from '../../utils/filterUtils';
 import './MovieFilter.css';
 
 export const MovieFilter: React.FC<MovieFilterProps> = ({
@@ -19,6 +23,13 @@ export const MovieFilter: React.FC<MovieFilterProps> = ({
   onClearFilters,
   onApplyFilters,
   resultCount,
+  facets,
+  presets = [],
+  activePresetId,
+  onSavePreset,
+  onApplyPreset,
+  onDeletePreset,
+  getPresetShareUrl,
 }) => {
   const filterRef = useRef<HTMLDivElement>(null);
 
@@ -46,14 +57,46 @@ export const MovieFilter: React.FC<MovieFilterProps> = ({
     });
   };
 
-  const handleYearToggle = (year: number) => {
-    const newSelectedYears = filters.selectedReleaseYears.includes(year)
-      ? filters.selectedReleaseYears.filter(y => y !== year)
-      : [...filters.selectedReleaseYears, year];
+  const handleYearRangeChange = (releaseYearRange: YearRange | null) => {
+    onFiltersChange?.({
+      ...filters,
+      releaseYearRange,
+    });
+  };
+
+  const handleDecadeToggle = (decade: number) => {
+    const newSelectedDecades = filters.selectedDecades.includes(decade)
+      ? filters.selectedDecades.filter(d => d !== decade)
+      : [...filters.selectedDecades, decade];
+
+    onFiltersChange?.({
+      ...filters,
+      selectedDecades: newSelectedDecades,
+    });
+  };
+
+  const handleMinRatingChange = (minRating: number | null) => {
+    onFiltersChange?.({
+      ...filters,
+      minRating,
+    });
+  };
+
+  const handleRuntimeBandChange = (runtimeBand: RuntimeBand | null) => {
+    onFiltersChange?.({
+      ...filters,
+      runtimeBand,
+    });
+  };
+
+  const handleContentRatingToggle = (contentRating: string) => {
+    const newSelectedContentRatings = filters.selectedContentRatings.includes(contentRating)
+      ? filters.selectedContentRatings.filter(rating => rating !== contentRating)
+      : [...filters.selectedContentRatings, contentRating];
 
     onFiltersChange?.({
       ...filters,
-      selectedReleaseYears: newSelectedYears,
+      selectedContentRatings: newSelectedContentRatings,
     });
   };
 
@@ -101,17 +144,18 @@ export const MovieFilter: React.FC<MovieFilterProps> = ({
     });
   };
 
-  const handleYearSelectAll = () => {
+  const handleYearClearAll = () => {
     onFiltersChange?.({
       ...filters,
-      selectedReleaseYears: availableOptions.releaseYears,
+      releaseYearRange: null,
+      selectedDecades: [],
     });
   };
 
-  const handleYearClearAll = () => {
+  const handleContentRatingClearAll = () => {
     onFiltersChange?.({
       ...filters,
-      selectedReleaseYears: [],
+      selectedContentRatings: [],
     });
   };
 
@@ -158,6 +202,17 @@ export const MovieFilter: React.FC<MovieFilterProps> = ({
 
         <div className="movie-filter__content">
           <div className="movie-filter__sections">
+            <FilterSection title="Presets">
+              <FilterPresetPicker
+                presets={presets}
+                activePresetId={activePresetId}
+                onSavePreset={onSavePreset}
+                onApplyPreset={onApplyPreset}
+                onDeletePreset={onDeletePreset}
+                getShareUrl={getPresetShareUrl}
+              />
+            </FilterSection>
+
             <FilterSection
               title="Genres"
               onClearAll={handleGenreClearAll}
@@ -166,6 +221,7 @@ export const MovieFilter: React.FC<MovieFilterProps> = ({
               <GenreFilter
                 genres={availableOptions.genres}
                 selectedGenres={filters.selectedGenres}
+                counts={facets?.genres}
                 onGenreToggle={handleGenreToggle}
                 onSelectAll={handleGenreSelectAll}
                 onClearAll={handleGenreClearAll}
@@ -180,6 +236,7 @@ export const MovieFilter: React.FC<MovieFilterProps> = ({
               <LanguageFilter
                 languages={availableOptions.languages}
                 selectedLanguages={filters.selectedLanguages}
+                counts={facets?.languages}
                 onLanguageToggle={handleLanguageToggle}
                 onSelectAll={handleLanguageSelectAll}
                 onClearAll={handleLanguageClearAll}
@@ -189,17 +246,57 @@ export const MovieFilter: React.FC<MovieFilterProps> = ({
             <FilterSection
               title="Release Year"
               onClearAll={handleYearClearAll}
-              hasSelection={filters.selectedReleaseYears.length > 0}
+              hasSelection={filters.releaseYearRange !== null || filters.selectedDecades.length > 0}
             >
               <YearFilter
                 years={availableOptions.releaseYears}
-                selectedYears={filters.selectedReleaseYears}
-                onYearToggle={handleYearToggle}
-                onSelectAll={handleYearSelectAll}
+                yearRange={filters.releaseYearRange}
+                selectedDecades={filters.selectedDecades}
+                decadeCounts={facets?.decades}
+                onYearRangeChange={handleYearRangeChange}
+                onDecadeToggle={handleDecadeToggle}
                 onClearAll={handleYearClearAll}
               />
             </FilterSection>
 
+            <FilterSection
+              title="Minimum Rating"
+              onClearAll={() => handleMinRatingChange(null)}
+              hasSelection={filters.minRating !== null}
+            >
+              <RatingFilter
+                minRating={filters.minRating}
+                counts={facets?.minRatings}
+                onMinRatingChange={handleMinRatingChange}
+              />
+            </FilterSection>
+
+            <FilterSection
+              title="Runtime"
+              onClearAll={() => handleRuntimeBandChange(null)}
+              hasSelection={filters.runtimeBand !== null}
+            >
+              <RuntimeFilter
+                runtimeBand={filters.runtimeBand}
+                counts={facets?.runtimeBands}
+                onRuntimeBandChange={handleRuntimeBandChange}
+              />
+            </FilterSection>
+
+            <FilterSection
+              title="Rated"
+              onClearAll={handleContentRatingClearAll}
+              hasSelection={filters.selectedContentRatings.length > 0}
+            >
+              <ContentRatingFilter
+                contentRatings={CONTENT_RATINGS}
+                selectedContentRatings={filters.selectedContentRatings}
+                counts={facets?.contentRatings}
+                onContentRatingToggle={handleContentRatingToggle}
+                onClearAll={handleContentRatingClearAll}
+              />
+            </FilterSection>
+
             <FilterSection title="Sort & Order">
               <SortFilter
                 sortBy={filters.sortBy}
@@ -0,0 +1,64 @@
+import { render, screen } from '@testing-library/react';
+import { describe, it, expect } from 'vitest';
+import '@testing-library/jest-dom';
+import { MovieRatings } from './MovieRatings';
+import { type MovieRating } from '../../types/movie.types';
+
+describe('MovieRatings', () => {
+  const ratings: MovieRating[] = [
+    { source: 'imdb', value: 7.8, display: '7.8/10' },
+    { source: 'rotten_tomatoes', value: 8.7, display: '87%' },
+    { source: 'metacritic', value: 7.4, display: '74/100' },
+  ];
+
+  describe('Panel', () => {
+    it('GIVEN ratings from several sources WHEN rendered THEN should list each source with its reported and normalised value', () => {
+      // GIVEN
+      // WHEN
+      render(<MovieRatings ratings={ratings} />);
+
+      // THEN
+      const rottenTomatoes = screen.getByTestId('movie-rating-rotten_tomatoes');
+      expect(rottenTomatoes).toHaveTextContent('Rotten Tomatoes');
+      expect(rottenTomatoes).toHaveTextContent('87%');
+      expect(rottenTomatoes).toHaveTextContent('8.7/10');
+      expect(screen.getByTestId('movie-rating-metacritic')).toHaveTextContent('7.4/10');
+    });
+
+    it('GIVEN a rating WHEN rendered THEN should expose it as a 0–10 meter', () => {
+      // GIVEN
+      // WHEN
+      render(<MovieRatings ratings={ratings} />);
+
+      // THEN
+      const meter = screen.getByRole('meter', { name: 'Metacritic rating' });
+      expect(meter).toHaveAttribute('aria-valuenow', '7.4');
+      expect(meter).toHaveAttribute('aria-valuemax', '10');
+    });
+  });
+
+  describe('Badge', () => {
+    it('GIVEN the badge variant WHEN rendered THEN should show short source labels with a readable summary', () => {
+      // GIVEN
+      // WHEN
+      render(<MovieRatings ratings={ratings} variant="badge" />);
+
+      // THEN
+      const badge = screen.getByTestId('movie-ratings-badge');
+      expect(badge).toHaveAttribute('aria-label', 'Ratings: IMDb 7.8/10, Rotten Tomatoes 87%, Metacritic 74/100');
+      expect(badge).toHaveTextContent('MC74/100');
+      expect(screen.queryByTestId('movie-ratings-panel')).not.toBeInTheDocument();
+    });
+  });
+
+  describe('Empty State', () => {
+    it('GIVEN no ratings WHEN rendered THEN should render nothing', () => {
+      // GIVEN
+      // WHEN
+      const { container } = render(<MovieRatings ratings={[]} />);
+
+      // THEN
+      expect(container).toBeEmptyDOMElement();
+    });
+  });
+});
@@ -0,0 +1,63 @@
+import React from 'react';
+import { type MovieRatingsProps } from '../../types/movie.types';
+import { getRatingSourceInfo } from '../../utils/ratingUtils';
+import './MovieRatings.css';
+
+export const MovieRatings: React.FC<MovieRatingsProps> = ({
+  ratings,
+  variant = 'panel',
+  className = '',
+}) => {
+  if (ratings.length === 0) {
+    return null;
+  }
+
+  const classes = ['movie-ratings', `movie-ratings--${variant}`, className].filter(Boolean).join(' ');
+
+  // Compact badge: short source labels with the values as reported
+  if (variant === 'badge') {
+    const summary = ratings
+      .map((rating) => `${getRatingSourceInfo(rating.source).label} ${rating.display}`)
+      .join(', ');
+
+    return (
+      <div className={classes} aria-label={`Ratings: ${summary}`} data-testid="movie-ratings-badge">
+        {ratings.map((rating) => (
+          <span key={rating.source} className="movie-ratings__badge-item" aria-hidden="true">
+            <span className="movie-ratings__badge-source">
+              {getRatingSourceInfo(rating.source).shortLabel}
+            </span>
+            {rating.display}
+          </span>
+        ))}
+      </div>
+    );
+  }
+
+  return (
+    <ul className={classes} aria-label="Ratings by source" data-testid="movie-ratings-panel">
+      {ratings.map((rating) => {
+        const { label } = getRatingSourceInfo(rating.source);
+
+        return (
+          <li key={rating.source} className="movie-ratings__item" data-testid={`movie-rating-${rating.source}`}>
+            <span className="movie-ratings__source">{label}</span>
+            <span className="movie-ratings__value">{rating.display}</span>
+            <span
+              className="movie-ratings__meter"
+              role="meter"
+              aria-label={`${label} rating`}
+              aria-valuemin={0}
+              aria-valuemax={10}
+              aria-valuenow={rating.value}
+              aria-valuetext={`${rating.value} out of 10`}
+            >
+              <span className="movie-ratings__meter-fill" style={{ width: `${rating.value * 10}%` }} />
+            </span>
+            <span className="movie-ratings__normalized">{rating.value.toFixed(1)}/10</span>
+          </li>
+        );
+      })}
+    </ul>
+  );
+};
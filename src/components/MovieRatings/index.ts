@@ -0,0 +1 @@
+export { MovieRatings } from './MovieRatings';
@@ -8,6 +8,8 @@ export const MovieSection: React.FC<MovieSectionProps> = ({
   movies,
   type,
   onMovieClick,
+  isInWatchlist,
+  onWatchlistToggle,
 }) => {
   const handleMovieClick = (movie: Movie) => {
     onMovieClick?.(movie);
@@ -34,6 +36,8 @@ export const MovieSection: React.FC<MovieSectionProps> = ({
           movie={movie}
           onClick={handleMovieClick}
           size={type === 'big_hits' ? 'large' : 'medium'}
+          isInWatchlist={isInWatchlist?.(movie.id)}
+          onWatchlistToggle={onWatchlistToggle}
         />
       ))}
     </div>
@@ -1,22 +1,39 @@
-import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { render, screen, fireEvent, waitFor, within } from '@testing-library/react';
 import { vi, describe, it, expect, beforeEach } from 'vitest';
 import '@testing-library/jest-dom';
-import { MemoryRouter } from 'react-router-dom';
+import { MemoryRouter, Route, Routes } from 'react-router-dom';
 import { Provider } from 'react-redux';
 import { configureStore } from '@reduxjs/toolkit';
 import { Navigation } from './Navigation';
 import { filterReducer } from '../../store/slices/filterSlice';
-import { type NavigationProps } from '../../types/movie.types';
+import { searchHistoryReducer } from '../../store/slices/searchHistorySlice';
+import { useMoviesQuery } from '../../hooks/useMoviesQuery';
+import { type Movie, type NavigationProps } from '../../types/movie.types';
 import { type RootState } from '../../store/store';
 
+// Title suggestions come from the API, keep them out of these tests
+vi.mock('../../hooks/useMoviesQuery', () => ({
+  useMoviesQuery: {
+    useSearchSuggestionsQuery: vi.fn(() => ({
+      data: undefined,
+      isLoading: false,
+      isError: false,
+      error: null,
+      refetch: vi.fn(),
+    })),
+  },
+}));
+
 // Common mocks
 const mockOnSearch = vi.fn();
+const mockUseSearchSuggestionsQuery = vi.mocked(useMoviesQuery.useSearchSuggestionsQuery);
 
 // Test store factory
 const createTestStore = (initialState = {}) => {
   return configureStore({
     reducer: {
       filter: filterReducer,
+      searchHistory: searchHistoryReducer,
     },
     preloadedState: {
       filter: {
@@ -24,7 +41,11 @@ const createTestStore = (initialState = {}) => {
         movieFilters: {
           selectedGenres: [],
           selectedLanguages: [],
-          selectedReleaseYears: [],
+          releaseYearRange: null,
+          selectedDecades: [],
+          minRating: null,
+          runtimeBand: null,
+          selectedContentRatings: [],
           sortBy: 'popularity' as const,
           sortOrder: 'desc' as const,
         },
@@ -33,8 +54,13 @@ const createTestStore = (initialState = {}) => {
           languages: [],
           releaseYears: [],
         },
+        presets: [],
         ...(initialState as { filter?: Partial<RootState['filter']> }).filter,
       },
+      searchHistory: {
+        recentSearches: [],
+        ...(initialState as { searchHistory?: Partial<RootState['searchHistory']> }).searchHistory,
+      },
     },
   });
 };
@@ -236,15 +262,15 @@ describe('Navigation Component - Optimized', () => {
       const searchButton = screen.getByLabelText('Search');
       
       // Initially no search input
-      expect(screen.queryByRole('textbox')).not.toBeInTheDocument();
+      expect(screen.queryByRole('combobox')).not.toBeInTheDocument();
       
       // Click to open
       fireEvent.click(searchButton);
-      expect(screen.getByRole('textbox')).toBeInTheDocument();
+      expect(screen.getByRole('combobox')).toBeInTheDocument();
       
       // Click to close
       fireEvent.click(searchButton);
-      expect(screen.queryByRole('textbox')).not.toBeInTheDocument();
+      expect(screen.queryByRole('combobox')).not.toBeInTheDocument();
     });
 
     it('GIVEN Navigation component WHEN typing in search input THEN should call onSearch with debounced value', async () => {
@@ -259,7 +285,7 @@ describe('Navigation Component - Optimized', () => {
       render(<TestWrapper props={props} />);
       fireEvent.click(screen.getByLabelText('Search'));
       
-      const searchInput = screen.getByRole('textbox');
+      const searchInput = screen.getByRole('combobox');
       fireEvent.change(searchInput, { target: { value: 'test query' } });
 
       // THEN
@@ -267,6 +293,158 @@ describe('Navigation Component - Optimized', () => {
         expect(mockOnSearch).toHaveBeenCalledWith('test query');
       }, { timeout: 1000 });
     });
+
+    it('GIVEN typed text WHEN the debounce fires THEN should not submit the search or remember it', async () => {
+      // GIVEN
+      const mockOnSearchSubmit = vi.fn();
+      render(<TestWrapper props={{ onSearchSubmit: mockOnSearchSubmit }} />);
+      fireEvent.click(screen.getByLabelText('Search'));
+      const searchInput = screen.getByRole('combobox');
+
+      // WHEN
+      fireEvent.change(searchInput, { target: { value: 'test query' } });
+
+      // THEN
+      await waitFor(() => {
+        expect(mockOnSearch).toHaveBeenCalledWith('test query');
+      }, { timeout: 1000 });
+      expect(mockOnSearchSubmit).not.toHaveBeenCalled();
+      expect(screen.getByRole('combobox')).toHaveValue('test query');
+      fireEvent.change(searchInput, { target: { value: '' } });
+      expect(screen.queryByRole('group', { name: 'Recent searches' })).not.toBeInTheDocument();
+    });
+
+    it.each([
+      { description: 'pressing Enter', submit: (input: HTMLElement) => fireEvent.keyDown(input, { key: 'Enter' }) },
+      { description: 'clicking the search button', submit: () => fireEvent.click(screen.getByTestId('search-button')) },
+    ])('GIVEN typed text WHEN $description THEN should submit the search', ({ submit }) => {
+      // GIVEN
+      const mockOnSearchSubmit = vi.fn();
+      render(<TestWrapper props={{ onSearchSubmit: mockOnSearchSubmit }} />);
+      fireEvent.click(screen.getByLabelText('Search'));
+      const searchInput = screen.getByRole('combobox');
+      fireEvent.change(searchInput, { target: { value: 'test query' } });
+
+      // WHEN
+      submit(searchInput);
+
+      // THEN
+      expect(mockOnSearchSubmit).toHaveBeenCalledTimes(1);
+      expect(mockOnSearchSubmit).toHaveBeenCalledWith('test query');
+    });
+  });
+
+  describe('Search Suggestions', () => {
+    const mockMovie: Movie = {
+      id: 'tt0096895',
+      title: 'Batman',
+      overview: '',
+      poster_path: null,
+      backdrop_path: null,
+      release_date: '1989-06-23',
+      vote_average: 0,
+      vote_count: 0,
+      genre_ids: [],
+      adult: false,
+      original_language: 'en',
+      original_title: 'Batman',
+      popularity: 0,
+      video: false,
+    };
+
+    it('GIVEN a submitted search WHEN focusing the search input again THEN should offer it as a recent search', () => {
+      // GIVEN
+      render(<TestWrapper />);
+      fireEvent.click(screen.getByLabelText('Search'));
+      const searchInput = screen.getByRole('combobox');
+      fireEvent.change(searchInput, { target: { value: 'batman' } });
+      fireEvent.keyDown(searchInput, { key: 'Enter' });
+
+      // WHEN
+      fireEvent.focus(searchInput);
+
+      // THEN
+      const recentGroup = screen.getByRole('group', { name: 'Recent searches' });
+      expect(within(recentGroup).getByRole('option', { name: /batman/ })).toBeInTheDocument();
+    });
+
+    it('GIVEN a recent search WHEN picking it THEN should submit it again', () => {
+      // GIVEN
+      const mockOnSearchSubmit = vi.fn();
+      render(<TestWrapper props={{ onSearchSubmit: mockOnSearchSubmit }} storeState={{ searchHistory: { recentSearches: ['batman'] } }} />);
+      fireEvent.click(screen.getByLabelText('Search'));
+      fireEvent.focus(screen.getByRole('combobox'));
+
+      // WHEN
+      const recentGroup = screen.getByRole('group', { name: 'Recent searches' });
+      fireEvent.click(within(recentGroup).getByRole('option', { name: /batman/ }));
+
+      // THEN
+      expect(mockOnSearchSubmit).toHaveBeenCalledWith('batman');
+    });
+
+    it('GIVEN a title match WHEN picking it THEN should open its details page and remember the search', async () => {
+      // GIVEN
+      mockUseSearchSuggestionsQuery.mockReturnValue({
+        data: [mockMovie],
+        isLoading: false,
+        isError: false,
+        error: null,
+        refetch: vi.fn(),
+      });
+      render(
+        <TestWrapper>
+          <Routes>
+            <Route path="/movie/:id" element={<div data-testid="details-route" />} />
+          </Routes>
+        </TestWrapper>
+      );
+      fireEvent.click(screen.getByLabelText('Search'));
+      const searchInput = screen.getByRole('combobox');
+      fireEvent.focus(searchInput);
+      fireEvent.change(searchInput, { target: { value: 'batman' } });
+
+      // WHEN
+      const titlesGroup = await screen.findByRole('group', { name: 'Titles' });
+      fireEvent.click(within(titlesGroup).getByRole('option', { name: /Batman/ }));
+
+      // THEN
+      expect(screen.getByTestId('details-route')).toBeInTheDocument();
+      fireEvent.focus(searchInput);
+      const recentGroup = screen.getByRole('group', { name: 'Recent searches' });
+      expect(within(recentGroup).getByRole('option', { name: /Batman/ })).toBeInTheDocument();
+    });
+
+    it('GIVEN a series title match WHEN picking it THEN should open its TV show details page', async () => {
+      // GIVEN
+      mockUseSearchSuggestionsQuery.mockReturnValue({
+        data: [{ ...mockMovie, id: 'tt0903747', title: 'Breaking Bad', type: 'series' }],
+        isLoading: false,
+        isError: false,
+        error: null,
+        refetch: vi.fn(),
+      });
+      render(
+        <TestWrapper>
+          <Routes>
+            <Route path="/movie/:id" element={<div data-testid="details-route" />} />
+            <Route path="/tv/:id" element={<div data-testid="tv-details-route" />} />
+          </Routes>
+        </TestWrapper>
+      );
+      fireEvent.click(screen.getByLabelText('Search'));
+      const searchInput = screen.getByRole('combobox');
+      fireEvent.focus(searchInput);
+      fireEvent.change(searchInput, { target: { value: 'breaking' } });
+
+      // WHEN
+      const titlesGroup = await screen.findByRole('group', { name: 'Titles' });
+      fireEvent.click(within(titlesGroup).getByRole('option', { name: /Breaking Bad/ }));
+
+      // THEN
+      expect(screen.getByTestId('tv-details-route')).toBeInTheDocument();
+      expect(screen.queryByTestId('details-route')).not.toBeInTheDocument();
+    });
   });
 
   describe('Filter Functionality', () => {
@@ -303,7 +481,11 @@ describe('Navigation Component - Optimized', () => {
           movieFilters: {
             selectedGenres: [],
             selectedLanguages: [],
-            selectedReleaseYears: [],
+            releaseYearRange: null,
+            selectedDecades: [],
+            minRating: null,
+            runtimeBand: null,
+            selectedContentRatings: [],
             sortBy: 'popularity' as const,
             sortOrder: 'desc' as const,
           },
@@ -312,6 +494,7 @@ describe('Navigation Component - Optimized', () => {
             languages: [],
             releaseYears: [],
           },
+          presets: [],
         }
       };
 
@@ -326,6 +509,48 @@ describe('Navigation Component - Optimized', () => {
       fireEvent.click(filterButton);
       expect(filterButton).toHaveAttribute('aria-expanded', 'false');
     });
+
+    it('GIVEN the filter panel open with filters selected WHEN saving them as a preset THEN should list the preset as active', () => {
+      // GIVEN
+      const props: NavigationProps = {
+        onSearch: mockOnSearch,
+        isSearchActive: true,
+        searchResultCount: 5,
+      };
+      const storeState = {
+        filter: {
+          isFilterOpen: true,
+          movieFilters: {
+            selectedGenres: [3],
+            selectedLanguages: [],
+            releaseYearRange: null,
+            selectedDecades: [],
+            minRating: null,
+            runtimeBand: null,
+            selectedContentRatings: [],
+            sortBy: 'title' as const,
+            sortOrder: 'asc' as const,
+          },
+          availableFilterOptions: {
+            genres: [],
+            languages: [],
+            releaseYears: [],
+          },
+          presets: [],
+        }
+      };
+      render(<TestWrapper props={props} storeState={storeState} />);
+
+      // WHEN
+      fireEvent.change(screen.getByLabelText('Preset name'), { target: { value: 'Dramas A-Z' } });
+      fireEvent.click(screen.getByRole('button', { name: 'Save preset' }));
+
+      // THEN
+      const presetButton = screen.getByRole('button', { name: /^Dramas A-Z/ });
+      expect(presetButton).toHaveAttribute('aria-pressed', 'true');
+      expect(presetButton).toHaveTextContent('Drama');
+      expect(screen.getByRole('button', { name: 'Copy link to preset Dramas A-Z' })).toBeInTheDocument();
+    });
   });
 
   describe('Accessibility', () => {
@@ -1,12 +1,25 @@
 import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
-import { Link, useLocation } from 'react-router-dom';
+import { Link, useLocation, useNavigate } from 'react-router-dom';
 import { useDispatch, useSelector } from 'react-redux';
-import { type NavigationProps, type MovieFilters } from '../../types/movie.types';
-import { ROUTES } from '../../router/routing.types';
+import { type NavigationProps, type MovieFilters, type SearchSuggestion } from '../../types/movie.types';
+import { ROUTES, getTitleDetailsPath } from '../../router/routing.types';
 import { SearchBar } from '../SearchBar';
 import { MovieFilter } from '../MovieFilter';
-import { toggleFilter, updateFilters, clearFilters } from '../../store/slices/filterSlice';
-import { type RootState } from '../../store/store';
+import {
+  toggleFilter,
+  updateFilters,
+  clearFilters,
+  savePreset,
+  applyPreset,
+  deletePreset,
+  selectIsFilterOpen,
+  selectMovieFilters,
+  selectAvailableFilterOptions,
+  selectFilterPresets,
+  selectActivePreset,
+} from '../../store/slices/filterSlice';
+import { buildFiltersShareParams, parseSearchParams } from '../../utils/searchParamsUtils';
+import { useSearchSuggestions } from '../../hooks/useSearchSuggestions';
 import './Navigation.css';
 
 // Navigation item type for better type safety
@@ -40,7 +53,7 @@ const useNavigationLogic = () => {
 };
 
 // Custom hook for search logic
-const useSearchLogic = (onSearch?: (query: string) => void) => {
+const useSearchLogic = (onSearch?: (query: string) => void, onSearchSubmit?: (query: string) => void) => {
   const [isSearchOpen, setIsSearchOpen] = useState(false);
   const searchContainerRef = useRef<HTMLDivElement>(null);
 
@@ -54,6 +67,12 @@ const useSearchLogic = (onSearch?: (query: string) => void) => {
     }
   }, [onSearch]);
 
+  const handleSearchSubmit = useCallback((query: string) => {
+    if (query.trim()) {
+      onSearchSubmit?.(query);
+    }
+  }, [onSearchSubmit]);
+
   const handleSearchFocus = useCallback(() => {
     setIsSearchOpen(true);
   }, []);
@@ -84,6 +103,7 @@ const useSearchLogic = (onSearch?: (query: string) => void) => {
     searchContainerRef,
     handleSearchToggle,
     handleSearch,
+    handleSearchSubmit,
     handleSearchFocus,
     handleSearchBlur,
   };
@@ -94,7 +114,12 @@ const useFilterLogic = () => {
   const dispatch = useDispatch();
   
   // Get filter state from Redux
-  const { isFilterOpen, movieFilters, availableFilterOptions } = useSelector((state: RootState) => state.filter);
+  const isFilterOpen = useSelector(selectIsFilterOpen);
+  const movieFilters = useSelector(selectMovieFilters);
+  const availableFilterOptions = useSelector(selectAvailableFilterOptions);
+  const presets = useSelector(selectFilterPresets);
+  const activePreset = useSelector(selectActivePreset);
+  const location = useLocation();
 
   const handleFilterToggle = useCallback(() => {
     dispatch(toggleFilter());
@@ -112,9 +137,27 @@ const useFilterLogic = () => {
     // Close the filter panel after applying
     dispatch(toggleFilter());
     // Filters are automatically applied to movie data through Redux state
-    // The HomePage component uses the filter state to filter search results
+    // The search page uses the filter state to filter its results
+  }, [dispatch]);
+
+  const handleSavePreset = useCallback((name: string) => {
+    dispatch(savePreset(name));
   }, [dispatch]);
 
+  const handleApplyPreset = useCallback((presetId: string) => {
+    dispatch(applyPreset(presetId));
+  }, [dispatch]);
+
+  const handleDeletePreset = useCallback((presetId: string) => {
+    dispatch(deletePreset(presetId));
+  }, [dispatch]);
+
+  // Preset links open the search page with the preset's filters, keeping the current search when there is one
+  const getPresetShareUrl = useCallback((token: string) => {
+    const searchState = location.pathname === ROUTES.SEARCH ? parseSearchParams(new URLSearchParams(location.search)) : {};
+    return `${window.location.origin}${ROUTES.SEARCH}?${buildFiltersShareParams(searchState, token)}`;
+  }, [location.pathname, location.search]);
+
   const handleFilterKeyDown = useCallback((event: React.KeyboardEvent) => {
     if (event.key === 'Enter' || event.key === ' ') {
       event.preventDefault();
@@ -126,10 +169,16 @@ const useFilterLogic = () => {
     isFilterOpen,
     movieFilters,
     availableFilterOptions,
+    presets,
+    activePresetId: activePreset?.id ?? null,
     handleFilterToggle,
     handleFiltersChange,
     handleClearFilters,
     handleApplyFilters,
+    handleSavePreset,
+    handleApplyPreset,
+    handleDeletePreset,
+    getPresetShareUrl,
     handleFilterKeyDown,
   };
 };
@@ -230,6 +279,7 @@ interface SearchContainerProps {
   readonly isOpen: boolean;
   readonly containerRef: React.RefObject<HTMLDivElement | null>;
   readonly onSearch: (query: string) => void;
+  readonly onSubmit: (query: string) => void;
   readonly onFocus: () => void;
   readonly onBlur: () => void;
 }
@@ -238,6 +288,7 @@ const SearchContainer: React.FC<SearchContainerProps> = React.memo(({
   isOpen, 
   containerRef, 
   onSearch, 
+  onSubmit,
   onFocus, 
   onBlur 
 }) => {
@@ -247,14 +298,11 @@ const SearchContainer: React.FC<SearchContainerProps> = React.memo(({
     <>
       <div className="navigation__search-backdrop" onClick={() => {}} />
       <div ref={containerRef} className="navigation__search-container">
-        <SearchBar
+        <AutocompleteSearchBar
           onSearch={onSearch}
+          onSubmit={onSubmit}
           onFocus={onFocus}
           onBlur={onBlur}
-          placeholder="Search for movies..."
-          showClearButton={true}
-          debounceMs={300}
-          className="navigation__search-bar"
         />
       </div>
     </>
@@ -263,12 +311,62 @@ const SearchContainer: React.FC<SearchContainerProps> = React.memo(({
 
 SearchContainer.displayName = 'SearchContainer';
 
+// Autocomplete Search Bar Component (mounted only while the search is open, so it starts empty each time)
+interface AutocompleteSearchBarProps {
+  readonly onSearch: (query: string) => void;
+  readonly onSubmit: (query: string) => void;
+  readonly onFocus: () => void;
+  readonly onBlur: () => void;
+}
+
+const AutocompleteSearchBar: React.FC<AutocompleteSearchBarProps> = ({ onSearch, onSubmit, onFocus, onBlur }) => {
+  const navigate = useNavigate();
+  const [query, setQuery] = useState('');
+  const { suggestions, isLoadingTitles, addRecentSearch, clearRecentSearches } = useSearchSuggestions(query);
+
+  // Only explicit submits are remembered; debounced typing just updates inline results
+  const handleSubmit = useCallback((submittedQuery: string) => {
+    addRecentSearch(submittedQuery);
+    onSubmit(submittedQuery);
+  }, [addRecentSearch, onSubmit]);
+
+  const handleSuggestionSelect = useCallback((suggestion: SearchSuggestion) => {
+    if (suggestion.kind === 'title') {
+      addRecentSearch(suggestion.label);
+      navigate(getTitleDetailsPath(suggestion.movie));
+    } else {
+      onSearch(suggestion.label);
+      handleSubmit(suggestion.label);
+    }
+  }, [addRecentSearch, navigate, onSearch, handleSubmit]);
+
+  return (
+    <SearchBar
+      onSearch={onSearch}
+      onFocus={onFocus}
+      onBlur={onBlur}
+      placeholder="Search for movies..."
+      showClearButton={true}
+      debounceMs={300}
+      className="navigation__search-bar"
+      suggestions={suggestions}
+      suggestionsLoading={isLoadingTitles}
+      onQueryChange={setQuery}
+      onSubmit={handleSubmit}
+      onSuggestionSelect={handleSuggestionSelect}
+      onClearRecentSearches={clearRecentSearches}
+    />
+  );
+};
+
 // Main Navigation Component
 export const Navigation: React.FC<NavigationProps> = React.memo(({
   onSearch,
+  onSearchSubmit,
   onClearSearch,
   isSearchActive = false,
   searchResultCount = 0,
+  filterFacets,
 }) => {
   const location = useLocation();
   
@@ -279,17 +377,24 @@ export const Navigation: React.FC<NavigationProps> = React.memo(({
     searchContainerRef, 
     handleSearchToggle, 
     handleSearch, 
+    handleSearchSubmit,
     handleSearchFocus, 
     handleSearchBlur 
-  } = useSearchLogic(onSearch);
+  } = useSearchLogic(onSearch, onSearchSubmit);
   const {
     isFilterOpen,
     movieFilters,
     availableFilterOptions,
+    presets,
+    activePresetId,
     handleFilterToggle,
     handleFiltersChange,
     handleClearFilters,
     handleApplyFilters,
+    handleSavePreset,
+    handleApplyPreset,
+    handleDeletePreset,
+    getPresetShareUrl,
     handleFilterKeyDown,
   } = useFilterLogic();
 
@@ -343,6 +448,7 @@ export const Navigation: React.FC<NavigationProps> = React.memo(({
             isOpen={isSearchOpen}
             containerRef={searchContainerRef}
             onSearch={handleSearch}
+            onSubmit={handleSearchSubmit}
             onFocus={handleSearchFocus}
             onBlur={handleSearchBlur}
           />
@@ -359,6 +465,13 @@ export const Navigation: React.FC<NavigationProps> = React.memo(({
         onClearFilters={handleClearFilters}
         onApplyFilters={handleApplyFilters}
         resultCount={searchResultCount}
+        facets={filterFacets}
+        presets={presets}
+        activePresetId={activePresetId}
+        onSavePreset={handleSavePreset}
+        onApplyPreset={handleApplyPreset}
+        onDeletePreset={handleDeletePreset}
+        getPresetShareUrl={getPresetShareUrl}
       />
     </nav>
   );
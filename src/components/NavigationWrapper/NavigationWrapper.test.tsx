@@ -255,7 +255,7 @@ describe('NavigationWrapper', () => {
   });
 
   describe('Search Navigation', () => {
-    it('GIVEN a NavigationWrapper WHEN searching with query THEN should not navigate (handled by HomePage)', () => {
+    it('GIVEN a NavigationWrapper WHEN searching with query THEN should navigate to the search page', () => {
       // GIVEN
       const searchQuery = 'F1 movie';
       
@@ -287,11 +287,10 @@ describe('NavigationWrapper', () => {
       fireEvent.click(screen.getByText('Search'));
 
       // THEN
-      // Search function no longer navigates - it's handled by the HomePage component
-      expect(mockNavigate).not.toHaveBeenCalled();
+      expect(mockNavigate).toHaveBeenCalledWith('/search?q=F1+movie');
     });
 
-    it('GIVEN a NavigationWrapper WHEN searching with empty query THEN should not navigate (handled by HomePage)', () => {
+    it('GIVEN a NavigationWrapper WHEN searching with empty query THEN should not navigate', () => {
       // GIVEN
       const TestComponent = () => {
         const { onSearch } = useNavigation();
@@ -321,7 +320,6 @@ describe('NavigationWrapper', () => {
       fireEvent.click(screen.getByText('Search Empty'));
 
       // THEN
-      // Search function no longer navigates - it's handled by the HomePage component
       expect(mockNavigate).not.toHaveBeenCalled();
     });
 
@@ -357,8 +355,7 @@ describe('NavigationWrapper', () => {
       fireEvent.click(screen.getByText('Search Special'));
 
       // THEN
-      // Search function no longer navigates - it's handled by the HomePage component
-      expect(mockNavigate).not.toHaveBeenCalled();
+      expect(mockNavigate).toHaveBeenCalledWith('/search?q=F1%3A+The+Movie+%26+More%21');
     });
   });
 
@@ -404,8 +401,8 @@ describe('NavigationWrapper', () => {
       expect(mockNavigate).toHaveBeenCalledWith('/movie/tt1234567');
       expect(mockNavigate).toHaveBeenCalledWith('/movie/tt1234567');
       expect(mockNavigate).toHaveBeenCalledWith('/');
-      // Search function no longer navigates - it's handled by the HomePage component
-      expect(mockNavigate).toHaveBeenCalledTimes(4);
+      expect(mockNavigate).toHaveBeenCalledWith('/search?q=test');
+      expect(mockNavigate).toHaveBeenCalledTimes(5);
     });
 
     it('GIVEN a NavigationWrapper WHEN children are not using context THEN should render normally', () => {
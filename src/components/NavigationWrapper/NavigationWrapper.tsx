@@ -2,6 +2,7 @@ import React from 'react';
 import { useNavigate } from 'react-router-dom';
 import { type Movie, type HeroMovie } from '../../types/movie.types';
 import { NavigationContext } from '../../hooks/useNavigation';
+import { buildSearchPath } from '../../utils/searchParamsUtils';
 
 interface NavigationWrapperProps {
   children: React.ReactNode;
@@ -56,11 +57,11 @@ export const NavigationWrapper: React.FC<NavigationWrapperProps> = ({ children }
     }
   };
 
-  // Handle search navigation
-  const handleSearch = () => {
-    // For now, just stay on the current page and let the HomePage handle the search
-    // The search state is managed by the HomePage component itself
-    // This prevents the 404 redirect issue
+  // Handle submitted searches: results live on the search page, so searches are shareable
+  const handleSearch = (query: string) => {
+    if (query.trim()) {
+      navigate(buildSearchPath({ query }));
+    }
   };
 
   // Provide navigation handlers through context
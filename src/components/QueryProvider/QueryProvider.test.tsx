@@ -0,0 +1,57 @@
+import { render, screen } from '@testing-library/react';
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import '@testing-library/jest-dom';
+import { QueryClient, useQueryClient } from '@tanstack/react-query';
+import { QueryProvider } from './QueryProvider';
+import { queryClient, queryKeys } from '../../lib/queryClient';
+import { createQueryCacheSnapshot } from '../../utils/queryPersistence';
+import { STORAGE_KEYS } from '../../utils/storageUtils';
+import { mockHomePageData } from '../../__mocks__/testData';
+
+// Reads the homepage data from the cache during the first render
+const CachedHeroTitle = () => {
+  const client = useQueryClient();
+  const data = client.getQueryData<typeof mockHomePageData>(queryKeys.homePage.data());
+  return <p data-testid="hero-title">{data?.heroMovie.title ?? 'empty'}</p>;
+};
+
+describe('QueryProvider', () => {
+  beforeEach(() => {
+    window.localStorage.clear();
+    queryClient.clear();
+  });
+
+  afterEach(() => {
+    queryClient.clear();
+  });
+
+  it('GIVEN a cache persisted by a previous visit WHEN rendering THEN should expose it on the first render', () => {
+    // GIVEN
+    const previousVisit = new QueryClient();
+    previousVisit.setQueryData(queryKeys.homePage.data(), mockHomePageData);
+    window.localStorage.setItem(STORAGE_KEYS.QUERY_CACHE, JSON.stringify(createQueryCacheSnapshot(previousVisit)));
+
+    // WHEN
+    render(
+      <QueryProvider>
+        <CachedHeroTitle />
+      </QueryProvider>
+    );
+
+    // THEN
+    expect(screen.getByTestId('hero-title')).toHaveTextContent(mockHomePageData.heroMovie.title);
+  });
+
+  it('GIVEN no persisted cache WHEN rendering THEN should render children with an empty cache', () => {
+    // GIVEN
+    // WHEN
+    render(
+      <QueryProvider>
+        <CachedHeroTitle />
+      </QueryProvider>
+    );
+
+    // THEN
+    expect(screen.getByTestId('hero-title')).toHaveTextContent('empty');
+  });
+});
@@ -1,16 +1,24 @@
-import React from 'react';
+import React, { useEffect, useState } from 'react';
 import { QueryClientProvider } from '@tanstack/react-query';
 import { ReactQueryDevtools } from '@tanstack/react-query-devtools';
 import { queryClient } from '../../lib/queryClient';
+import { persistQueryCache, restoreQueryCache } from '../../utils/queryPersistence';
 
 interface QueryProviderProps {
   children: React.ReactNode;
 }
 
 /**
- * QueryProvider component that wraps the app with React Query
+ * QueryProvider component that wraps the app with React Query.
+ * The cache persisted by the previous visit is restored before the first render,
+ * so the app opens with the last homepage and details data even while offline.
  */
 export const QueryProvider: React.FC<QueryProviderProps> = ({ children }) => {
+  // Lazy initial state runs once, synchronously, before children render
+  useState(() => restoreQueryCache(queryClient));
+
+  useEffect(() => persistQueryCache(queryClient), []);
+
   return (
     <QueryClientProvider client={queryClient}>
       {children}
@@ -0,0 +1,88 @@
+import { render, screen, fireEvent } from '@testing-library/react';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import '@testing-library/jest-dom';
+import { RatingFilter } from './RatingFilter';
+
+describe('RatingFilter', () => {
+  const mockOnMinRatingChange = vi.fn();
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('Rendering', () => {
+    it('GIVEN RatingFilter WHEN rendered THEN should display every rating threshold', () => {
+      // GIVEN & WHEN
+      render(<RatingFilter minRating={null} onMinRatingChange={mockOnMinRatingChange} />);
+
+      // THEN
+      expect(screen.getByText('Minimum Rating')).toBeInTheDocument();
+      const options = screen.getAllByRole('button', { name: /^Show titles rated/ });
+      expect(options.map((option) => option.textContent)).toEqual(['5+', '6+', '7+', '8+']);
+    });
+
+    it('GIVEN RatingFilter with a threshold WHEN rendered THEN should show only that threshold as selected', () => {
+      // GIVEN & WHEN
+      render(<RatingFilter minRating={7} onMinRatingChange={mockOnMinRatingChange} />);
+
+      // THEN
+      expect(screen.getByLabelText('Show titles rated 7 or higher')).toHaveAttribute('aria-pressed', 'true');
+      expect(screen.getByLabelText('Show titles rated 7 or higher')).toHaveClass('rating-filter__item--active');
+      expect(screen.getByLabelText('Show titles rated 8 or higher')).toHaveAttribute('aria-pressed', 'false');
+    });
+
+    it('GIVEN RatingFilter with counts WHEN rendered THEN should show them and disable thresholds without results', () => {
+      // GIVEN & WHEN
+      render(<RatingFilter minRating={null} counts={{ 5: 3, 6: 3, 7: 1 }} onMinRatingChange={mockOnMinRatingChange} />);
+
+      // THEN
+      expect(screen.getByLabelText('Show titles rated 7 or higher, 1 title')).toHaveTextContent('7+1');
+      expect(screen.getByLabelText('Show titles rated 8 or higher, 0 titles')).toBeDisabled();
+    });
+  });
+
+  describe('Rating Selection', () => {
+    it('GIVEN RatingFilter WHEN a threshold is clicked THEN should call onMinRatingChange with it', () => {
+      // GIVEN
+      render(<RatingFilter minRating={null} onMinRatingChange={mockOnMinRatingChange} />);
+
+      // WHEN
+      fireEvent.click(screen.getByLabelText('Show titles rated 6 or higher'));
+
+      // THEN
+      expect(mockOnMinRatingChange).toHaveBeenCalledWith(6);
+    });
+
+    it('GIVEN RatingFilter with a threshold WHEN it is clicked again THEN should call onMinRatingChange with null', () => {
+      // GIVEN
+      render(<RatingFilter minRating={6} onMinRatingChange={mockOnMinRatingChange} />);
+
+      // WHEN
+      fireEvent.click(screen.getByLabelText('Show titles rated 6 or higher'));
+
+      // THEN
+      expect(mockOnMinRatingChange).toHaveBeenCalledWith(null);
+    });
+
+    it('GIVEN RatingFilter with a threshold WHEN Clear All is clicked THEN should call onMinRatingChange with null', () => {
+      // GIVEN
+      render(<RatingFilter minRating={8} onMinRatingChange={mockOnMinRatingChange} />);
+
+      // WHEN
+      fireEvent.click(screen.getByLabelText('Clear minimum rating'));
+
+      // THEN
+      expect(mockOnMinRatingChange).toHaveBeenCalledWith(null);
+    });
+  });
+
+  describe('Edge Cases', () => {
+    it('GIVEN RatingFilter with undefined handlers WHEN clicking THEN should not throw error', () => {
+      // GIVEN
+      render(<RatingFilter minRating={null} />);
+
+      // WHEN & THEN
+      expect(() => fireEvent.click(screen.getByLabelText('Show titles rated 5 or higher'))).not.toThrow();
+    });
+  });
+});
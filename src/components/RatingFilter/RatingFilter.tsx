@@ -0,0 +1,65 @@
+import React from 'react';
+import { type RatingFilterProps } from '../../types/movie.types';
+import { MIN_RATING_OPTIONS, formatMinRating, formatResultCount } from '../../utils/filterUtils';
+import './RatingFilter.css';
+
+export const RatingFilter: React.FC<RatingFilterProps> = ({
+  minRating,
+  counts,
+  onMinRatingChange,
+}) => {
+  const handleRatingClick = (rating: number) => {
+    // Picking the current threshold again turns the filter off
+    onMinRatingChange?.(rating === minRating ? null : rating);
+  };
+
+  const handleClearAll = () => {
+    onMinRatingChange?.(null);
+  };
+
+  return (
+    <div className="rating-filter">
+      <div className="rating-filter__header">
+        <h4 className="rating-filter__title">Minimum Rating</h4>
+        <div className="rating-filter__actions">
+          <button
+            type="button"
+            className="rating-filter__action"
+            onClick={handleClearAll}
+            aria-label="Clear minimum rating"
+          >
+            Clear All
+          </button>
+        </div>
+      </div>
+
+      <ul className="rating-filter__list" role="list" aria-label="Select minimum IMDb rating">
+        {MIN_RATING_OPTIONS.map((rating) => {
+          const isSelected = minRating === rating;
+          const count = counts ? counts[rating] ?? 0 : undefined;
+
+          return (
+            <li key={rating} className="rating-filter__item">
+              <button
+                type="button"
+                className={`rating-filter__item-button ${isSelected ? 'rating-filter__item--active' : ''}`}
+                onClick={() => handleRatingClick(rating)}
+                disabled={count === 0 && !isSelected}
+                aria-label={`Show titles rated ${rating} or higher${count === undefined ? '' : `, ${formatResultCount(count)}`}`}
+                aria-pressed={isSelected}
+              >
+                <span className="rating-filter__item-text">{formatMinRating(rating)}</span>
+                {count !== undefined && <span className="rating-filter__item-count">{count}</span>}
+                {isSelected && (
+                  <span className="rating-filter__item-check" aria-hidden="true">
+                    ✓
+                  </span>
+                )}
+              </button>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
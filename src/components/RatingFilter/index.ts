@@ -0,0 +1 @@
+export { RatingFilter } from './RatingFilter';
@@ -0,0 +1,69 @@
+import { render, screen, fireEvent } from '@testing-library/react';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import '@testing-library/jest-dom';
+import { RuntimeFilter } from './RuntimeFilter';
+
+describe('RuntimeFilter', () => {
+  const mockOnRuntimeBandChange = vi.fn();
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('Rendering', () => {
+    it('GIVEN RuntimeFilter WHEN rendered THEN should display every runtime band', () => {
+      // GIVEN & WHEN
+      render(<RuntimeFilter runtimeBand={null} onRuntimeBandChange={mockOnRuntimeBandChange} />);
+
+      // THEN
+      expect(screen.getByText('Runtime')).toBeInTheDocument();
+      expect(screen.getByText('Under 90 min')).toBeInTheDocument();
+      expect(screen.getByText('90–150 min')).toBeInTheDocument();
+      expect(screen.getByText('Over 150 min')).toBeInTheDocument();
+    });
+
+    it('GIVEN RuntimeFilter with a band WHEN rendered THEN should show only that band as selected', () => {
+      // GIVEN & WHEN
+      render(<RuntimeFilter runtimeBand="medium" onRuntimeBandChange={mockOnRuntimeBandChange} />);
+
+      // THEN
+      expect(screen.getByLabelText('Show titles running 90–150 min')).toHaveAttribute('aria-pressed', 'true');
+      expect(screen.getByLabelText('Show titles running under 90 min')).toHaveAttribute('aria-pressed', 'false');
+    });
+  });
+
+  describe('Band Selection', () => {
+    it('GIVEN RuntimeFilter WHEN a band is clicked THEN should call onRuntimeBandChange with it', () => {
+      // GIVEN
+      render(<RuntimeFilter runtimeBand={null} onRuntimeBandChange={mockOnRuntimeBandChange} />);
+
+      // WHEN
+      fireEvent.click(screen.getByLabelText('Show titles running over 150 min'));
+
+      // THEN
+      expect(mockOnRuntimeBandChange).toHaveBeenCalledWith('long');
+    });
+
+    it('GIVEN RuntimeFilter with a band WHEN it is clicked again THEN should call onRuntimeBandChange with null', () => {
+      // GIVEN
+      render(<RuntimeFilter runtimeBand="short" onRuntimeBandChange={mockOnRuntimeBandChange} />);
+
+      // WHEN
+      fireEvent.click(screen.getByLabelText('Show titles running under 90 min'));
+
+      // THEN
+      expect(mockOnRuntimeBandChange).toHaveBeenCalledWith(null);
+    });
+
+    it('GIVEN RuntimeFilter with a band WHEN Clear All is clicked THEN should call onRuntimeBandChange with null', () => {
+      // GIVEN
+      render(<RuntimeFilter runtimeBand="long" onRuntimeBandChange={mockOnRuntimeBandChange} />);
+
+      // WHEN
+      fireEvent.click(screen.getByLabelText('Clear runtime selection'));
+
+      // THEN
+      expect(mockOnRuntimeBandChange).toHaveBeenCalledWith(null);
+    });
+  });
+});
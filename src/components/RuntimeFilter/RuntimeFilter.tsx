@@ -0,0 +1,66 @@
+import React from 'react';
+import { type RuntimeBand, type RuntimeFilterProps } from '../../types/movie.types';
+import { RUNTIME_BANDS, formatResultCount, formatRuntimeBand } from '../../utils/filterUtils';
+import './RuntimeFilter.css';
+
+export const RuntimeFilter: React.FC<RuntimeFilterProps> = ({
+  runtimeBand,
+  counts,
+  onRuntimeBandChange,
+}) => {
+  const handleBandClick = (band: RuntimeBand) => {
+    // Picking the current band again turns the filter off
+    onRuntimeBandChange?.(band === runtimeBand ? null : band);
+  };
+
+  const handleClearAll = () => {
+    onRuntimeBandChange?.(null);
+  };
+
+  return (
+    <div className="runtime-filter">
+      <div className="runtime-filter__header">
+        <h4 className="runtime-filter__title">Runtime</h4>
+        <div className="runtime-filter__actions">
+          <button
+            type="button"
+            className="runtime-filter__action"
+            onClick={handleClearAll}
+            aria-label="Clear runtime selection"
+          >
+            Clear All
+          </button>
+        </div>
+      </div>
+
+      <ul className="runtime-filter__list" role="list" aria-label="Select runtime">
+        {RUNTIME_BANDS.map((band) => {
+          const isSelected = runtimeBand === band;
+          const label = formatRuntimeBand(band);
+          const count = counts ? counts[band] ?? 0 : undefined;
+
+          return (
+            <li key={band} className="runtime-filter__item">
+              <button
+                type="button"
+                className={`runtime-filter__item-button ${isSelected ? 'runtime-filter__item--active' : ''}`}
+                onClick={() => handleBandClick(band)}
+                disabled={count === 0 && !isSelected}
+                aria-label={`Show titles running ${label.toLowerCase()}${count === undefined ? '' : `, ${formatResultCount(count)}`}`}
+                aria-pressed={isSelected}
+              >
+                <span className="runtime-filter__item-text">{label}</span>
+                {count !== undefined && <span className="runtime-filter__item-count">{count}</span>}
+                {isSelected && (
+                  <span className="runtime-filter__item-check" aria-hidden="true">
+                    ✓
+                  </span>
+                )}
+              </button>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
@@ -0,0 +1 @@
+export { RuntimeFilter } from './RuntimeFilter';
@@ -3,6 +3,7 @@ import { vi, describe, it, expect, beforeEach, afterEach } from 'vitest';
 import '@testing-library/jest-dom';
 import { SearchBar } from './SearchBar';
 import { type SearchBarProps } from './SearchBar';
+import { type Movie, type SearchSuggestion } from '../../types/movie.types';
 
 // Common mocks
 const mockOnSearch = vi.fn();
@@ -10,6 +11,31 @@ const mockOnClear = vi.fn();
 const mockOnFocus = vi.fn();
 const mockOnBlur = vi.fn();
 
+const mockOnSubmit = vi.fn();
+const mockOnSuggestionSelect = vi.fn();
+
+const mockMovie: Movie = {
+  id: 'tt0372784',
+  title: 'Batman Begins',
+  overview: '',
+  poster_path: null,
+  backdrop_path: null,
+  release_date: '2005-06-15',
+  vote_average: 0,
+  vote_count: 0,
+  genre_ids: [],
+  adult: false,
+  original_language: 'en',
+  original_title: 'Batman Begins',
+  popularity: 0,
+  video: false,
+};
+
+const mockSuggestions: SearchSuggestion[] = [
+  { kind: 'recent', id: 'recent-batman', label: 'batman' },
+  { kind: 'title', id: `title-${mockMovie.id}`, label: mockMovie.title, movie: mockMovie },
+];
+
 // Test wrapper component
 const TestWrapper: React.FC<{ 
   props?: Partial<SearchBarProps>;
@@ -486,6 +512,119 @@ describe('SearchBar Component - Optimized', () => {
     });
   });
 
+  describe('Autocomplete', () => {
+    const autocompleteProps: Partial<SearchBarProps> = {
+      suggestions: mockSuggestions,
+      onSubmit: mockOnSubmit,
+      onSuggestionSelect: mockOnSuggestionSelect,
+    };
+
+    it('GIVEN suggestions WHEN the input is focused THEN should expose an expanded combobox controlling the listbox', () => {
+      // GIVEN
+      render(<TestWrapper props={autocompleteProps} />);
+
+      // WHEN
+      fireEvent.focus(screen.getByRole('combobox'));
+
+      // THEN
+      const combobox = screen.getByRole('combobox');
+      const listbox = screen.getByRole('listbox', { name: 'Search suggestions' });
+      expect(combobox).toHaveAttribute('aria-expanded', 'true');
+      expect(combobox).toHaveAttribute('aria-autocomplete', 'list');
+      expect(combobox).toHaveAttribute('aria-controls', listbox.id);
+      expect(combobox).not.toHaveAttribute('aria-activedescendant');
+      expect(screen.getAllByRole('option')).toHaveLength(2);
+    });
+
+    it('GIVEN an open list WHEN pressing the arrow keys THEN should move the active option and wrap around', () => {
+      // GIVEN
+      render(<TestWrapper props={autocompleteProps} />);
+      const combobox = screen.getByRole('combobox');
+      fireEvent.focus(combobox);
+
+      // WHEN
+      fireEvent.keyDown(combobox, { key: 'ArrowDown' });
+      fireEvent.keyDown(combobox, { key: 'ArrowDown' });
+      fireEvent.keyDown(combobox, { key: 'ArrowDown' });
+
+      // THEN
+      const [firstOption, secondOption] = screen.getAllByRole('option');
+      expect(firstOption).toHaveAttribute('aria-selected', 'true');
+      expect(secondOption).toHaveAttribute('aria-selected', 'false');
+      expect(combobox).toHaveAttribute('aria-activedescendant', firstOption.id);
+
+      fireEvent.keyDown(combobox, { key: 'ArrowUp' });
+      expect(combobox).toHaveAttribute('aria-activedescendant', secondOption.id);
+    });
+
+    it('GIVEN an active option WHEN pressing Enter THEN should select it instead of submitting the text', () => {
+      // GIVEN
+      render(<TestWrapper props={autocompleteProps} />);
+      const combobox = screen.getByRole('combobox');
+      fireEvent.focus(combobox);
+      fireEvent.change(combobox, { target: { value: 'bat' } });
+      fireEvent.keyDown(combobox, { key: 'ArrowDown' });
+      fireEvent.keyDown(combobox, { key: 'ArrowDown' });
+
+      // WHEN
+      fireEvent.keyDown(combobox, { key: 'Enter' });
+
+      // THEN
+      expect(mockOnSuggestionSelect).toHaveBeenCalledWith(mockSuggestions[1]);
+      expect(mockOnSubmit).not.toHaveBeenCalled();
+      expect(combobox).toHaveValue('Batman Begins');
+      expect(screen.queryByRole('listbox')).not.toBeInTheDocument();
+
+      vi.advanceTimersByTime(300);
+      expect(mockOnSearch).not.toHaveBeenCalled();
+    });
+
+    it('GIVEN no active option WHEN pressing Enter THEN should submit the typed text', () => {
+      // GIVEN
+      render(<TestWrapper props={autocompleteProps} />);
+      const combobox = screen.getByRole('combobox');
+      fireEvent.change(combobox, { target: { value: '  batman  ' } });
+
+      // WHEN
+      fireEvent.keyDown(combobox, { key: 'Enter' });
+
+      // THEN
+      expect(mockOnSearch).toHaveBeenCalledWith('batman');
+      expect(mockOnSubmit).toHaveBeenCalledWith('batman');
+      expect(mockOnSuggestionSelect).not.toHaveBeenCalled();
+    });
+
+    it('GIVEN an open list WHEN pressing Escape twice THEN should close the list first and then clear the input', () => {
+      // GIVEN
+      render(<TestWrapper props={autocompleteProps} />);
+      const combobox = screen.getByRole('combobox');
+      fireEvent.focus(combobox);
+      fireEvent.change(combobox, { target: { value: 'bat' } });
+
+      // WHEN
+      fireEvent.keyDown(combobox, { key: 'Escape' });
+
+      // THEN
+      expect(screen.queryByRole('listbox')).not.toBeInTheDocument();
+      expect(combobox).toHaveAttribute('aria-expanded', 'false');
+      expect(combobox).toHaveValue('bat');
+      expect(mockOnClear).not.toHaveBeenCalled();
+
+      fireEvent.keyDown(combobox, { key: 'Escape' });
+      expect(combobox).toHaveValue('');
+      expect(mockOnClear).toHaveBeenCalledTimes(1);
+    });
+
+    it('GIVEN no suggestions prop WHEN rendering THEN should keep a plain textbox', () => {
+      // GIVEN & WHEN
+      render(<TestWrapper />);
+
+      // THEN
+      expect(screen.getByRole('textbox')).not.toHaveAttribute('aria-expanded');
+      expect(screen.queryByRole('combobox')).not.toBeInTheDocument();
+    });
+  });
+
   describe('Edge Cases', () => {
     it('GIVEN SearchBar component WHEN rapid typing THEN should handle debounce correctly', async () => {
       // GIVEN
@@ -1,4 +1,6 @@
-import React, { useState, useCallback, useEffect, useRef, useMemo } from 'react';
+import React, { useState, useCallback, useEffect, useRef, useMemo, useId } from 'react';
+import { SearchSuggestions } from '../SearchSuggestions';
+import { type SearchSuggestion } from '../../types/movie.types';
 import './SearchBar.css';
 
 export interface SearchBarProps {
@@ -28,6 +30,18 @@ export interface SearchBarProps {
   readonly ariaLabel?: string;
   /** Additional CSS class name */
   readonly className?: string;
+  /** Autocomplete suggestions; when provided the input behaves as an ARIA combobox */
+  readonly suggestions?: readonly SearchSuggestion[];
+  /** Whether suggestions are still loading */
+  readonly suggestionsLoading?: boolean;
+  /** Callback function called with the raw input text on every change */
+  readonly onQueryChange?: (query: string) => void;
+  /** Callback function called when a search is submitted with Enter or the search button */
+  readonly onSubmit?: (query: string) => void;
+  /** Callback function called when a suggestion is picked */
+  readonly onSuggestionSelect?: (suggestion: SearchSuggestion) => void;
+  /** Callback function called to clear the recent searches shown as suggestions */
+  readonly onClearRecentSearches?: () => void;
 }
 
 // Main SearchBar Component
@@ -45,15 +59,31 @@ export const SearchBar: React.FC<SearchBarProps> = React.memo(({
   debounceMs = 0,
   ariaLabel = 'Search for movies',
   className = '',
+  suggestions,
+  suggestionsLoading = false,
+  onQueryChange,
+  onSubmit,
+  onSuggestionSelect,
+  onClearRecentSearches,
 }) => {
   const [internalValue, setInternalValue] = useState(controlledValue || '');
   const [isFocused, setIsFocused] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(-1);
+  const [isListDismissed, setIsListDismissed] = useState(false);
   const debounceTimeoutRef = useRef<NodeJS.Timeout | null>(null);
   const inputRef = useRef<HTMLInputElement>(null);
+  const listboxId = useId();
 
   const isControlled = controlledValue !== undefined;
   const inputValue = isControlled ? controlledValue : internalValue;
 
+  // Autocomplete state: the list shows while focused until dismissed with Escape or a pick
+  const isAutocomplete = suggestions !== undefined;
+  const suggestionCount = suggestions?.length ?? 0;
+  const isListOpen = isAutocomplete && isFocused && !isListDismissed && suggestionCount > 0;
+  const activeSuggestionIndex = isListOpen && activeIndex < suggestionCount ? activeIndex : -1;
+  const getOptionId = useCallback((index: number) => `${listboxId}-option-${index}`, [listboxId]);
+
   // Event handlers with useCallback for optimization
   const handleInputChange = useCallback(
     (event: React.ChangeEvent<HTMLInputElement>) => {
@@ -65,6 +95,10 @@ export const SearchBar: React.FC<SearchBarProps> = React.memo(({
         setInternalValue(newValue);
       }
 
+      setActiveIndex(-1);
+      setIsListDismissed(false);
+      onQueryChange?.(newValue);
+
       // Clear existing timeout
       if (debounceTimeoutRef.current) {
         clearTimeout(debounceTimeoutRef.current);
@@ -80,13 +114,15 @@ export const SearchBar: React.FC<SearchBarProps> = React.memo(({
         onSearch(newValue.trim());
       }
     },
-    [disabled, isControlled, debounceMs, onSearch]
+    [disabled, isControlled, debounceMs, onSearch, onQueryChange]
   );
 
   const handleClear = useCallback(() => {
     if (!isControlled) {
       setInternalValue('');
     }
+    setActiveIndex(-1);
+    onQueryChange?.('');
     
     if (onClear) {
       onClear();
@@ -101,10 +137,33 @@ export const SearchBar: React.FC<SearchBarProps> = React.memo(({
     if (inputRef.current) {
       inputRef.current.focus();
     }
-  }, [isControlled, onClear]);
+  }, [isControlled, onClear, onQueryChange]);
+
+  const submitSearch = useCallback((query: string) => {
+    const trimmedQuery = query.trim();
+    if (trimmedQuery && !disabled && !loading) {
+      onSearch(trimmedQuery);
+      onSubmit?.(trimmedQuery);
+    }
+  }, [disabled, loading, onSearch, onSubmit]);
+
+  const handleSuggestionSelect = useCallback((suggestion: SearchSuggestion) => {
+    // The pick replaces whatever the pending debounced search was for
+    if (debounceTimeoutRef.current) {
+      clearTimeout(debounceTimeoutRef.current);
+    }
+    if (!isControlled) {
+      setInternalValue(suggestion.label);
+    }
+    setActiveIndex(-1);
+    setIsListDismissed(true);
+    onSuggestionSelect?.(suggestion);
+  }, [isControlled, onSuggestionSelect]);
 
   const handleFocus = useCallback(() => {
     setIsFocused(true);
+    // Coming back to the input reopens the suggestions
+    setIsListDismissed(false);
     if (onFocus) {
       onFocus();
     }
@@ -121,24 +180,37 @@ export const SearchBar: React.FC<SearchBarProps> = React.memo(({
     (event: React.KeyboardEvent<HTMLInputElement>) => {
       if (event.key === 'Enter') {
         event.preventDefault();
-        const trimmedQuery = inputValue.trim();
-        if (trimmedQuery && !disabled && !loading) {
-          onSearch(trimmedQuery);
+        if (suggestions && activeSuggestionIndex >= 0) {
+          handleSuggestionSelect(suggestions[activeSuggestionIndex]);
+        } else {
+          submitSearch(inputValue);
         }
       } else if (event.key === 'Escape') {
         event.preventDefault();
-        handleClear();
+        // The first Escape closes the suggestions, the next one clears the input
+        if (isListOpen) {
+          setIsListDismissed(true);
+          setActiveIndex(-1);
+        } else {
+          handleClear();
+        }
+      } else if ((event.key === 'ArrowDown' || event.key === 'ArrowUp') && suggestionCount > 0) {
+        event.preventDefault();
+        const step = event.key === 'ArrowDown' ? 1 : -1;
+        const currentIndex = isListOpen ? activeSuggestionIndex : -1;
+        // Wrap around, starting from the first option going down and the last going up
+        setActiveIndex(currentIndex === -1 && step === -1
+          ? suggestionCount - 1
+          : (currentIndex + step + suggestionCount) % suggestionCount);
+        setIsListDismissed(false);
       }
     },
-    [inputValue, disabled, loading, onSearch, handleClear]
+    [suggestions, activeSuggestionIndex, isListOpen, suggestionCount, inputValue, submitSearch, handleSuggestionSelect, handleClear]
   );
 
   const handleSearch = useCallback(() => {
-    const trimmedQuery = inputValue.trim();
-    if (trimmedQuery && !disabled && !loading) {
-      onSearch(trimmedQuery);
-    }
-  }, [inputValue, disabled, loading, onSearch]);
+    submitSearch(inputValue);
+  }, [inputValue, submitSearch]);
 
   // Update internal value when controlled value changes
   useEffect(() => {
@@ -199,6 +271,14 @@ export const SearchBar: React.FC<SearchBarProps> = React.memo(({
             placeholder={placeholder}
             disabled={disabled}
             aria-label={ariaLabel}
+            {...(isAutocomplete && {
+              role: 'combobox',
+              'aria-autocomplete': 'list' as const,
+              'aria-expanded': isListOpen,
+              'aria-controls': isListOpen ? listboxId : undefined,
+              'aria-activedescendant': activeSuggestionIndex >= 0 ? getOptionId(activeSuggestionIndex) : undefined,
+              autoComplete: 'off',
+            })}
             className={inputClasses}
             data-testid="search-input"
             tabIndex={disabled ? -1 : 0}
@@ -237,6 +317,19 @@ export const SearchBar: React.FC<SearchBarProps> = React.memo(({
         </button>
       </div>
 
+      {isListOpen && suggestions && (
+        <SearchSuggestions
+          id={listboxId}
+          suggestions={suggestions}
+          activeIndex={activeSuggestionIndex}
+          getOptionId={getOptionId}
+          onSelect={handleSuggestionSelect}
+          onActiveIndexChange={setActiveIndex}
+          onClearRecent={onClearRecentSearches}
+          loading={suggestionsLoading}
+        />
+      )}
+
       {error && (
         <div className="search-bar__error" data-testid="search-error">
           {error}
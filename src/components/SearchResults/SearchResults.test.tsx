@@ -1,5 +1,5 @@
 import { render, screen, fireEvent } from '@testing-library/react';
-import { vi, describe, it, expect, beforeEach } from 'vitest';
+import { vi, describe, it, expect, beforeEach, afterEach } from 'vitest';
 import '@testing-library/jest-dom';
 import { SearchResults } from './SearchResults';
 import { type Movie, type MovieFilters, type SearchResultsProps } from '../../types/movie.types';
@@ -64,7 +64,11 @@ const mockMovies: Movie[] = [
 const mockFilters: MovieFilters = {
   selectedGenres: [28],
   selectedLanguages: ['en'],
-  selectedReleaseYears: [2023],
+  releaseYearRange: { from: 2023, to: 2023 },
+  selectedDecades: [],
+  minRating: null,
+  runtimeBand: null,
+  selectedContentRatings: [],
   sortBy: 'popularity',
   sortOrder: 'desc',
 };
@@ -302,6 +306,48 @@ describe('SearchResults Component - Optimized', () => {
     });
   });
 
+  describe('Search Tokens', () => {
+    it('GIVEN a query with tokens WHEN rendering THEN should show the text in the heading and the tokens as chips', () => {
+      // GIVEN & WHEN
+      render(<TestWrapper props={{ searchQuery: 'batman year:1989 type:series' }} />);
+
+      // THEN
+      expect(screen.getByRole('heading', { level: 2 })).toHaveTextContent('Search results for "batman"');
+      const chips = screen.getByRole('list', { name: 'Search tokens' });
+      expect(chips).toHaveTextContent('Year: 1989');
+      expect(chips).toHaveTextContent('Type: TV Shows');
+    });
+
+    it('GIVEN token chips WHEN removing one THEN should call onSearchQueryChange with the query without it', () => {
+      // GIVEN
+      const mockOnSearchQueryChange = vi.fn();
+      render(<TestWrapper props={{ searchQuery: 'inception y:2005..2012 type:movie', onSearchQueryChange: mockOnSearchQueryChange }} />);
+
+      // WHEN
+      fireEvent.click(screen.getByRole('button', { name: 'Remove Years: 2005–2012' }));
+
+      // THEN
+      expect(mockOnSearchQueryChange).toHaveBeenCalledWith('inception type:movie');
+    });
+
+    it('GIVEN no onSearchQueryChange WHEN rendering token chips THEN should not offer to remove them', () => {
+      // GIVEN & WHEN
+      render(<TestWrapper props={{ searchQuery: 'batman year:1989' }} />);
+
+      // THEN
+      expect(screen.getByText('Year: 1989')).toBeInTheDocument();
+      expect(screen.queryByRole('button', { name: /^Remove/ })).not.toBeInTheDocument();
+    });
+
+    it('GIVEN a plain query WHEN rendering THEN should not show chips', () => {
+      // GIVEN & WHEN
+      render(<TestWrapper />);
+
+      // THEN
+      expect(screen.queryByTestId('search-results-tokens')).not.toBeInTheDocument();
+    });
+  });
+
   describe('Error Handling', () => {
     it('GIVEN SearchResults component WHEN clicking retry button THEN should call onRetry', () => {
       // GIVEN
@@ -339,14 +385,42 @@ describe('SearchResults Component - Optimized', () => {
       // THEN
       expect(screen.queryByText('Try Again')).not.toBeInTheDocument();
     });
+
+    it.each([
+      { code: 'OMDB_NOT_FOUND', title: 'No Results Found', message: 'No titles match "test query". Check the spelling or try a different search term.' },
+      { code: 'OMDB_TOO_MANY_RESULTS', title: 'Too Many Results', message: '"test query" matches too many titles. Add more words to narrow the search.' },
+      { code: 'OMDB_INVALID_API_KEY', title: 'Invalid API Key', message: 'OMDb rejected the API key, so searches can\'t run. Check the configured OMDb API key.' },
+      { code: 'OMDB_REQUEST_LIMIT_REACHED', title: 'Daily Limit Reached', message: 'The OMDb API key has used up its daily requests. Try again tomorrow.' },
+    ])('GIVEN an $code error WHEN rendering THEN should explain it without offering a retry', ({ code, title, message }) => {
+      // GIVEN
+      const props: SearchResultsProps = {
+        searchQuery: 'test query',
+        movies: [],
+        error: 'Raw OMDb error',
+        errorCode: code,
+        onMovieClick: mockOnMovieClick,
+        onBackToHome: mockOnBackToHome,
+        onRetry: mockOnRetry,
+      };
+
+      // WHEN
+      render(<TestWrapper props={props} />);
+
+      // THEN
+      expect(screen.getByRole('heading', { name: title })).toBeInTheDocument();
+      expect(screen.getByText(message)).toBeInTheDocument();
+      expect(screen.queryByText('Error: Raw OMDb error')).not.toBeInTheDocument();
+      expect(screen.queryByText('Try Again')).not.toBeInTheDocument();
+    });
   });
 
   describe('Filtering Functionality', () => {
-    it('GIVEN SearchResults component WHEN filters are applied THEN should display filtered movies', () => {
+    it('GIVEN SearchResults component WHEN filtered movies are passed THEN should display only them', () => {
       // GIVEN
       const props: SearchResultsProps = {
         searchQuery: 'test query',
         movies: mockMovies,
+        filteredMovies: [mockMovies[0]],
         filters: mockFilters,
         onMovieClick: mockOnMovieClick,
         onBackToHome: mockOnBackToHome,
@@ -357,8 +431,8 @@ describe('SearchResults Component - Optimized', () => {
       render(<TestWrapper props={props} />);
 
       // THEN
-      // Should show filtered results (only movies matching the filters)
-      expect(screen.getAllByTestId('movie-card')).toHaveLength(1); // Only movie 1 matches filters
+      // The page does the filtering; the component shows what it is given
+      expect(screen.getAllByTestId('movie-card')).toHaveLength(1);
     });
 
     it('GIVEN SearchResults component WHEN filters result in no matches THEN should display no matches message', () => {
@@ -366,7 +440,11 @@ describe('SearchResults Component - Optimized', () => {
       const strictFilters: MovieFilters = {
         selectedGenres: [999], // Non-existent genre
         selectedLanguages: ['xx'], // Non-existent language
-        selectedReleaseYears: [1900], // Non-existent year
+        releaseYearRange: { from: 1900, to: 1900 }, // Non-existent year
+        selectedDecades: [],
+        minRating: null,
+        runtimeBand: null,
+        selectedContentRatings: [],
         sortBy: 'popularity',
         sortOrder: 'desc',
       };
@@ -374,6 +452,7 @@ describe('SearchResults Component - Optimized', () => {
       const props: SearchResultsProps = {
         searchQuery: 'test query',
         movies: mockMovies,
+        filteredMovies: [],
         filters: strictFilters,
         onMovieClick: mockOnMovieClick,
         onBackToHome: mockOnBackToHome,
@@ -446,6 +525,85 @@ describe('SearchResults Component - Optimized', () => {
     });
   });
 
+  describe('Pagination', () => {
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
+    it('GIVEN a partially loaded result set WHEN rendering THEN should show how many results are loaded', () => {
+      // GIVEN
+      const props: Partial<SearchResultsProps> = { totalResults: 42, hasMore: true, onLoadMore: vi.fn() };
+
+      // WHEN
+      render(<TestWrapper props={props} />);
+
+      // THEN
+      expect(screen.getByTestId('search-results-progress')).toHaveTextContent('Showing 3 of 42');
+    });
+
+    it('GIVEN more results are available WHEN clicking Load more THEN should request the next page', () => {
+      // GIVEN
+      const mockOnLoadMore = vi.fn();
+      render(<TestWrapper props={{ totalResults: 42, hasMore: true, onLoadMore: mockOnLoadMore }} />);
+
+      // WHEN
+      fireEvent.click(screen.getByRole('button', { name: 'Load more results' }));
+
+      // THEN
+      expect(mockOnLoadMore).toHaveBeenCalledTimes(1);
+    });
+
+    it('GIVEN the next page is loading WHEN rendering THEN should disable the Load more button', () => {
+      // GIVEN
+      const props: Partial<SearchResultsProps> = { totalResults: 42, hasMore: true, isLoadingMore: true, onLoadMore: vi.fn() };
+
+      // WHEN
+      render(<TestWrapper props={props} />);
+
+      // THEN
+      const button = screen.getByRole('button', { name: 'Load more results' });
+      expect(button).toBeDisabled();
+      expect(button).toHaveTextContent('Loading more...');
+    });
+
+    it('GIVEN every result is loaded WHEN rendering THEN should not show the Load more button', () => {
+      // GIVEN
+      const props: Partial<SearchResultsProps> = { totalResults: 3, hasMore: false, onLoadMore: vi.fn() };
+
+      // WHEN
+      render(<TestWrapper props={props} />);
+
+      // THEN
+      expect(screen.getByTestId('search-results-progress')).toHaveTextContent('Showing 3 of 3');
+      expect(screen.queryByRole('button', { name: 'Load more results' })).not.toBeInTheDocument();
+      expect(screen.queryByTestId('search-results-sentinel')).not.toBeInTheDocument();
+    });
+
+    it('GIVEN IntersectionObserver support WHEN the sentinel scrolls into view THEN should request the next page', () => {
+      // GIVEN
+      let triggerIntersection: (isIntersecting: boolean) => void = () => {};
+      const mockDisconnect = vi.fn();
+      vi.stubGlobal('IntersectionObserver', vi.fn((callback: IntersectionObserverCallback) => {
+        triggerIntersection = (isIntersecting) => callback(
+          [{ isIntersecting } as IntersectionObserverEntry],
+          {} as IntersectionObserver
+        );
+        return { observe: vi.fn(), disconnect: mockDisconnect };
+      }));
+      const mockOnLoadMore = vi.fn();
+      const { unmount } = render(<TestWrapper props={{ totalResults: 42, hasMore: true, onLoadMore: mockOnLoadMore }} />);
+
+      // WHEN
+      triggerIntersection(false);
+      triggerIntersection(true);
+      unmount();
+
+      // THEN
+      expect(mockOnLoadMore).toHaveBeenCalledTimes(1);
+      expect(mockDisconnect).toHaveBeenCalled();
+    });
+  });
+
   describe('Accessibility', () => {
     it('GIVEN SearchResults component WHEN rendered THEN should have proper ARIA attributes', () => {
       // GIVEN
@@ -1,33 +1,22 @@
-import React, { useCallback, useEffect, useMemo } from 'react';
+import React, { useCallback, useEffect, useMemo, useRef } from 'react';
 import { type SearchResultsProps, type Movie, type MovieFilters } from '../../types/movie.types';
-import { applyFilters } from '../../utils/filterUtils';
+import { type SearchQueryToken } from '../../types/query.types';
+import { OMDbErrorCode } from '../../types/omdb.types';
+import { hasActiveFilters } from '../../utils/filterUtils';
+import { parseSearchQuery, removeSearchQueryToken } from '../../utils/searchQueryUtils';
 import { MovieCard } from '../MovieCard';
 import './SearchResults.css';
 
 // Custom hook for search results logic
+// The page filters the movies with the filter store's memoised selector, so they arrive here already filtered
 const useSearchResultsLogic = (
   movies: Movie[],
+  filteredMovies: Movie[] = movies,
   filters?: MovieFilters
 ) => {
-  // Apply filters to movies
-  const filteredMovies = useMemo(() => {
-    if (!filters) return movies;
-    return applyFilters(movies, filters);
-  }, [movies, filters]);
-
-  // Check if there are any active filters
-  const hasActiveFilters = useMemo(() => {
-    if (!filters) return false;
-    return (
-      filters.selectedGenres.length > 0 ||
-      filters.selectedLanguages.length > 0 ||
-      filters.selectedReleaseYears.length > 0
-    );
-  }, [filters]);
-
   return {
     filteredMovies,
-    hasActiveFilters,
+    hasActiveFilters: !!filters && hasActiveFilters(filters),
   };
 };
 
@@ -50,6 +39,35 @@ const useKeyboardNavigation = (
   }, [handleKeyDown]);
 };
 
+// Custom hook for infinite scrolling: calls onLoadMore when the returned
+// sentinel element scrolls into view. Browsers without IntersectionObserver
+// fall back to the explicit "Load more" button.
+const useInfiniteScroll = (
+  onLoadMore: (() => void) | undefined,
+  enabled: boolean
+) => {
+  const sentinelRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!enabled || !onLoadMore || !sentinel || typeof IntersectionObserver === 'undefined') {
+      return;
+    }
+
+    const observer = new IntersectionObserver((entries) => {
+      if (entries.some((entry) => entry.isIntersecting)) {
+        onLoadMore();
+      }
+    }, { rootMargin: '400px 0px' });
+
+    observer.observe(sentinel);
+    return () => {
+      observer.disconnect();
+    };
+  }, [onLoadMore, enabled]);
+
+  return sentinelRef;
+};
 
 // Loading Component
 const LoadingState: React.FC = React.memo(() => (
@@ -64,21 +82,64 @@ LoadingState.displayName = 'LoadingState';
 // Error Component
 interface ErrorStateProps {
   readonly error: string;
+  readonly code?: string | null;
+  readonly searchQuery: string;
   readonly onRetry?: () => void;
 }
 
-const ErrorState: React.FC<ErrorStateProps> = React.memo(({ error, onRetry }) => {
+interface ErrorCopy {
+  readonly title: string;
+  readonly message: string;
+  /** Whether searching again could succeed */
+  readonly canRetry: boolean;
+}
+
+// OMDb errors get an explanation of what to do; anything else shows its own message
+const getErrorCopy = (error: string, code: string | null | undefined, searchQuery: string): ErrorCopy => {
+  switch (code) {
+    case OMDbErrorCode.NOT_FOUND:
+      return {
+        title: 'No Results Found',
+        message: `No titles match "${searchQuery}". Check the spelling or try a different search term.`,
+        canRetry: false,
+      };
+    case OMDbErrorCode.TOO_MANY_RESULTS:
+      return {
+        title: 'Too Many Results',
+        message: `"${searchQuery}" matches too many titles. Add more words to narrow the search.`,
+        canRetry: false,
+      };
+    case OMDbErrorCode.INVALID_API_KEY:
+      return {
+        title: 'Invalid API Key',
+        message: 'OMDb rejected the API key, so searches can\'t run. Check the configured OMDb API key.',
+        canRetry: false,
+      };
+    case OMDbErrorCode.REQUEST_LIMIT_REACHED:
+      return {
+        title: 'Daily Limit Reached',
+        message: 'The OMDb API key has used up its daily requests. Try again tomorrow.',
+        canRetry: false,
+      };
+    default:
+      return { title: 'Oops! Something went wrong', message: `Error: ${error}`, canRetry: true };
+  }
+};
+
+const ErrorState: React.FC<ErrorStateProps> = React.memo(({ error, code, searchQuery, onRetry }) => {
   const handleRetry = useCallback(() => {
     if (onRetry) {
       onRetry();
     }
   }, [onRetry]);
 
+  const { title, message, canRetry } = getErrorCopy(error, code, searchQuery);
+
   return (
-    <div className="search-results__error">
-      <h3>Oops! Something went wrong</h3>
-      <p>Error: {error}</p>
-      {onRetry && (
+    <div className="search-results__error" data-testid="search-results-error" role="alert">
+      <h3>{title}</h3>
+      <p>{message}</p>
+      {onRetry && canRetry && (
         <button
           className="search-results__retry-button"
           onClick={handleRetry}
@@ -158,13 +219,49 @@ const SearchResultsHeader: React.FC<SearchResultsHeaderProps> = React.memo(({
 
 SearchResultsHeader.displayName = 'SearchResultsHeader';
 
+// Search Token Chips Component
+interface SearchTokenChipsProps {
+  readonly tokens: readonly SearchQueryToken[];
+  readonly onRemove?: (key: SearchQueryToken['key']) => void;
+}
+
+const SearchTokenChips: React.FC<SearchTokenChipsProps> = React.memo(({ tokens, onRemove }) => {
+  if (tokens.length === 0) {
+    return null;
+  }
+
+  return (
+    <ul className="search-results__tokens" aria-label="Search tokens" data-testid="search-results-tokens">
+      {tokens.map((token) => (
+        <li key={token.key} className="search-results__token" title={token.raw}>
+          <span>{token.label}</span>
+          {onRemove && (
+            <button
+              type="button"
+              className="search-results__token-remove"
+              onClick={() => onRemove(token.key)}
+              aria-label={`Remove ${token.label}`}
+            >
+              ×
+            </button>
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+});
+
+SearchTokenChips.displayName = 'SearchTokenChips';
+
 // Movie Grid Component
 interface MovieGridProps {
   readonly movies: Movie[];
   readonly onMovieClick: (movie: Movie) => void;
+  readonly isInWatchlist?: (movieId: Movie['id']) => boolean;
+  readonly onWatchlistToggle?: (movie: Movie) => void;
 }
 
-const MovieGrid: React.FC<MovieGridProps> = React.memo(({ movies, onMovieClick }) => {
+const MovieGrid: React.FC<MovieGridProps> = React.memo(({ movies, onMovieClick, isInWatchlist, onWatchlistToggle }) => {
   const handleMovieClick = useCallback((movie: Movie) => {
     onMovieClick(movie);
   }, [onMovieClick]);
@@ -181,6 +278,8 @@ const MovieGrid: React.FC<MovieGridProps> = React.memo(({ movies, onMovieClick }
           movie={movie}
           onClick={handleMovieClick}
           className="search-results__movie-card"
+          isInWatchlist={isInWatchlist?.(movie.id)}
+          onWatchlistToggle={onWatchlistToggle}
         />
       ))}
     </div>
@@ -189,19 +288,72 @@ const MovieGrid: React.FC<MovieGridProps> = React.memo(({ movies, onMovieClick }
 
 MovieGrid.displayName = 'MovieGrid';
 
+// Pagination footer Component
+interface LoadMoreProps {
+  readonly loadedCount: number;
+  readonly totalResults?: number;
+  readonly hasMore: boolean;
+  readonly isLoadingMore: boolean;
+  readonly onLoadMore?: () => void;
+}
+
+const LoadMore: React.FC<LoadMoreProps> = React.memo(({
+  loadedCount,
+  totalResults,
+  hasMore,
+  isLoadingMore,
+  onLoadMore,
+}) => {
+  const sentinelRef = useInfiniteScroll(onLoadMore, hasMore && !isLoadingMore);
+
+  return (
+    <div className="search-results__pagination">
+      {totalResults !== undefined && totalResults > 0 && (
+        <p className="search-results__progress" data-testid="search-results-progress" aria-live="polite">
+          Showing {loadedCount} of {totalResults}
+        </p>
+      )}
+      {hasMore && onLoadMore && (
+        <>
+          <div ref={sentinelRef} className="search-results__sentinel" data-testid="search-results-sentinel" aria-hidden="true" />
+          <button
+            className="search-results__load-more"
+            onClick={onLoadMore}
+            disabled={isLoadingMore}
+            aria-label="Load more results"
+          >
+            {isLoadingMore ? 'Loading more...' : 'Load more'}
+          </button>
+        </>
+      )}
+    </div>
+  );
+});
+
+LoadMore.displayName = 'LoadMore';
+
 // Main SearchResults Component
 export const SearchResults: React.FC<SearchResultsProps> = React.memo(({
   searchQuery,
   movies = [],
+  filteredMovies: filteredMoviesProp,
   loading = false,
   error,
+  errorCode,
   onMovieClick,
   onBackToHome,
   onRetry,
   filters,
+  isInWatchlist,
+  onWatchlistToggle,
+  totalResults,
+  hasMore = false,
+  isLoadingMore = false,
+  onLoadMore,
+  onSearchQueryChange,
 }) => {
   // Custom hooks for different concerns
-  const { filteredMovies, hasActiveFilters } = useSearchResultsLogic(movies, filters);
+  const { filteredMovies, hasActiveFilters } = useSearchResultsLogic(movies, filteredMoviesProp, filters);
   
   // Keyboard navigation
   useKeyboardNavigation(onBackToHome);
@@ -221,6 +373,14 @@ export const SearchResults: React.FC<SearchResultsProps> = React.memo(({
     }
   }, [onRetry]);
 
+  // Tokens such as `year:1989` show as chips; the heading names only the search text
+  const parsedQuery = useMemo(() => parseSearchQuery(searchQuery), [searchQuery]);
+  const displayQuery = parsedQuery.text || searchQuery;
+
+  const handleTokenRemove = useCallback((key: SearchQueryToken['key']) => {
+    onSearchQueryChange?.(removeSearchQueryToken(searchQuery, key));
+  }, [onSearchQueryChange, searchQuery]);
+
   // Memoized computed values
   const resultCount = filteredMovies.length;
   const hasResults = resultCount > 0;
@@ -238,17 +398,24 @@ export const SearchResults: React.FC<SearchResultsProps> = React.memo(({
     <div className={containerClasses} data-testid="search-results" role="region" aria-label="Search results">
       <div className="search-results__container">
         <SearchResultsHeader
-          searchQuery={searchQuery}
+          searchQuery={displayQuery}
           resultCount={resultCount}
           onBackToHome={handleBackToHome}
         />
 
+        <SearchTokenChips
+          tokens={parsedQuery.tokens}
+          {...(onSearchQueryChange && { onRemove: handleTokenRemove })}
+        />
+
         <div className="search-results__content">
           {loading && <LoadingState />}
           
           {error && (
             <ErrorState
               error={error}
+              code={errorCode}
+              searchQuery={displayQuery}
               {...(onRetry && { onRetry: handleRetry })}
             />
           )}
@@ -261,6 +428,18 @@ export const SearchResults: React.FC<SearchResultsProps> = React.memo(({
             <MovieGrid
               movies={filteredMovies}
               onMovieClick={handleMovieClick}
+              isInWatchlist={isInWatchlist}
+              onWatchlistToggle={onWatchlistToggle}
+            />
+          )}
+
+          {!loading && !error && movies.length > 0 && (
+            <LoadMore
+              loadedCount={movies.length}
+              totalResults={totalResults}
+              hasMore={hasMore}
+              isLoadingMore={isLoadingMore}
+              onLoadMore={onLoadMore}
             />
           )}
         </div>
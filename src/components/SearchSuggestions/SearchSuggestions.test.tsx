@@ -0,0 +1,135 @@
+import { render, screen, fireEvent, within } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import '@testing-library/jest-dom';
+import { SearchSuggestions } from './SearchSuggestions';
+import { type Movie, type SearchSuggestion } from '../../types/movie.types';
+
+describe('SearchSuggestions', () => {
+  const mockMovie: Movie = {
+    id: 'tt0096895',
+    title: 'Batman',
+    overview: '',
+    poster_path: 'https://example.com/batman.jpg',
+    backdrop_path: null,
+    release_date: '1989-06-23',
+    vote_average: 0,
+    vote_count: 0,
+    genre_ids: [],
+    adult: false,
+    original_language: 'en',
+    original_title: 'Batman',
+    popularity: 0,
+    video: false,
+  };
+
+  const mockSuggestions: SearchSuggestion[] = [
+    { kind: 'recent', id: 'recent-batman returns', label: 'batman returns' },
+    { kind: 'title', id: `title-${mockMovie.id}`, label: mockMovie.title, movie: mockMovie },
+    {
+      kind: 'title',
+      id: 'title-tt0112462',
+      label: 'Batman Forever',
+      movie: { ...mockMovie, id: 'tt0112462', title: 'Batman Forever', poster_path: null, release_date: '' },
+    },
+  ];
+
+  const mockOnSelect = vi.fn();
+  const mockOnActiveIndexChange = vi.fn();
+  const mockOnClearRecent = vi.fn();
+  const getOptionId = (index: number) => `suggestions-option-${index}`;
+
+  const renderSuggestions = (suggestions: readonly SearchSuggestion[] = mockSuggestions, activeIndex = -1) =>
+    render(
+      <SearchSuggestions
+        id="suggestions"
+        suggestions={suggestions}
+        activeIndex={activeIndex}
+        getOptionId={getOptionId}
+        onSelect={mockOnSelect}
+        onActiveIndexChange={mockOnActiveIndexChange}
+        onClearRecent={mockOnClearRecent}
+      />
+    );
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('GIVEN recent searches and title matches WHEN rendered THEN should group them with their own headings', () => {
+    // GIVEN & WHEN
+    renderSuggestions();
+
+    // THEN
+    const recentGroup = screen.getByRole('group', { name: 'Recent searches' });
+    const titlesGroup = screen.getByRole('group', { name: 'Titles' });
+    expect(within(recentGroup).getByRole('option')).toHaveTextContent('batman returns');
+    expect(within(titlesGroup).getAllByRole('option')).toHaveLength(2);
+    expect(within(titlesGroup).getAllByRole('option')[0]).toHaveTextContent('Batman1989');
+  });
+
+  it('GIVEN title matches WHEN rendered THEN should show a poster when there is one and a placeholder otherwise', () => {
+    // GIVEN & WHEN
+    const { container } = renderSuggestions();
+
+    // THEN
+    expect(container.querySelector('img.search-suggestions__poster')).toHaveAttribute('src', mockMovie.poster_path);
+    expect(container.querySelectorAll('.search-suggestions__poster--empty')).toHaveLength(1);
+  });
+
+  it('GIVEN an active index WHEN rendered THEN should mark only that option as selected using the flat index', () => {
+    // GIVEN & WHEN
+    renderSuggestions(mockSuggestions, 2);
+
+    // THEN
+    const options = screen.getAllByRole('option');
+    expect(options.map((option) => option.getAttribute('aria-selected'))).toEqual(['false', 'false', 'true']);
+    expect(options[2]).toHaveAttribute('id', 'suggestions-option-2');
+  });
+
+  it('GIVEN suggestions WHEN clicking and hovering an option THEN should report the pick and the highlight', async () => {
+    // GIVEN
+    const user = userEvent.setup();
+    renderSuggestions();
+
+    // WHEN
+    await user.hover(screen.getByRole('option', { name: /^Batman Forever/ }));
+    await user.click(screen.getByRole('option', { name: /^Batman Forever/ }));
+
+    // THEN
+    expect(mockOnActiveIndexChange).toHaveBeenCalledWith(2);
+    expect(mockOnSelect).toHaveBeenCalledWith(mockSuggestions[2]);
+  });
+
+  it('GIVEN recent searches WHEN clicking clear THEN should call onClearRecent', async () => {
+    // GIVEN
+    const user = userEvent.setup();
+    renderSuggestions();
+
+    // WHEN
+    await user.click(screen.getByRole('button', { name: 'Clear recent searches' }));
+
+    // THEN
+    expect(mockOnClearRecent).toHaveBeenCalledTimes(1);
+  });
+
+  it('GIVEN only title matches WHEN rendered THEN should not offer to clear recent searches', () => {
+    // GIVEN & WHEN
+    renderSuggestions(mockSuggestions.slice(1));
+
+    // THEN
+    expect(screen.queryByRole('group', { name: 'Recent searches' })).not.toBeInTheDocument();
+    expect(screen.queryByRole('button', { name: 'Clear recent searches' })).not.toBeInTheDocument();
+  });
+
+  it('GIVEN the list WHEN pressing the pointer down on it THEN should keep focus where it is', () => {
+    // GIVEN
+    renderSuggestions();
+
+    // WHEN
+    const notPrevented = fireEvent.mouseDown(screen.getByRole('option', { name: /^Batman Forever/ }));
+
+    // THEN
+    expect(notPrevented).toBe(false);
+  });
+});
@@ -0,0 +1,107 @@
+import React from 'react';
+import { type SearchSuggestion } from '../../types/movie.types';
+import './SearchSuggestions.css';
+
+export interface SearchSuggestionsProps {
+  /** Id of the listbox, referenced by the combobox input's aria-controls */
+  readonly id: string;
+  /** Recent searches followed by title matches */
+  readonly suggestions: readonly SearchSuggestion[];
+  /** Index of the highlighted suggestion, -1 for none */
+  readonly activeIndex: number;
+  /** Id of the option at an index, referenced by the input's aria-activedescendant */
+  readonly getOptionId: (index: number) => string;
+  /** Callback function called when a suggestion is picked */
+  readonly onSelect: (suggestion: SearchSuggestion) => void;
+  /** Callback function called when the pointer highlights a suggestion */
+  readonly onActiveIndexChange?: (index: number) => void;
+  /** Callback function called to clear the recent searches */
+  readonly onClearRecent?: () => void;
+  /** Whether title matches are still loading */
+  readonly loading?: boolean;
+}
+
+const hasPoster = (posterPath: string | null): posterPath is string =>
+  !!posterPath && posterPath !== 'null' && posterPath.trim() !== '';
+
+// Suggestions are grouped by kind; the flat index is kept so keyboard navigation crosses groups
+const groupSuggestions = (suggestions: readonly SearchSuggestion[], kind: SearchSuggestion['kind']) =>
+  suggestions
+    .map((suggestion, index) => ({ suggestion, index }))
+    .filter(({ suggestion }) => suggestion.kind === kind);
+
+export const SearchSuggestions: React.FC<SearchSuggestionsProps> = ({
+  id,
+  suggestions,
+  activeIndex,
+  getOptionId,
+  onSelect,
+  onActiveIndexChange,
+  onClearRecent,
+  loading = false,
+}) => {
+  const groups = [
+    { kind: 'recent' as const, title: 'Recent searches', items: groupSuggestions(suggestions, 'recent') },
+    { kind: 'title' as const, title: 'Titles', items: groupSuggestions(suggestions, 'title') },
+  ].filter((group) => group.items.length > 0);
+
+  const hasRecent = groups.some((group) => group.kind === 'recent');
+
+  const renderContent = (suggestion: SearchSuggestion) => {
+    if (suggestion.kind === 'recent') {
+      return (
+        <>
+          <span className="search-suggestions__icon" aria-hidden="true">🕘</span>
+          <span className="search-suggestions__label">{suggestion.label}</span>
+        </>
+      );
+    }
+
+    const year = suggestion.movie.release_date.slice(0, 4);
+    return (
+      <>
+        {hasPoster(suggestion.movie.poster_path) ? (
+          <img src={suggestion.movie.poster_path} alt="" loading="lazy" className="search-suggestions__poster" />
+        ) : (
+          <span className="search-suggestions__poster search-suggestions__poster--empty" aria-hidden="true" />
+        )}
+        <span className="search-suggestions__label">{suggestion.label}</span>
+        {year && <span className="search-suggestions__year">{year}</span>}
+      </>
+    );
+  };
+
+  return (
+    // Keep focus in the search input while picking with the pointer
+    <div className="search-suggestions" data-testid="search-suggestions" onMouseDown={(event) => event.preventDefault()}>
+      <div role="listbox" id={id} aria-label="Search suggestions" aria-busy={loading} className="search-suggestions__listbox">
+        {groups.map((group) => (
+          <div key={group.kind} role="group" aria-labelledby={`${id}-${group.kind}`} className="search-suggestions__group">
+            <div id={`${id}-${group.kind}`} role="presentation" className="search-suggestions__heading">
+              {group.title}
+            </div>
+            {group.items.map(({ suggestion, index }) => (
+              <div
+                key={suggestion.id}
+                id={getOptionId(index)}
+                role="option"
+                aria-selected={index === activeIndex}
+                className={`search-suggestions__option ${index === activeIndex ? 'search-suggestions__option--active' : ''}`}
+                onClick={() => onSelect(suggestion)}
+                onMouseEnter={() => onActiveIndexChange?.(index)}
+              >
+                {renderContent(suggestion)}
+              </div>
+            ))}
+          </div>
+        ))}
+      </div>
+
+      {hasRecent && onClearRecent && (
+        <button type="button" className="search-suggestions__clear" onClick={onClearRecent}>
+          Clear recent searches
+        </button>
+      )}
+    </div>
+  );
+};
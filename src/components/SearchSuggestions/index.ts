@@ -0,0 +1,2 @@
+export { SearchSuggestions } from './SearchSuggestions';
+export type { SearchSuggestionsProps } from './SearchSuggestions';
@@ -0,0 +1,52 @@
+import { render, screen, fireEvent } from '@testing-library/react';
+import { vi, describe, it, expect } from 'vitest';
+import '@testing-library/jest-dom';
+import { SeasonPicker } from './SeasonPicker';
+
+describe('SeasonPicker', () => {
+  describe('Rendering', () => {
+    it('GIVEN a show with three seasons WHEN rendered THEN should list one option per season', () => {
+      // GIVEN
+      const mockOnSeasonChange = vi.fn();
+
+      // WHEN
+      render(<SeasonPicker totalSeasons={3} selectedSeason={2} onSeasonChange={mockOnSeasonChange} />);
+
+      // THEN
+      const select = screen.getByLabelText('Season');
+      expect(select).toHaveValue('2');
+      expect(screen.getAllByRole('option').map((option) => option.textContent)).toEqual([
+        'Season 1',
+        'Season 2',
+        'Season 3',
+      ]);
+    });
+
+    it('GIVEN a show without seasons WHEN rendered THEN should render nothing', () => {
+      // GIVEN
+      const mockOnSeasonChange = vi.fn();
+
+      // WHEN
+      const { container } = render(
+        <SeasonPicker totalSeasons={0} selectedSeason={1} onSeasonChange={mockOnSeasonChange} />
+      );
+
+      // THEN
+      expect(container).toBeEmptyDOMElement();
+    });
+  });
+
+  describe('User Interactions', () => {
+    it('GIVEN a season picker WHEN selecting another season THEN should call onSeasonChange with its number', () => {
+      // GIVEN
+      const mockOnSeasonChange = vi.fn();
+      render(<SeasonPicker totalSeasons={3} selectedSeason={1} onSeasonChange={mockOnSeasonChange} />);
+
+      // WHEN
+      fireEvent.change(screen.getByLabelText('Season'), { target: { value: '3' } });
+
+      // THEN
+      expect(mockOnSeasonChange).toHaveBeenCalledWith(3);
+    });
+  });
+});
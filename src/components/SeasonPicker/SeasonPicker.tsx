@@ -0,0 +1,42 @@
+import React from 'react';
+import { type SeasonPickerProps } from '../../types/movie.types';
+import './SeasonPicker.css';
+
+/**
+ * SeasonPicker component that lets the user choose which season of a TV show to display
+ */
+export const SeasonPicker: React.FC<SeasonPickerProps> = ({
+  totalSeasons,
+  selectedSeason,
+  onSeasonChange,
+}) => {
+  if (totalSeasons <= 0) {
+    return null;
+  }
+
+  const seasons = Array.from({ length: totalSeasons }, (_, index) => index + 1);
+
+  const handleChange = (event: React.ChangeEvent<HTMLSelectElement>) => {
+    onSeasonChange(Number(event.target.value));
+  };
+
+  return (
+    <div className="season-picker" data-testid="season-picker">
+      <label className="season-picker__label" htmlFor="season-picker-select">
+        Season
+      </label>
+      <select
+        id="season-picker-select"
+        className="season-picker__select"
+        value={selectedSeason}
+        onChange={handleChange}
+      >
+        {seasons.map((season) => (
+          <option key={season} value={season}>
+            Season {season}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+};
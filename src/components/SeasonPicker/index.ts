@@ -0,0 +1 @@
+export { SeasonPicker } from './SeasonPicker';
@@ -353,4 +353,41 @@ describe('SortFilter', () => {
       expect(ascendingButton).toHaveClass('sort-filter__item--active');
     });
   });
+
+  describe('Rating Source Sorting', () => {
+    it('GIVEN SortFilter WHEN a rating source option is clicked THEN should sort by that source', () => {
+      // GIVEN
+      render(
+        <SortFilter
+          sortBy="popularity"
+          sortOrder="desc"
+          onSortChange={mockOnSortChange}
+          onOrderChange={mockOnOrderChange}
+        />
+      );
+
+      // WHEN
+      fireEvent.click(screen.getByLabelText('Sort by rotten tomatoes rating'));
+
+      // THEN
+      expect(mockOnSortChange).toHaveBeenCalledWith('rating_rotten_tomatoes');
+    });
+
+    it('GIVEN SortFilter sorted by Metacritic WHEN rendered THEN should show Metacritic as selected', () => {
+      // GIVEN
+      // WHEN
+      render(
+        <SortFilter
+          sortBy="rating_metacritic"
+          sortOrder="desc"
+          onSortChange={mockOnSortChange}
+          onOrderChange={mockOnOrderChange}
+        />
+      );
+
+      // THEN
+      expect(screen.getByLabelText('Sort by metacritic rating')).toHaveAttribute('aria-pressed', 'true');
+      expect(screen.getByLabelText('Sort by imdb rating')).toHaveAttribute('aria-pressed', 'false');
+    });
+  });
 });
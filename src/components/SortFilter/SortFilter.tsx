@@ -1,5 +1,6 @@
 import React from 'react';
 import { type SortFilterProps } from '../../types/movie.types';
+import { RATING_SOURCES, toRatingSortKey } from '../../utils/ratingUtils';
 import './SortFilter.css';
 
 export const SortFilter: React.FC<SortFilterProps> = ({
@@ -16,12 +17,13 @@ export const SortFilter: React.FC<SortFilterProps> = ({
     onOrderChange?.(newSortOrder);
   };
 
-  const sortOptions = [
+  const sortOptions: readonly { value: SortFilterProps['sortBy']; label: string }[] = [
     { value: 'popularity', label: 'Popularity' },
     { value: 'release_date', label: 'Release Date' },
     { value: 'vote_average', label: 'Rating' },
     { value: 'title', label: 'Title' },
-  ] as const;
+    ...RATING_SOURCES.map(({ source, label }) => ({ value: toRatingSortKey(source), label: `${label} Rating` })),
+  ];
 
   const orderOptions = [
     { value: 'asc', label: 'Ascending' },
@@ -0,0 +1,95 @@
+import { render, screen, fireEvent } from '@testing-library/react';
+import { vi, describe, it, expect } from 'vitest';
+import '@testing-library/jest-dom';
+import { WatchlistButton } from './WatchlistButton';
+
+describe('WatchlistButton', () => {
+  describe('Rendering', () => {
+    it('GIVEN a movie not in the watchlist WHEN rendered THEN should offer to add it', () => {
+      // GIVEN
+      const mockOnToggle = vi.fn();
+
+      // WHEN
+      render(<WatchlistButton isInWatchlist={false} onToggle={mockOnToggle} title="Inception" />);
+
+      // THEN
+      const button = screen.getByRole('button', { name: 'Add Inception to My List' });
+      expect(button).toHaveAttribute('aria-pressed', 'false');
+      expect(screen.getByText('My List')).toBeInTheDocument();
+    });
+
+    it('GIVEN a movie in the watchlist WHEN rendered THEN should offer to remove it', () => {
+      // GIVEN
+      const mockOnToggle = vi.fn();
+
+      // WHEN
+      render(<WatchlistButton isInWatchlist={true} onToggle={mockOnToggle} title="Inception" />);
+
+      // THEN
+      const button = screen.getByRole('button', { name: 'Remove Inception from My List' });
+      expect(button).toHaveAttribute('aria-pressed', 'true');
+      expect(button).toHaveClass('watchlist-button--active');
+      expect(screen.getByText('In My List')).toBeInTheDocument();
+    });
+
+    it('GIVEN the icon variant WHEN rendered THEN should hide the text label', () => {
+      // GIVEN
+      const mockOnToggle = vi.fn();
+
+      // WHEN
+      render(<WatchlistButton isInWatchlist={false} onToggle={mockOnToggle} title="Inception" variant="icon" />);
+
+      // THEN
+      expect(screen.getByTestId('watchlist-button')).toHaveClass('watchlist-button--icon');
+      expect(screen.queryByText('My List')).not.toBeInTheDocument();
+    });
+  });
+
+  describe('User Interactions', () => {
+    it('GIVEN a watchlist button WHEN clicked THEN should call onToggle', () => {
+      // GIVEN
+      const mockOnToggle = vi.fn();
+      render(<WatchlistButton isInWatchlist={false} onToggle={mockOnToggle} title="Inception" />);
+
+      // WHEN
+      fireEvent.click(screen.getByTestId('watchlist-button'));
+
+      // THEN
+      expect(mockOnToggle).toHaveBeenCalledTimes(1);
+    });
+
+    it('GIVEN a watchlist button inside a clickable parent WHEN clicked THEN should not propagate the click', () => {
+      // GIVEN
+      const mockOnToggle = vi.fn();
+      const mockParentClick = vi.fn();
+      render(
+        <div onClick={mockParentClick}>
+          <WatchlistButton isInWatchlist={false} onToggle={mockOnToggle} title="Inception" />
+        </div>
+      );
+
+      // WHEN
+      fireEvent.click(screen.getByTestId('watchlist-button'));
+
+      // THEN
+      expect(mockOnToggle).toHaveBeenCalledTimes(1);
+      expect(mockParentClick).not.toHaveBeenCalled();
+    });
+
+    it('GIVEN a watchlist button inside a keyboard-handling parent WHEN Enter is pressed THEN should not propagate the key event', () => {
+      // GIVEN
+      const mockParentKeyDown = vi.fn();
+      render(
+        <div onKeyDown={mockParentKeyDown}>
+          <WatchlistButton isInWatchlist={false} onToggle={vi.fn()} title="Inception" />
+        </div>
+      );
+
+      // WHEN
+      fireEvent.keyDown(screen.getByTestId('watchlist-button'), { key: 'Enter' });
+
+      // THEN
+      expect(mockParentKeyDown).not.toHaveBeenCalled();
+    });
+  });
+});
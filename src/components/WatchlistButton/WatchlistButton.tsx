@@ -0,0 +1,51 @@
+import React from 'react';
+import { type WatchlistButtonProps } from '../../types/movie.types';
+import './WatchlistButton.css';
+
+export const WatchlistButton: React.FC<WatchlistButtonProps> = ({
+  isInWatchlist,
+  onToggle,
+  title,
+  variant = 'full',
+  className = '',
+}) => {
+  // Stop propagation so the toggle never triggers a surrounding clickable card
+  const handleClick = (event: React.MouseEvent) => {
+    event.stopPropagation();
+    onToggle();
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent) => {
+    if (event.key === 'Enter' || event.key === ' ') {
+      event.stopPropagation();
+    }
+  };
+
+  const buttonClasses = [
+    'watchlist-button',
+    `watchlist-button--${variant}`,
+    isInWatchlist ? 'watchlist-button--active' : '',
+    className,
+  ].filter(Boolean).join(' ');
+
+  return (
+    <button
+      type="button"
+      className={buttonClasses}
+      onClick={handleClick}
+      onKeyDown={handleKeyDown}
+      aria-pressed={isInWatchlist}
+      aria-label={isInWatchlist ? `Remove ${title} from My List` : `Add ${title} to My List`}
+      data-testid="watchlist-button"
+    >
+      <span className="watchlist-button__icon" aria-hidden="true">
+        {isInWatchlist ? '✓' : '+'}
+      </span>
+      {variant === 'full' && (
+        <span className="watchlist-button__text">
+          {isInWatchlist ? 'In My List' : 'My List'}
+        </span>
+      )}
+    </button>
+  );
+};
@@ -0,0 +1 @@
+export { WatchlistButton } from './WatchlistButton';
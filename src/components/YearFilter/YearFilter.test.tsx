@@ -2,414 +2,203 @@ import { render, screen, fireEvent } from '@testing-library/react';
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import '@testing-library/jest-dom';
 import { YearFilter } from './YearFilter';
+import { type YearFilterProps } from '../../types/movie.types';
 
 describe('YearFilter', () => {
-  const mockYears: number[] = [2020, 2021, 2022, 2023, 2024];
+  const mockYears: number[] = [2024, 2023, 1999, 1994, 1987];
 
-  const mockOnYearToggle = vi.fn();
-  const mockOnSelectAll = vi.fn();
+  const mockOnYearRangeChange = vi.fn();
+  const mockOnDecadeToggle = vi.fn();
   const mockOnClearAll = vi.fn();
 
+  const renderYearFilter = (props: Partial<YearFilterProps> = {}) =>
+    render(
+      <YearFilter
+        years={mockYears}
+        yearRange={null}
+        selectedDecades={[]}
+        onYearRangeChange={mockOnYearRangeChange}
+        onDecadeToggle={mockOnDecadeToggle}
+        onClearAll={mockOnClearAll}
+        {...props}
+      />
+    );
+
   beforeEach(() => {
     vi.clearAllMocks();
   });
 
   describe('Rendering', () => {
-    it('GIVEN YearFilter with years WHEN rendered THEN should display all years', () => {
-      // GIVEN
-      const selectedYears: number[] = [];
-
-      // WHEN
-      render(
-        <YearFilter
-          years={mockYears}
-          selectedYears={selectedYears}
-          onYearToggle={mockOnYearToggle}
-          onSelectAll={mockOnSelectAll}
-          onClearAll={mockOnClearAll}
-        />
-      );
+    it('GIVEN YearFilter with years and no range WHEN rendered THEN should show sliders spanning every year', () => {
+      // GIVEN & WHEN
+      renderYearFilter();
 
       // THEN
       expect(screen.getByText('Release Year')).toBeInTheDocument();
-      expect(screen.getByText('2020')).toBeInTheDocument();
-      expect(screen.getByText('2021')).toBeInTheDocument();
-      expect(screen.getByText('2022')).toBeInTheDocument();
-      expect(screen.getByText('2023')).toBeInTheDocument();
-      expect(screen.getByText('2024')).toBeInTheDocument();
+      expect(screen.getByTestId('year-filter-range-value')).toHaveTextContent('Any year');
+      expect(screen.getByLabelText('Earliest release year')).toHaveValue('1987');
+      expect(screen.getByLabelText('Latest release year')).toHaveValue('2024');
+      expect(screen.getByLabelText('Earliest release year')).toHaveAttribute('min', '1987');
+      expect(screen.getByLabelText('Earliest release year')).toHaveAttribute('max', '2024');
     });
 
-    it('GIVEN YearFilter with selected years WHEN rendered THEN should show selected years as active', () => {
-      // GIVEN
-      const selectedYears: number[] = [2021, 2023];
-
-      // WHEN
-      render(
-        <YearFilter
-          years={mockYears}
-          selectedYears={selectedYears}
-          onYearToggle={mockOnYearToggle}
-          onSelectAll={mockOnSelectAll}
-          onClearAll={mockOnClearAll}
-        />
-      );
+    it('GIVEN YearFilter with a range WHEN rendered THEN should show the range on the sliders', () => {
+      // GIVEN & WHEN
+      renderYearFilter({ yearRange: { from: 1994, to: 1999 } });
 
       // THEN
-      const year2021Button = screen.getByLabelText('Select 2021 year');
-      const year2023Button = screen.getByLabelText('Select 2023 year');
-      const year2020Button = screen.getByLabelText('Select 2020 year');
-
-      expect(year2021Button).toHaveClass('year-filter__item--active');
-      expect(year2023Button).toHaveClass('year-filter__item--active');
-      expect(year2020Button).not.toHaveClass('year-filter__item--active');
+      expect(screen.getByTestId('year-filter-range-value')).toHaveTextContent('1994–1999');
+      expect(screen.getByLabelText('Earliest release year')).toHaveValue('1994');
+      expect(screen.getByLabelText('Latest release year')).toHaveValue('1999');
     });
 
-    it('GIVEN YearFilter with empty years array WHEN rendered THEN should display no years', () => {
-      // GIVEN
-      const selectedYears: number[] = [];
-
-      // WHEN
-      render(
-        <YearFilter
-          years={[]}
-          selectedYears={selectedYears}
-          onYearToggle={mockOnYearToggle}
-          onSelectAll={mockOnSelectAll}
-          onClearAll={mockOnClearAll}
-        />
-      );
+    it('GIVEN a range reaching past the available years WHEN rendered THEN should keep the sliders within them', () => {
+      // GIVEN & WHEN
+      renderYearFilter({ yearRange: { from: 1950, to: 1990 } });
 
       // THEN
-      expect(screen.getByText('Release Year')).toBeInTheDocument();
-      expect(screen.queryByText('2020')).not.toBeInTheDocument();
-      expect(screen.queryByText('2021')).not.toBeInTheDocument();
+      expect(screen.getByTestId('year-filter-range-value')).toHaveTextContent('1950–1990');
+      expect(screen.getByLabelText('Earliest release year')).toHaveValue('1987');
+      expect(screen.getByLabelText('Latest release year')).toHaveValue('1990');
     });
-  });
-
-  describe('Year Selection', () => {
-    it('GIVEN YearFilter WHEN year button is clicked THEN should call onYearToggle with year', () => {
-      // GIVEN
-      const selectedYears: number[] = [];
 
-      render(
-        <YearFilter
-          years={mockYears}
-          selectedYears={selectedYears}
-          onYearToggle={mockOnYearToggle}
-          onSelectAll={mockOnSelectAll}
-          onClearAll={mockOnClearAll}
-        />
-      );
-
-      const year2021Button = screen.getByLabelText('Select 2021 year');
-
-      // WHEN
-      fireEvent.click(year2021Button);
+    it('GIVEN YearFilter with years WHEN rendered THEN should list their decades oldest first', () => {
+      // GIVEN & WHEN
+      renderYearFilter();
 
       // THEN
-      expect(mockOnYearToggle).toHaveBeenCalledTimes(1);
-      expect(mockOnYearToggle).toHaveBeenCalledWith(2021);
+      const decadeButtons = screen.getAllByRole('button', { name: /^Select the/ });
+      expect(decadeButtons.map((button) => button.textContent)).toEqual(['1980s', '1990s', '2020s']);
     });
 
-    it('GIVEN YearFilter WHEN multiple year buttons are clicked THEN should call onYearToggle for each', () => {
-      // GIVEN
-      const selectedYears: number[] = [];
-
-      render(
-        <YearFilter
-          years={mockYears}
-          selectedYears={selectedYears}
-          onYearToggle={mockOnYearToggle}
-          onSelectAll={mockOnSelectAll}
-          onClearAll={mockOnClearAll}
-        />
-      );
+    it('GIVEN YearFilter with selected decades WHEN rendered THEN should show them as pressed', () => {
+      // GIVEN & WHEN
+      renderYearFilter({ selectedDecades: [1990] });
 
-      const year2020Button = screen.getByLabelText('Select 2020 year');
-      const year2022Button = screen.getByLabelText('Select 2022 year');
+      // THEN
+      expect(screen.getByLabelText('Select the 1990s')).toHaveAttribute('aria-pressed', 'true');
+      expect(screen.getByLabelText('Select the 1990s')).toHaveClass('year-filter__item--active');
+      expect(screen.getByLabelText('Select the 1980s')).toHaveAttribute('aria-pressed', 'false');
+    });
 
-      // WHEN
-      fireEvent.click(year2020Button);
-      fireEvent.click(year2022Button);
+    it('GIVEN YearFilter with empty years array WHEN rendered THEN should display the empty state', () => {
+      // GIVEN & WHEN
+      renderYearFilter({ years: [] });
 
       // THEN
-      expect(mockOnYearToggle).toHaveBeenCalledTimes(2);
-      expect(mockOnYearToggle).toHaveBeenNthCalledWith(1, 2020);
-      expect(mockOnYearToggle).toHaveBeenNthCalledWith(2, 2022);
+      expect(screen.getByText('No years available')).toBeInTheDocument();
+      expect(screen.queryByRole('slider')).not.toBeInTheDocument();
+      expect(screen.queryByRole('button', { name: /^Select the/ })).not.toBeInTheDocument();
     });
   });
 
-  describe('Select All Functionality', () => {
-    it('GIVEN YearFilter WHEN Select All button is clicked THEN should call onSelectAll', () => {
-      // GIVEN
-      const selectedYears: number[] = [];
-
-      render(
-        <YearFilter
-          years={mockYears}
-          selectedYears={selectedYears}
-          onYearToggle={mockOnYearToggle}
-          onSelectAll={mockOnSelectAll}
-          onClearAll={mockOnClearAll}
-        />
-      );
-
-      const selectAllButton = screen.getByLabelText('Select all years');
-
-      // WHEN
-      fireEvent.click(selectAllButton);
+  describe('Decade Counts', () => {
+    it('GIVEN YearFilter with decade counts WHEN rendered THEN should show them and disable decades without results', () => {
+      // GIVEN & WHEN
+      renderYearFilter({ selectedDecades: [2020], decadeCounts: { 1990: 2 } });
 
       // THEN
-      expect(mockOnSelectAll).toHaveBeenCalledTimes(1);
+      expect(screen.getByLabelText('Select the 1990s, 2 titles')).toHaveTextContent('1990s2');
+      expect(screen.getByLabelText('Select the 1980s, 0 titles')).toBeDisabled();
+      expect(screen.getByLabelText('Select the 2020s, 0 titles')).toBeEnabled();
     });
+  });
 
-    it('GIVEN YearFilter with all years selected WHEN Select All button is clicked THEN should still call onSelectAll', () => {
+  describe('Year Range', () => {
+    it('GIVEN YearFilter WHEN the earliest year slider is moved THEN should call onYearRangeChange with the new range', () => {
       // GIVEN
-      const selectedYears: number[] = [2020, 2021, 2022, 2023, 2024];
-
-      render(
-        <YearFilter
-          years={mockYears}
-          selectedYears={selectedYears}
-          onYearToggle={mockOnYearToggle}
-          onSelectAll={mockOnSelectAll}
-          onClearAll={mockOnClearAll}
-        />
-      );
-
-      const selectAllButton = screen.getByLabelText('Select all years');
+      renderYearFilter();
 
       // WHEN
-      fireEvent.click(selectAllButton);
+      fireEvent.change(screen.getByLabelText('Earliest release year'), { target: { value: '1995' } });
 
       // THEN
-      expect(mockOnSelectAll).toHaveBeenCalledTimes(1);
+      expect(mockOnYearRangeChange).toHaveBeenCalledWith({ from: 1995, to: 2024 });
     });
-  });
 
-  describe('Clear All Functionality', () => {
-    it('GIVEN YearFilter WHEN Clear All button is clicked THEN should call onClearAll', () => {
+    it('GIVEN a range WHEN the latest year slider is moved below the earliest year THEN should stop at the earliest year', () => {
       // GIVEN
-      const selectedYears: number[] = [];
-
-      render(
-        <YearFilter
-          years={mockYears}
-          selectedYears={selectedYears}
-          onYearToggle={mockOnYearToggle}
-          onSelectAll={mockOnSelectAll}
-          onClearAll={mockOnClearAll}
-        />
-      );
-
-      const clearAllButton = screen.getByLabelText('Clear all year selections');
+      renderYearFilter({ yearRange: { from: 1994, to: 1999 } });
 
       // WHEN
-      fireEvent.click(clearAllButton);
+      fireEvent.change(screen.getByLabelText('Latest release year'), { target: { value: '1990' } });
 
       // THEN
-      expect(mockOnClearAll).toHaveBeenCalledTimes(1);
+      expect(mockOnYearRangeChange).toHaveBeenCalledWith({ from: 1994, to: 1994 });
     });
 
-    it('GIVEN YearFilter with selected years WHEN Clear All button is clicked THEN should call onClearAll', () => {
+    it('GIVEN a range WHEN the sliders are moved back to every year THEN should call onYearRangeChange with null', () => {
       // GIVEN
-      const selectedYears: number[] = [2021, 2023];
-
-      render(
-        <YearFilter
-          years={mockYears}
-          selectedYears={selectedYears}
-          onYearToggle={mockOnYearToggle}
-          onSelectAll={mockOnSelectAll}
-          onClearAll={mockOnClearAll}
-        />
-      );
-
-      const clearAllButton = screen.getByLabelText('Clear all year selections');
+      renderYearFilter({ yearRange: { from: 1987, to: 1999 } });
 
       // WHEN
-      fireEvent.click(clearAllButton);
+      fireEvent.change(screen.getByLabelText('Latest release year'), { target: { value: '2024' } });
 
       // THEN
-      expect(mockOnClearAll).toHaveBeenCalledTimes(1);
+      expect(mockOnYearRangeChange).toHaveBeenCalledWith(null);
     });
   });
 
-  describe('Accessibility', () => {
-    it('GIVEN YearFilter WHEN rendered THEN should have proper ARIA attributes', () => {
+  describe('Decade Selection', () => {
+    it('GIVEN YearFilter WHEN a decade button is clicked THEN should call onDecadeToggle with the decade', () => {
       // GIVEN
-      const selectedYears: number[] = [];
+      renderYearFilter();
 
       // WHEN
-      render(
-        <YearFilter
-          years={mockYears}
-          selectedYears={selectedYears}
-          onYearToggle={mockOnYearToggle}
-          onSelectAll={mockOnSelectAll}
-          onClearAll={mockOnClearAll}
-        />
-      );
+      fireEvent.click(screen.getByLabelText('Select the 1980s'));
 
       // THEN
-      expect(screen.getByRole('list')).toHaveAttribute('aria-label', 'Select release years');
-      expect(screen.getByLabelText('Select 2020 year')).toHaveAttribute('aria-pressed', 'false');
-      expect(screen.getByLabelText('Select 2021 year')).toHaveAttribute('aria-pressed', 'false');
-      expect(screen.getByLabelText('Select all years')).toBeInTheDocument();
-      expect(screen.getByLabelText('Clear all year selections')).toBeInTheDocument();
+      expect(mockOnDecadeToggle).toHaveBeenCalledTimes(1);
+      expect(mockOnDecadeToggle).toHaveBeenCalledWith(1980);
     });
+  });
 
-    it('GIVEN YearFilter WHEN year button is focused THEN should be focusable', () => {
+  describe('Clear All Functionality', () => {
+    it('GIVEN YearFilter with a range and decades WHEN Clear All button is clicked THEN should call onClearAll', () => {
       // GIVEN
-      const selectedYears: number[] = [];
-
-      render(
-        <YearFilter
-          years={mockYears}
-          selectedYears={selectedYears}
-          onYearToggle={mockOnYearToggle}
-          onSelectAll={mockOnSelectAll}
-          onClearAll={mockOnClearAll}
-        />
-      );
+      renderYearFilter({ yearRange: { from: 1994, to: 1999 }, selectedDecades: [1990] });
 
-      const year2021Button = screen.getByLabelText('Select 2021 year');
-      year2021Button.focus();
+      // WHEN
+      fireEvent.click(screen.getByLabelText('Clear all year selections'));
 
       // THEN
-      expect(year2021Button).toHaveFocus();
+      expect(mockOnClearAll).toHaveBeenCalledTimes(1);
     });
+  });
 
-    it('GIVEN YearFilter WHEN year button is pressed with keyboard THEN should call onYearToggle', () => {
-      // GIVEN
-      const selectedYears: number[] = [];
-
-      render(
-        <YearFilter
-          years={mockYears}
-          selectedYears={selectedYears}
-          onYearToggle={mockOnYearToggle}
-          onSelectAll={mockOnSelectAll}
-          onClearAll={mockOnClearAll}
-        />
-      );
-
-      const year2021Button = screen.getByLabelText('Select 2021 year');
-
-      // WHEN
-      year2021Button.focus();
-      fireEvent.keyDown(year2021Button, { key: 'Enter', code: 'Enter' });
+  describe('Accessibility', () => {
+    it('GIVEN YearFilter WHEN rendered THEN should label the range group and the decade list', () => {
+      // GIVEN & WHEN
+      renderYearFilter();
 
       // THEN
-      expect(mockOnYearToggle).toHaveBeenCalledTimes(1);
-      expect(mockOnYearToggle).toHaveBeenCalledWith(2021);
+      expect(screen.getByRole('group', { name: 'Release year range' })).toBeInTheDocument();
+      expect(screen.getAllByRole('slider')).toHaveLength(2);
+      expect(screen.getByRole('list', { name: 'Select decades' })).toBeInTheDocument();
     });
   });
 
   describe('Edge Cases', () => {
-    it('GIVEN YearFilter with undefined handlers WHEN rendered THEN should not throw error', () => {
+    it('GIVEN YearFilter with undefined handlers WHEN interacting THEN should not throw error', () => {
       // GIVEN
-      const selectedYears: number[] = [];
+      render(<YearFilter years={mockYears} yearRange={null} selectedDecades={[]} />);
 
       // WHEN & THEN
       expect(() => {
-        render(
-          <YearFilter
-            years={mockYears}
-            selectedYears={selectedYears}
-          />
-        );
+        fireEvent.change(screen.getByLabelText('Earliest release year'), { target: { value: '1995' } });
+        fireEvent.click(screen.getByLabelText('Select the 1990s'));
+        fireEvent.click(screen.getByLabelText('Clear all year selections'));
       }).not.toThrow();
     });
 
-    it('GIVEN YearFilter with very old years WHEN rendered THEN should display correctly', () => {
-      // GIVEN
-      const oldYears: number[] = [1990, 1995, 2000, 2005];
-      const selectedYears: number[] = [];
-
-      // WHEN
-      render(
-        <YearFilter
-          years={oldYears}
-          selectedYears={selectedYears}
-          onYearToggle={mockOnYearToggle}
-          onSelectAll={mockOnSelectAll}
-          onClearAll={mockOnClearAll}
-        />
-      );
-
-      // THEN
-      expect(screen.getByText('1990')).toBeInTheDocument();
-      expect(screen.getByText('1995')).toBeInTheDocument();
-      expect(screen.getByText('2000')).toBeInTheDocument();
-      expect(screen.getByText('2005')).toBeInTheDocument();
-    });
-
-    it('GIVEN YearFilter with future years WHEN rendered THEN should display correctly', () => {
-      // GIVEN
-      const futureYears: number[] = [2025, 2030, 2035, 2040];
-      const selectedYears: number[] = [];
-
-      // WHEN
-      render(
-        <YearFilter
-          years={futureYears}
-          selectedYears={selectedYears}
-          onYearToggle={mockOnYearToggle}
-          onSelectAll={mockOnSelectAll}
-          onClearAll={mockOnClearAll}
-        />
-      );
-
-      // THEN
-      expect(screen.getByText('2025')).toBeInTheDocument();
-      expect(screen.getByText('2030')).toBeInTheDocument();
-      expect(screen.getByText('2035')).toBeInTheDocument();
-      expect(screen.getByText('2040')).toBeInTheDocument();
-    });
-
-    it('GIVEN YearFilter with duplicate years WHEN rendered THEN should handle gracefully', () => {
-      // GIVEN
-      const duplicateYears: number[] = [2020, 2020, 2021, 2021];
-      const selectedYears: number[] = [];
-
-      // WHEN
-      render(
-        <YearFilter
-          years={duplicateYears}
-          selectedYears={selectedYears}
-          onYearToggle={mockOnYearToggle}
-          onSelectAll={mockOnSelectAll}
-          onClearAll={mockOnClearAll}
-        />
-      );
-
-      // THEN
-      expect(screen.getAllByText('2020')).toHaveLength(2);
-      expect(screen.getAllByText('2021')).toHaveLength(2);
-    });
-
-    it('GIVEN YearFilter with negative years WHEN rendered THEN should display correctly', () => {
-      // GIVEN
-      const negativeYears: number[] = [-100, -50, 0, 50];
-      const selectedYears: number[] = [];
-
-      // WHEN
-      render(
-        <YearFilter
-          years={negativeYears}
-          selectedYears={selectedYears}
-          onYearToggle={mockOnYearToggle}
-          onSelectAll={mockOnSelectAll}
-          onClearAll={mockOnClearAll}
-        />
-      );
+    it('GIVEN YearFilter with a single year WHEN rendered THEN should show one decade and sliders fixed at that year', () => {
+      // GIVEN & WHEN
+      renderYearFilter({ years: [2023] });
 
       // THEN
-      expect(screen.getByText('-100')).toBeInTheDocument();
-      expect(screen.getByText('-50')).toBeInTheDocument();
-      expect(screen.getByText('0')).toBeInTheDocument();
-      expect(screen.getByText('50')).toBeInTheDocument();
+      expect(screen.getByLabelText('Earliest release year')).toHaveValue('2023');
+      expect(screen.getByLabelText('Latest release year')).toHaveValue('2023');
+      expect(screen.getAllByRole('button', { name: /^Select the/ })).toHaveLength(1);
     });
   });
 });
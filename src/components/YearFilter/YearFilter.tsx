@@ -1,90 +1,149 @@
 import React from 'react';
-import { type YearFilterProps } from '../../types/movie.types';
+import { type YearFilterProps, type YearRange } from '../../types/movie.types';
+import {
+  formatDecade,
+  formatResultCount,
+  formatYearRange,
+  getAvailableDecades,
+  getYearRangeSpanning,
+} from '../../utils/filterUtils';
 import './YearFilter.css';
 
+const clamp = (value: number, { from, to }: YearRange) => Math.min(Math.max(value, from), to);
+
 export const YearFilter: React.FC<YearFilterProps> = ({
   years,
-  selectedYears,
-  onYearToggle,
-  onSelectAll,
+  yearRange,
+  selectedDecades,
+  decadeCounts,
+  onYearRangeChange,
+  onDecadeToggle,
   onClearAll,
 }) => {
-  const handleYearClick = (year: number) => {
-    onYearToggle?.(year);
+  const bounds = getYearRangeSpanning(years);
+  const decades = getAvailableDecades(years);
+
+  const handleClearAll = () => {
+    onClearAll?.();
   };
 
-  const handleSelectAll = () => {
-    onSelectAll?.();
+  const handleDecadeClick = (decade: number) => {
+    onDecadeToggle?.(decade);
   };
 
-  const handleClearAll = () => {
-    onClearAll?.();
+  const header = (
+    <div className="year-filter__header">
+      <h4 className="year-filter__title">Release Year</h4>
+      <div className="year-filter__actions">
+        <button
+          type="button"
+          className="year-filter__action"
+          onClick={handleClearAll}
+          aria-label="Clear all year selections"
+        >
+          Clear All
+        </button>
+      </div>
+    </div>
+  );
+
+  if (!bounds) {
+    return (
+      <div className="year-filter">
+        {header}
+        <div className="year-filter__empty">
+          <p>No years available</p>
+        </div>
+      </div>
+    );
+  }
+
+  // A range from a link or preset can reach past the years on screen; the handles stay within them
+  const from = clamp(yearRange?.from ?? bounds.from, bounds);
+  const to = clamp(yearRange?.to ?? bounds.to, bounds);
+  const span = Math.max(bounds.to - bounds.from, 1);
+
+  const changeRange = (range: YearRange) => {
+    // A range covering every available year filters nothing
+    onYearRangeChange?.(range.from <= bounds.from && range.to >= bounds.to ? null : range);
+  };
+
+  const handleFromChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    changeRange({ from: Math.min(Number(event.target.value), to), to });
   };
 
-  const isYearSelected = (year: number) => {
-    return selectedYears.includes(year);
+  const handleToChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    changeRange({ from, to: Math.max(Number(event.target.value), from) });
   };
 
   return (
     <div className="year-filter">
-      <div className="year-filter__header">
-        <h4 className="year-filter__title">Release Year</h4>
-        <div className="year-filter__actions">
-          <button
-            type="button"
-            className="year-filter__action"
-            onClick={handleSelectAll}
-            aria-label="Select all years"
-          >
-            Select All
-          </button>
-          <button
-            type="button"
-            className="year-filter__action"
-            onClick={handleClearAll}
-            aria-label="Clear all year selections"
-          >
-            Clear All
-          </button>
+      {header}
+
+      <div className="year-filter__range" role="group" aria-label="Release year range">
+        <output className="year-filter__range-value" data-testid="year-filter-range-value">
+          {yearRange ? formatYearRange(yearRange) : 'Any year'}
+        </output>
+        <div className="year-filter__slider">
+          <div
+            className="year-filter__slider-fill"
+            style={{
+              left: `${((from - bounds.from) / span) * 100}%`,
+              right: `${((bounds.to - to) / span) * 100}%`,
+            }}
+          />
+          <input
+            type="range"
+            className="year-filter__slider-input"
+            min={bounds.from}
+            max={bounds.to}
+            value={from}
+            onChange={handleFromChange}
+            aria-label="Earliest release year"
+          />
+          <input
+            type="range"
+            className="year-filter__slider-input"
+            min={bounds.from}
+            max={bounds.to}
+            value={to}
+            onChange={handleToChange}
+            aria-label="Latest release year"
+          />
+        </div>
+        <div className="year-filter__range-bounds" aria-hidden="true">
+          <span>{bounds.from}</span>
+          <span>{bounds.to}</span>
         </div>
       </div>
 
-      {years.length === 0 ? (
-        <div className="year-filter__empty">
-          <p>No years available</p>
-        </div>
-      ) : (
-        <ul className="year-filter__list" role="list" aria-label="Select release years">
-          {years.map((year) => {
-            const isSelected = isYearSelected(year);
+      <ul className="year-filter__list" role="list" aria-label="Select decades">
+        {decades.map((decade) => {
+          const isSelected = selectedDecades.includes(decade);
+          const count = decadeCounts ? decadeCounts[decade] ?? 0 : undefined;
 
-            return (
-              <li key={year} className="year-filter__item">
-                <button
-                  type="button"
-                  className={`year-filter__item-button ${isSelected ? 'year-filter__item--active' : ''}`}
-                  onClick={() => handleYearClick(year)}
-                  onKeyDown={(e) => {
-                    if (e.key === 'Enter' || e.key === ' ') {
-                      e.preventDefault();
-                      handleYearClick(year);
-                    }
-                  }}
-                  aria-label={`Select ${year} year`}
-                  aria-pressed={isSelected}
-                >
-                  <span className="year-filter__item-text">{year}</span>
-                  {isSelected && (
-                    <span className="year-filter__item-check" aria-hidden="true">
-                      ✓
-                    </span>
-                  )}
-                </button>
-              </li>
-            );
-          })}
-        </ul>
-      )}
+          return (
+            <li key={decade} className="year-filter__item">
+              <button
+                type="button"
+                className={`year-filter__item-button ${isSelected ? 'year-filter__item--active' : ''}`}
+                onClick={() => handleDecadeClick(decade)}
+                disabled={count === 0 && !isSelected}
+                aria-label={`Select the ${formatDecade(decade)}${count === undefined ? '' : `, ${formatResultCount(count)}`}`}
+                aria-pressed={isSelected}
+              >
+                <span className="year-filter__item-text">{formatDecade(decade)}</span>
+                {count !== undefined && <span className="year-filter__item-count">{count}</span>}
+                {isSelected && (
+                  <span className="year-filter__item-check" aria-hidden="true">
+                    ✓
+                  </span>
+                )}
+              </button>
+            </li>
+          );
+        })}
+      </ul>
     </div>
   );
 };
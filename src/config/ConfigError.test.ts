@@ -0,0 +1,46 @@
+import { vi, describe, it, expect } from 'vitest';
+import { ConfigError, InvalidUrlError, MissingApiKeyError, isConfigError } from './ConfigError';
+import { transformToQueryError } from '../utils/queryUtils';
+
+// Mock the api.config module to avoid import.meta issues
+vi.mock('./api.config', () => ({
+  getApiConfig: vi.fn(),
+  isApiConfigValid: vi.fn(() => true),
+}));
+
+describe('ConfigError', () => {
+  it('GIVEN a missing API key WHEN creating the error THEN should be a ConfigError naming the variable', () => {
+    // GIVEN & WHEN
+    const error = new MissingApiKeyError();
+
+    // THEN
+    expect(error).toBeInstanceOf(ConfigError);
+    expect(error.code).toBe('CONFIG_MISSING_API_KEY');
+    expect(error.variable).toBe('VITE_OMDB_API_KEY');
+  });
+
+  describe('isConfigError', () => {
+    it('GIVEN the QueryError made from a ConfigError WHEN checking THEN should return true', () => {
+      // GIVEN
+      const error = transformToQueryError(new InvalidUrlError('VITE_OMDB_BASE_URL', 'nope'));
+
+      // WHEN
+      const result = isConfigError(error);
+
+      // THEN
+      expect(result).toBe(true);
+    });
+
+    it.each([
+      { description: 'an OMDb error code', error: { message: 'Invalid API key!', code: 'OMDB_INVALID_API_KEY' } },
+      { description: 'a plain error', error: new Error('Boom') },
+      { description: 'null', error: null },
+    ])('GIVEN $description WHEN checking THEN should return false', ({ error }) => {
+      // GIVEN & WHEN
+      const result = isConfigError(error);
+
+      // THEN
+      expect(result).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,71 @@
+import { ConfigErrorCode } from '../types/config.types';
+
+/**
+ * A configuration value is missing or invalid
+ */
+export class ConfigError extends Error {
+  readonly code: ConfigErrorCode;
+  /** Environment variable holding the bad value */
+  readonly variable: string;
+
+  constructor(message: string, code: ConfigErrorCode, variable: string) {
+    super(message);
+    this.name = 'ConfigError';
+    this.code = code;
+    this.variable = variable;
+  }
+}
+
+/**
+ * No API key is configured or stored
+ */
+export class MissingApiKeyError extends ConfigError {
+  constructor(variable = 'VITE_OMDB_API_KEY') {
+    super(`${variable} is not set and no API key has been saved`, ConfigErrorCode.MISSING_API_KEY, variable);
+    this.name = 'MissingApiKeyError';
+  }
+}
+
+/**
+ * A URL setting is missing or isn't an http(s) URL or a root-relative path
+ */
+export class InvalidUrlError extends ConfigError {
+  constructor(variable: string, value: string | undefined) {
+    super(
+      value ? `${variable} must be an http(s) URL or a path starting with "/", got "${value}"` : `${variable} is required`,
+      ConfigErrorCode.INVALID_URL,
+      variable
+    );
+    this.name = 'InvalidUrlError';
+  }
+}
+
+/**
+ * A numeric setting isn't a positive number
+ */
+export class InvalidNumberError extends ConfigError {
+  constructor(variable: string, value: string) {
+    super(`${variable} must be a positive number, got "${value}"`, ConfigErrorCode.INVALID_NUMBER, variable);
+    this.name = 'InvalidNumberError';
+  }
+}
+
+/**
+ * The selected movie provider doesn't exist
+ */
+export class UnknownProviderError extends ConfigError {
+  constructor(variable: string, value: string) {
+    super(`Unknown ${variable} "${value}"`, ConfigErrorCode.UNKNOWN_PROVIDER, variable);
+    this.name = 'UnknownProviderError';
+  }
+}
+
+const CONFIG_ERROR_CODES = new Set<string>(Object.values(ConfigErrorCode));
+
+/**
+ * Check whether an error, or the QueryError made from it, is a configuration error
+ */
+export const isConfigError = (error: unknown): boolean => {
+  if (!error || typeof error !== 'object' || !('code' in error)) return false;
+  return CONFIG_ERROR_CODES.has(String(error.code));
+};
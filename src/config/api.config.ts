@@ -3,46 +3,152 @@
  * Handles environment variables and provides configuration for API services
  */
 import { type OMDbConfig } from '../types/omdb.types';
+import { MovieProviderName } from '../types/provider.types';
+import { type ConfigEnv, type ConfigVariable } from '../types/config.types';
+import { loadFromStorage, removeFromStorage, saveToStorage, STORAGE_KEYS } from '../utils/storageUtils';
+import { ConfigError, InvalidNumberError, InvalidUrlError, MissingApiKeyError, UnknownProviderError } from './ConfigError';
 
 export interface ApiConfig {
+  /** Catalogue backend the app fetches movies from */
+  readonly provider: MovieProviderName;
   readonly omdb: OMDbConfig;
 }
 
 /**
- * Get API configuration from environment variables
- * @returns ApiConfig object with all required configuration
- * @throws Error if required environment variables are missing
+ * Parser of one environment variable; receives the trimmed value, undefined when unset or blank
+ * @throws ConfigError when the value is invalid
  */
-export const getApiConfig = (): ApiConfig => {
-  const omdbKey = import.meta.env.VITE_OMDB_API_KEY;
-  const omdbBaseURL = import.meta.env.VITE_OMDB_BASE_URL;
-  const timeout = Number(import.meta.env.VITE_API_TIMEOUT) || 10000;
+type ConfigParser<T> = (value: string | undefined, variable: ConfigVariable) => T;
+
+const providerName = (fallback: MovieProviderName): ConfigParser<MovieProviderName> => (value, variable) => {
+  if (value === undefined) return fallback;
+  if (!(Object.values(MovieProviderName) as string[]).includes(value)) {
+    throw new UnknownProviderError(variable, value);
+  }
+  return value as MovieProviderName;
+};
+
+const requiredApiKey: ConfigParser<string> = (value, variable) => {
+  if (value === undefined) throw new MissingApiKeyError(variable);
+  return value;
+};
 
-  if (!omdbKey) {
-    throw new Error('VITE_OMDB_API_KEY environment variable is required');
+// An absolute http(s) URL, or a path on the app's own origin such as the /mock-omdb dev server
+const baseUrl: ConfigParser<string> = (value, variable) => {
+  if (value === undefined) throw new InvalidUrlError(variable, value);
+  if (value.startsWith('/') && !value.startsWith('//')) return value;
+
+  try {
+    const { protocol } = new URL(value);
+    if (protocol === 'http:' || protocol === 'https:') return value;
+  } catch {
+    // Not a URL at all, reported below
   }
-  if (!omdbBaseURL) {
-    throw new Error('VITE_OMDB_BASE_URL environment variable is required');
+  throw new InvalidUrlError(variable, value);
+};
+
+const positiveNumber = (fallback: number): ConfigParser<number> => (value, variable) => {
+  if (value === undefined) return fallback;
+  const number = Number(value);
+  if (!Number.isFinite(number) || number <= 0) {
+    throw new InvalidNumberError(variable, value);
   }
+  return number;
+};
+
+/**
+ * Environment variable and parser of every configuration setting, checked in this order
+ */
+const API_CONFIG_SCHEMA = {
+  provider: { variable: 'VITE_MOVIE_PROVIDER', parse: providerName(MovieProviderName.OMDB) },
+  apiKey: { variable: 'VITE_OMDB_API_KEY', parse: requiredApiKey },
+  baseURL: { variable: 'VITE_OMDB_BASE_URL', parse: baseUrl },
+  timeout: { variable: 'VITE_API_TIMEOUT', parse: positiveNumber(10000) },
+  requestsPerSecond: { variable: 'VITE_OMDB_REQUESTS_PER_SECOND', parse: positiveNumber(5) },
+} as const satisfies Record<string, { variable: ConfigVariable; parse: ConfigParser<unknown> }>;
+
+type ParsedConfig = { [K in keyof typeof API_CONFIG_SCHEMA]: ReturnType<typeof API_CONFIG_SCHEMA[K]['parse']> };
+
+/**
+ * Validate raw configuration values against the config schema
+ * @param env - Values keyed by environment variable name
+ * @returns ApiConfig object with all required configuration
+ * @throws ConfigError subclass for the first missing or invalid value
+ */
+export const parseApiConfig = (env: ConfigEnv): ApiConfig => {
+  const parsed = Object.fromEntries(
+    Object.entries(API_CONFIG_SCHEMA).map(([key, { variable, parse }]) => {
+      const value = env[variable]?.trim() || undefined;
+      return [key, parse(value, variable)];
+    })
+  ) as ParsedConfig;
 
   return {
+    provider: parsed.provider,
     omdb: {
-      apiKey: omdbKey,
-      baseURL: omdbBaseURL,
-      timeout,
+      apiKey: parsed.apiKey,
+      baseURL: parsed.baseURL,
+      timeout: parsed.timeout,
+      requestsPerSecond: parsed.requestsPerSecond,
     },
   };
 };
 
+const isApiKey = (value: unknown): value is string => typeof value === 'string' && value.trim() !== '';
+
 /**
- * Check if API configuration is valid
- * @returns boolean indicating if all required environment variables are present
+ * Get the API key saved from the setup screen
+ * @returns The saved key, or null when none is saved
  */
-export const isApiConfigValid = (): boolean => {
+export const getStoredApiKey = (): string | null =>
+  loadFromStorage<string | null>(STORAGE_KEYS.OMDB_API_KEY, null, isApiKey);
+
+/**
+ * Save an API key; it takes precedence over VITE_OMDB_API_KEY
+ */
+export const saveApiKey = (apiKey: string): void => {
+  saveToStorage(STORAGE_KEYS.OMDB_API_KEY, apiKey.trim());
+};
+
+/**
+ * Forget the saved API key, falling back to VITE_OMDB_API_KEY
+ */
+export const clearStoredApiKey = (): void => {
+  removeFromStorage(STORAGE_KEYS.OMDB_API_KEY);
+};
+
+/**
+ * Get API configuration from environment variables and the saved API key
+ * @param apiKey - Key to use instead of the saved or configured one, e.g. a key being tested
+ * @returns ApiConfig object with all required configuration
+ * @throws ConfigError subclass if a value is missing or invalid
+ */
+export const getApiConfig = (apiKey?: string): ApiConfig => {
+  const env: ConfigEnv = Object.fromEntries(
+    Object.values(API_CONFIG_SCHEMA).map(({ variable }) => [variable, import.meta.env[variable]])
+  );
+  return parseApiConfig({
+    ...env,
+    VITE_OMDB_API_KEY: apiKey ?? getStoredApiKey() ?? env.VITE_OMDB_API_KEY,
+  });
+};
+
+/**
+ * Get the reason the current configuration can't be used
+ * @returns The ConfigError, or null when the configuration is valid
+ */
+export const getConfigError = (): ConfigError | null => {
   try {
     getApiConfig();
-    return true;
-  } catch {
-    return false;
+    return null;
+  } catch (error) {
+    if (error instanceof ConfigError) return error;
+    throw error;
   }
-};
\ No newline at end of file
+};
+
+/**
+ * Check if API configuration is valid
+ * @returns boolean indicating if all required environment variables are present
+ */
+export const isApiConfigValid = (): boolean => getConfigError() === null;
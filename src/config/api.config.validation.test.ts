@@ -0,0 +1,128 @@
+import { vi, describe, it, expect, afterEach } from 'vitest';
+import {
+  clearStoredApiKey,
+  getApiConfig,
+  getConfigError,
+  getStoredApiKey,
+  parseApiConfig,
+  saveApiKey,
+} from './api.config';
+import { InvalidNumberError, InvalidUrlError, MissingApiKeyError, UnknownProviderError } from './ConfigError';
+import { ConfigErrorCode } from '../types/config.types';
+
+describe('API Configuration validation', () => {
+  const validEnv = {
+    VITE_OMDB_API_KEY: 'test-key',
+    VITE_OMDB_BASE_URL: 'https://www.omdbapi.com',
+  };
+
+  describe('parseApiConfig', () => {
+    it('GIVEN only the required values WHEN parsing THEN should fill in the defaults', () => {
+      // GIVEN
+      const env = validEnv;
+
+      // WHEN
+      const config = parseApiConfig(env);
+
+      // THEN
+      expect(config).toEqual({
+        provider: 'omdb',
+        omdb: { apiKey: 'test-key', baseURL: 'https://www.omdbapi.com', timeout: 10000, requestsPerSecond: 5 },
+      });
+    });
+
+    it('GIVEN numeric strings and a root-relative base URL WHEN parsing THEN should accept them', () => {
+      // GIVEN
+      const env = { ...validEnv, VITE_OMDB_BASE_URL: '/mock-omdb', VITE_API_TIMEOUT: ' 5000 ', VITE_OMDB_REQUESTS_PER_SECOND: '2.5' };
+
+      // WHEN
+      const config = parseApiConfig(env);
+
+      // THEN
+      expect(config.omdb).toMatchObject({ baseURL: '/mock-omdb', timeout: 5000, requestsPerSecond: 2.5 });
+    });
+
+    it.each([
+      { description: 'a missing API key', env: { ...validEnv, VITE_OMDB_API_KEY: '  ' }, expected: MissingApiKeyError, code: ConfigErrorCode.MISSING_API_KEY, variable: 'VITE_OMDB_API_KEY' },
+      { description: 'a missing base URL', env: { VITE_OMDB_API_KEY: 'test-key' }, expected: InvalidUrlError, code: ConfigErrorCode.INVALID_URL, variable: 'VITE_OMDB_BASE_URL' },
+      { description: 'a malformed base URL', env: { ...validEnv, VITE_OMDB_BASE_URL: 'www.omdbapi.com' }, expected: InvalidUrlError, code: ConfigErrorCode.INVALID_URL, variable: 'VITE_OMDB_BASE_URL' },
+      { description: 'a non-http base URL', env: { ...validEnv, VITE_OMDB_BASE_URL: 'ftp://omdbapi.com' }, expected: InvalidUrlError, code: ConfigErrorCode.INVALID_URL, variable: 'VITE_OMDB_BASE_URL' },
+      { description: 'a non-numeric timeout', env: { ...validEnv, VITE_API_TIMEOUT: 'ten seconds' }, expected: InvalidNumberError, code: ConfigErrorCode.INVALID_NUMBER, variable: 'VITE_API_TIMEOUT' },
+      { description: 'a negative rate limit', env: { ...validEnv, VITE_OMDB_REQUESTS_PER_SECOND: '-1' }, expected: InvalidNumberError, code: ConfigErrorCode.INVALID_NUMBER, variable: 'VITE_OMDB_REQUESTS_PER_SECOND' },
+      { description: 'an unknown provider', env: { ...validEnv, VITE_MOVIE_PROVIDER: 'tmdb' }, expected: UnknownProviderError, code: ConfigErrorCode.UNKNOWN_PROVIDER, variable: 'VITE_MOVIE_PROVIDER' },
+    ])('GIVEN $description WHEN parsing THEN should throw $expected.name', ({ env, expected, code, variable }) => {
+      // GIVEN & WHEN
+      const parse = () => parseApiConfig(env);
+
+      // THEN
+      expect(parse).toThrow(expected);
+      expect(parse).toThrow(expect.objectContaining({ code, variable }));
+    });
+
+    it('GIVEN a non-numeric timeout WHEN parsing THEN should name the variable and value in the message', () => {
+      // GIVEN
+      const env = { ...validEnv, VITE_API_TIMEOUT: 'abc' };
+
+      // WHEN & THEN
+      expect(() => parseApiConfig(env)).toThrow('VITE_API_TIMEOUT must be a positive number, got "abc"');
+    });
+  });
+
+  describe('saved API key', () => {
+    afterEach(() => {
+      clearStoredApiKey();
+      vi.unstubAllEnvs();
+    });
+
+    it('GIVEN a saved key WHEN getting the config THEN should use it instead of VITE_OMDB_API_KEY', () => {
+      // GIVEN
+      vi.stubEnv('VITE_OMDB_API_KEY', 'env-key');
+      vi.stubEnv('VITE_OMDB_BASE_URL', 'https://www.omdbapi.com');
+      saveApiKey(' saved-key ');
+
+      // WHEN
+      const config = getApiConfig();
+
+      // THEN
+      expect(getStoredApiKey()).toBe('saved-key');
+      expect(config.omdb.apiKey).toBe('saved-key');
+    });
+
+    it('GIVEN a key passed in WHEN getting the config THEN should use it over the saved key', () => {
+      // GIVEN
+      vi.stubEnv('VITE_OMDB_BASE_URL', 'https://www.omdbapi.com');
+      saveApiKey('saved-key');
+
+      // WHEN
+      const config = getApiConfig('candidate-key');
+
+      // THEN
+      expect(config.omdb.apiKey).toBe('candidate-key');
+    });
+
+    it('GIVEN no configured and no saved key WHEN checking the config THEN should report a MissingApiKeyError', () => {
+      // GIVEN
+      vi.stubEnv('VITE_OMDB_API_KEY', '');
+      vi.stubEnv('VITE_OMDB_BASE_URL', 'https://www.omdbapi.com');
+
+      // WHEN
+      const error = getConfigError();
+
+      // THEN
+      expect(error).toBeInstanceOf(MissingApiKeyError);
+    });
+
+    it('GIVEN the saved key is forgotten WHEN getting the config THEN should fall back to VITE_OMDB_API_KEY', () => {
+      // GIVEN
+      vi.stubEnv('VITE_OMDB_API_KEY', 'env-key');
+      vi.stubEnv('VITE_OMDB_BASE_URL', 'https://www.omdbapi.com');
+      saveApiKey('saved-key');
+
+      // WHEN
+      clearStoredApiKey();
+
+      // THEN
+      expect(getApiConfig().omdb.apiKey).toBe('env-key');
+    });
+  });
+});
@@ -3,7 +3,6 @@ import { vi, describe, it, expect, beforeEach } from 'vitest';
 import React from 'react';
 import {
   useUIActions,
-  useMovieActions,
   useUISelectors,
   useMovieSelectors,
   useAppSelectors,
@@ -16,6 +15,7 @@ import {
 } from '../../__mocks__/testUtils';
 import { ReduxWrapper } from '../../__mocks__/testMocks';
 import { mockHeroMovie, mockSection } from '../../__mocks__/testData';
+import { useMoviesQuery } from '../useMoviesQuery';
 
 // Setup common mocks
 setupCommonMocks();
@@ -27,6 +27,7 @@ setupCommonMocks();
 // Mock the api.config module to avoid import.meta issues
 vi.mock('../../config/api.config', () => ({
   getApiConfig: vi.fn(() => ({
+    provider: 'omdb',
     omdb: {
       apiKey: 'test-key',
       baseURL: 'https://test.com',
@@ -36,6 +37,19 @@ vi.mock('../../config/api.config', () => ({
   isApiConfigValid: vi.fn(() => true),
 }));
 
+// Movie data comes from React Query; the homepage query result is set per test
+vi.mock('../useMoviesQuery', () => ({
+  useMoviesQuery: {
+    useHomePageQuery: vi.fn(),
+  },
+}));
+
+const mockUseHomePageQuery = vi.mocked(useMoviesQuery.useHomePageQuery);
+
+const mockHomePageQuery = (result: { data?: { heroMovie: typeof mockHeroMovie | null; sections: typeof mockSection[] }; isLoading?: boolean; error?: { message: string } | null }) => {
+  mockUseHomePageQuery.mockReturnValue({ isLoading: false, error: null, ...result } as unknown as ReturnType<typeof useMoviesQuery.useHomePageQuery>);
+};
+
 // Test wrapper component
 const createTestWrapper = (store: ReturnType<typeof createTestStore>) => {
   return ({ children }: { children: React.ReactNode }) => (
@@ -49,6 +63,7 @@ describe('Redux Hooks', () => {
   beforeEach(() => {
     resetAllMocks();
     store = createTestStore();
+    mockHomePageQuery({ data: undefined, isLoading: true });
   });
 
   describe('useUIActions', () => {
@@ -103,60 +118,6 @@ describe('Redux Hooks', () => {
     });
   });
 
-  describe('useMovieActions', () => {
-    it('GIVEN useMovieActions hook WHEN called THEN should return movie action functions', () => {
-      // GIVEN
-      const wrapper = createTestWrapper(store);
-
-      // WHEN
-      const { result } = renderHook(() => useMovieActions(), { wrapper });
-
-      // THEN
-      expect(result.current.setHeroMovie).toBeInstanceOf(Function);
-      expect(result.current.setSections).toBeInstanceOf(Function);
-      expect(result.current.setSearchResults).toBeInstanceOf(Function);
-      expect(result.current.setSearchQuery).toBeInstanceOf(Function);
-      expect(result.current.setLoading).toBeInstanceOf(Function);
-      expect(result.current.setError).toBeInstanceOf(Function);
-      expect(result.current.clearErrors).toBeInstanceOf(Function);
-      expect(result.current.setPagination).toBeInstanceOf(Function);
-      expect(result.current.resetMoviesState).toBeInstanceOf(Function);
-      expect(result.current.fetchHomePageData).toBeInstanceOf(Function);
-      expect(result.current.searchMovies).toBeInstanceOf(Function);
-    });
-
-    it('GIVEN useMovieActions hook WHEN setHeroMovie is called THEN should update hero movie', () => {
-      // GIVEN
-      const wrapper = createTestWrapper(store);
-      const { result } = renderHook(() => useMovieActions(), { wrapper });
-
-      // WHEN
-      act(() => {
-        result.current.setHeroMovie(mockHeroMovie);
-      });
-
-      // THEN
-      const state = store.getState();
-      expect(state.movies.heroMovie).toEqual(mockHeroMovie);
-    });
-
-    it('GIVEN useMovieActions hook WHEN setSections is called THEN should update sections', () => {
-      // GIVEN
-      const wrapper = createTestWrapper(store);
-      const { result } = renderHook(() => useMovieActions(), { wrapper });
-      const sections = [mockSection];
-
-      // WHEN
-      act(() => {
-        result.current.setSections(sections);
-      });
-
-      // THEN
-      const state = store.getState();
-      expect(state.movies.sections).toEqual(sections);
-    });
-  });
-
   describe('useUISelectors', () => {
     it('GIVEN useUISelectors hook WHEN called THEN should return UI state values', () => {
       // GIVEN
@@ -190,7 +151,7 @@ describe('Redux Hooks', () => {
   });
 
   describe('useMovieSelectors', () => {
-    it('GIVEN useMovieSelectors hook WHEN called THEN should return movie state values', () => {
+    it('GIVEN the homepage query is loading WHEN selecting THEN should return empty movie data', () => {
       // GIVEN
       const wrapper = createTestWrapper(store);
 
@@ -198,32 +159,38 @@ describe('Redux Hooks', () => {
       const { result } = renderHook(() => useMovieSelectors(), { wrapper });
 
       // THEN
-      expect(result.current.heroMovie).toBeNull();
-      expect(result.current.sections).toEqual([]);
-      expect(result.current.searchResults).toEqual([]);
-      expect(result.current.searchQuery).toBe('');
-      expect(result.current.isLoadingHero).toBe(false);
-      expect(result.current.isLoadingSections).toBe(false);
-      expect(result.current.isLoadingSearch).toBe(false);
-      expect(result.current.heroError).toBeNull();
-      expect(result.current.sectionsError).toBeNull();
-      expect(result.current.searchError).toBeNull();
-      expect(result.current.currentPage).toBe(1);
-      expect(result.current.totalPages).toBe(0);
+      expect(result.current).toEqual({
+        heroMovie: null,
+        sections: [],
+        isLoadingHomePage: true,
+        homePageError: null,
+      });
     });
 
-    it('GIVEN useMovieSelectors hook WHEN state changes THEN should return updated values', () => {
+    it('GIVEN homepage data in the query cache WHEN selecting THEN should return the hero movie and sections', () => {
       // GIVEN
+      mockHomePageQuery({ data: { heroMovie: mockHeroMovie, sections: [mockSection] } });
       const wrapper = createTestWrapper(store);
-      const { result } = renderHook(() => useMovieSelectors(), { wrapper });
 
       // WHEN
-      act(() => {
-        store.dispatch({ type: 'movies/setHeroMovie', payload: mockHeroMovie });
-      });
+      const { result } = renderHook(() => useMovieSelectors(), { wrapper });
 
       // THEN
       expect(result.current.heroMovie).toEqual(mockHeroMovie);
+      expect(result.current.sections).toEqual([mockSection]);
+      expect(result.current.isLoadingHomePage).toBe(false);
+    });
+
+    it('GIVEN the homepage query failed WHEN selecting THEN should return its error message', () => {
+      // GIVEN
+      mockHomePageQuery({ error: { message: 'Network Error' } });
+      const wrapper = createTestWrapper(store);
+
+      // WHEN
+      const { result } = renderHook(() => useMovieSelectors(), { wrapper });
+
+      // THEN
+      expect(result.current.homePageError).toBe('Network Error');
     });
   });
 
@@ -247,16 +214,8 @@ describe('Redux Hooks', () => {
       // Movie selectors
       expect(result.current.heroMovie).toBeNull();
       expect(result.current.sections).toEqual([]);
-      expect(result.current.searchResults).toEqual([]);
-      expect(result.current.searchQuery).toBe('');
-      expect(result.current.isLoadingHero).toBe(false);
-      expect(result.current.isLoadingSections).toBe(false);
-      expect(result.current.isLoadingSearch).toBe(false);
-      expect(result.current.heroError).toBeNull();
-      expect(result.current.sectionsError).toBeNull();
-      expect(result.current.searchError).toBeNull();
-      expect(result.current.currentPage).toBe(1);
-      expect(result.current.totalPages).toBe(0);
+      expect(result.current.isLoadingHomePage).toBe(true);
+      expect(result.current.homePageError).toBeNull();
     });
   });
 
@@ -279,19 +238,9 @@ describe('Redux Hooks', () => {
       expect(result.current.addNotification).toBeInstanceOf(Function);
       expect(result.current.removeNotification).toBeInstanceOf(Function);
       expect(result.current.clearNotifications).toBeInstanceOf(Function);
-      
-      // Movie actions
-      expect(result.current.setHeroMovie).toBeInstanceOf(Function);
-      expect(result.current.setSections).toBeInstanceOf(Function);
-      expect(result.current.setSearchResults).toBeInstanceOf(Function);
-      expect(result.current.setSearchQuery).toBeInstanceOf(Function);
-      expect(result.current.setLoading).toBeInstanceOf(Function);
-      expect(result.current.setError).toBeInstanceOf(Function);
-      expect(result.current.clearErrors).toBeInstanceOf(Function);
-      expect(result.current.setPagination).toBeInstanceOf(Function);
-      expect(result.current.resetMoviesState).toBeInstanceOf(Function);
-      expect(result.current.fetchHomePageData).toBeInstanceOf(Function);
-      expect(result.current.searchMovies).toBeInstanceOf(Function);
+
+      // Movie data changes through React Query, not store actions
+      expect(result.current).not.toHaveProperty('fetchHomePageData');
     });
   });
 });
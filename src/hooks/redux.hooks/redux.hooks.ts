@@ -11,21 +11,8 @@ import {
   removeNotification,
   clearNotifications,
 } from '../../store/slices/uiSlice';
-import {
-  setHeroMovie,
-  setSections,
-  setSearchResults,
-  setSearchQuery,
-  setLoading,
-  setError,
-  clearErrors,
-  setPagination,
-  resetMoviesState,
-  fetchHomePageData,
-  searchMovies,
-} from '../../store/slices/moviesSlice';
-import { type Movie, type HeroMovie, type MovieSection } from '../../types/movie.types';
-import { type MovieSearchParams, type MovieFetchParams } from '../../types/redux.types';
+import { useMoviesQuery } from '../useMoviesQuery';
+import { type Movie } from '../../types/movie.types';
 
 /**
  * Custom hook for UI actions
@@ -72,59 +59,6 @@ export const useUIActions = () => {
   };
 };
 
-/**
- * Custom hook for movie actions
- */
-export const useMovieActions = () => {
-  const dispatch = useAppDispatch();
-
-  return {
-    setHeroMovie: useCallback((movie: HeroMovie | null) => {
-      dispatch(setHeroMovie(movie));
-    }, [dispatch]),
-
-    setSections: useCallback((sections: MovieSection[]) => {
-      dispatch(setSections(sections));
-    }, [dispatch]),
-
-    setSearchResults: useCallback((results: Movie[]) => {
-      dispatch(setSearchResults(results));
-    }, [dispatch]),
-
-    setSearchQuery: useCallback((query: string) => {
-      dispatch(setSearchQuery(query));
-    }, [dispatch]),
-
-    setLoading: useCallback((loading: { hero?: boolean; sections?: boolean; search?: boolean }) => {
-      dispatch(setLoading(loading));
-    }, [dispatch]),
-
-    setError: useCallback((error: { hero?: string; sections?: string; search?: string }) => {
-      dispatch(setError(error));
-    }, [dispatch]),
-
-    clearErrors: useCallback(() => {
-      dispatch(clearErrors());
-    }, [dispatch]),
-
-    setPagination: useCallback((pagination: { currentPage: number; totalPages: number }) => {
-      dispatch(setPagination(pagination));
-    }, [dispatch]),
-
-    resetMoviesState: useCallback(() => {
-      dispatch(resetMoviesState());
-    }, [dispatch]),
-
-    fetchHomePageData: useCallback((params?: MovieFetchParams) => {
-      return dispatch(fetchHomePageData(params || {}));
-    }, [dispatch]),
-
-    searchMovies: useCallback((params: MovieSearchParams) => {
-      return dispatch(searchMovies(params));
-    }, [dispatch]),
-  };
-};
-
 /**
  * Custom hook for UI selectors
  */
@@ -141,21 +75,16 @@ export const useUISelectors = () => {
 
 /**
  * Custom hook for movie selectors
+ * Movie data is server state owned by React Query, so these read the homepage query rather than the store
  */
 export const useMovieSelectors = () => {
+  const { data, isLoading, error } = useMoviesQuery.useHomePageQuery();
+
   return {
-    heroMovie: useAppSelector((state) => state.movies.heroMovie),
-    sections: useAppSelector((state) => state.movies.sections),
-    searchResults: useAppSelector((state) => state.movies.searchResults),
-    searchQuery: useAppSelector((state) => state.movies.searchQuery),
-    isLoadingHero: useAppSelector((state) => state.movies.isLoadingHero),
-    isLoadingSections: useAppSelector((state) => state.movies.isLoadingSections),
-    isLoadingSearch: useAppSelector((state) => state.movies.isLoadingSearch),
-    heroError: useAppSelector((state) => state.movies.heroError),
-    sectionsError: useAppSelector((state) => state.movies.sectionsError),
-    searchError: useAppSelector((state) => state.movies.searchError),
-    currentPage: useAppSelector((state) => state.movies.currentPage),
-    totalPages: useAppSelector((state) => state.movies.totalPages),
+    heroMovie: data?.heroMovie ?? null,
+    sections: data?.sections ?? [],
+    isLoadingHomePage: isLoading,
+    homePageError: error?.message ?? null,
   };
 };
 
@@ -170,11 +99,10 @@ export const useAppSelectors = () => {
 };
 
 /**
- * Custom hook for combined movie and UI actions
+ * Custom hook for app actions; movie data changes through React Query, so only UI actions remain
  */
 export const useAppActions = () => {
   return {
     ...useUIActions(),
-    ...useMovieActions(),
   };
 };
@@ -0,0 +1 @@
+export { useAvailableFilterOptions } from './useAvailableFilterOptions';
@@ -0,0 +1,58 @@
+import { renderHook } from '@testing-library/react';
+import { describe, it, expect, beforeEach } from 'vitest';
+import React from 'react';
+import { useAvailableFilterOptions } from './useAvailableFilterOptions';
+import { createTestStore } from '../../__mocks__/testUtils';
+import { ReduxWrapper } from '../../__mocks__/testMocks';
+import { mockMovie } from '../../__mocks__/testData';
+import { type Movie } from '../../types/movie.types';
+
+// Test wrapper component
+const createTestWrapper = (store: ReturnType<typeof createTestStore>) => {
+  return ({ children }: { children: React.ReactNode }) => (
+    <ReduxWrapper store={store}>{children}</ReduxWrapper>
+  );
+};
+
+describe('useAvailableFilterOptions', () => {
+  let store: ReturnType<typeof createTestStore>;
+
+  beforeEach(() => {
+    store = createTestStore();
+  });
+
+  it('GIVEN movies with genres WHEN using the hook THEN should store only the options present in them', () => {
+    // GIVEN
+    const movies: Movie[] = [
+      { ...mockMovie, id: 'tt0000001', genre_ids: [1, 12], release_date: '1999-03-31' },
+      { ...mockMovie, id: 'tt0000002', genre_ids: [12, 19], release_date: '2008-07-18' },
+    ];
+
+    // WHEN
+    renderHook(() => useAvailableFilterOptions(movies), { wrapper: createTestWrapper(store) });
+
+    // THEN
+    const { availableFilterOptions } = store.getState().filter;
+    expect(availableFilterOptions.genres).toEqual([
+      { id: 1, name: 'Action' },
+      { id: 12, name: 'Crime' },
+      { id: 19, name: 'Mystery' },
+    ]);
+    expect(availableFilterOptions.releaseYears).toEqual([2008, 1999]);
+  });
+
+  it('GIVEN new results WHEN the movies change THEN should replace the stored options', () => {
+    // GIVEN
+    const wrapper = createTestWrapper(store);
+    const { rerender } = renderHook(({ movies }) => useAvailableFilterOptions(movies), {
+      wrapper,
+      initialProps: { movies: [{ ...mockMovie, genre_ids: [3] }] as Movie[] },
+    });
+
+    // WHEN
+    rerender({ movies: [] });
+
+    // THEN
+    expect(store.getState().filter.availableFilterOptions.genres).toEqual([]);
+  });
+});
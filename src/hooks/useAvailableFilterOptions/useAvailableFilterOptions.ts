@@ -0,0 +1,17 @@
+import { useEffect } from 'react';
+import { useAppDispatch } from '../../store/store';
+import { setAvailableOptions } from '../../store/slices/filterSlice';
+import { type Movie } from '../../types/movie.types';
+import { getDefaultFilterOptions } from '../../utils/filterUtils';
+
+/**
+ * Custom hook that feeds the filter modal's options (genres, languages, years)
+ * from the movies currently on screen, so only options present in the results are offered
+ */
+export const useAvailableFilterOptions = (movies: Movie[]) => {
+  const dispatch = useAppDispatch();
+
+  useEffect(() => {
+    dispatch(setAvailableOptions(getDefaultFilterOptions(movies)));
+  }, [dispatch, movies]);
+};
@@ -1,6 +1,6 @@
 import React from 'react';
 import { vi, describe, it, expect, beforeEach } from 'vitest';
-import { renderHook, waitFor } from '@testing-library/react';
+import { renderHook, waitFor, act } from '@testing-library/react';
 import { useMoviesQuery } from './useMoviesQuery';
 import { 
   setupCommonMocks,
@@ -10,7 +10,9 @@ import {
   mockOMDbServiceInstance
 } from '../../__mocks__/testUtils';
 import { QueryWrapper } from '../../__mocks__/testMocks';
-import { mockMovie } from '../../__mocks__/testData';
+import { mockMovie, mockTvShowDetails, mockSeason, mockEpisodeDetails } from '../../__mocks__/testData';
+import { type ProviderSearchParams } from '../../types/provider.types';
+import { type RequestOptions } from '../../types/api.types';
 
 // Mock OMDbService
 vi.mock('../../services/OMDbService', () => ({
@@ -20,6 +22,7 @@ vi.mock('../../services/OMDbService', () => ({
 // Mock the api.config module to avoid import.meta issues
 vi.mock('../../config/api.config', () => ({
   getApiConfig: vi.fn(() => ({
+    provider: 'omdb',
     omdb: {
       apiKey: 'test-key',
       baseURL: 'https://test.com',
@@ -42,8 +45,6 @@ vi.mock('../../utils/dataTransformers', () => ({
     if (upcoming.length > 0) sections.push({ title: 'Recently Released', movies: upcoming, type: 'recently_released' });
     return sections;
   }),
-  transformOMDbSearchResultToMovie: vi.fn(() => mockMovie),
-  transformOMDbMovieToMovie: vi.fn(() => mockMovie),
 }));
 
 // Setup common mocks
@@ -125,10 +126,129 @@ describe('useMoviesQuery', () => {
       expect(result.current.isError).toBe(false);
     });
 
+    it('GIVEN search hits WHEN using useMovieSearchQuery THEN should enrich them with their full details', async () => {
+      // GIVEN
+      mockOMDbServiceInstance.search.mockResolvedValue({
+        results: [{ ...mockMovie, overview: 'No overview available.' }],
+        totalResults: 1,
+        hasMore: false,
+      });
+      mockOMDbServiceInstance.getMovieSummary.mockResolvedValue(mockMovie);
+
+      // WHEN
+      const { result } = renderHook(() => useMoviesQuery.useMovieSearchQuery({ query: 'test', page: 1 }), {
+        wrapper: createTestWrapper(),
+      });
+
+      // THEN
+      await waitFor(() => {
+        expect(result.current.data?.results[0]?.overview).toBe(mockMovie.overview);
+      });
+      expect(mockOMDbServiceInstance.getMovieSummary).toHaveBeenCalledWith(String(mockMovie.id), { priority: 'low' });
+    });
+
+    it('GIVEN more results than one page WHEN fetching the next page THEN should merge the pages into one list', async () => {
+      // GIVEN
+      const firstPage = Array.from({ length: 10 }, (_, index) => ({ ...mockMovie, id: `tt${index}`, title: `Movie ${index}` }));
+      mockOMDbServiceInstance.search
+        .mockResolvedValueOnce({ results: firstPage, totalResults: 12, hasMore: true })
+        .mockResolvedValueOnce({
+          // The first entry repeats a title from page one
+          results: [firstPage[9], { ...mockMovie, id: 'tt10', title: 'Movie 10' }, { ...mockMovie, id: 'tt11', title: 'Movie 11' }],
+          totalResults: 12,
+          hasMore: false,
+        });
+
+      const { result } = renderHook(() => useMoviesQuery.useMovieSearchQuery({ query: 'movie', page: 1 }), {
+        wrapper: createTestWrapper(),
+      });
+      await waitFor(() => {
+        expect(result.current.data?.results).toHaveLength(10);
+      });
+      expect(result.current.hasNextPage).toBe(true);
+      expect(result.current.pageCount).toBe(1);
+
+      // WHEN
+      await act(async () => {
+        await result.current.fetchNextPage();
+      });
+
+      // THEN
+      await waitFor(() => {
+        expect(result.current.data?.results).toHaveLength(12);
+      });
+      expect(mockOMDbServiceInstance.search).toHaveBeenLastCalledWith(
+        expect.objectContaining({ query: 'movie', page: 2 }),
+        { signal: expect.any(AbortSignal) }
+      );
+      expect(result.current.data?.totalResults).toBe(12);
+      expect(result.current.data?.hasMore).toBe(false);
+      expect(result.current.hasNextPage).toBe(false);
+      expect(result.current.pageCount).toBe(2);
+    });
+
+    it('GIVEN a search in flight WHEN the query changes THEN should abort the superseded request without an error state', async () => {
+      // GIVEN
+      let supersededSignal: AbortSignal | undefined;
+      mockOMDbServiceInstance.search
+        .mockImplementationOnce((_params: ProviderSearchParams, options: RequestOptions) => {
+          supersededSignal = options.signal;
+          return new Promise((_resolve, reject) => {
+            options.signal?.addEventListener('abort', () => reject(options.signal?.reason));
+          });
+        })
+        .mockResolvedValueOnce({ results: [mockMovie], totalResults: 1, hasMore: false });
+
+      const { result, rerender } = renderHook(
+        ({ query }) => useMoviesQuery.useMovieSearchQuery({ query, page: 1 }),
+        { wrapper: createTestWrapper(), initialProps: { query: 'batm' } }
+      );
+      await waitFor(() => {
+        expect(supersededSignal).toBeDefined();
+      });
+
+      // WHEN
+      rerender({ query: 'batman' });
+
+      // THEN
+      await waitFor(() => {
+        expect(result.current.data?.results).toHaveLength(1);
+      });
+      expect(supersededSignal?.aborted).toBe(true);
+      expect(result.current.isError).toBe(false);
+    });
+
+    it('GIVEN a query with a year range and a type WHEN searching THEN should search each year and merge the results', async () => {
+      // GIVEN
+      mockOMDbServiceInstance.search.mockImplementation((params: ProviderSearchParams) => Promise.resolve({
+        results: [{ ...mockMovie, id: `tt${params.year}`, title: `Inception ${params.year}` }],
+        totalResults: 1,
+        hasMore: false,
+      }));
+
+      // WHEN
+      const { result } = renderHook(
+        () => useMoviesQuery.useMovieSearchQuery({ query: 'inception y:2010..2012 type:movie', page: 1, type: 'series' }),
+        { wrapper: createTestWrapper() }
+      );
+
+      // THEN
+      await waitFor(() => {
+        expect(result.current.data?.results).toHaveLength(3);
+      });
+      expect(mockOMDbServiceInstance.search).toHaveBeenCalledTimes(3);
+      expect(mockOMDbServiceInstance.search).toHaveBeenCalledWith(
+        { query: 'inception', page: 1, type: 'movie', year: '2011' },
+        { signal: expect.any(AbortSignal) }
+      );
+      expect(result.current.data?.results.map((movie) => movie.id)).toEqual(['tt2010', 'tt2011', 'tt2012']);
+      expect(result.current.data?.totalResults).toBe(3);
+    });
+
     it('GIVEN search error WHEN using useMovieSearchQuery THEN should return error state', async () => {
       // GIVEN
       const errorMessage = 'Search Error';
-      mockOMDbServiceInstance.searchMovies.mockRejectedValue(new Error(errorMessage));
+      mockOMDbServiceInstance.search.mockRejectedValue(new Error(errorMessage));
 
       // WHEN
       const { result } = renderHook(() => useMoviesQuery.useMovieSearchQuery({ query: 'test', page: 1 }), {
@@ -184,6 +304,154 @@ describe('useMoviesQuery', () => {
     });
   });
 
+  describe('usePopularTvShowsQuery', () => {
+    it('GIVEN successful fetch WHEN using usePopularTvShowsQuery THEN should return the shows', async () => {
+      // GIVEN
+      mockOMDbServiceInstance.getPopularTvShows.mockResolvedValue({ results: [mockMovie] });
+
+      // WHEN
+      const { result } = renderHook(() => useMoviesQuery.usePopularTvShowsQuery(), {
+        wrapper: createTestWrapper(),
+      });
+
+      // THEN
+      await waitFor(() => {
+        expect(result.current.isLoading).toBe(false);
+      });
+
+      expect(result.current.data).toEqual([mockMovie]);
+      expect(mockOMDbServiceInstance.getPopularTvShows).toHaveBeenCalledWith({ page: 1, year: undefined }, { signal: expect.any(AbortSignal) });
+    });
+  });
+
+  describe('useTvShowSearchQuery', () => {
+    it('GIVEN successful search WHEN using useTvShowSearchQuery THEN should search series only', async () => {
+      // GIVEN
+      const query = 'breaking';
+
+      // WHEN
+      const { result } = renderHook(() => useMoviesQuery.useTvShowSearchQuery({ query, page: 1 }), {
+        wrapper: createTestWrapper(),
+      });
+
+      // THEN
+      await waitFor(() => {
+        expect(result.current.isLoading).toBe(false);
+      });
+
+      expect(result.current.data?.results).toEqual([mockMovie]);
+      expect(mockOMDbServiceInstance.search).toHaveBeenCalledWith(
+        { query: 'breaking', page: 1, type: 'series', year: undefined },
+        { signal: expect.any(AbortSignal) }
+      );
+    });
+
+    it('GIVEN an empty query WHEN using useTvShowSearchQuery THEN should not execute query', () => {
+      // GIVEN
+      const query = '   ';
+
+      // WHEN
+      const { result } = renderHook(() => useMoviesQuery.useTvShowSearchQuery({ query, page: 1 }), {
+        wrapper: createTestWrapper(),
+      });
+
+      // THEN
+      expect(result.current.data).toBeUndefined();
+      expect(mockOMDbServiceInstance.search).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('useTvShowDetailsQuery', () => {
+    it('GIVEN successful fetch WHEN using useTvShowDetailsQuery THEN should return the show details', async () => {
+      // GIVEN
+      const showId = 'tt0903747';
+
+      // WHEN
+      const { result } = renderHook(() => useMoviesQuery.useTvShowDetailsQuery(showId), {
+        wrapper: createTestWrapper(),
+      });
+
+      // THEN
+      await waitFor(() => {
+        expect(result.current.isLoading).toBe(false);
+      });
+
+      expect(result.current.data).toEqual(mockTvShowDetails);
+      expect(mockOMDbServiceInstance.getTvShowDetails).toHaveBeenCalledWith(showId, { signal: expect.any(AbortSignal) });
+    });
+
+    it('GIVEN API error WHEN using useTvShowDetailsQuery THEN should return error state', async () => {
+      // GIVEN
+      mockOMDbServiceInstance.getTvShowDetails.mockRejectedValue(new Error('Series Error'));
+
+      // WHEN
+      const { result } = renderHook(() => useMoviesQuery.useTvShowDetailsQuery('tt0903747'), {
+        wrapper: createTestWrapper(),
+      });
+
+      // THEN
+      await waitFor(() => {
+        expect(result.current.isError).toBe(true);
+      });
+
+      expect(result.current.error?.message).toBe('Series Error');
+    });
+  });
+
+  describe('useSeasonQuery', () => {
+    it('GIVEN a show and season WHEN using useSeasonQuery THEN should return the season episodes', async () => {
+      // GIVEN
+      const showId = 'tt0903747';
+
+      // WHEN
+      const { result } = renderHook(() => useMoviesQuery.useSeasonQuery(showId, 1), {
+        wrapper: createTestWrapper(),
+      });
+
+      // THEN
+      await waitFor(() => {
+        expect(result.current.isLoading).toBe(false);
+      });
+
+      expect(result.current.data).toEqual(mockSeason);
+      expect(mockOMDbServiceInstance.getTvShowSeason).toHaveBeenCalledWith(showId, 1, { signal: expect.any(AbortSignal) });
+    });
+  });
+
+  describe('useEpisodeQuery', () => {
+    it('GIVEN a selected episode WHEN using useEpisodeQuery THEN should return the episode details', async () => {
+      // GIVEN
+      const showId = 'tt0903747';
+
+      // WHEN
+      const { result } = renderHook(() => useMoviesQuery.useEpisodeQuery(showId, 1, 1), {
+        wrapper: createTestWrapper(),
+      });
+
+      // THEN
+      await waitFor(() => {
+        expect(result.current.isLoading).toBe(false);
+      });
+
+      expect(result.current.data).toEqual(mockEpisodeDetails);
+      expect(mockOMDbServiceInstance.getTvShowEpisode).toHaveBeenCalledWith(showId, 1, 1, { signal: expect.any(AbortSignal) });
+    });
+
+    it('GIVEN no selected episode WHEN using useEpisodeQuery THEN should not execute query', () => {
+      // GIVEN
+      const episodeNumber = null;
+
+      // WHEN
+      const { result } = renderHook(() => useMoviesQuery.useEpisodeQuery('tt0903747', 1, episodeNumber), {
+        wrapper: createTestWrapper(),
+      });
+
+      // THEN
+      expect(result.current.data).toBeUndefined();
+      expect(mockOMDbServiceInstance.getTvShowEpisode).not.toHaveBeenCalled();
+    });
+  });
+
   describe('Query Options', () => {
     it('GIVEN enabled option WHEN using useMovieSearchQuery with empty query THEN should not execute query', async () => {
       // GIVEN
@@ -1,12 +1,22 @@
-import { useQuery } from '@tanstack/react-query';
-import { createHomePageData, transformMoviesToSections, transformOMDbSearchResultToMovie } from '../../utils/dataTransformers';
+import { useMemo } from 'react';
+import { useInfiniteQuery, useQuery, useQueryClient } from '@tanstack/react-query';
+import { createHomePageData, transformMoviesToSections } from '../../utils/dataTransformers';
 import { queryKeys } from '../../lib/queryClient';
+import { type Movie } from '../../types/movie.types';
 import { withQueryErrorHandling, QUERY_CONFIG } from '../../utils/queryUtils';
+import { createMovieEnricher } from '../../utils/movieEnrichment';
+import { OMDbErrorCode } from '../../types/omdb.types';
+import { getProviderSearches, parseSearchQuery, searchAll } from '../../utils/searchQueryUtils';
 import { 
   type HomePageQueryResult, 
   type MoviesQueryResult, 
   type MovieSearchQueryResult, 
+  type InfiniteMovieSearchQueryResult,
+  type MovieSearchPage,
   type MovieDetailsQueryResult,
+  type TvShowDetailsQueryResult,
+  type SeasonQueryResult,
+  type EpisodeQueryResult,
   type MovieQueryParams,
   type MovieSearchParams,
   type QueryError
@@ -20,19 +30,22 @@ export const useMoviesQuery = {
    * Hook for fetching homepage data (hero movie + sections)
    */
   useHomePageQuery: (params?: MovieQueryParams): HomePageQueryResult => {
+    const queryClient = useQueryClient();
     const queryResult = useQuery({
       queryKey: queryKeys.homePage.data(),
-      queryFn: () => withQueryErrorHandling(async (omdbService) => {
+      queryFn: ({ signal }) => withQueryErrorHandling(async (provider) => {
+        const enrich = createMovieEnricher(queryClient, provider);
+
         // Fetch all data in parallel
         const [popularResponse, topRatedResponse, upcomingResponse] = await Promise.all([
-          omdbService.getPopularMovies({ page: params?.page || 1, year: params?.year }),
-          omdbService.getTopRatedMovies({ page: params?.page || 1, year: params?.year }),
-          omdbService.getUpcomingMovies({ page: params?.page || 1 }),
+          provider.getPopularMovies({ page: params?.page || 1, year: params?.year, enrich }, { signal }),
+          provider.getTopRatedMovies({ page: params?.page || 1, year: params?.year, enrich }, { signal }),
+          provider.getUpcomingMovies({ page: params?.page || 1, enrich }, { signal }),
         ]);
 
         // Get hero movie from the first popular movie
         const heroMovie = popularResponse.results.length > 0 
-          ? await omdbService.getMovieDetails(String(popularResponse.results[0].id))
+          ? await provider.getMovieDetails(String(popularResponse.results[0].id), { signal })
           : null;
 
         // Transform movies to sections
@@ -58,12 +71,15 @@ export const useMoviesQuery = {
   },
 
   /**
-   * Hook for searching movies
+   * Hook for searching movies. Pages are loaded incrementally with an infinite
+   * query; the loaded pages are merged into a single result list.
    */
-  useMovieSearchQuery: (params: MovieSearchParams): MovieSearchQueryResult => {
-    const queryResult = useQuery({
-      queryKey: queryKeys.movies.search(params.query, params.page),
-      queryFn: () => withQueryErrorHandling(async (omdbService) => {
+  useMovieSearchQuery: (params: MovieSearchParams): InfiniteMovieSearchQueryResult => {
+    const queryClient = useQueryClient();
+    const queryResult = useInfiniteQuery({
+      queryKey: queryKeys.movies.search(params.query, undefined, { type: params.type, year: params.year }),
+      // React Query aborts the signal when a newer search supersedes this one
+      queryFn: ({ pageParam, signal }) => withQueryErrorHandling(async (provider): Promise<MovieSearchPage> => {
         // Don't execute query if query is empty
         if (!params.query.trim()) {
           return {
@@ -73,27 +89,88 @@ export const useMoviesQuery = {
           };
         }
 
-        const response = await omdbService.searchMovies({
-          s: params.query,
-          page: params.page || 1,
+        // Tokens such as `year:2005..2012` turn the query into one search per year, merged per page
+        const searches = getProviderSearches(parseSearchQuery(params.query), pageParam, {
           type: params.type,
-          y: params.year,
+          year: params.year,
         });
+        const response = await searchAll(provider, searches, { signal });
 
-        // Transform OMDb search results to Movie objects using centralized transformer
-        const movies = response.Search ? response.Search.map(transformOMDbSearchResultToMovie) : [];
+        // Fill in ratings, genres and plots from each title's (cached) details
+        const movies = await createMovieEnricher(queryClient, provider)(response.results, signal);
 
-        return {
-          results: movies,
-          totalResults: parseInt(response.totalResults) || 0,
-          hasMore: (params.page || 1) * 10 < (parseInt(response.totalResults) || 0),
-        };
+        return { ...response, results: movies };
       }),
+      initialPageParam: 1,
+      getNextPageParam: (lastPage, _allPages, lastPageParam) => (lastPage.hasMore ? lastPageParam + 1 : undefined),
       enabled: !!params.query.trim(), // Only execute if query is not empty
       staleTime: QUERY_CONFIG.STALE_TIME.SEARCH,
       gcTime: QUERY_CONFIG.GC_TIME.SEARCH,
     });
 
+    const pages = queryResult.data?.pages;
+    const data = useMemo<MovieSearchPage | undefined>(() => {
+      if (!pages || pages.length === 0) {
+        return undefined;
+      }
+
+      // OMDb occasionally repeats a title across pages, keep the first occurrence
+      const seenIds = new Set<Movie['id']>();
+      const results = pages
+        .flatMap((page) => page.results)
+        .filter((movie) => {
+          if (seenIds.has(movie.id)) return false;
+          seenIds.add(movie.id);
+          return true;
+        });
+
+      return {
+        results,
+        totalResults: pages[0].totalResults,
+        hasMore: pages[pages.length - 1].hasMore,
+      };
+    }, [pages]);
+
+    return {
+      data,
+      isLoading: queryResult.isLoading,
+      isError: queryResult.isError,
+      error: queryResult.error as QueryError | null,
+      refetch: queryResult.refetch,
+      pageCount: pages?.length ?? 0,
+      hasNextPage: queryResult.hasNextPage,
+      isFetchingNextPage: queryResult.isFetchingNextPage,
+      fetchNextPage: queryResult.fetchNextPage,
+    };
+  },
+
+  /**
+   * Hook for the title matches shown while typing a search. Only the first result page is
+   * used and hits aren't enriched, keeping each keystroke to a single request.
+   */
+  useSearchSuggestionsQuery: (query: string): MoviesQueryResult => {
+    // Suggestions match the free text and a `type:` token; a year range isn't fanned out while typing
+    const { text: term, type } = parseSearchQuery(query);
+    const queryResult = useQuery({
+      queryKey: queryKeys.movies.suggestions(term.toLowerCase(), type),
+      queryFn: ({ signal }) => withQueryErrorHandling(async (provider) => {
+        try {
+          const response = await provider.search({ query: term, type }, { signal, priority: 'high', retry: false });
+          return response.results.slice(0, QUERY_CONFIG.SUGGESTIONS.LIMIT);
+        } catch (error) {
+          // No match yet is a normal state while typing, not an error
+          const code = (error as { code?: string } | null)?.code;
+          if (code === OMDbErrorCode.NOT_FOUND || code === OMDbErrorCode.TOO_MANY_RESULTS) {
+            return [];
+          }
+          throw error;
+        }
+      }),
+      enabled: term.length >= QUERY_CONFIG.SUGGESTIONS.MIN_QUERY_LENGTH,
+      staleTime: QUERY_CONFIG.STALE_TIME.SEARCH,
+      gcTime: QUERY_CONFIG.GC_TIME.SEARCH,
+    });
+
     return {
       data: queryResult.data,
       isLoading: queryResult.isLoading,
@@ -109,12 +186,12 @@ export const useMoviesQuery = {
   useMovieDetailsQuery: (movieId: string): MovieDetailsQueryResult => {
     const queryResult = useQuery({
       queryKey: queryKeys.movies.details(movieId),
-      queryFn: () => withQueryErrorHandling(async (omdbService) => {
+      queryFn: ({ signal }) => withQueryErrorHandling(async (provider) => {
         if (!movieId) {
           return null;
         }
 
-        const movieDetails = await omdbService.getMovieDetails(movieId);
+        const movieDetails = await provider.getMovieDetails(movieId, { signal });
         return movieDetails;
       }),
       enabled: !!movieId, // Only execute if movieId is provided
@@ -135,10 +212,11 @@ export const useMoviesQuery = {
    * Hook for fetching popular movies
    */
   usePopularMoviesQuery: (params?: MovieQueryParams): MoviesQueryResult => {
+    const queryClient = useQueryClient();
     const queryResult = useQuery({
       queryKey: queryKeys.movies.popular(),
-      queryFn: () => withQueryErrorHandling(async (omdbService) => {
-        const response = await omdbService.getPopularMovies({ page: params?.page || 1, year: params?.year });
+      queryFn: ({ signal }) => withQueryErrorHandling(async (provider) => {
+        const response = await provider.getPopularMovies({ page: params?.page || 1, year: params?.year, enrich: createMovieEnricher(queryClient, provider) }, { signal });
         return response.results;
       }),
       staleTime: QUERY_CONFIG.STALE_TIME.MOVIES,
@@ -158,10 +236,11 @@ export const useMoviesQuery = {
    * Hook for fetching top rated movies
    */
   useTopRatedMoviesQuery: (params?: MovieQueryParams): MoviesQueryResult => {
+    const queryClient = useQueryClient();
     const queryResult = useQuery({
       queryKey: queryKeys.movies.topRated(),
-      queryFn: () => withQueryErrorHandling(async (omdbService) => {
-        const response = await omdbService.getTopRatedMovies({ page: params?.page || 1, year: params?.year });
+      queryFn: ({ signal }) => withQueryErrorHandling(async (provider) => {
+        const response = await provider.getTopRatedMovies({ page: params?.page || 1, year: params?.year, enrich: createMovieEnricher(queryClient, provider) }, { signal });
         return response.results;
       }),
       staleTime: QUERY_CONFIG.STALE_TIME.MOVIES,
@@ -181,10 +260,11 @@ export const useMoviesQuery = {
    * Hook for fetching upcoming movies
    */
   useUpcomingMoviesQuery: (params?: MovieQueryParams): MoviesQueryResult => {
+    const queryClient = useQueryClient();
     const queryResult = useQuery({
       queryKey: queryKeys.movies.upcoming(),
-      queryFn: () => withQueryErrorHandling(async (omdbService) => {
-        const response = await omdbService.getUpcomingMovies({ page: params?.page || 1 });
+      queryFn: ({ signal }) => withQueryErrorHandling(async (provider) => {
+        const response = await provider.getUpcomingMovies({ page: params?.page || 1, enrich: createMovieEnricher(queryClient, provider) }, { signal });
         return response.results;
       }),
       staleTime: QUERY_CONFIG.STALE_TIME.MOVIES,
@@ -199,4 +279,120 @@ export const useMoviesQuery = {
       refetch: queryResult.refetch,
     };
   },
+
+  /**
+   * Hook for fetching popular TV shows
+   */
+  usePopularTvShowsQuery: (params?: MovieQueryParams): MoviesQueryResult => {
+    const queryResult = useQuery({
+      queryKey: queryKeys.tvShows.popular(),
+      queryFn: ({ signal }) => withQueryErrorHandling(async (provider) => {
+        const response = await provider.getPopularTvShows({ page: params?.page || 1, year: params?.year }, { signal });
+        return response.results;
+      }),
+      staleTime: QUERY_CONFIG.STALE_TIME.MOVIES,
+      gcTime: QUERY_CONFIG.GC_TIME.MOVIES,
+    });
+
+    return {
+      data: queryResult.data,
+      isLoading: queryResult.isLoading,
+      isError: queryResult.isError,
+      error: queryResult.error as QueryError | null,
+      refetch: queryResult.refetch,
+    };
+  },
+
+  /**
+   * Hook for searching TV shows
+   */
+  useTvShowSearchQuery: (params: MovieSearchParams): MovieSearchQueryResult => {
+    const queryResult = useQuery({
+      queryKey: queryKeys.tvShows.search(params.query, params.page),
+      queryFn: ({ signal }) => withQueryErrorHandling(async (provider) => {
+        return provider.search({
+          query: params.query,
+          page: params.page || 1,
+          type: 'series',
+          year: params.year,
+        }, { signal });
+      }),
+      enabled: !!params.query.trim(), // Only execute if query is not empty
+      staleTime: QUERY_CONFIG.STALE_TIME.SEARCH,
+      gcTime: QUERY_CONFIG.GC_TIME.SEARCH,
+    });
+
+    return {
+      data: queryResult.data,
+      isLoading: queryResult.isLoading,
+      isError: queryResult.isError,
+      error: queryResult.error as QueryError | null,
+      refetch: queryResult.refetch,
+    };
+  },
+
+  /**
+   * Hook for fetching TV show details
+   */
+  useTvShowDetailsQuery: (showId: string): TvShowDetailsQueryResult => {
+    const queryResult = useQuery({
+      queryKey: queryKeys.tvShows.details(showId),
+      queryFn: ({ signal }) => withQueryErrorHandling((provider) => provider.getTvShowDetails(showId, { signal })),
+      enabled: !!showId, // Only execute if showId is provided
+      staleTime: QUERY_CONFIG.STALE_TIME.MOVIE_DETAILS,
+      gcTime: QUERY_CONFIG.GC_TIME.MOVIE_DETAILS,
+    });
+
+    return {
+      data: queryResult.data,
+      isLoading: queryResult.isLoading,
+      isError: queryResult.isError,
+      error: queryResult.error as QueryError | null,
+      refetch: queryResult.refetch,
+    };
+  },
+
+  /**
+   * Hook for fetching the episode list of a TV show season
+   */
+  useSeasonQuery: (showId: string, seasonNumber: number): SeasonQueryResult => {
+    const queryResult = useQuery({
+      queryKey: queryKeys.tvShows.season(showId, seasonNumber),
+      queryFn: ({ signal }) => withQueryErrorHandling((provider) => provider.getTvShowSeason(showId, seasonNumber, { signal })),
+      enabled: !!showId && seasonNumber > 0, // Seasons are 1-based
+      staleTime: QUERY_CONFIG.STALE_TIME.MOVIE_DETAILS,
+      gcTime: QUERY_CONFIG.GC_TIME.MOVIE_DETAILS,
+    });
+
+    return {
+      data: queryResult.data,
+      isLoading: queryResult.isLoading,
+      isError: queryResult.isError,
+      error: queryResult.error as QueryError | null,
+      refetch: queryResult.refetch,
+    };
+  },
+
+  /**
+   * Hook for fetching a single TV show episode
+   */
+  useEpisodeQuery: (showId: string, seasonNumber: number, episodeNumber: number | null): EpisodeQueryResult => {
+    const queryResult = useQuery({
+      queryKey: queryKeys.tvShows.episode(showId, seasonNumber, episodeNumber ?? 0),
+      queryFn: ({ signal }) => withQueryErrorHandling((provider) =>
+        provider.getTvShowEpisode(showId, seasonNumber, episodeNumber ?? 0, { signal })
+      ),
+      enabled: !!showId && seasonNumber > 0 && !!episodeNumber, // Only execute once an episode is selected
+      staleTime: QUERY_CONFIG.STALE_TIME.MOVIE_DETAILS,
+      gcTime: QUERY_CONFIG.GC_TIME.MOVIE_DETAILS,
+    });
+
+    return {
+      data: queryResult.data,
+      isLoading: queryResult.isLoading,
+      isError: queryResult.isError,
+      error: queryResult.error as QueryError | null,
+      refetch: queryResult.refetch,
+    };
+  },
 };
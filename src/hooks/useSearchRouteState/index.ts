@@ -0,0 +1 @@
+export { useSearchRouteState } from './useSearchRouteState';
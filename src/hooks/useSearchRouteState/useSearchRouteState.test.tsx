@@ -0,0 +1,163 @@
+import { renderHook, act } from '@testing-library/react';
+import { describe, it, expect, beforeEach } from 'vitest';
+import React from 'react';
+import { Provider } from 'react-redux';
+import { MemoryRouter, useLocation, useNavigationType } from 'react-router-dom';
+import { useSearchRouteState } from './useSearchRouteState';
+import { createTestStore } from '../../__mocks__/testUtils';
+import { updateFilters } from '../../store/slices/filterSlice';
+
+// Test wrapper component
+const createTestWrapper = (store: ReturnType<typeof createTestStore>, initialEntry: string) => {
+  return ({ children }: { children: React.ReactNode }) => (
+    <Provider store={store}>
+      <MemoryRouter
+        initialEntries={[initialEntry]}
+        future={{
+          v7_startTransition: true,
+          v7_relativeSplatPath: true,
+        }}
+      >
+        {children}
+      </MemoryRouter>
+    </Provider>
+  );
+};
+
+const useSearchRouteStateWithLocation = () => ({
+  route: useSearchRouteState(),
+  location: useLocation(),
+  navigationType: useNavigationType(),
+});
+
+describe('useSearchRouteState', () => {
+  let store: ReturnType<typeof createTestStore>;
+
+  beforeEach(() => {
+    store = createTestStore();
+  });
+
+  it('GIVEN a search URL WHEN using the hook THEN should expose the parsed state', () => {
+    // GIVEN
+    const wrapper = createTestWrapper(store, '/search?q=batman&page=2&type=movie&y=1989');
+
+    // WHEN
+    const { result } = renderHook(() => useSearchRouteStateWithLocation(), { wrapper });
+
+    // THEN
+    expect(result.current.route.query).toBe('batman');
+    expect(result.current.route.page).toBe(2);
+    expect(result.current.route.type).toBe('movie');
+    expect(result.current.route.year).toBe('1989');
+  });
+
+  it('GIVEN filters in the URL WHEN using the hook THEN should copy them into the filter store', () => {
+    // GIVEN
+    const wrapper = createTestWrapper(store, '/search?q=batman&genres=1&sort=title&order=asc');
+
+    // WHEN
+    renderHook(() => useSearchRouteStateWithLocation(), { wrapper });
+
+    // THEN
+    const { movieFilters } = store.getState().filter;
+    expect(movieFilters.selectedGenres).toEqual([1]);
+    expect(movieFilters.sortBy).toBe('title');
+    expect(movieFilters.sortOrder).toBe('asc');
+  });
+
+  it('GIVEN a later page WHEN setting a new query THEN should write the query and reset the page', () => {
+    // GIVEN
+    const wrapper = createTestWrapper(store, '/search?q=batman&page=3');
+    const { result } = renderHook(() => useSearchRouteStateWithLocation(), { wrapper });
+
+    // WHEN
+    act(() => {
+      result.current.route.setQuery('superman');
+    });
+
+    // THEN
+    expect(result.current.location.search).toBe('?q=superman');
+  });
+
+  it.each([
+    { description: 'typing', options: { replace: true }, expected: 'REPLACE' },
+    { description: 'submitting', options: undefined, expected: 'PUSH' },
+  ])('GIVEN a search URL WHEN $description a query THEN should record a $expected navigation', ({ options, expected }) => {
+    // GIVEN
+    const wrapper = createTestWrapper(store, '/search?q=batman');
+    const { result } = renderHook(() => useSearchRouteStateWithLocation(), { wrapper });
+
+    // WHEN
+    act(() => {
+      result.current.route.setQuery('superman', options);
+    });
+
+    // THEN
+    expect(result.current.location.search).toBe('?q=superman');
+    expect(result.current.navigationType).toBe(expected);
+  });
+
+  it('GIVEN a search URL WHEN setting the page and type THEN should keep the other params', () => {
+    // GIVEN
+    const wrapper = createTestWrapper(store, '/search?q=batman&y=1989');
+    const { result } = renderHook(() => useSearchRouteStateWithLocation(), { wrapper });
+
+    // WHEN
+    act(() => {
+      result.current.route.setType('series');
+    });
+    act(() => {
+      result.current.route.setPage(2);
+    });
+
+    // THEN
+    expect(result.current.location.search).toBe('?q=batman&page=2&type=series&y=1989');
+  });
+
+  it.each([
+    { description: 'the type', change: (route: ReturnType<typeof useSearchRouteState>) => route.setType('series') },
+    { description: 'the year', change: (route: ReturnType<typeof useSearchRouteState>) => route.setYear('1992') },
+  ])('GIVEN a search URL WHEN changing $description THEN should add a history entry like a new query', ({ change }) => {
+    // GIVEN
+    const wrapper = createTestWrapper(store, '/search?q=batman');
+    const { result } = renderHook(() => useSearchRouteStateWithLocation(), { wrapper });
+
+    // WHEN
+    act(() => {
+      change(result.current.route);
+    });
+
+    // THEN
+    expect(result.current.navigationType).toBe('PUSH');
+  });
+
+  it('GIVEN the filter store changes WHEN using the hook THEN should write the filters back to the URL', () => {
+    // GIVEN
+    const wrapper = createTestWrapper(store, '/search?q=batman&page=2');
+    const { result } = renderHook(() => useSearchRouteStateWithLocation(), { wrapper });
+
+    // WHEN
+    act(() => {
+      store.dispatch(updateFilters({ selectedLanguages: ['fr'] }));
+    });
+
+    // THEN
+    expect(result.current.location.search).toBe('?q=batman&languages=fr');
+    expect(result.current.route.filters.selectedLanguages).toEqual(['fr']);
+  });
+
+  it('GIVEN filters set through the hook WHEN updating THEN should mirror them into the store', () => {
+    // GIVEN
+    const wrapper = createTestWrapper(store, '/search?q=batman');
+    const { result } = renderHook(() => useSearchRouteStateWithLocation(), { wrapper });
+
+    // WHEN
+    act(() => {
+      result.current.route.setFilters({ ...result.current.route.filters, releaseYearRange: { from: 1980, to: 1989 } });
+    });
+
+    // THEN
+    expect(result.current.location.search).toBe('?q=batman&years=1980-1989');
+    expect(store.getState().filter.movieFilters.releaseYearRange).toEqual({ from: 1980, to: 1989 });
+  });
+});
@@ -0,0 +1,71 @@
+import { useCallback, useEffect, useMemo, useRef } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { useAppDispatch, useAppSelector } from '../../store/store';
+import { updateFilters, selectMovieFilters } from '../../store/slices/filterSlice';
+import { type SearchRouteState } from '../../router/routing.types';
+import { type MovieFilters } from '../../types/movie.types';
+import {
+  parseSearchParams,
+  buildSearchParams,
+  getFiltersSearchKey,
+} from '../../utils/searchParamsUtils';
+
+/**
+ * Custom hook that keeps the search route state (query, page, type, year and filters) in the URL
+ * The URL is the source of truth: filters are mirrored into the filter store when the URL changes
+ * and written back to the URL when they are changed through the store (e.g. the filter modal)
+ */
+export const useSearchRouteState = () => {
+  const dispatch = useAppDispatch();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const storeFilters = useAppSelector(selectMovieFilters);
+
+  const state = useMemo(() => parseSearchParams(searchParams), [searchParams]);
+
+  const updateState = useCallback((changes: Partial<SearchRouteState>, options?: { replace?: boolean }) => {
+    setSearchParams((current) => buildSearchParams({ ...parseSearchParams(current), ...changes }), options);
+  }, [setSearchParams]);
+
+  // Sync filters between the URL and the filter store, letting whichever side changed win
+  const urlFiltersKey = getFiltersSearchKey(state.filters);
+  const storeFiltersKey = getFiltersSearchKey(storeFilters);
+  const previousKeys = useRef<{ url: string; store: string } | null>(null);
+
+  useEffect(() => {
+    const previous = previousKeys.current;
+    previousKeys.current = { url: urlFiltersKey, store: storeFiltersKey };
+    if (urlFiltersKey === storeFiltersKey) return;
+
+    if (!previous || previous.url !== urlFiltersKey) {
+      dispatch(updateFilters(state.filters));
+    } else if (previous.store !== storeFiltersKey) {
+      updateState({ filters: storeFilters, page: 1 });
+    }
+  }, [urlFiltersKey, storeFiltersKey, state.filters, storeFilters, dispatch, updateState]);
+
+  return {
+    ...state,
+
+    // Typing updates pass `replace` so only submitted searches add history entries
+    setQuery: useCallback((query: string, options?: { replace?: boolean }) => {
+      updateState({ query, page: 1 }, options);
+    }, [updateState]),
+
+    // Pages load incrementally, so advancing the page replaces the history entry
+    setPage: useCallback((page: number) => {
+      updateState({ page }, { replace: true });
+    }, [updateState]),
+
+    setType: useCallback((type: SearchRouteState['type']) => {
+      updateState({ type, page: 1 });
+    }, [updateState]),
+
+    setYear: useCallback((year: string | undefined) => {
+      updateState({ year, page: 1 });
+    }, [updateState]),
+
+    setFilters: useCallback((filters: MovieFilters) => {
+      updateState({ filters, page: 1 });
+    }, [updateState]),
+  };
+};
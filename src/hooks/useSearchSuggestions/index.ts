@@ -0,0 +1 @@
+export { useSearchSuggestions } from './useSearchSuggestions';
@@ -0,0 +1,139 @@
+import { renderHook, act } from '@testing-library/react';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import React from 'react';
+import { useSearchSuggestions } from './useSearchSuggestions';
+import { useMoviesQuery } from '../useMoviesQuery';
+import { createTestStore } from '../../__mocks__/testUtils';
+import { ReduxWrapper } from '../../__mocks__/testMocks';
+import { mockMovie } from '../../__mocks__/testData';
+import { addRecentSearch } from '../../store/slices/searchHistorySlice';
+
+// Title matches come from the API; each query answers with one title named after it
+vi.mock('../useMoviesQuery', () => ({
+  useMoviesQuery: {
+    useSearchSuggestionsQuery: vi.fn(),
+  },
+}));
+
+const mockUseSearchSuggestionsQuery = vi.mocked(useMoviesQuery.useSearchSuggestionsQuery);
+
+// Test wrapper component
+const createTestWrapper = (store: ReturnType<typeof createTestStore>) => {
+  return ({ children }: { children: React.ReactNode }) => (
+    <ReduxWrapper store={store}>{children}</ReduxWrapper>
+  );
+};
+
+describe('useSearchSuggestions', () => {
+  let store: ReturnType<typeof createTestStore>;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    store = createTestStore();
+    mockUseSearchSuggestionsQuery.mockImplementation((query: string) => ({
+      data: [{ ...mockMovie, id: `tt-${query}`, title: `${query} title` }],
+      isLoading: false,
+      isError: false,
+      error: null,
+      refetch: vi.fn(),
+    }));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.clearAllMocks();
+  });
+
+  it('GIVEN recent searches WHEN typing THEN should list the matching ones before the title matches', () => {
+    // GIVEN
+    store.dispatch(addRecentSearch('alien'));
+    store.dispatch(addRecentSearch('batman begins'));
+    const wrapper = createTestWrapper(store);
+
+    // WHEN
+    const { result } = renderHook(() => useSearchSuggestions('bat'), { wrapper });
+
+    // THEN
+    expect(result.current.suggestions).toEqual([
+      { kind: 'recent', id: 'recent-batman begins', label: 'batman begins' },
+      { kind: 'title', id: 'title-tt-bat', label: 'bat title', movie: expect.objectContaining({ id: 'tt-bat' }) },
+    ]);
+  });
+
+  it('GIVEN more recent searches than the limit WHEN nothing is typed THEN should offer only the latest five', () => {
+    // GIVEN
+    ['one', 'two', 'three', 'four', 'five', 'six'].forEach((search) => store.dispatch(addRecentSearch(search)));
+    mockUseSearchSuggestionsQuery.mockReturnValue({ data: undefined, isLoading: false, isError: false, error: null, refetch: vi.fn() });
+    const wrapper = createTestWrapper(store);
+
+    // WHEN
+    const { result } = renderHook(() => useSearchSuggestions(''), { wrapper });
+
+    // THEN
+    expect(result.current.suggestions.map((suggestion) => suggestion.label)).toEqual(['six', 'five', 'four', 'three', 'two']);
+  });
+
+  it.each([
+    { description: 'text shorter than the minimum', query: 'ba', isLoading: true, expected: false },
+    { description: 'text long enough while titles load', query: 'bat', isLoading: true, expected: true },
+    { description: 'only a token and short text', query: 'ba year:1989', isLoading: true, expected: false },
+  ])('GIVEN $description WHEN using the hook THEN isLoadingTitles should be $expected', ({ query, isLoading, expected }) => {
+    // GIVEN
+    mockUseSearchSuggestionsQuery.mockReturnValue({ data: undefined, isLoading, isError: false, error: null, refetch: vi.fn() });
+    const wrapper = createTestWrapper(store);
+
+    // WHEN
+    const { result } = renderHook(() => useSearchSuggestions(query), { wrapper });
+
+    // THEN
+    expect(result.current.isLoadingTitles).toBe(expected);
+  });
+
+  it('GIVEN changing text WHEN typing pauses THEN should look up titles for the latest text only', () => {
+    // GIVEN
+    const wrapper = createTestWrapper(store);
+    const { result, rerender } = renderHook(({ query }) => useSearchSuggestions(query), {
+      wrapper,
+      initialProps: { query: 'bat' },
+    });
+
+    // WHEN
+    rerender({ query: 'batm' });
+    rerender({ query: 'batman' });
+
+    // THEN
+    // Matches for the earlier text are hidden while the new text waits for the debounce
+    expect(result.current.suggestions).toEqual([]);
+    expect(result.current.isLoadingTitles).toBe(true);
+    expect(mockUseSearchSuggestionsQuery).not.toHaveBeenCalledWith('batm');
+
+    act(() => {
+      vi.advanceTimersByTime(300);
+    });
+
+    expect(mockUseSearchSuggestionsQuery).toHaveBeenLastCalledWith('batman');
+    expect(mockUseSearchSuggestionsQuery).not.toHaveBeenCalledWith('batm');
+    expect(result.current.suggestions.map((suggestion) => suggestion.label)).toEqual(['batman title']);
+    expect(result.current.isLoadingTitles).toBe(false);
+  });
+
+  it('GIVEN the hook WHEN adding and clearing recent searches THEN should update the search history', () => {
+    // GIVEN
+    const wrapper = createTestWrapper(store);
+    const { result } = renderHook(() => useSearchSuggestions(''), { wrapper });
+
+    // WHEN
+    act(() => {
+      result.current.addRecentSearch('alien');
+    });
+
+    // THEN
+    expect(store.getState().searchHistory.recentSearches).toEqual(['alien']);
+
+    act(() => {
+      result.current.clearRecentSearches();
+    });
+
+    expect(store.getState().searchHistory.recentSearches).toEqual([]);
+  });
+});
@@ -0,0 +1,61 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { useAppDispatch, useAppSelector } from '../../store/store';
+import {
+  addRecentSearch,
+  clearRecentSearches,
+  selectMatchingRecentSearches,
+} from '../../store/slices/searchHistorySlice';
+import { useMoviesQuery } from '../useMoviesQuery';
+import { QUERY_CONFIG } from '../../utils/queryUtils';
+import { parseSearchQuery } from '../../utils/searchQueryUtils';
+import { type SearchSuggestion } from '../../types/movie.types';
+
+// Recent searches offered above the title matches
+const RECENT_SUGGESTIONS_LIMIT = 5;
+
+/**
+ * Custom hook for the search autocomplete: recent searches matching the typed text, followed by
+ * live title matches. Title lookups wait until typing pauses so each keystroke doesn't cost a request.
+ */
+export const useSearchSuggestions = (query: string, debounceMs = 300) => {
+  const dispatch = useAppDispatch();
+  const [titleQuery, setTitleQuery] = useState(query);
+
+  useEffect(() => {
+    const timeout = setTimeout(() => setTitleQuery(query), debounceMs);
+    return () => clearTimeout(timeout);
+  }, [query, debounceMs]);
+
+  const recentSearches = useAppSelector((state) => selectMatchingRecentSearches(state, query));
+  const titleMatches = useMoviesQuery.useSearchSuggestionsQuery(titleQuery);
+  // Matches for an earlier query would be misleading once the text has changed
+  const titles = titleQuery === query ? titleMatches.data : undefined;
+
+  const suggestions = useMemo<SearchSuggestion[]>(() => [
+    ...recentSearches.slice(0, RECENT_SUGGESTIONS_LIMIT).map((recent): SearchSuggestion => ({
+      kind: 'recent',
+      id: `recent-${recent}`,
+      label: recent,
+    })),
+    ...(titles ?? []).map((movie): SearchSuggestion => ({
+      kind: 'title',
+      id: `title-${movie.id}`,
+      label: movie.title,
+      movie,
+    })),
+  ], [recentSearches, titles]);
+
+  return {
+    suggestions,
+    isLoadingTitles: parseSearchQuery(query).text.length >= QUERY_CONFIG.SUGGESTIONS.MIN_QUERY_LENGTH &&
+      (titleQuery !== query || titleMatches.isLoading),
+
+    addRecentSearch: useCallback((search: string) => {
+      dispatch(addRecentSearch(search));
+    }, [dispatch]),
+
+    clearRecentSearches: useCallback(() => {
+      dispatch(clearRecentSearches());
+    }, [dispatch]),
+  };
+};
@@ -0,0 +1 @@
+export { useWatchlist } from './useWatchlist';
@@ -0,0 +1,86 @@
+import { renderHook, act } from '@testing-library/react';
+import { describe, it, expect, beforeEach } from 'vitest';
+import React from 'react';
+import { useWatchlist } from './useWatchlist';
+import { createTestStore } from '../../__mocks__/testUtils';
+import { ReduxWrapper } from '../../__mocks__/testMocks';
+import { mockMovie } from '../../__mocks__/testData';
+
+// Test wrapper component
+const createTestWrapper = (store: ReturnType<typeof createTestStore>) => {
+  return ({ children }: { children: React.ReactNode }) => (
+    <ReduxWrapper store={store}>{children}</ReduxWrapper>
+  );
+};
+
+describe('useWatchlist', () => {
+  let store: ReturnType<typeof createTestStore>;
+
+  beforeEach(() => {
+    store = createTestStore();
+  });
+
+  it('GIVEN an empty watchlist WHEN using the hook THEN should return no movies', () => {
+    // GIVEN
+    const wrapper = createTestWrapper(store);
+
+    // WHEN
+    const { result } = renderHook(() => useWatchlist(), { wrapper });
+
+    // THEN
+    expect(result.current.movies).toEqual([]);
+    expect(result.current.count).toBe(0);
+    expect(result.current.isInWatchlist(mockMovie.id)).toBe(false);
+  });
+
+  it('GIVEN a movie WHEN toggleWatchlist is called THEN should add it to the store', () => {
+    // GIVEN
+    const wrapper = createTestWrapper(store);
+    const { result } = renderHook(() => useWatchlist(), { wrapper });
+
+    // WHEN
+    act(() => {
+      result.current.toggleWatchlist(mockMovie);
+    });
+
+    // THEN
+    expect(result.current.isInWatchlist(mockMovie.id)).toBe(true);
+    expect(result.current.movies).toEqual([mockMovie]);
+    expect(store.getState().watchlist.entries[mockMovie.id]).toBeDefined();
+  });
+
+  it('GIVEN a saved movie WHEN removeFromWatchlist is called THEN should remove it', () => {
+    // GIVEN
+    const wrapper = createTestWrapper(store);
+    const { result } = renderHook(() => useWatchlist(), { wrapper });
+    act(() => {
+      result.current.addToWatchlist(mockMovie);
+    });
+
+    // WHEN
+    act(() => {
+      result.current.removeFromWatchlist(mockMovie.id);
+    });
+
+    // THEN
+    expect(result.current.count).toBe(0);
+  });
+
+  it('GIVEN saved movies WHEN clearWatchlist is called THEN should empty the list', () => {
+    // GIVEN
+    const wrapper = createTestWrapper(store);
+    const { result } = renderHook(() => useWatchlist(), { wrapper });
+    act(() => {
+      result.current.addToWatchlist(mockMovie);
+      result.current.addToWatchlist({ ...mockMovie, id: 'tt7654321' });
+    });
+
+    // WHEN
+    act(() => {
+      result.current.clearWatchlist();
+    });
+
+    // THEN
+    expect(result.current.movies).toEqual([]);
+  });
+});
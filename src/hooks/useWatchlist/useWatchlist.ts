@@ -0,0 +1,46 @@
+import { useCallback } from 'react';
+import { useAppDispatch, useAppSelector } from '../../store/store';
+import {
+  addToWatchlist,
+  removeFromWatchlist,
+  toggleWatchlist,
+  clearWatchlist,
+  selectWatchlistEntries,
+  selectWatchlistMovies,
+} from '../../store/slices/watchlistSlice';
+import { type Movie } from '../../types/movie.types';
+
+/**
+ * Custom hook for reading and updating the user's watchlist ("My List")
+ */
+export const useWatchlist = () => {
+  const dispatch = useAppDispatch();
+  const entries = useAppSelector(selectWatchlistEntries);
+  const movies = useAppSelector(selectWatchlistMovies);
+
+  const isInWatchlist = useCallback((movieId: Movie['id']) => {
+    return !!entries[String(movieId)];
+  }, [entries]);
+
+  return {
+    movies,
+    count: movies.length,
+    isInWatchlist,
+
+    addToWatchlist: useCallback((movie: Movie) => {
+      dispatch(addToWatchlist(movie));
+    }, [dispatch]),
+
+    removeFromWatchlist: useCallback((movieId: Movie['id']) => {
+      dispatch(removeFromWatchlist(movieId));
+    }, [dispatch]),
+
+    toggleWatchlist: useCallback((movie: Movie) => {
+      dispatch(toggleWatchlist(movie));
+    }, [dispatch]),
+
+    clearWatchlist: useCallback(() => {
+      dispatch(clearWatchlist());
+    }, [dispatch]),
+  };
+};
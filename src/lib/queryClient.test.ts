@@ -0,0 +1,39 @@
+import { describe, it, expect } from 'vitest';
+import { queryClient } from './queryClient';
+import { InvalidUrlError, MissingApiKeyError } from '../config/ConfigError';
+import { OMDbInvalidApiKeyError } from '../services/OMDbService';
+import { transformToQueryError } from '../utils/queryUtils';
+
+type RetryFn = (failureCount: number, error: unknown) => boolean;
+
+describe('queryClient', () => {
+  const retry = queryClient.getDefaultOptions().queries?.retry as RetryFn;
+
+  describe('retry', () => {
+    it.each([
+      { description: 'a missing API key', error: new MissingApiKeyError() },
+      { description: 'a missing API key as a QueryError', error: transformToQueryError(new MissingApiKeyError()) },
+      { description: 'an invalid base URL', error: new InvalidUrlError('VITE_OMDB_BASE_URL', 'omdb') },
+      { description: 'an invalid OMDb key', error: new OMDbInvalidApiKeyError() },
+      { description: 'an ApiError already retried by ApiService', error: { message: 'Service unavailable', status: 503, attempts: 3 } },
+      { description: 'a cancelled request', error: { message: 'Request cancelled', status: 0, code: 'CANCELLED' } },
+      { description: 'a client error', error: { message: 'Not found', status: 404 } },
+    ])('GIVEN $description WHEN deciding whether to retry THEN should not retry', ({ error }) => {
+      // GIVEN & WHEN
+      const shouldRetry = retry(0, error);
+
+      // THEN
+      expect(shouldRetry).toBe(false);
+    });
+
+    it('GIVEN another error WHEN deciding whether to retry THEN should retry up to 3 times', () => {
+      // GIVEN
+      const error = new Error('Something went wrong');
+
+      // WHEN & THEN
+      expect(retry(0, error)).toBe(true);
+      expect(retry(2, error)).toBe(true);
+      expect(retry(3, error)).toBe(false);
+    });
+  });
+});
@@ -1,4 +1,7 @@
 import { QueryClient } from '@tanstack/react-query';
+import { isConfigError } from '../config/ConfigError';
+import { isCancelledError } from '../services/ApiService';
+import { isPermanentOMDbError } from '../services/OMDbService';
 
 /**
  * React Query client configuration
@@ -9,6 +12,22 @@ export const queryClient = new QueryClient({
       staleTime: 5 * 60 * 1000, // 5 minutes
       gcTime: 10 * 60 * 1000, // 10 minutes (formerly cacheTime)
       retry: (failureCount, error) => {
+        // ApiService already retried this request according to its retry policy
+        if (error && typeof error === 'object' && 'attempts' in error) {
+          return false;
+        }
+        // The query was superseded or unmounted; there's nobody to retry for
+        if (isCancelledError(error)) {
+          return false;
+        }
+        // A bad key, an exhausted limit or a search without matches fails the same way again
+        if (isPermanentOMDbError(error)) {
+          return false;
+        }
+        // A missing or invalid setting stays that way until the user fixes it on the setup page
+        if (isConfigError(error)) {
+          return false;
+        }
         // Don't retry on 4xx errors
         if (error && typeof error === 'object' && 'status' in error) {
           const status = (error as { status: number }).status;
@@ -37,9 +56,22 @@ export const queryKeys = {
     popular: () => [...queryKeys.movies.all, 'popular'] as const,
     topRated: () => [...queryKeys.movies.all, 'topRated'] as const,
     upcoming: () => [...queryKeys.movies.all, 'upcoming'] as const,
-    search: (query: string, page?: number) => 
-      [...queryKeys.movies.all, 'search', { query, page }] as const,
+    search: (query: string, page?: number, options: { type?: string; year?: string } = {}) => 
+      [...queryKeys.movies.all, 'search', { query, page, ...options }] as const,
+    suggestions: (query: string, type?: string) => [...queryKeys.movies.all, 'suggestions', { query, type }] as const,
     details: (id: string) => [...queryKeys.movies.all, 'details', id] as const,
+    enrichment: (id: string) => [...queryKeys.movies.all, 'enrichment', id] as const,
+  },
+  tvShows: {
+    all: ['tvShows'] as const,
+    popular: () => [...queryKeys.tvShows.all, 'popular'] as const,
+    search: (query: string, page?: number) =>
+      [...queryKeys.tvShows.all, 'search', { query, page }] as const,
+    details: (id: string) => [...queryKeys.tvShows.all, 'details', id] as const,
+    season: (id: string, season: number) =>
+      [...queryKeys.tvShows.details(id), 'season', season] as const,
+    episode: (id: string, season: number, episode: number) =>
+      [...queryKeys.tvShows.season(id, season), 'episode', episode] as const,
   },
   homePage: {
     all: ['homePage'] as const,
@@ -1,4 +1,4 @@
-import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { render, screen, fireEvent } from '@testing-library/react';
 import { vi, describe, it, expect, beforeEach } from 'vitest';
 import '@testing-library/jest-dom';
 import { HomePage } from './HomePage';
@@ -20,16 +20,15 @@ vi.mock('react-router-dom', async () => {
 vi.mock('../../hooks/useMoviesQuery/useMoviesQuery', () => ({
   useMoviesQuery: {
     useHomePageQuery: vi.fn(),
-    useMovieSearchQuery: vi.fn(),
   },
 }));
 
 // Mock the Navigation component
 vi.mock('../../components/Navigation', () => ({
-  Navigation: ({ onNavigate, onSearch, currentSection }: { onNavigate?: (section: string) => void; onSearch?: (query: string) => void; currentSection: string }) => (
+  Navigation: ({ onNavigate, onSearchSubmit, currentSection }: { onNavigate?: (section: string) => void; onSearchSubmit?: (query: string) => void; currentSection: string }) => (
     <nav data-testid="navigation">
       <button onClick={() => onNavigate?.('home')}>Home</button>
-      <button onClick={() => onSearch?.('test search')}>Search</button>
+      <button onClick={() => onSearchSubmit?.('test search')}>Search</button>
       <span data-testid="current-section">{currentSection}</span>
     </nav>
   ),
@@ -73,28 +72,6 @@ vi.mock('../../components/MovieSection', () => ({
   ),
 }));
 
-// Mock the SearchResults component
-vi.mock('../../components/SearchResults', () => ({
-  SearchResults: ({ searchQuery, movies, onMovieClick }: { searchQuery: string; movies: Movie[]; onMovieClick?: (movie: Movie) => void }) => (
-    <div data-testid="search-results">
-      <h2>Search Results for: {searchQuery}</h2>
-      <div data-testid="search-movie-cards">
-        {movies.map((movie: Movie) => (
-          <div
-            key={movie.id}
-            data-testid={`search-movie-card-${movie.id}`}
-            onClick={() => onMovieClick?.(movie)}
-            role="button"
-            tabIndex={0}
-          >
-            {movie.title}
-          </div>
-        ))}
-      </div>
-    </div>
-  ),
-}));
-
 describe('HomePage Click Integration', () => {
   const mockHeroMovie: HeroMovie = {
     id: 'tt1234567',
@@ -166,12 +143,10 @@ describe('HomePage Click Integration', () => {
   };
 
   const mockUseHomePageQuery = vi.fn();
-  const mockUseMovieSearchQuery = vi.fn();
 
   beforeEach(() => {
     vi.clearAllMocks();
     (useMoviesQuery.useHomePageQuery as unknown as typeof mockUseHomePageQuery) = mockUseHomePageQuery;
-    (useMoviesQuery.useMovieSearchQuery as unknown as typeof mockUseMovieSearchQuery) = mockUseMovieSearchQuery;
   });
 
   describe('Hero Section Click Functionality', () => {
@@ -185,14 +160,6 @@ describe('HomePage Click Integration', () => {
         refetch: vi.fn(),
       });
 
-      mockUseMovieSearchQuery.mockReturnValue({
-        data: { results: [] },
-        isLoading: false,
-        isError: false,
-        error: null,
-        refetch: vi.fn(),
-      });
-
       // WHEN
       render(<HomePage />, { wrapper: FullTestWrapper });
 
@@ -213,14 +180,6 @@ describe('HomePage Click Integration', () => {
         refetch: vi.fn(),
       });
 
-      mockUseMovieSearchQuery.mockReturnValue({
-        data: { results: [] },
-        isLoading: false,
-        isError: false,
-        error: null,
-        refetch: vi.fn(),
-      });
-
       // WHEN
       render(<HomePage />, { wrapper: FullTestWrapper });
 
@@ -243,14 +202,6 @@ describe('HomePage Click Integration', () => {
         refetch: vi.fn(),
       });
 
-      mockUseMovieSearchQuery.mockReturnValue({
-        data: { results: [] },
-        isLoading: false,
-        isError: false,
-        error: null,
-        refetch: vi.fn(),
-      });
-
       // WHEN
       render(<HomePage />, { wrapper: FullTestWrapper });
 
@@ -271,14 +222,6 @@ describe('HomePage Click Integration', () => {
         refetch: vi.fn(),
       });
 
-      mockUseMovieSearchQuery.mockReturnValue({
-        data: { results: [] },
-        isLoading: false,
-        isError: false,
-        error: null,
-        refetch: vi.fn(),
-      });
-
       // WHEN
       render(<HomePage />, { wrapper: FullTestWrapper });
 
@@ -295,48 +238,9 @@ describe('HomePage Click Integration', () => {
     });
   });
 
-  describe('Search Results Click Functionality', () => {
-    it('GIVEN a homepage with search results WHEN search movie card is clicked THEN should call onMovieClick with movie data', () => {
-      // GIVEN
-      const searchMovies = [mockMovies[0]];
-      
-      mockUseHomePageQuery.mockReturnValue({
-        data: mockHomePageData,
-        isLoading: false,
-        isError: false,
-        error: null,
-        refetch: vi.fn(),
-      });
-
-      mockUseMovieSearchQuery.mockReturnValue({
-        data: { results: searchMovies },
-        isLoading: false,
-        isError: false,
-        error: null,
-        refetch: vi.fn(),
-      });
-
-      // WHEN
-      render(<HomePage />, { wrapper: FullTestWrapper });
-
-      // Simulate search by clicking search button
-      const searchButton = screen.getByText('Search');
-      fireEvent.click(searchButton);
-
-      // Wait for search results to appear
-      waitFor(() => {
-        const searchMovieCard = screen.getByTestId('search-movie-card-tt1111111');
-        fireEvent.click(searchMovieCard);
-      });
-
-      // THEN
-      expect(mockNavigate).toHaveBeenCalledWith('/movie/tt1111111');
-    });
-  });
-
   describe('Navigation Functionality', () => {
 
-    it('GIVEN a homepage WHEN search is triggered THEN should not navigate (handled by HomePage)', () => {
+    it('GIVEN a homepage WHEN search is triggered THEN should open the search page with the query', () => {
       // GIVEN
       mockUseHomePageQuery.mockReturnValue({
         data: mockHomePageData,
@@ -346,14 +250,6 @@ describe('HomePage Click Integration', () => {
         refetch: vi.fn(),
       });
 
-      mockUseMovieSearchQuery.mockReturnValue({
-        data: { results: [] },
-        isLoading: false,
-        isError: false,
-        error: null,
-        refetch: vi.fn(),
-      });
-
       // WHEN
       render(<HomePage />, { wrapper: FullTestWrapper });
 
@@ -361,8 +257,7 @@ describe('HomePage Click Integration', () => {
       fireEvent.click(searchButton);
 
       // THEN
-      // Search function no longer navigates - it's handled by the HomePage component
-      expect(mockNavigate).not.toHaveBeenCalled();
+      expect(mockNavigate).toHaveBeenCalledWith('/search?q=test+search');
     });
   });
 
@@ -377,14 +272,6 @@ describe('HomePage Click Integration', () => {
         refetch: vi.fn(),
       });
 
-      mockUseMovieSearchQuery.mockReturnValue({
-        data: { results: [] },
-        isLoading: false,
-        isError: false,
-        error: null,
-        refetch: vi.fn(),
-      });
-
       // WHEN
       render(<HomePage />, { wrapper: FullTestWrapper });
 
@@ -408,14 +295,6 @@ describe('HomePage Click Integration', () => {
         refetch: vi.fn(),
       });
 
-      mockUseMovieSearchQuery.mockReturnValue({
-        data: { results: [] },
-        isLoading: false,
-        isError: false,
-        error: null,
-        refetch: vi.fn(),
-      });
-
       // WHEN
       render(<HomePage />, { wrapper: FullTestWrapper });
 
@@ -434,14 +313,6 @@ describe('HomePage Click Integration', () => {
         refetch: vi.fn(),
       });
 
-      mockUseMovieSearchQuery.mockReturnValue({
-        data: { results: [] },
-        isLoading: false,
-        isError: false,
-        error: null,
-        refetch: vi.fn(),
-      });
-
       // WHEN
       render(<HomePage />, { wrapper: FullTestWrapper });
 
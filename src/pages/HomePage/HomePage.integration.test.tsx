@@ -16,6 +16,7 @@ import {
   mockEmptyApiResponse,
   mockOMDbServiceInstance
 } from '../../__mocks__/testUtils';
+import { OMDbInvalidApiKeyError } from '../../services/OMDbService/OMDbError';
 
 // Mock useNavigate
 const mockNavigate = vi.fn();
@@ -40,12 +41,15 @@ vi.mock('../../utils/queryUtils', () => ({
   QUERY_CONFIG: {
     STALE_TIME: { HOMEPAGE: 0, SEARCH: 0, MOVIE_DETAILS: 0, MOVIES: 0 },
     GC_TIME: { HOMEPAGE: 0, SEARCH: 0, MOVIE_DETAILS: 0, MOVIES: 0 },
+    ENRICHMENT_CONCURRENCY: 4,
+    SUGGESTIONS: { LIMIT: 5, MIN_QUERY_LENGTH: 3 },
   },
 }));
 
 // Mock the api.config module to avoid import.meta issues
 vi.mock('../../config/api.config', () => ({
   getApiConfig: vi.fn(() => ({
+    provider: 'omdb',
     omdb: {
       apiKey: 'test-key',
       baseURL: 'https://test.com',
@@ -68,8 +72,6 @@ vi.mock('../../utils/dataTransformers', () => ({
     if (upcoming && upcoming.length > 0) sections.push({ title: 'Recently Released', movies: [mockMovie], type: 'recently_released' });
     return sections;
   }),
-  transformOMDbSearchResultToMovie: vi.fn(() => mockMovie),
-  transformOMDbMovieToMovie: vi.fn(() => mockMovie),
 }));
 
 // Note: Integration test uses its own mock setup above
@@ -104,7 +106,7 @@ describe('HomePage Integration', () => {
       mockOMDbServiceInstance.getTopRatedMovies.mockResolvedValue({ results: [] });
       mockOMDbServiceInstance.getUpcomingMovies.mockResolvedValue({ results: [] });
       mockOMDbServiceInstance.getMovieDetails.mockResolvedValue(mockHeroMovie);
-      mockOMDbServiceInstance.searchMovies.mockResolvedValue({ Search: [], totalResults: '0', Response: 'False' });
+      mockOMDbServiceInstance.search.mockResolvedValue({ results: [], totalResults: 0, hasMore: false });
 
       // WHEN
       render(<HomePage />, { wrapper: FullTestWrapper });
@@ -217,7 +219,7 @@ describe('HomePage Integration', () => {
       expect(moviesLink).toHaveAttribute('href', '/movies');
     });
 
-    it('GIVEN search functionality WHEN submitting search query THEN should not navigate (handled by HomePage)', async () => {
+    it('GIVEN search functionality WHEN submitting search query THEN should open the search page with the query', async () => {
       // GIVEN
       mockNavigate.mockClear();
 
@@ -234,7 +236,7 @@ describe('HomePage Integration', () => {
       fireEvent.click(searchToggleButton!);
 
       // Type in the search input
-      const searchInput = screen.getByRole('textbox');
+      const searchInput = screen.getByRole('combobox');
       fireEvent.change(searchInput, { target: { value: 'test query' } });
 
       // Click the search button in the SearchBar
@@ -242,8 +244,7 @@ describe('HomePage Integration', () => {
       fireEvent.click(searchButton);
 
       // THEN
-      // Search function no longer navigates - it's handled by the HomePage component
-      expect(mockNavigate).not.toHaveBeenCalled();
+      expect(mockNavigate).toHaveBeenCalledWith('/search?q=test+query');
     });
   });
 
@@ -286,6 +287,20 @@ describe('HomePage Integration', () => {
         const errorElement = screen.getByTestId('homepage-error');
         expect(errorElement).toHaveTextContent('Error: Unknown error occurred');
       });
+      expect(screen.queryByRole('link', { name: 'Set up your OMDb API key' })).not.toBeInTheDocument();
+    });
+
+    it('GIVEN OMDb rejects the API key WHEN fetching data THEN should link to the setup page', async () => {
+      // GIVEN
+      mockApiError();
+      mockOMDbServiceInstance.getPopularMovies.mockRejectedValue(new OMDbInvalidApiKeyError());
+
+      // WHEN
+      render(<HomePage />, { wrapper: FullTestWrapper });
+
+      // THEN
+      const link = await screen.findByRole('link', { name: 'Set up your OMDb API key' });
+      expect(link).toHaveAttribute('href', '/setup');
     });
   });
 });
\ No newline at end of file
@@ -1,37 +1,26 @@
-import React, { useState, useMemo } from 'react';
-import { useSelector } from 'react-redux';
+import React from 'react';
+import { Link } from 'react-router-dom';
 import { Navigation } from '../../components/Navigation';
 import { HeroSection } from '../../components/HeroSection';
 import { MovieSection } from '../../components/MovieSection';
-import { SearchResults } from '../../components/SearchResults';
 import { useNavigation } from '../../hooks/useNavigation';
 import { type HeroMovie, type Movie } from '../../types/movie.types';
 import { useMoviesQuery } from '../../hooks/useMoviesQuery';
-import { type RootState } from '../../store/store';
-import { applyFilters } from '../../utils/filterUtils';
+import { useWatchlist } from '../../hooks/useWatchlist';
+import { OMDbErrorCode } from '../../types/omdb.types';
+import { isConfigError } from '../../config/ConfigError';
+import { ROUTES } from '../../router/routing.types';
 import './HomePage.css';
 
 export const HomePage: React.FC = () => {
-  // Get navigation handlers from context
+  // Get navigation handlers from context; searches open the search page
   const { onPlayClick, onMoreInfoClick, onMovieClick, onSearch } = useNavigation();
-  // State for search functionality
-  const [searchQuery, setSearchQuery] = useState('');
-  
-  // Get filter state from Redux
-  const { movieFilters } = useSelector((state: RootState) => state.filter);
 
-
-  // Handler to clear search from navigation
-  const handleClearSearch = () => {
-    setSearchQuery('');
-  };
+  // Watchlist ("My List") state and toggle
+  const { isInWatchlist, toggleWatchlist } = useWatchlist();
 
   // React Query hooks
   const homePageQuery = useMoviesQuery.useHomePageQuery();
-  const searchQueryResult = useMoviesQuery.useMovieSearchQuery({ 
-    query: searchQuery,
-    page: 1 
-  });
 
   const handlePlayClick = (movie?: HeroMovie | null) => {
     if (movie) onPlayClick?.(movie);
@@ -46,73 +35,33 @@ export const HomePage: React.FC = () => {
   };
 
   const handleSearch = (query: string) => {
-    setSearchQuery(query);
     onSearch?.(query);
   };
 
-  const handleBackToHome = () => {
-    setSearchQuery('');
-  };
-
-  const handleSearchRetry = () => {
-    // Trigger a refetch of the search query
-    searchQueryResult.refetch();
-  };
-
   // Determine loading state
   const isLoading = homePageQuery.isLoading;
 
   // Determine error state
   const error = homePageQuery.error;
 
-  // Determine if we're showing search results or homepage data
-  const isShowingSearchResults = searchQuery.trim() !== '';
-  const searchError = searchQueryResult.error;
-  const searchLoading = searchQueryResult.isLoading;
-  
-  // Memoize search movies to prevent unnecessary re-renders
-  const searchMovies = useMemo(() => {
-    return searchQueryResult.data?.results || [];
-  }, [searchQueryResult.data?.results]);
-  
-  // Calculate filtered search results for count display
-  const filteredSearchMovies = useMemo(() => {
-    if (!isShowingSearchResults || !searchMovies || searchMovies.length === 0) return [];
-    return applyFilters(searchMovies, movieFilters);
-  }, [isShowingSearchResults, searchMovies, movieFilters]);
-
-  // Show search results if user is searching
-  if (isShowingSearchResults) {
-    return (
-      <div data-testid="homepage" className="homepage">
-        <Navigation
-          onSearch={handleSearch}
-          onClearSearch={handleClearSearch}
-          currentSection="home"
-          isSearchActive={true}
-          searchResultCount={filteredSearchMovies.length}
-        />
-        <SearchResults
-          searchQuery={searchQuery}
-          movies={searchMovies}
-          loading={searchLoading}
-          error={searchError?.message}
-          onMovieClick={handleMovieClick}
-          onBackToHome={handleBackToHome}
-          onRetry={handleSearchRetry}
-          filters={movieFilters}
-        />
-      </div>
-    );
-  }
-
   // Show homepage data
   if (isLoading) {
     return <div data-testid="homepage-loading" className="homepage-loading">Loading homepage data...</div>;
   }
 
   if (error) {
-    return <div data-testid="homepage-error" className="homepage-error">Error: {error.message}</div>;
+    // A rejected key or bad configuration can be fixed from the setup page
+    const canFixInSetup = error.code === OMDbErrorCode.INVALID_API_KEY || isConfigError(error);
+    return (
+      <div data-testid="homepage-error" className="homepage-error">
+        Error: {error.message}
+        {canFixInSetup && (
+          <Link to={ROUTES.SETUP} className="homepage-error__setup-link">
+            Set up your OMDb API key
+          </Link>
+        )}
+      </div>
+    );
   }
 
   const displayData = homePageQuery.data;
@@ -123,8 +72,7 @@ export const HomePage: React.FC = () => {
   return (
     <div data-testid="homepage" className="homepage">
       <Navigation
-        onSearch={handleSearch}
-        onClearSearch={handleClearSearch}
+        onSearchSubmit={handleSearch}
         currentSection="home"
       />
       {displayData.heroMovie && (
@@ -132,6 +80,8 @@ export const HomePage: React.FC = () => {
           movie={displayData.heroMovie}
           onPlayClick={handlePlayClick}
           onMoreInfoClick={handleMoreInfoClick}
+          isInWatchlist={isInWatchlist(displayData.heroMovie.id)}
+          onWatchlistToggle={toggleWatchlist}
         />
       )}
       <div className="homepage__content">
@@ -142,6 +92,8 @@ export const HomePage: React.FC = () => {
             movies={section.movies}
             type={section.type as 'big_hits' | 'recently_released' | 'top_rated' | 'trending'}
             onMovieClick={handleMovieClick}
+            isInWatchlist={isInWatchlist}
+            onWatchlistToggle={toggleWatchlist}
           />
         ))}
       </div>
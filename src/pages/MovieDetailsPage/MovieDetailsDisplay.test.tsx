@@ -41,6 +41,20 @@ describe('MovieDetailsDisplay', () => {
     ],
     status: 'Released',
     tagline: 'Test tagline',
+    directors: ['Test Director'],
+    writers: [
+      { name: 'Test Writer', credit: 'screenplay' },
+      { name: 'Test Novelist', credit: 'novel' },
+    ],
+    cast: ['Test Actor 1', 'Test Actor 2'],
+    awards: 'Won 2 Oscars. 10 wins & 20 nominations total',
+    rated: 'PG-13',
+    metascore: 74,
+    ratings: [
+      { source: 'imdb', value: 8.5, display: '8.5/10' },
+      { source: 'rotten_tomatoes', value: 8.7, display: '87%' },
+      { source: 'metacritic', value: 7.4, display: '74/100' },
+    ],
   };
 
   const mockOnBack = vi.fn();
@@ -232,6 +246,74 @@ describe('MovieDetailsDisplay', () => {
     });
   });
 
+  describe('Credits and Ratings Display', () => {
+    it('GIVEN a movie with full credits WHEN rendering THEN should display the crew, cast, box office and awards', () => {
+      // GIVEN
+      // WHEN
+      render(
+        <MovieDetailsDisplay
+          movie={mockMovieDetails}
+          onBack={mockOnBack}
+        />
+      );
+
+      // THEN
+      expect(screen.getByTestId('movie-directors')).toHaveTextContent('Test Director');
+      expect(screen.getByText('Writers')).toBeInTheDocument();
+      expect(screen.getByTestId('movie-writers')).toHaveTextContent('Test Writer (screenplay), Test Novelist (novel)');
+      expect(screen.getByTestId('movie-cast')).toHaveTextContent('Test Actor 1, Test Actor 2');
+      expect(screen.getByTestId('movie-box-office')).toHaveTextContent('$500,000,000');
+      expect(screen.getByTestId('movie-awards')).toHaveTextContent('Won 2 Oscars');
+    });
+
+    it('GIVEN a movie with ratings WHEN rendering THEN should display the ratings panel by source', () => {
+      // GIVEN
+      // WHEN
+      render(
+        <MovieDetailsDisplay
+          movie={mockMovieDetails}
+          onBack={mockOnBack}
+        />
+      );
+
+      // THEN
+      expect(screen.getByTestId('movie-ratings-panel')).toBeInTheDocument();
+      expect(screen.getByTestId('movie-rating-imdb')).toHaveTextContent('8.5/10');
+      expect(screen.getByTestId('movie-rating-rotten_tomatoes')).toHaveTextContent('87%');
+      expect(screen.getByTestId('movie-rating-metacritic')).toHaveTextContent('74/100');
+      expect(screen.getByTestId('movie-vote-count')).toHaveTextContent('1,000');
+      expect(screen.getByTestId('movie-rated')).toHaveTextContent('PG-13');
+    });
+
+    it('GIVEN a movie without credits or ratings WHEN rendering THEN should omit both sections', () => {
+      // GIVEN
+      const bareMovie = {
+        ...mockMovieDetails,
+        vote_count: 0,
+        revenue: 0,
+        ratings: [],
+        directors: [],
+        writers: [],
+        cast: [],
+        awards: null,
+        rated: null,
+        metascore: null,
+      };
+
+      // WHEN
+      render(
+        <MovieDetailsDisplay
+          movie={bareMovie}
+          onBack={mockOnBack}
+        />
+      );
+
+      // THEN
+      expect(screen.queryByTestId('movie-credits')).not.toBeInTheDocument();
+      expect(screen.queryByTestId('movie-ratings')).not.toBeInTheDocument();
+    });
+  });
+
   describe('Release Date Display', () => {
     const dateTestCases = [
       {
@@ -1,10 +1,32 @@
 import React from 'react';
 import { type MovieDetailsDisplayProps } from '../../types/movie.types';
+import { WatchlistButton } from '../../components/WatchlistButton';
+import { MovieRatings } from '../../components/MovieRatings';
 import './MovieDetailsDisplay.css';
 
+interface Fact {
+  label: string;
+  testId: string;
+  value: string | null;
+}
+
+/**
+ * Label/value list used by the ratings and credits sections
+ */
+const FactList: React.FC<{ facts: Fact[] }> = ({ facts }) => (
+  <dl className="movie-details-display__facts">
+    {facts.map((fact) => (
+      <div key={fact.label} className="movie-details-display__fact">
+        <dt className="movie-details-display__fact-label">{fact.label}</dt>
+        <dd data-testid={fact.testId} className="movie-details-display__fact-value">{fact.value}</dd>
+      </div>
+    ))}
+  </dl>
+);
+
 /**
  * MovieDetailsDisplay component that renders detailed movie information
- * Displays movie title, overview, release date, genres, rating, and other details
+ * Displays movie title, overview, release date, genres, ratings, credits, and other details
  */
 export const MovieDetailsDisplay: React.FC<MovieDetailsDisplayProps> = ({
   movie,
@@ -14,6 +36,8 @@ export const MovieDetailsDisplay: React.FC<MovieDetailsDisplayProps> = ({
   onPlayClick,
   onMoreInfoClick,
   onRetry,
+  isInWatchlist = false,
+  onWatchlistToggle,
 }) => {
   // Show loading state
   if (loading) {
@@ -88,6 +112,32 @@ export const MovieDetailsDisplay: React.FC<MovieDetailsDisplayProps> = ({
     return rating > 0 ? rating.toFixed(1) : 'N/A';
   };
 
+  // Format box office takings for display
+  const formatBoxOffice = (amount: number): string => {
+    return amount.toLocaleString('en-US', { style: 'currency', currency: 'USD', maximumFractionDigits: 0 });
+  };
+
+  const ratings = movie.ratings ?? [];
+
+  const ratingFacts: Fact[] = [
+    { label: 'IMDb Votes', testId: 'movie-vote-count', value: movie.vote_count > 0 ? movie.vote_count.toLocaleString('en-US') : null },
+    { label: 'Rated', testId: 'movie-rated', value: movie.rated },
+  ].filter((fact) => fact.value);
+
+  const creditFacts: Fact[] = [
+    { label: movie.directors.length > 1 ? 'Directors' : 'Director', testId: 'movie-directors', value: movie.directors.join(', ') },
+    {
+      label: movie.writers.length > 1 ? 'Writers' : 'Writer',
+      testId: 'movie-writers',
+      value: movie.writers
+        .map((writer) => (writer.credit ? `${writer.name} (${writer.credit})` : writer.name))
+        .join(', '),
+    },
+    { label: 'Cast', testId: 'movie-cast', value: movie.cast.join(', ') },
+    { label: 'Box Office', testId: 'movie-box-office', value: movie.revenue > 0 ? formatBoxOffice(movie.revenue) : null },
+    { label: 'Awards', testId: 'movie-awards', value: movie.awards },
+  ].filter((fact) => fact.value);
+
   return (
     <div data-testid="movie-details-display" className="movie-details-display">
       <div className="movie-details-display__content">
@@ -168,6 +218,23 @@ export const MovieDetailsDisplay: React.FC<MovieDetailsDisplayProps> = ({
             </div>
           )}
 
+          {/* Ratings Breakdown */}
+          {(ratings.length > 0 || ratingFacts.length > 0) && (
+            <section data-testid="movie-ratings" className="movie-details-display__section">
+              <h2 className="movie-details-display__section-title">Ratings</h2>
+              <MovieRatings ratings={ratings} />
+              <FactList facts={ratingFacts} />
+            </section>
+          )}
+
+          {/* Credits */}
+          {creditFacts.length > 0 && (
+            <section data-testid="movie-credits" className="movie-details-display__section">
+              <h2 className="movie-details-display__section-title">Credits</h2>
+              <FactList facts={creditFacts} />
+            </section>
+          )}
+
           {/* Action Buttons */}
           <div className="movie-details-display__actions">
             {onBack && (
@@ -199,6 +266,14 @@ export const MovieDetailsDisplay: React.FC<MovieDetailsDisplayProps> = ({
                 More Info
               </button>
             )}
+
+            {onWatchlistToggle && (
+              <WatchlistButton
+                isInWatchlist={isInWatchlist}
+                onToggle={() => onWatchlistToggle(movie)}
+                title={movie.title}
+              />
+            )}
           </div>
         </div>
       </div>
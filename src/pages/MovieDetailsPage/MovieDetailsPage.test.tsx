@@ -13,12 +13,20 @@ vi.mock('../../hooks/useMoviesQuery', () => ({
   },
 }));
 
+// Mock the useWatchlist hook
+vi.mock('../../hooks/useWatchlist', () => ({
+  useWatchlist: () => ({
+    isInWatchlist: () => false,
+    toggleWatchlist: vi.fn(),
+  }),
+}));
+
 // Mock the Navigation component
 vi.mock('../../components/Navigation', () => ({
-  Navigation: ({ onNavigate, onSearch, currentSection }: { onNavigate?: (section: string) => void; onSearch?: (query: string) => void; currentSection: string }) => (
+  Navigation: ({ onNavigate, onSearchSubmit, currentSection }: { onNavigate?: (section: string) => void; onSearchSubmit?: (query: string) => void; currentSection: string }) => (
     <nav data-testid="navigation">
       <button onClick={() => onNavigate?.('home')}>Home</button>
-      <button onClick={() => onSearch?.('test search')}>Search</button>
+      <button onClick={() => onSearchSubmit?.('test search')}>Search</button>
       <span data-testid="current-section">{currentSection}</span>
     </nav>
   ),
@@ -90,6 +98,15 @@ describe('MovieDetailsPage', () => {
     ],
     status: 'Released',
     tagline: 'Test tagline',
+    directors: ['Test Director'],
+    writers: [
+      { name: 'Test Writer', credit: 'screenplay' },
+      { name: 'Test Novelist', credit: 'novel' },
+    ],
+    cast: ['Test Actor 1', 'Test Actor 2'],
+    awards: 'Won 2 Oscars. 10 wins & 20 nominations total',
+    rated: 'PG-13',
+    metascore: 74,
   };
 
   const mockUseMovieDetailsQuery = vi.fn();
@@ -525,6 +542,40 @@ describe('MovieDetailsPage', () => {
         expect(screen.getByText(`Error: ${expectedMessage}`)).toBeInTheDocument();
       });
     });
+
+    it.each([
+      { code: 'OMDB_NOT_FOUND', title: 'Movie Not Found', message: 'OMDb has no title with this ID. The link may be mistyped or out of date.' },
+      { code: 'OMDB_TOO_MANY_RESULTS', title: 'Movie Not Found', message: 'OMDb couldn\'t narrow this request down to a single title.' },
+      { code: 'OMDB_INVALID_API_KEY', title: 'Invalid API Key', message: 'OMDb rejected the API key, so movie details can\'t load. Check the configured OMDb API key.' },
+      { code: 'OMDB_REQUEST_LIMIT_REACHED', title: 'Daily Limit Reached', message: 'The OMDb API key has used up its daily requests. Try again tomorrow.' },
+    ])('GIVEN an $code error WHEN rendering THEN should explain it without offering a retry', ({ code, title, message }) => {
+      // GIVEN
+      mockUseMovieDetailsQuery.mockReturnValue({
+        data: null,
+        isLoading: false,
+        isError: true,
+        error: { message: 'Raw OMDb error', code },
+        refetch: vi.fn(),
+      });
+
+      // WHEN
+      render(
+        <MemoryRouter 
+          initialEntries={['/movie/tt1234567']}
+          future={{
+            v7_startTransition: true,
+            v7_relativeSplatPath: true,
+          }}
+        >
+          <MovieDetailsPage movieId="tt1234567" />
+        </MemoryRouter>
+      );
+
+      // THEN
+      expect(screen.getByRole('heading', { name: title })).toBeInTheDocument();
+      expect(screen.getByText(message)).toBeInTheDocument();
+      expect(screen.queryByText('Retry')).not.toBeInTheDocument();
+    });
   });
 
   describe('Edge Cases', () => {
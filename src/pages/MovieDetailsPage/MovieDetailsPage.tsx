@@ -1,11 +1,36 @@
 import React from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import { type MovieDetails, type MovieDetailsPageProps } from '../../types/movie.types';
+import { OMDbErrorCode } from '../../types/omdb.types';
 import { useMoviesQuery } from '../../hooks/useMoviesQuery';
+import { useWatchlist } from '../../hooks/useWatchlist';
 import { Navigation } from '../../components/Navigation';
 import { MovieDetailsDisplay } from './MovieDetailsDisplay';
 import './MovieDetailsPage.css';
 
+interface ErrorCopy {
+  readonly title: string;
+  readonly message: string | null;
+  /** Whether loading the movie again could succeed */
+  readonly canRetry: boolean;
+}
+
+// OMDb errors get an explanation of what to do; anything else shows its own message
+const getErrorCopy = (code: string | undefined, message: string | null): ErrorCopy => {
+  switch (code) {
+    case OMDbErrorCode.NOT_FOUND:
+      return { title: 'Movie Not Found', message: 'OMDb has no title with this ID. The link may be mistyped or out of date.', canRetry: false };
+    case OMDbErrorCode.TOO_MANY_RESULTS:
+      return { title: 'Movie Not Found', message: 'OMDb couldn\'t narrow this request down to a single title.', canRetry: false };
+    case OMDbErrorCode.INVALID_API_KEY:
+      return { title: 'Invalid API Key', message: 'OMDb rejected the API key, so movie details can\'t load. Check the configured OMDb API key.', canRetry: false };
+    case OMDbErrorCode.REQUEST_LIMIT_REACHED:
+      return { title: 'Daily Limit Reached', message: 'The OMDb API key has used up its daily requests. Try again tomorrow.', canRetry: false };
+    default:
+      return { title: 'Error Loading Movie', message: message && `Error: ${message}`, canRetry: true };
+  }
+};
+
 /**
  * MovieDetailsPage component that displays detailed information about a specific movie
  * Uses React Query for data fetching and Redux for state management
@@ -28,6 +53,9 @@ export const MovieDetailsPage: React.FC<Partial<MovieDetailsPageProps>> = ({
     refetch,
   } = useMoviesQuery.useMovieDetailsQuery(movieId || '');
 
+  // Watchlist ("My List") state and toggle
+  const { isInWatchlist, toggleWatchlist } = useWatchlist();
+
   // Handle back navigation
   const handleBack = () => {
     if (onBack) {
@@ -87,10 +115,12 @@ export const MovieDetailsPage: React.FC<Partial<MovieDetailsPageProps>> = ({
     return 'An unknown error occurred';
   };
 
+  const errorCopy = isError ? getErrorCopy(error?.code, getErrorMessage()) : null;
+
   return (
     <div className="movie-details-page">
       <Navigation
-        onSearch={handleSearch}
+        onSearchSubmit={handleSearch}
         currentSection="movie-details"
       />
       
@@ -99,26 +129,30 @@ export const MovieDetailsPage: React.FC<Partial<MovieDetailsPageProps>> = ({
           <div data-testid="loading" className="movie-details-page__loading">
             Loading movie details...
           </div>
-        ) : isError ? (
+        ) : errorCopy ? (
           <div data-testid="error" className="movie-details-page__error">
-            <h2>Error Loading Movie</h2>
-            <p>Error: {getErrorMessage()}</p>
-            <button
-              onClick={handleRetry}
-              className="movie-details-page__error button"
-            >
-              Retry
-            </button>
+            <h2>{errorCopy.title}</h2>
+            <p>{errorCopy.message}</p>
+            {errorCopy.canRetry && (
+              <button
+                onClick={handleRetry}
+                className="movie-details-page__error button"
+              >
+                Retry
+              </button>
+            )}
           </div>
         ) : (
           <MovieDetailsDisplay
-            movie={movie as MovieDetails}
+            movie={movie}
             loading={isLoading}
             error={getErrorMessage()}
             onBack={handleBack}
             onPlayClick={handlePlayClick}
             onMoreInfoClick={handleMoreInfoClick}
             onRetry={handleRetry}
+            isInWatchlist={movie ? isInWatchlist(movie.id) : false}
+            onWatchlistToggle={toggleWatchlist}
           />
         )}
       </div>
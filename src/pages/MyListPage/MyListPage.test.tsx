@@ -0,0 +1,180 @@
+import { render, screen, fireEvent, within } from '@testing-library/react';
+import { vi, describe, it, expect, beforeEach } from 'vitest';
+import '@testing-library/jest-dom';
+import { MyListPage } from './MyListPage';
+import { FullTestWrapper } from '../../__mocks__/testMocks';
+import { createTestStore } from '../../__mocks__/testUtils';
+import { mockMovie } from '../../__mocks__/testData';
+import { addToWatchlist } from '../../store/slices/watchlistSlice';
+import { type Movie } from '../../types/movie.types';
+
+// Mock useNavigate
+const mockNavigate = vi.fn();
+vi.mock('react-router-dom', async () => {
+  const actual = await vi.importActual('react-router-dom');
+  return {
+    ...actual,
+    useNavigate: () => mockNavigate,
+  };
+});
+
+// Mock the Navigation component
+vi.mock('../../components/Navigation', () => ({
+  Navigation: ({ onSearchSubmit, currentSection }: { onSearchSubmit?: (query: string) => void; currentSection: string }) => (
+    <nav data-testid="navigation">
+      <button onClick={() => onSearchSubmit?.('test search')}>Search</button>
+      <span data-testid="current-section">{currentSection}</span>
+    </nav>
+  ),
+}));
+
+describe('MyListPage', () => {
+  const olderMovie: Movie = {
+    ...mockMovie,
+    id: 'tt0000001',
+    title: 'Zodiac',
+    release_date: '2007-03-02',
+    vote_average: 7.7,
+  };
+
+  const newerMovie: Movie = {
+    ...mockMovie,
+    id: 'tt0000002',
+    title: 'Arrival',
+    release_date: '2016-11-11',
+    vote_average: 7.9,
+  };
+
+  let store: ReturnType<typeof createTestStore>;
+
+  const renderPage = () => render(
+    <FullTestWrapper store={store}>
+      <MyListPage />
+    </FullTestWrapper>
+  );
+
+  const getRenderedTitles = () => within(screen.getByTestId('my-list-grid'))
+    .getAllByRole('heading', { level: 3 })
+    .map((heading) => heading.textContent);
+
+  // Saves movies in order with increasing timestamps
+  const saveMovies = (...movies: Movie[]) => {
+    const dateSpy = vi.spyOn(Date, 'now');
+    movies.forEach((movie, index) => {
+      dateSpy.mockReturnValueOnce(1000 * (index + 1));
+      store.dispatch(addToWatchlist(movie));
+    });
+    dateSpy.mockRestore();
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    store = createTestStore();
+  });
+
+  describe('Rendering', () => {
+    it('GIVEN an empty watchlist WHEN rendering THEN should display the empty state', () => {
+      // GIVEN
+      // Store has no saved movies
+
+      // WHEN
+      renderPage();
+
+      // THEN
+      expect(screen.getByTestId('my-list-empty')).toBeInTheDocument();
+      expect(screen.getByText('Your list is empty')).toBeInTheDocument();
+      expect(screen.getByTestId('my-list-count')).toHaveTextContent('(0 titles)');
+      expect(screen.getByTestId('current-section')).toHaveTextContent('my-list');
+    });
+
+    it('GIVEN saved movies WHEN rendering THEN should display them most recently added first', () => {
+      // GIVEN
+      saveMovies(olderMovie, newerMovie);
+
+      // WHEN
+      renderPage();
+
+      // THEN
+      expect(screen.getByTestId('my-list-count')).toHaveTextContent('(2 titles)');
+      expect(getRenderedTitles()).toEqual(['Arrival', 'Zodiac']);
+    });
+  });
+
+  describe('Sorting', () => {
+    it('GIVEN saved movies WHEN sorting by title THEN should order them alphabetically', () => {
+      // GIVEN
+      saveMovies(newerMovie, olderMovie);
+      renderPage();
+      expect(getRenderedTitles()).toEqual(['Zodiac', 'Arrival']);
+
+      // WHEN
+      fireEvent.change(screen.getByLabelText('Sort by'), { target: { value: 'title' } });
+
+      // THEN
+      expect(getRenderedTitles()).toEqual(['Arrival', 'Zodiac']);
+    });
+
+    it('GIVEN saved movies WHEN sorting by release date THEN should show the newest release first', () => {
+      // GIVEN
+      saveMovies(newerMovie, olderMovie);
+      renderPage();
+
+      // WHEN
+      fireEvent.change(screen.getByLabelText('Sort by'), { target: { value: 'release_date' } });
+
+      // THEN
+      expect(getRenderedTitles()).toEqual(['Arrival', 'Zodiac']);
+    });
+  });
+
+  describe('User Interactions', () => {
+    it('GIVEN a saved movie WHEN clicking its watchlist toggle THEN should remove it from the list', () => {
+      // GIVEN
+      store.dispatch(addToWatchlist(olderMovie));
+      renderPage();
+
+      // WHEN
+      fireEvent.click(screen.getByRole('button', { name: 'Remove Zodiac from My List' }));
+
+      // THEN
+      expect(screen.getByTestId('my-list-empty')).toBeInTheDocument();
+      expect(store.getState().watchlist.entries).toEqual({});
+    });
+
+    it('GIVEN saved movies WHEN clicking Clear My List THEN should empty the list', () => {
+      // GIVEN
+      store.dispatch(addToWatchlist(olderMovie));
+      store.dispatch(addToWatchlist(newerMovie));
+      renderPage();
+
+      // WHEN
+      fireEvent.click(screen.getByRole('button', { name: 'Clear My List' }));
+
+      // THEN
+      expect(screen.getByTestId('my-list-empty')).toBeInTheDocument();
+    });
+
+    it('GIVEN a saved movie WHEN clicking the card THEN should navigate to its details page', () => {
+      // GIVEN
+      store.dispatch(addToWatchlist(olderMovie));
+      renderPage();
+
+      // WHEN
+      fireEvent.click(screen.getByRole('button', { name: 'View details for Zodiac' }));
+
+      // THEN
+      expect(mockNavigate).toHaveBeenCalledWith('/movie/tt0000001');
+    });
+
+    it('GIVEN the my list page WHEN searching from navigation THEN should navigate to the search route', () => {
+      // GIVEN
+      renderPage();
+
+      // WHEN
+      fireEvent.click(screen.getByText('Search'));
+
+      // THEN
+      expect(mockNavigate).toHaveBeenCalledWith('/search?q=test+search');
+    });
+  });
+});
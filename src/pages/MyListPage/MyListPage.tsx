@@ -0,0 +1,118 @@
+import React, { useMemo, useState } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { Navigation } from '../../components/Navigation';
+import { MovieCard } from '../../components/MovieCard';
+import { useNavigation } from '../../hooks/useNavigation';
+import { useWatchlist } from '../../hooks/useWatchlist';
+import { type Movie, type MovieFilters } from '../../types/movie.types';
+import { ROUTES } from '../../router/routing.types';
+import { sortMovies } from '../../utils/filterUtils';
+import { buildSearchPath } from '../../utils/searchParamsUtils';
+import './MyListPage.css';
+
+type MyListSortOption = 'added' | MovieFilters['sortBy'];
+
+// Sort options for the saved movies, 'added' keeps the watchlist order (most recent first)
+const SORT_OPTIONS: readonly { value: MyListSortOption; label: string; sortOrder: MovieFilters['sortOrder'] }[] = [
+  { value: 'added', label: 'Recently Added', sortOrder: 'desc' },
+  { value: 'title', label: 'Title', sortOrder: 'asc' },
+  { value: 'release_date', label: 'Release Date', sortOrder: 'desc' },
+  { value: 'vote_average', label: 'Rating', sortOrder: 'desc' },
+] as const;
+
+/**
+ * MyListPage component that displays the movies saved to the user's watchlist
+ */
+export const MyListPage: React.FC = () => {
+  const navigate = useNavigate();
+  const { onMovieClick } = useNavigation();
+  const { movies, count, isInWatchlist, toggleWatchlist, clearWatchlist } = useWatchlist();
+  const [sortOption, setSortOption] = useState<MyListSortOption>('added');
+
+  const sortedMovies = useMemo(() => {
+    const option = SORT_OPTIONS.find((item) => item.value === sortOption);
+    if (!option || option.value === 'added') return movies;
+    return sortMovies(movies, { sortBy: option.value, sortOrder: option.sortOrder });
+  }, [movies, sortOption]);
+
+  const handleSearch = (query: string) => {
+    navigate(buildSearchPath({ query }));
+  };
+
+  const handleMovieClick = (movie: Movie) => {
+    onMovieClick?.(movie);
+  };
+
+  const handleSortChange = (event: React.ChangeEvent<HTMLSelectElement>) => {
+    setSortOption(event.target.value as MyListSortOption);
+  };
+
+  return (
+    <div data-testid="my-list-page" className="my-list-page">
+      <Navigation
+        onSearchSubmit={handleSearch}
+        currentSection="my-list"
+      />
+
+      <main className="my-list-page__content" aria-label="My List">
+        <div className="my-list-page__header">
+          <h1 className="my-list-page__title">
+            My List
+            <span className="my-list-page__count" data-testid="my-list-count">
+              ({count} {count === 1 ? 'title' : 'titles'})
+            </span>
+          </h1>
+
+          {count > 0 && (
+            <div className="my-list-page__actions">
+              <label className="my-list-page__sort-label" htmlFor="my-list-sort">
+                Sort by
+              </label>
+              <select
+                id="my-list-sort"
+                className="my-list-page__sort-select"
+                value={sortOption}
+                onChange={handleSortChange}
+              >
+                {SORT_OPTIONS.map((option) => (
+                  <option key={option.value} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+              <button
+                type="button"
+                className="my-list-page__clear-button"
+                onClick={clearWatchlist}
+              >
+                Clear My List
+              </button>
+            </div>
+          )}
+        </div>
+
+        {count === 0 ? (
+          <div data-testid="my-list-empty" className="my-list-page__empty">
+            <h2>Your list is empty</h2>
+            <p>Add movies with the + button to keep track of what you want to watch.</p>
+            <Link to={ROUTES.HOME} className="my-list-page__link">
+              Browse movies
+            </Link>
+          </div>
+        ) : (
+          <div className="my-list-page__grid" data-testid="my-list-grid">
+            {sortedMovies.map((movie) => (
+              <MovieCard
+                key={movie.id}
+                movie={movie}
+                onClick={handleMovieClick}
+                isInWatchlist={isInWatchlist(movie.id)}
+                onWatchlistToggle={toggleWatchlist}
+              />
+            ))}
+          </div>
+        )}
+      </main>
+    </div>
+  );
+};
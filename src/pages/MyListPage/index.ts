@@ -0,0 +1 @@
+export { MyListPage } from './MyListPage';
@@ -0,0 +1,253 @@
+import { render, screen, fireEvent } from '@testing-library/react';
+import { vi, describe, it, expect, beforeEach } from 'vitest';
+import '@testing-library/jest-dom';
+import { Provider } from 'react-redux';
+import { MemoryRouter, useLocation, useNavigationType } from 'react-router-dom';
+import { SearchPage } from './SearchPage';
+import { useMoviesQuery } from '../../hooks/useMoviesQuery';
+import { NavigationWrapper } from '../../components/NavigationWrapper';
+import { createTestStore } from '../../__mocks__/testUtils';
+import { mockMovie } from '../../__mocks__/testData';
+import { type FilterFacets } from '../../types/movie.types';
+
+// Mock the useMoviesQuery hook
+vi.mock('../../hooks/useMoviesQuery', () => ({
+  useMoviesQuery: {
+    useMovieSearchQuery: vi.fn(),
+  },
+}));
+
+// Mock the Navigation component
+vi.mock('../../components/Navigation', () => ({
+  Navigation: ({ onSearch, onSearchSubmit, currentSection, searchResultCount, filterFacets }: {
+    onSearch?: (query: string) => void;
+    onSearchSubmit?: (query: string) => void;
+    currentSection: string;
+    searchResultCount?: number;
+    filterFacets?: FilterFacets;
+  }) => (
+    <nav data-testid="navigation">
+      <button onClick={() => onSearch?.('superman')}>Search</button>
+      <button onClick={() => onSearchSubmit?.('superman')}>Submit</button>
+      <span data-testid="current-section">{currentSection}</span>
+      <span data-testid="result-count">{searchResultCount}</span>
+      <span data-testid="language-facets">{JSON.stringify(filterFacets?.languages)}</span>
+    </nav>
+  ),
+}));
+
+// Renders the current location so tests can assert on URL updates
+const LocationDisplay = () => {
+  const location = useLocation();
+  const navigationType = useNavigationType();
+  return (
+    <>
+      <div data-testid="location">{location.pathname + location.search}</div>
+      <div data-testid="navigation-type">{navigationType}</div>
+    </>
+  );
+};
+
+describe('SearchPage', () => {
+  const mockUseMovieSearchQuery = vi.fn();
+  const mockFetchNextPage = vi.fn();
+  let store: ReturnType<typeof createTestStore>;
+
+  const createSearchResult = (overrides = {}) => ({
+    data: { results: [mockMovie], totalResults: 1, hasMore: false },
+    isLoading: false,
+    isError: false,
+    error: null,
+    refetch: vi.fn(),
+    pageCount: 1,
+    hasNextPage: false,
+    isFetchingNextPage: false,
+    fetchNextPage: mockFetchNextPage,
+    ...overrides,
+  });
+
+  const renderPage = (initialEntry: string) => render(
+    <Provider store={store}>
+      <MemoryRouter
+        initialEntries={[initialEntry]}
+        future={{
+          v7_startTransition: true,
+          v7_relativeSplatPath: true,
+        }}
+      >
+        <NavigationWrapper>
+          <SearchPage />
+          <LocationDisplay />
+        </NavigationWrapper>
+      </MemoryRouter>
+    </Provider>
+  );
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    store = createTestStore();
+    (useMoviesQuery.useMovieSearchQuery as unknown as typeof mockUseMovieSearchQuery) = mockUseMovieSearchQuery;
+    mockUseMovieSearchQuery.mockReturnValue(createSearchResult());
+  });
+
+  describe('Rendering', () => {
+    it('GIVEN a search URL WHEN rendering THEN should query with the URL state and show the results', () => {
+      // GIVEN
+      const initialEntry = '/search?q=batman&page=2&type=movie&y=1989';
+
+      // WHEN
+      renderPage(initialEntry);
+
+      // THEN
+      expect(mockUseMovieSearchQuery).toHaveBeenCalledWith({ query: 'batman', page: 2, type: 'movie', year: '1989' });
+      expect(screen.getByText('Search results for "batman"')).toBeInTheDocument();
+      expect(screen.getByText('Test Movie')).toBeInTheDocument();
+      expect(screen.getByLabelText('Type')).toHaveValue('movie');
+      expect(screen.getByLabelText('Year')).toHaveValue('1989');
+      expect(screen.getByTestId('current-section')).toHaveTextContent('search');
+    });
+
+    it('GIVEN a search URL without a query WHEN rendering THEN should show the empty prompt', () => {
+      // GIVEN
+      const initialEntry = '/search';
+
+      // WHEN
+      renderPage(initialEntry);
+
+      // THEN
+      expect(screen.getByTestId('search-page-empty')).toBeInTheDocument();
+      expect(screen.queryByTestId('search-results')).not.toBeInTheDocument();
+    });
+
+    it('GIVEN filters in the URL WHEN rendering THEN should apply them to the results', () => {
+      // GIVEN
+      const initialEntry = '/search?q=batman&languages=fr';
+
+      // WHEN
+      renderPage(initialEntry);
+
+      // THEN
+      expect(store.getState().filter.movieFilters.selectedLanguages).toEqual(['fr']);
+      expect(screen.getByTestId('result-count')).toHaveTextContent('0');
+      expect(screen.queryByText('Test Movie')).not.toBeInTheDocument();
+    });
+
+    it('GIVEN a language filter in the URL WHEN rendering THEN should count the results each language would leave', () => {
+      // GIVEN
+      const initialEntry = '/search?q=batman&languages=fr';
+
+      // WHEN
+      renderPage(initialEntry);
+
+      // THEN
+      expect(screen.getByTestId('language-facets')).toHaveTextContent('{"en":1}');
+    });
+  });
+
+  describe('URL Updates', () => {
+    it.each([
+      { description: 'typing in', button: 'Search', expected: 'REPLACE' },
+      { description: 'submitting', button: 'Submit', expected: 'PUSH' },
+    ])('GIVEN a search page WHEN $description the navigation search THEN should write the new query to the URL with a $expected', ({ button, expected }) => {
+      // GIVEN
+      renderPage('/search?q=batman&page=3');
+
+      // WHEN
+      fireEvent.click(screen.getByText(button));
+
+      // THEN
+      expect(screen.getByTestId('location')).toHaveTextContent('/search?q=superman');
+      expect(screen.getByTestId('navigation-type')).toHaveTextContent(expected);
+    });
+
+    it('GIVEN a search page WHEN changing the type THEN should write the type to the URL', () => {
+      // GIVEN
+      renderPage('/search?q=batman');
+
+      // WHEN
+      fireEvent.change(screen.getByLabelText('Type'), { target: { value: 'series' } });
+
+      // THEN
+      expect(screen.getByTestId('location')).toHaveTextContent('/search?q=batman&type=series');
+    });
+
+    it('GIVEN a query with a year token WHEN removing its chip THEN should write the query without it to the URL', () => {
+      // GIVEN
+      renderPage('/search?q=batman+year%3A1989&page=2');
+
+      // WHEN
+      fireEvent.click(screen.getByRole('button', { name: 'Remove Year: 1989' }));
+
+      // THEN
+      expect(screen.getByTestId('location')).toHaveTextContent(/^\/search\?q=batman$/);
+    });
+
+    it('GIVEN more results WHEN clicking Load more THEN should write the loaded page count to the URL', () => {
+      // GIVEN
+      mockUseMovieSearchQuery.mockReturnValue(createSearchResult({
+        data: { results: [mockMovie], totalResults: 25, hasMore: true },
+        hasNextPage: true,
+      }));
+      renderPage('/search?q=batman');
+      expect(screen.getByTestId('search-results-progress')).toHaveTextContent('Showing 1 of 25');
+
+      // WHEN
+      fireEvent.click(screen.getByRole('button', { name: 'Load more results' }));
+
+      // THEN
+      expect(screen.getByTestId('location')).toHaveTextContent('/search?q=batman&page=2');
+      expect(mockFetchNextPage).toHaveBeenCalledTimes(1);
+    });
+
+    it('GIVEN a URL with a later page WHEN fewer pages are loaded THEN should fetch the next page', () => {
+      // GIVEN
+      mockUseMovieSearchQuery.mockReturnValue(createSearchResult({
+        data: { results: [mockMovie], totalResults: 25, hasMore: true },
+        hasNextPage: true,
+      }));
+
+      // WHEN
+      renderPage('/search?q=batman&page=3');
+
+      // THEN
+      expect(mockFetchNextPage).toHaveBeenCalled();
+      expect(screen.getByRole('button', { name: 'Load more results' })).toBeDisabled();
+    });
+
+    it('GIVEN every page is loaded WHEN rendering THEN should not fetch further pages', () => {
+      // GIVEN
+      mockUseMovieSearchQuery.mockReturnValue(createSearchResult({ pageCount: 2 }));
+
+      // WHEN
+      renderPage('/search?q=batman&page=2');
+
+      // THEN
+      expect(mockFetchNextPage).not.toHaveBeenCalled();
+      expect(screen.queryByRole('button', { name: 'Load more results' })).not.toBeInTheDocument();
+    });
+  });
+
+  describe('User Interactions', () => {
+    it('GIVEN search results WHEN clicking back to home THEN should navigate home', () => {
+      // GIVEN
+      renderPage('/search?q=batman');
+
+      // WHEN
+      fireEvent.click(screen.getByRole('button', { name: 'Back to Home' }));
+
+      // THEN
+      expect(screen.getByTestId('location')).toHaveTextContent(/^\/$/);
+    });
+
+    it('GIVEN search results WHEN clicking a movie THEN should navigate to its details page', () => {
+      // GIVEN
+      renderPage('/search?q=batman');
+
+      // WHEN
+      fireEvent.click(screen.getByRole('button', { name: 'View details for Test Movie' }));
+
+      // THEN
+      expect(screen.getByTestId('location')).toHaveTextContent(`/movie/${mockMovie.id}`);
+    });
+  });
+});
@@ -0,0 +1,172 @@
+import React, { useCallback, useEffect, useMemo } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useSelector } from 'react-redux';
+import { Navigation } from '../../components/Navigation';
+import { SearchResults } from '../../components/SearchResults';
+import { useNavigation } from '../../hooks/useNavigation';
+import { useMoviesQuery } from '../../hooks/useMoviesQuery';
+import { useWatchlist } from '../../hooks/useWatchlist';
+import { useAvailableFilterOptions } from '../../hooks/useAvailableFilterOptions';
+import { useSearchRouteState } from '../../hooks/useSearchRouteState';
+import { type Movie } from '../../types/movie.types';
+import { type SearchRouteState } from '../../router/routing.types';
+import { ROUTES } from '../../router/routing.types';
+import { selectFilterFacets, selectFilteredMovies } from '../../store/slices/filterSlice';
+import { type RootState } from '../../store/store';
+import './SearchPage.css';
+
+// Type options for the OMDb `type` search parameter
+const TYPE_OPTIONS: readonly { value: NonNullable<SearchRouteState['type']> | ''; label: string }[] = [
+  { value: '', label: 'All types' },
+  { value: 'movie', label: 'Movies' },
+  { value: 'series', label: 'TV Shows' },
+  { value: 'episode', label: 'Episodes' },
+] as const;
+
+const OLDEST_YEAR = 1900;
+
+/**
+ * SearchPage component mounted at /search
+ * Reads the query, page, type, year and filters from the URL so results are shareable and restorable.
+ * Results load incrementally; `page` records how many OMDb pages are loaded so a shared or
+ * restored URL shows the same results.
+ */
+export const SearchPage: React.FC = () => {
+  const navigate = useNavigate();
+  const { onMovieClick } = useNavigation();
+  const { query, page, type, year, filters, setQuery, setPage, setType, setYear } = useSearchRouteState();
+
+  // Watchlist ("My List") state and toggle
+  const { isInWatchlist, toggleWatchlist } = useWatchlist();
+
+  const searchQueryResult = useMoviesQuery.useMovieSearchQuery({ query, page, type, year });
+  const { pageCount, hasNextPage, isFetchingNextPage, isLoading, fetchNextPage } = searchQueryResult;
+
+  // Fetch pages until the loaded page count catches up with the page in the URL
+  useEffect(() => {
+    if (pageCount > 0 && pageCount < page && hasNextPage && !isFetchingNextPage && !isLoading) {
+      fetchNextPage();
+    }
+  }, [page, pageCount, hasNextPage, isFetchingNextPage, isLoading, fetchNextPage]);
+
+  // Loading more only advances the URL; the effect above does the fetching
+  const handleLoadMore = useCallback(() => {
+    if (hasNextPage && !isFetchingNextPage) {
+      setPage(pageCount + 1);
+    }
+  }, [hasNextPage, isFetchingNextPage, pageCount, setPage]);
+
+  const movies = useMemo(() => {
+    return searchQueryResult.data?.results || [];
+  }, [searchQueryResult.data?.results]);
+
+  // Offer only the genres, languages and years present in the results in the filter modal
+  useAvailableFilterOptions(movies);
+
+  // The filter store mirrors the filters in the URL, so its memoised selectors apply here too
+  const filteredMovies = useSelector((state: RootState) => selectFilteredMovies(state, movies));
+  const filterFacets = useSelector((state: RootState) => selectFilterFacets(state, movies));
+
+  const yearOptions = useMemo(() => {
+    const latestYear = new Date().getFullYear() + 1;
+    return Array.from({ length: latestYear - OLDEST_YEAR + 1 }, (_, index) => String(latestYear - index));
+  }, []);
+
+  const hasQuery = query.trim() !== '';
+
+  const handleMovieClick = (movie: Movie) => {
+    onMovieClick?.(movie);
+  };
+
+  // Typing refines the results in place; submitting the search adds a history entry
+  const handleQueryChange = useCallback((nextQuery: string) => {
+    setQuery(nextQuery, { replace: true });
+  }, [setQuery]);
+
+  const handleBackToHome = () => {
+    navigate(ROUTES.HOME);
+  };
+
+  const handleTypeChange = (event: React.ChangeEvent<HTMLSelectElement>) => {
+    setType((event.target.value || undefined) as SearchRouteState['type']);
+  };
+
+  const handleYearChange = (event: React.ChangeEvent<HTMLSelectElement>) => {
+    setYear(event.target.value || undefined);
+  };
+
+  return (
+    <div data-testid="search-page" className="search-page">
+      <Navigation
+        onSearch={handleQueryChange}
+        onSearchSubmit={setQuery}
+        currentSection="search"
+        isSearchActive={hasQuery}
+        searchResultCount={filteredMovies.length}
+        filterFacets={filterFacets}
+      />
+
+      <div className="search-page__toolbar" role="group" aria-label="Refine search">
+        <label className="search-page__label" htmlFor="search-page-type">
+          Type
+        </label>
+        <select
+          id="search-page-type"
+          className="search-page__select"
+          value={type ?? ''}
+          onChange={handleTypeChange}
+        >
+          {TYPE_OPTIONS.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+
+        <label className="search-page__label" htmlFor="search-page-year">
+          Year
+        </label>
+        <select
+          id="search-page-year"
+          className="search-page__select"
+          value={year ?? ''}
+          onChange={handleYearChange}
+        >
+          <option value="">Any year</option>
+          {yearOptions.map((option) => (
+            <option key={option} value={option}>
+              {option}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {hasQuery ? (
+        <SearchResults
+          searchQuery={query}
+          movies={movies}
+          filteredMovies={filteredMovies}
+          loading={isLoading}
+          error={searchQueryResult.error?.message}
+          errorCode={searchQueryResult.error?.code}
+          onMovieClick={handleMovieClick}
+          onBackToHome={handleBackToHome}
+          onRetry={() => searchQueryResult.refetch()}
+          filters={filters}
+          isInWatchlist={isInWatchlist}
+          onWatchlistToggle={toggleWatchlist}
+          totalResults={searchQueryResult.data?.totalResults}
+          hasMore={hasNextPage}
+          isLoadingMore={isFetchingNextPage || (pageCount > 0 && pageCount < page && hasNextPage)}
+          onLoadMore={handleLoadMore}
+          onSearchQueryChange={setQuery}
+        />
+      ) : (
+        <div data-testid="search-page-empty" className="search-page__empty">
+          <h2>Search for movies and TV shows</h2>
+          <p>Use the search button in the navigation bar to get started.</p>
+        </div>
+      )}
+    </div>
+  );
+};
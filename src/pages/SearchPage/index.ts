@@ -0,0 +1 @@
+export { SearchPage } from './SearchPage';
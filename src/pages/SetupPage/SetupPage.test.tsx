@@ -0,0 +1,143 @@
+import { render, screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { vi, describe, it, expect, beforeEach } from 'vitest';
+import '@testing-library/jest-dom';
+import { QueryClient } from '@tanstack/react-query';
+import { SetupPage } from './SetupPage';
+import { QueryWrapper, RouterWrapper } from '../../__mocks__/testComponents';
+import { createQueryClient } from '../../__mocks__/testUtils';
+import { applyApiKey, verifyApiKey } from '../../utils/queryUtils';
+import { clearStoredApiKey, getConfigError, getStoredApiKey } from '../../config/api.config';
+import { InvalidUrlError, MissingApiKeyError } from '../../config/ConfigError';
+import { OMDbInvalidApiKeyError, OMDbRequestLimitReachedError } from '../../services/OMDbService';
+import { type ApiError } from '../../types/api.types';
+
+vi.mock('../../utils/queryUtils', () => ({
+  verifyApiKey: vi.fn(),
+  applyApiKey: vi.fn(),
+}));
+
+vi.mock('../../config/api.config', () => ({
+  getConfigError: vi.fn(),
+  getStoredApiKey: vi.fn(),
+  clearStoredApiKey: vi.fn(),
+}));
+
+const mockVerifyApiKey = vi.mocked(verifyApiKey);
+const mockGetConfigError = vi.mocked(getConfigError);
+const mockGetStoredApiKey = vi.mocked(getStoredApiKey);
+
+const renderSetupPage = (queryClient: QueryClient = createQueryClient()) =>
+  render(
+    <QueryWrapper queryClient={queryClient}>
+      <RouterWrapper>
+        <SetupPage />
+      </RouterWrapper>
+    </QueryWrapper>
+  );
+
+const submitKey = async (apiKey: string) => {
+  const user = userEvent.setup();
+  await user.type(screen.getByLabelText('OMDb API key'), apiKey);
+  await user.click(screen.getByRole('button', { name: 'Test and save key' }));
+};
+
+describe('SetupPage', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockGetConfigError.mockReturnValue(new MissingApiKeyError());
+    mockGetStoredApiKey.mockReturnValue(null);
+  });
+
+  it('GIVEN no key typed WHEN rendering THEN should disable the test button', () => {
+    // GIVEN & WHEN
+    renderSetupPage();
+
+    // THEN
+    expect(screen.getByRole('heading', { name: 'Connect to OMDb' })).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'Test and save key' })).toBeDisabled();
+    expect(screen.queryByTestId('setup-config-error')).not.toBeInTheDocument();
+  });
+
+  it('GIVEN a working key WHEN submitting it THEN should save it, refetch queries and offer to start browsing', async () => {
+    // GIVEN
+    mockVerifyApiKey.mockResolvedValue(undefined);
+    const queryClient = createQueryClient();
+    const invalidateQueries = vi.spyOn(queryClient, 'invalidateQueries');
+    renderSetupPage(queryClient);
+
+    // WHEN
+    await submitKey('abc123');
+
+    // THEN
+    expect(await screen.findByText('The key works and has been saved in this browser.')).toBeInTheDocument();
+    expect(mockVerifyApiKey).toHaveBeenCalledWith('abc123');
+    expect(applyApiKey).toHaveBeenCalledWith('abc123');
+    expect(invalidateQueries).toHaveBeenCalled();
+    expect(screen.getByRole('link', { name: 'Start browsing' })).toHaveAttribute('href', '/');
+    expect(screen.getByRole('button', { name: 'Forget saved key' })).toBeInTheDocument();
+  });
+
+  it('GIVEN a key OMDb rejects WHEN submitting it THEN should explain the failure without saving', async () => {
+    // GIVEN
+    mockVerifyApiKey.mockRejectedValue(new OMDbInvalidApiKeyError());
+    renderSetupPage();
+
+    // WHEN
+    await submitKey('wrong');
+
+    // THEN
+    expect(await screen.findByText(/OMDb rejected this key/)).toBeInTheDocument();
+    expect(applyApiKey).not.toHaveBeenCalled();
+  });
+
+  it('GIVEN a key that has used up its requests WHEN submitting it THEN should save it and say so', async () => {
+    // GIVEN
+    mockVerifyApiKey.mockRejectedValue(new OMDbRequestLimitReachedError());
+    renderSetupPage();
+
+    // WHEN
+    await submitKey('busy-key');
+
+    // THEN
+    expect(await screen.findByText(/used up its requests for today/)).toBeInTheDocument();
+    expect(applyApiKey).toHaveBeenCalledWith('busy-key');
+  });
+
+  it('GIVEN a network failure WHEN submitting a key THEN should ask to try again', async () => {
+    // GIVEN
+    const networkError: ApiError = { message: 'Network error - no response received', status: 0, code: 'NETWORK_ERROR', attempts: 3 };
+    mockVerifyApiKey.mockRejectedValue(networkError);
+    renderSetupPage();
+
+    // WHEN
+    await submitKey('abc123');
+
+    // THEN
+    expect(await screen.findByText(/Couldn't reach OMDb to test the key \(Network error - no response received\)/)).toBeInTheDocument();
+  });
+
+  it('GIVEN a saved key WHEN forgetting it THEN should clear it from storage', async () => {
+    // GIVEN
+    mockGetStoredApiKey.mockReturnValue('saved-key');
+    renderSetupPage();
+
+    // WHEN
+    await userEvent.setup().click(screen.getByRole('button', { name: 'Forget saved key' }));
+
+    // THEN
+    expect(clearStoredApiKey).toHaveBeenCalled();
+    await waitFor(() => expect(screen.queryByRole('button', { name: 'Forget saved key' })).not.toBeInTheDocument());
+  });
+
+  it('GIVEN a configuration problem other than the key WHEN rendering THEN should show it', () => {
+    // GIVEN
+    mockGetConfigError.mockReturnValue(new InvalidUrlError('VITE_OMDB_BASE_URL', 'omdbapi'));
+
+    // WHEN
+    renderSetupPage();
+
+    // THEN
+    expect(screen.getByTestId('setup-config-error')).toHaveTextContent('VITE_OMDB_BASE_URL must be an http(s) URL');
+  });
+});
@@ -0,0 +1,140 @@
+import React, { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useQueryClient } from '@tanstack/react-query';
+import { ROUTES } from '../../router/routing.types';
+import { clearStoredApiKey, getConfigError, getStoredApiKey } from '../../config/api.config';
+import { ConfigError, MissingApiKeyError } from '../../config/ConfigError';
+import { isApiError } from '../../services/ApiService';
+import { OMDbInvalidApiKeyError, OMDbRequestLimitReachedError } from '../../services/OMDbService';
+import { applyApiKey, verifyApiKey } from '../../utils/queryUtils';
+import './SetupPage.css';
+
+type SetupStatus =
+  | { readonly state: 'idle' }
+  | { readonly state: 'testing' }
+  | { readonly state: 'saved'; readonly message: string }
+  | { readonly state: 'failed'; readonly message: string };
+
+// Why a key that failed its test can't be used
+const getFailureMessage = (error: unknown): string => {
+  if (error instanceof OMDbInvalidApiKeyError) {
+    return 'OMDb rejected this key. Check that you copied all of it and activated it from the email OMDb sent you.';
+  }
+  if (error instanceof ConfigError) {
+    return `The app configuration is invalid: ${error.message}`;
+  }
+  const message = error instanceof Error || isApiError(error) ? error.message : String(error);
+  return `Couldn't reach OMDb to test the key (${message}). Check your connection and try again.`;
+};
+
+/**
+ * SetupPage lets a user paste an OMDb API key, tests it against OMDb and saves it in this browser
+ */
+export const SetupPage: React.FC = () => {
+  const queryClient = useQueryClient();
+  const [apiKey, setApiKey] = useState('');
+  const [status, setStatus] = useState<SetupStatus>({ state: 'idle' });
+  const [hasStoredKey, setHasStoredKey] = useState(() => getStoredApiKey() !== null);
+
+  // Problems a new key can't fix, such as a malformed base URL
+  const configError = getConfigError();
+  const otherConfigError = configError instanceof MissingApiKeyError ? null : configError;
+
+  const saveKey = (message: string) => {
+    applyApiKey(apiKey);
+    setHasStoredKey(true);
+    setStatus({ state: 'saved', message });
+    // Queries that failed without a usable key run again with the new one
+    queryClient.invalidateQueries();
+  };
+
+  const handleSubmit = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!apiKey.trim()) return;
+
+    setStatus({ state: 'testing' });
+    try {
+      await verifyApiKey(apiKey);
+      saveKey('The key works and has been saved in this browser.');
+    } catch (error) {
+      if (error instanceof OMDbRequestLimitReachedError) {
+        // The key is valid, it has just used up today's requests
+        saveKey('The key has been saved, but it has used up its requests for today. Movies will load again tomorrow.');
+        return;
+      }
+      setStatus({ state: 'failed', message: getFailureMessage(error) });
+    }
+  };
+
+  const handleForget = () => {
+    clearStoredApiKey();
+    setHasStoredKey(false);
+    setStatus({ state: 'idle' });
+  };
+
+  const isTesting = status.state === 'testing';
+
+  return (
+    <main data-testid="setup-page" className="setup-page" aria-label="API key setup">
+      <div className="setup-page__container">
+        <h1 className="setup-page__title">Connect to OMDb</h1>
+        <p className="setup-page__intro">
+          ThoughtFlix loads movies from the OMDb API. Paste your OMDb API key to test it; a working key is
+          saved in this browser only.
+        </p>
+
+        {otherConfigError && (
+          <p className="setup-page__config-error" role="alert" data-testid="setup-config-error">
+            {otherConfigError.message}
+          </p>
+        )}
+
+        <form className="setup-page__form" onSubmit={handleSubmit}>
+          <label htmlFor="setup-api-key" className="setup-page__label">
+            OMDb API key
+          </label>
+          <input
+            id="setup-api-key"
+            className="setup-page__input"
+            type="text"
+            value={apiKey}
+            onChange={(event) => setApiKey(event.target.value)}
+            autoComplete="off"
+            spellCheck={false}
+            disabled={isTesting}
+          />
+          <button type="submit" className="setup-page__button" disabled={isTesting || !apiKey.trim()}>
+            {isTesting ? 'Testing key...' : 'Test and save key'}
+          </button>
+        </form>
+
+        <div className="setup-page__status" role="status" aria-live="polite" data-testid="setup-status">
+          {status.state === 'saved' && (
+            <>
+              <p className="setup-page__message setup-page__message--success">{status.message}</p>
+              <Link to={ROUTES.HOME} className="setup-page__link">
+                Start browsing
+              </Link>
+            </>
+          )}
+          {status.state === 'failed' && (
+            <p className="setup-page__message setup-page__message--error">{status.message}</p>
+          )}
+        </div>
+
+        {hasStoredKey && (
+          <button type="button" className="setup-page__forget" onClick={handleForget}>
+            Forget saved key
+          </button>
+        )}
+
+        <p className="setup-page__hint">
+          No key yet?{' '}
+          <a href="https://www.omdbapi.com/apikey.aspx" target="_blank" rel="noreferrer">
+            Get a free OMDb API key
+          </a>
+        </p>
+      </div>
+    </main>
+  );
+};
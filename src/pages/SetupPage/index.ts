@@ -0,0 +1 @@
+export { SetupPage } from './SetupPage';
@@ -0,0 +1,216 @@
+import { render, screen, fireEvent } from '@testing-library/react';
+import { vi, describe, it, expect, beforeEach } from 'vitest';
+import '@testing-library/jest-dom';
+import { MemoryRouter, Route, Routes } from 'react-router-dom';
+import { TvShowDetailsPage } from './TvShowDetailsPage';
+import { useMoviesQuery } from '../../hooks/useMoviesQuery';
+import { mockTvShowDetails, mockSeason, mockEpisodeDetails } from '../../__mocks__/testData';
+
+// Mock useNavigate
+const mockNavigate = vi.fn();
+vi.mock('react-router-dom', async () => {
+  const actual = await vi.importActual('react-router-dom');
+  return {
+    ...actual,
+    useNavigate: () => mockNavigate,
+  };
+});
+
+// Mock the useMoviesQuery hook
+vi.mock('../../hooks/useMoviesQuery', () => ({
+  useMoviesQuery: {
+    useTvShowDetailsQuery: vi.fn(),
+    useSeasonQuery: vi.fn(),
+    useEpisodeQuery: vi.fn(),
+  },
+}));
+
+// Mock the useWatchlist hook
+const mockToggleWatchlist = vi.fn();
+vi.mock('../../hooks/useWatchlist', () => ({
+  useWatchlist: () => ({
+    isInWatchlist: () => false,
+    toggleWatchlist: mockToggleWatchlist,
+  }),
+}));
+
+// Mock the Navigation component
+vi.mock('../../components/Navigation', () => ({
+  Navigation: ({ onSearchSubmit }: { onSearchSubmit?: (query: string) => void }) => (
+    <nav data-testid="navigation">
+      <button onClick={() => onSearchSubmit?.('test search')}>Search</button>
+    </nav>
+  ),
+}));
+
+describe('TvShowDetailsPage', () => {
+  const mockUseTvShowDetailsQuery = vi.fn();
+  const mockUseSeasonQuery = vi.fn();
+  const mockUseEpisodeQuery = vi.fn();
+
+  const createQueryResult = <T,>(data: T, overrides = {}) => ({
+    data,
+    isLoading: false,
+    isError: false,
+    error: null,
+    refetch: vi.fn(),
+    ...overrides,
+  });
+
+  const renderPage = (showId = 'tt0903747') => render(
+    <MemoryRouter
+      initialEntries={[`/tv/${showId}`]}
+      future={{
+        v7_startTransition: true,
+        v7_relativeSplatPath: true,
+      }}
+    >
+      <Routes>
+        <Route path="/tv/:id" element={<TvShowDetailsPage />} />
+      </Routes>
+    </MemoryRouter>
+  );
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    (useMoviesQuery.useTvShowDetailsQuery as unknown as typeof mockUseTvShowDetailsQuery) = mockUseTvShowDetailsQuery;
+    (useMoviesQuery.useSeasonQuery as unknown as typeof mockUseSeasonQuery) = mockUseSeasonQuery;
+    (useMoviesQuery.useEpisodeQuery as unknown as typeof mockUseEpisodeQuery) = mockUseEpisodeQuery;
+    mockUseTvShowDetailsQuery.mockReturnValue(createQueryResult(mockTvShowDetails));
+    mockUseSeasonQuery.mockReturnValue(createQueryResult(mockSeason));
+    mockUseEpisodeQuery.mockReturnValue(createQueryResult(undefined));
+  });
+
+  describe('Rendering', () => {
+    it('GIVEN a TV show id WHEN rendering THEN should display the show with its first season episodes', () => {
+      // GIVEN
+      const showId = 'tt0903747';
+
+      // WHEN
+      renderPage(showId);
+
+      // THEN
+      expect(mockUseTvShowDetailsQuery).toHaveBeenCalledWith(showId);
+      expect(mockUseSeasonQuery).toHaveBeenCalledWith(showId, 1);
+      expect(screen.getByTestId('tv-show-title')).toHaveTextContent('Test Show');
+      expect(screen.getByTestId('tv-show-seasons')).toHaveTextContent('2 Seasons');
+      expect(screen.getByLabelText('Season')).toHaveValue('1');
+      expect(screen.getByRole('button', { name: 'Episode 1: Pilot' })).toBeInTheDocument();
+    });
+
+    it('GIVEN the show is loading WHEN rendering THEN should display the loading state', () => {
+      // GIVEN
+      mockUseTvShowDetailsQuery.mockReturnValue(createQueryResult(undefined, { isLoading: true }));
+
+      // WHEN
+      renderPage();
+
+      // THEN
+      expect(screen.getByTestId('loading')).toHaveTextContent('Loading TV show details...');
+    });
+
+    it('GIVEN the show fails to load WHEN clicking retry THEN should refetch the show', () => {
+      // GIVEN
+      const mockRefetch = vi.fn();
+      mockUseTvShowDetailsQuery.mockReturnValue(createQueryResult(undefined, {
+        isError: true,
+        error: { message: 'Series not found!' },
+        refetch: mockRefetch,
+      }));
+      renderPage();
+
+      // WHEN
+      fireEvent.click(screen.getByRole('button', { name: 'Retry' }));
+
+      // THEN
+      expect(screen.getByTestId('error')).toHaveTextContent('Error: Series not found!');
+      expect(mockRefetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('GIVEN the season is loading WHEN rendering THEN should display the episodes loading state', () => {
+      // GIVEN
+      mockUseSeasonQuery.mockReturnValue(createQueryResult(undefined, { isLoading: true }));
+
+      // WHEN
+      renderPage();
+
+      // THEN
+      expect(screen.getByTestId('season-loading')).toBeInTheDocument();
+    });
+  });
+
+  describe('Seasons and Episodes', () => {
+    it('GIVEN a multi-season show WHEN picking another season THEN should query that season', () => {
+      // GIVEN
+      renderPage();
+
+      // WHEN
+      fireEvent.change(screen.getByLabelText('Season'), { target: { value: '2' } });
+
+      // THEN
+      expect(mockUseSeasonQuery).toHaveBeenLastCalledWith('tt0903747', 2);
+    });
+
+    it('GIVEN an episode list WHEN selecting an episode THEN should query and display the episode details', () => {
+      // GIVEN
+      mockUseEpisodeQuery.mockImplementation((_showId: string, _season: number, episode: number | null) =>
+        createQueryResult(episode ? mockEpisodeDetails : undefined)
+      );
+      renderPage();
+
+      // WHEN
+      fireEvent.click(screen.getByRole('button', { name: 'Episode 1: Pilot' }));
+
+      // THEN
+      expect(mockUseEpisodeQuery).toHaveBeenLastCalledWith('tt0903747', 1, 1);
+      expect(screen.getByTestId('episode-details')).toHaveTextContent('Test episode plot');
+    });
+
+    it('GIVEN a selected episode WHEN picking another season THEN should clear the selection', () => {
+      // GIVEN
+      renderPage();
+      fireEvent.click(screen.getByRole('button', { name: 'Episode 1: Pilot' }));
+
+      // WHEN
+      fireEvent.change(screen.getByLabelText('Season'), { target: { value: '2' } });
+
+      // THEN
+      expect(mockUseEpisodeQuery).toHaveBeenLastCalledWith('tt0903747', 2, null);
+    });
+  });
+
+  describe('User Interactions', () => {
+    it('GIVEN a TV show WHEN clicking the watchlist button THEN should toggle the show in My List', () => {
+      // GIVEN
+      renderPage();
+
+      // WHEN
+      fireEvent.click(screen.getByRole('button', { name: 'Add Test Show to My List' }));
+
+      // THEN
+      expect(mockToggleWatchlist).toHaveBeenCalledWith(mockTvShowDetails);
+    });
+
+    it('GIVEN a TV show WHEN clicking back THEN should navigate to the previous page', () => {
+      // GIVEN
+      renderPage();
+
+      // WHEN
+      fireEvent.click(screen.getByRole('button', { name: 'Go back to previous page' }));
+
+      // THEN
+      expect(mockNavigate).toHaveBeenCalledWith(-1);
+    });
+
+    it('GIVEN a TV show WHEN searching from navigation THEN should navigate to the search route', () => {
+      // GIVEN
+      renderPage();
+
+      // WHEN
+      fireEvent.click(screen.getByText('Search'));
+
+      // THEN
+      expect(mockNavigate).toHaveBeenCalledWith('/search?q=test+search');
+    });
+  });
+});
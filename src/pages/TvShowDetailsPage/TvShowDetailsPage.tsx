@@ -0,0 +1,204 @@
+import React, { useState } from 'react';
+import { useParams, useNavigate } from 'react-router-dom';
+import { type Episode } from '../../types/movie.types';
+import { useMoviesQuery } from '../../hooks/useMoviesQuery';
+import { useWatchlist } from '../../hooks/useWatchlist';
+import { Navigation } from '../../components/Navigation';
+import { SeasonPicker } from '../../components/SeasonPicker';
+import { EpisodeList } from '../../components/EpisodeList';
+import { WatchlistButton } from '../../components/WatchlistButton';
+import { buildSearchPath } from '../../utils/searchParamsUtils';
+import './TvShowDetailsPage.css';
+
+/**
+ * TvShowDetailsPage component that displays a TV show with a season picker and episode list
+ * Uses React Query for the show, season and episode lookups
+ */
+export const TvShowDetailsPage: React.FC = () => {
+  const { id: showId = '' } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const [selectedSeason, setSelectedSeason] = useState(1);
+  const [selectedEpisode, setSelectedEpisode] = useState<number | null>(null);
+
+  // React Query hooks
+  const showQuery = useMoviesQuery.useTvShowDetailsQuery(showId);
+  const seasonQuery = useMoviesQuery.useSeasonQuery(showId, selectedSeason);
+  const episodeQuery = useMoviesQuery.useEpisodeQuery(showId, selectedSeason, selectedEpisode);
+
+  // Watchlist ("My List") state and toggle
+  const { isInWatchlist, toggleWatchlist } = useWatchlist();
+
+  const show = showQuery.data;
+
+  const handleBack = () => {
+    navigate(-1);
+  };
+
+  const handleSearch = (query: string) => {
+    navigate(buildSearchPath({ query }));
+  };
+
+  const handleSeasonChange = (seasonNumber: number) => {
+    setSelectedSeason(seasonNumber);
+    setSelectedEpisode(null);
+  };
+
+  const handleEpisodeSelect = (episode: Episode) => {
+    setSelectedEpisode((current) => (current === episode.episode_number ? null : episode.episode_number));
+  };
+
+  const renderEpisodes = () => {
+    if (seasonQuery.isLoading) {
+      return (
+        <div data-testid="season-loading" className="tv-show-details-page__status">
+          Loading episodes...
+        </div>
+      );
+    }
+
+    if (seasonQuery.isError) {
+      return (
+        <div data-testid="season-error" className="tv-show-details-page__status">
+          <p>Error: {seasonQuery.error?.message}</p>
+          <button type="button" onClick={() => seasonQuery.refetch()}>
+            Retry
+          </button>
+        </div>
+      );
+    }
+
+    return (
+      <EpisodeList
+        episodes={seasonQuery.data?.episodes ?? []}
+        selectedEpisode={selectedEpisode}
+        onEpisodeSelect={handleEpisodeSelect}
+      />
+    );
+  };
+
+  const renderSelectedEpisode = () => {
+    if (selectedEpisode === null) return null;
+
+    if (episodeQuery.isLoading) {
+      return (
+        <div data-testid="episode-loading" className="tv-show-details-page__status">
+          Loading episode...
+        </div>
+      );
+    }
+
+    const episode = episodeQuery.data;
+    if (!episode) return null;
+
+    return (
+      <article data-testid="episode-details" className="tv-show-details-page__episode">
+        <h3 className="tv-show-details-page__episode-title">
+          S{episode.season_number} E{episode.episode_number} · {episode.title}
+        </h3>
+        <p className="tv-show-details-page__episode-meta">
+          {episode.air_date}
+          {episode.runtime > 0 && ` · ${episode.runtime} min`}
+        </p>
+        <p className="tv-show-details-page__episode-overview">{episode.overview}</p>
+      </article>
+    );
+  };
+
+  const renderContent = () => {
+    if (showQuery.isLoading) {
+      return (
+        <div data-testid="loading" className="tv-show-details-page__status">
+          Loading TV show details...
+        </div>
+      );
+    }
+
+    if (showQuery.isError) {
+      return (
+        <div data-testid="error" className="tv-show-details-page__status tv-show-details-page__status--error">
+          <h2>Error Loading TV Show</h2>
+          <p>Error: {showQuery.error?.message}</p>
+          <button type="button" onClick={() => showQuery.refetch()}>
+            Retry
+          </button>
+        </div>
+      );
+    }
+
+    if (!show) {
+      return (
+        <div data-testid="tv-show-empty" className="tv-show-details-page__status">
+          <h2>No TV Show Data</h2>
+          <p>Unable to load TV show details.</p>
+        </div>
+      );
+    }
+
+    return (
+      <>
+        <section className="tv-show-details-page__overview">
+          <div className="tv-show-details-page__poster">
+            <img src={show.poster_path || '/placeholder-movie.jpg'} alt={`${show.title} poster`} />
+          </div>
+
+          <div className="tv-show-details-page__info">
+            <h1 data-testid="tv-show-title" className="tv-show-details-page__title">
+              {show.title}
+            </h1>
+            <p className="tv-show-details-page__meta">
+              <span data-testid="tv-show-seasons">
+                {show.total_seasons} {show.total_seasons === 1 ? 'Season' : 'Seasons'}
+              </span>
+              <span>{show.vote_average > 0 ? `${show.vote_average.toFixed(1)}/10` : 'N/A'}</span>
+            </p>
+            <p data-testid="tv-show-overview" className="tv-show-details-page__description">
+              {show.overview}
+            </p>
+
+            <div className="tv-show-details-page__actions">
+              <button
+                type="button"
+                onClick={handleBack}
+                className="tv-show-details-page__back-button"
+                aria-label="Go back to previous page"
+              >
+                Back
+              </button>
+              <WatchlistButton
+                isInWatchlist={isInWatchlist(show.id)}
+                onToggle={() => toggleWatchlist(show)}
+                title={show.title}
+              />
+            </div>
+          </div>
+        </section>
+
+        <section className="tv-show-details-page__episodes" aria-label="Episodes">
+          <div className="tv-show-details-page__episodes-header">
+            <h2 className="tv-show-details-page__section-title">Episodes</h2>
+            <SeasonPicker
+              totalSeasons={show.total_seasons}
+              selectedSeason={selectedSeason}
+              onSeasonChange={handleSeasonChange}
+            />
+          </div>
+          {renderSelectedEpisode()}
+          {renderEpisodes()}
+        </section>
+      </>
+    );
+  };
+
+  return (
+    <div data-testid="tv-show-details-page" className="tv-show-details-page">
+      <Navigation
+        onSearchSubmit={handleSearch}
+        currentSection="tv-shows"
+      />
+
+      <main className="tv-show-details-page__content">
+        {renderContent()}
+      </main>
+    </div>
+  );
+};
@@ -0,0 +1 @@
+export { TvShowDetailsPage } from './TvShowDetailsPage';
@@ -0,0 +1,175 @@
+import { render, screen, fireEvent } from '@testing-library/react';
+import { vi, describe, it, expect, beforeEach } from 'vitest';
+import '@testing-library/jest-dom';
+import { MemoryRouter } from 'react-router-dom';
+import { TvShowsPage } from './TvShowsPage';
+import { useMoviesQuery } from '../../hooks/useMoviesQuery';
+import { mockMovie } from '../../__mocks__/testData';
+import { type Movie } from '../../types/movie.types';
+
+// Mock useNavigate
+const mockNavigate = vi.fn();
+vi.mock('react-router-dom', async () => {
+  const actual = await vi.importActual('react-router-dom');
+  return {
+    ...actual,
+    useNavigate: () => mockNavigate,
+  };
+});
+
+// Mock the useMoviesQuery hook
+vi.mock('../../hooks/useMoviesQuery', () => ({
+  useMoviesQuery: {
+    usePopularTvShowsQuery: vi.fn(),
+    useTvShowSearchQuery: vi.fn(),
+  },
+}));
+
+// Mock the useWatchlist hook
+vi.mock('../../hooks/useWatchlist', () => ({
+  useWatchlist: () => ({
+    isInWatchlist: () => false,
+    toggleWatchlist: vi.fn(),
+  }),
+}));
+
+// Mock the Navigation component
+vi.mock('../../components/Navigation', () => ({
+  Navigation: ({ onSearch, currentSection }: { onSearch?: (query: string) => void; currentSection: string }) => (
+    <nav data-testid="navigation">
+      <button onClick={() => onSearch?.('breaking')}>Search</button>
+      <span data-testid="current-section">{currentSection}</span>
+    </nav>
+  ),
+}));
+
+describe('TvShowsPage', () => {
+  const mockShow: Movie = {
+    ...mockMovie,
+    id: 'tt0903747',
+    title: 'Breaking Bad',
+  };
+
+  const mockUsePopularTvShowsQuery = vi.fn();
+  const mockUseTvShowSearchQuery = vi.fn();
+
+  const createQueryResult = <T,>(data: T, overrides = {}) => ({
+    data,
+    isLoading: false,
+    isError: false,
+    error: null,
+    refetch: vi.fn(),
+    ...overrides,
+  });
+
+  const renderPage = () => render(
+    <MemoryRouter
+      future={{
+        v7_startTransition: true,
+        v7_relativeSplatPath: true,
+      }}
+    >
+      <TvShowsPage />
+    </MemoryRouter>
+  );
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    (useMoviesQuery.usePopularTvShowsQuery as unknown as typeof mockUsePopularTvShowsQuery) = mockUsePopularTvShowsQuery;
+    (useMoviesQuery.useTvShowSearchQuery as unknown as typeof mockUseTvShowSearchQuery) = mockUseTvShowSearchQuery;
+    mockUsePopularTvShowsQuery.mockReturnValue(createQueryResult([mockShow]));
+    mockUseTvShowSearchQuery.mockReturnValue(createQueryResult(undefined));
+  });
+
+  describe('Rendering', () => {
+    it('GIVEN popular TV shows WHEN rendering THEN should display them in the grid', () => {
+      // GIVEN
+      // Popular shows are mocked in beforeEach
+
+      // WHEN
+      renderPage();
+
+      // THEN
+      expect(screen.getByRole('heading', { level: 1, name: 'TV Shows' })).toBeInTheDocument();
+      expect(screen.getByTestId('tv-shows-grid')).toBeInTheDocument();
+      expect(screen.getByText('Breaking Bad')).toBeInTheDocument();
+      expect(screen.getByTestId('current-section')).toHaveTextContent('tv-shows');
+    });
+
+    it('GIVEN popular TV shows are loading WHEN rendering THEN should display the loading state', () => {
+      // GIVEN
+      mockUsePopularTvShowsQuery.mockReturnValue(createQueryResult(undefined, { isLoading: true }));
+
+      // WHEN
+      renderPage();
+
+      // THEN
+      expect(screen.getByTestId('tv-shows-loading')).toBeInTheDocument();
+    });
+
+    it('GIVEN popular TV shows fail to load WHEN clicking retry THEN should refetch', () => {
+      // GIVEN
+      const mockRefetch = vi.fn();
+      mockUsePopularTvShowsQuery.mockReturnValue(createQueryResult(undefined, {
+        isError: true,
+        error: { message: 'Network Error' },
+        refetch: mockRefetch,
+      }));
+      renderPage();
+
+      // WHEN
+      fireEvent.click(screen.getByRole('button', { name: 'Retry' }));
+
+      // THEN
+      expect(screen.getByTestId('tv-shows-error')).toHaveTextContent('Error: Network Error');
+      expect(mockRefetch).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('Search', () => {
+    it('GIVEN a search WHEN results are returned THEN should display the matching shows', () => {
+      // GIVEN
+      mockUseTvShowSearchQuery.mockReturnValue(createQueryResult({
+        results: [{ ...mockShow, id: 'tt3032476', title: 'Better Call Saul' }],
+        totalResults: 1,
+        hasMore: false,
+      }));
+      renderPage();
+
+      // WHEN
+      fireEvent.click(screen.getByText('Search'));
+
+      // THEN
+      expect(mockUseTvShowSearchQuery).toHaveBeenLastCalledWith({ query: 'breaking', page: 1 });
+      expect(screen.getByRole('heading', { level: 1 })).toHaveTextContent('TV shows matching "breaking"');
+      expect(screen.getByText('Better Call Saul')).toBeInTheDocument();
+    });
+
+    it('GIVEN a search without results WHEN clearing the search THEN should show popular shows again', () => {
+      // GIVEN
+      mockUseTvShowSearchQuery.mockReturnValue(createQueryResult({ results: [], totalResults: 0, hasMore: false }));
+      renderPage();
+      fireEvent.click(screen.getByText('Search'));
+      expect(screen.getByTestId('tv-shows-empty')).toHaveTextContent('No TV shows found for "breaking".');
+
+      // WHEN
+      fireEvent.click(screen.getByRole('button', { name: 'Clear search' }));
+
+      // THEN
+      expect(screen.getByText('Breaking Bad')).toBeInTheDocument();
+    });
+  });
+
+  describe('User Interactions', () => {
+    it('GIVEN a TV show card WHEN clicking it THEN should navigate to the TV show details route', () => {
+      // GIVEN
+      renderPage();
+
+      // WHEN
+      fireEvent.click(screen.getByRole('button', { name: 'View details for Breaking Bad' }));
+
+      // THEN
+      expect(mockNavigate).toHaveBeenCalledWith('/tv/tt0903747');
+    });
+  });
+});
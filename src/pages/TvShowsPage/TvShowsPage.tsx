@@ -0,0 +1,127 @@
+import React, { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Navigation } from '../../components/Navigation';
+import { MovieCard } from '../../components/MovieCard';
+import { useMoviesQuery } from '../../hooks/useMoviesQuery';
+import { useWatchlist } from '../../hooks/useWatchlist';
+import { type Movie } from '../../types/movie.types';
+import './TvShowsPage.css';
+
+/**
+ * TvShowsPage component that lets the user browse and search TV series
+ */
+export const TvShowsPage: React.FC = () => {
+  const navigate = useNavigate();
+  const [searchQuery, setSearchQuery] = useState('');
+
+  // Watchlist ("My List") state and toggle
+  const { isInWatchlist, toggleWatchlist } = useWatchlist();
+
+  // React Query hooks
+  const popularQuery = useMoviesQuery.usePopularTvShowsQuery();
+  const searchQueryResult = useMoviesQuery.useTvShowSearchQuery({
+    query: searchQuery,
+    page: 1,
+  });
+
+  const isShowingSearchResults = searchQuery.trim() !== '';
+  const activeQuery = isShowingSearchResults
+    ? {
+      shows: searchQueryResult.data?.results ?? [],
+      isLoading: searchQueryResult.isLoading,
+      error: searchQueryResult.error,
+      refetch: searchQueryResult.refetch,
+    }
+    : {
+      shows: popularQuery.data ?? [],
+      isLoading: popularQuery.isLoading,
+      error: popularQuery.error,
+      refetch: popularQuery.refetch,
+    };
+
+  const handleSearch = (query: string) => {
+    setSearchQuery(query);
+  };
+
+  const handleClearSearch = () => {
+    setSearchQuery('');
+  };
+
+  const handleShowClick = (show: Movie) => {
+    navigate(`/tv/${show.id}`);
+  };
+
+  const handleRetry = () => {
+    activeQuery.refetch();
+  };
+
+  const renderContent = () => {
+    if (activeQuery.isLoading) {
+      return (
+        <div data-testid="tv-shows-loading" className="tv-shows-page__status">
+          Loading TV shows...
+        </div>
+      );
+    }
+
+    if (activeQuery.error) {
+      return (
+        <div data-testid="tv-shows-error" className="tv-shows-page__status tv-shows-page__status--error">
+          <p>Error: {activeQuery.error.message}</p>
+          <button type="button" className="tv-shows-page__retry-button" onClick={handleRetry}>
+            Retry
+          </button>
+        </div>
+      );
+    }
+
+    if (activeQuery.shows.length === 0) {
+      return (
+        <div data-testid="tv-shows-empty" className="tv-shows-page__status">
+          {isShowingSearchResults
+            ? `No TV shows found for "${searchQuery}".`
+            : 'No TV shows available.'}
+        </div>
+      );
+    }
+
+    return (
+      <div className="tv-shows-page__grid" data-testid="tv-shows-grid">
+        {activeQuery.shows.map((show) => (
+          <MovieCard
+            key={show.id}
+            movie={show}
+            onClick={handleShowClick}
+            isInWatchlist={isInWatchlist(show.id)}
+            onWatchlistToggle={toggleWatchlist}
+          />
+        ))}
+      </div>
+    );
+  };
+
+  return (
+    <div data-testid="tv-shows-page" className="tv-shows-page">
+      <Navigation
+        onSearch={handleSearch}
+        onClearSearch={handleClearSearch}
+        currentSection="tv-shows"
+      />
+
+      <main className="tv-shows-page__content" aria-label="TV Shows">
+        <div className="tv-shows-page__header">
+          <h1 className="tv-shows-page__title">
+            {isShowingSearchResults ? `TV shows matching "${searchQuery}"` : 'TV Shows'}
+          </h1>
+          {isShowingSearchResults && (
+            <button type="button" className="tv-shows-page__clear-button" onClick={handleClearSearch}>
+              Clear search
+            </button>
+          )}
+        </div>
+
+        {renderContent()}
+      </main>
+    </div>
+  );
+};
@@ -0,0 +1 @@
+export { TvShowsPage } from './TvShowsPage';
@@ -4,16 +4,44 @@ import '@testing-library/jest-dom';
 import { MemoryRouter } from 'react-router-dom';
 import { AppRouter } from './AppRouter';
 import { ROUTES } from '../routing.types';
+import { getConfigError } from '../../config/api.config';
+import { MissingApiKeyError } from '../../config/ConfigError';
 
 // Mock the page components
 vi.mock('../../pages/HomePage', () => ({
   HomePage: () => <div data-testid="home-page">Home Page</div>,
 }));
 
+vi.mock('../../pages/MyListPage', () => ({
+  MyListPage: () => <div data-testid="my-list-page">My List Page</div>,
+}));
+
+vi.mock('../../pages/SearchPage', () => ({
+  SearchPage: () => <div data-testid="search-page">Search Page</div>,
+}));
+
+vi.mock('../../pages/TvShowsPage', () => ({
+  TvShowsPage: () => <div data-testid="tv-shows-page">TV Shows Page</div>,
+}));
+
+vi.mock('../../pages/TvShowDetailsPage', () => ({
+  TvShowDetailsPage: () => <div data-testid="tv-show-details-page">TV Show Details Page</div>,
+}));
+
 vi.mock('../../pages/NotFoundPage', () => ({
   NotFoundPage: () => <div data-testid="not-found-page">Not Found Page</div>,
 }));
 
+vi.mock('../../pages/SetupPage', () => ({
+  SetupPage: () => <div data-testid="setup-page">Setup Page</div>,
+}));
+
+vi.mock('../../config/api.config', () => ({
+  getConfigError: vi.fn(() => null),
+}));
+
+const mockGetConfigError = vi.mocked(getConfigError);
+
 describe('AppRouter', () => {
   describe('Rendering', () => {
     it('GIVEN a router component WHEN rendering with home route THEN should display home page', () => {
@@ -38,6 +66,89 @@ describe('AppRouter', () => {
       expect(screen.getByText('Home Page')).toBeInTheDocument();
     });
 
+    it('GIVEN a router component WHEN rendering with my list route THEN should display my list page', () => {
+      // GIVEN
+      const initialEntries = [ROUTES.MY_LIST];
+
+      // WHEN
+      render(
+        <MemoryRouter
+          initialEntries={initialEntries}
+          future={{
+            v7_startTransition: true,
+            v7_relativeSplatPath: true,
+          }}
+        >
+          <AppRouter />
+        </MemoryRouter>
+      );
+
+      // THEN
+      expect(screen.getByTestId('my-list-page')).toBeInTheDocument();
+    });
+
+    it('GIVEN a router component WHEN rendering with search route THEN should display search page', () => {
+      // GIVEN
+      const initialEntries = [`${ROUTES.SEARCH}?q=batman`];
+
+      // WHEN
+      render(
+        <MemoryRouter
+          initialEntries={initialEntries}
+          future={{
+            v7_startTransition: true,
+            v7_relativeSplatPath: true,
+          }}
+        >
+          <AppRouter />
+        </MemoryRouter>
+      );
+
+      // THEN
+      expect(screen.getByTestId('search-page')).toBeInTheDocument();
+    });
+
+    it('GIVEN a router component WHEN rendering with tv shows route THEN should display tv shows page', () => {
+      // GIVEN
+      const initialEntries = [ROUTES.TV_SHOWS];
+
+      // WHEN
+      render(
+        <MemoryRouter
+          initialEntries={initialEntries}
+          future={{
+            v7_startTransition: true,
+            v7_relativeSplatPath: true,
+          }}
+        >
+          <AppRouter />
+        </MemoryRouter>
+      );
+
+      // THEN
+      expect(screen.getByTestId('tv-shows-page')).toBeInTheDocument();
+    });
+
+    it('GIVEN a router component WHEN rendering with a tv show details route THEN should display tv show details page', () => {
+      // GIVEN
+      const initialEntries = ['/tv/tt0903747'];
+
+      // WHEN
+      render(
+        <MemoryRouter
+          initialEntries={initialEntries}
+          future={{
+            v7_startTransition: true,
+            v7_relativeSplatPath: true,
+          }}
+        >
+          <AppRouter />
+        </MemoryRouter>
+      );
+
+      // THEN
+      expect(screen.getByTestId('tv-show-details-page')).toBeInTheDocument();
+    });
 
     it('GIVEN a router component WHEN rendering with unknown route THEN should display not found page', () => {
       // GIVEN
@@ -144,4 +255,41 @@ describe('AppRouter', () => {
     });
   });
 
+  describe('API key setup', () => {
+    const renderAt = (path: string) =>
+      render(
+        <MemoryRouter
+          initialEntries={[path]}
+          future={{
+            v7_startTransition: true,
+            v7_relativeSplatPath: true,
+          }}
+        >
+          <AppRouter />
+        </MemoryRouter>
+      );
+
+    it('GIVEN no API key is configured or saved WHEN opening the home page THEN should redirect to the setup page', () => {
+      // GIVEN
+      mockGetConfigError.mockReturnValueOnce(new MissingApiKeyError());
+
+      // WHEN
+      renderAt(ROUTES.HOME);
+
+      // THEN
+      expect(screen.getByTestId('setup-page')).toBeInTheDocument();
+      expect(screen.queryByTestId('home-page')).not.toBeInTheDocument();
+    });
+
+    it('GIVEN an API key WHEN opening the setup route THEN should display the setup page', () => {
+      // GIVEN
+      mockGetConfigError.mockReturnValue(null);
+
+      // WHEN
+      renderAt(ROUTES.SETUP);
+
+      // THEN
+      expect(screen.getByTestId('setup-page')).toBeInTheDocument();
+    });
+  });
 });
@@ -1,12 +1,25 @@
 import React from 'react';
-import { Routes, Route, Navigate } from 'react-router-dom';
+import { Routes, Route, Navigate, Outlet } from 'react-router-dom';
 import { ROUTES } from '../routing.types';
 import { NavigationWrapper } from '../../components/NavigationWrapper';
+import { getConfigError } from '../../config/api.config';
+import { MissingApiKeyError } from '../../config/ConfigError';
 
 // Import page components
 import { HomePage } from '../../pages/HomePage';
 import { MovieDetailsPage } from '../../pages/MovieDetailsPage';
+import { MyListPage } from '../../pages/MyListPage';
+import { SearchPage } from '../../pages/SearchPage';
+import { TvShowsPage } from '../../pages/TvShowsPage';
+import { TvShowDetailsPage } from '../../pages/TvShowDetailsPage';
 import { NotFoundPage } from '../../pages/NotFoundPage';
+import { SetupPage } from '../../pages/SetupPage';
+
+/**
+ * Sends first-time users without an API key to the setup page before any movie data loads
+ */
+const RequireApiKey: React.FC = () =>
+  getConfigError() instanceof MissingApiKeyError ? <Navigate to={ROUTES.SETUP} replace /> : <Outlet />;
 
 /**
  * AppRouter component that handles all routing for the application
@@ -16,11 +29,27 @@ export const AppRouter: React.FC = () => {
   return (
     <NavigationWrapper>
       <Routes>
-        {/* Home route */}
-        <Route path={ROUTES.HOME} element={<HomePage />} />
+        {/* Routes that load movie data need an API key */}
+        <Route element={<RequireApiKey />}>
+          {/* Home route */}
+          <Route path={ROUTES.HOME} element={<HomePage />} />
+        
+          {/* Movie details route */}
+          <Route path={ROUTES.MOVIE_DETAILS} element={<MovieDetailsPage />} />
         
-        {/* Movie details route */}
-        <Route path={ROUTES.MOVIE_DETAILS} element={<MovieDetailsPage />} />
+          {/* Search route */}
+          <Route path={ROUTES.SEARCH} element={<SearchPage />} />
+        
+          {/* TV shows routes */}
+          <Route path={ROUTES.TV_SHOWS} element={<TvShowsPage />} />
+          <Route path={ROUTES.TV_SHOW_DETAILS} element={<TvShowDetailsPage />} />
+        
+          {/* My List route */}
+          <Route path={ROUTES.MY_LIST} element={<MyListPage />} />
+        </Route>
+
+        {/* API key setup route */}
+        <Route path={ROUTES.SETUP} element={<SetupPage />} />
         
         {/* 404 route */}
         <Route path={ROUTES.NOT_FOUND} element={<NotFoundPage />} />
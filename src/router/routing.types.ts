@@ -1,4 +1,6 @@
 import { type ComponentType } from 'react';
+import { generatePath } from 'react-router-dom';
+import { type Movie, type MovieFilters } from '../types/movie.types';
 
 /**
  * Route configuration interface
@@ -74,6 +76,17 @@ export interface RouteContext {
   };
 }
 
+/**
+ * Search route state stored in the /search query string
+ */
+export interface SearchRouteState {
+  query: string;
+  page: number; // Number of result pages loaded
+  type?: 'movie' | 'series' | 'episode';
+  year?: string;
+  filters: MovieFilters;
+}
+
 /**
  * Route guard interface
  */
@@ -94,9 +107,16 @@ export const ROUTES = {
   SEARCH: '/search',
   MOVIE_DETAILS: '/movie/:id',
   TV_SHOW_DETAILS: '/tv/:id',
+  SETUP: '/setup',
   NOT_FOUND: '/404',
 } as const;
 
+/**
+ * Path of a title's details page: the TV show page for series, the movie page otherwise
+ */
+export const getTitleDetailsPath = ({ id, type }: Pick<Movie, 'id' | 'type'>): string =>
+  generatePath(type === 'series' ? ROUTES.TV_SHOW_DETAILS : ROUTES.MOVIE_DETAILS, { id: String(id) });
+
 /**
  * Type for route keys
  */
@@ -149,5 +169,7 @@ export const ROUTE_TITLES: Record<string, string> = {
   [ROUTES.MY_LIST]: 'ThoughtFlix - My List',
   [ROUTES.SEARCH]: 'ThoughtFlix - Search',
   [ROUTES.MOVIE_DETAILS]: 'ThoughtFlix - Movie Details',
+  [ROUTES.TV_SHOW_DETAILS]: 'ThoughtFlix - TV Show Details',
+  [ROUTES.SETUP]: 'ThoughtFlix - Setup',
   [ROUTES.NOT_FOUND]: 'ThoughtFlix - Page Not Found',
 };
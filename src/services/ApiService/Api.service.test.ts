@@ -1,5 +1,5 @@
-import { ApiService } from './Api.service';
-import { vi, describe, it, expect, beforeEach, type MockedFunction } from 'vitest';
+import { ApiService, isApiError } from './Api.service';
+import { vi, describe, it, expect, beforeEach, afterEach, type MockedFunction } from 'vitest';
 import { type ApiConfig, HttpMethod } from '../../types/api.types';
 import axios, { type AxiosHeaderValue, type AxiosInstance, type HeadersDefaults } from 'axios';
 
@@ -28,6 +28,8 @@ describe('ApiService', () => {
       put: {},
       patch: {},
     } as HeadersDefaults & { [key: string]: AxiosHeaderValue },
+    // Retry immediately so that failing requests don't slow the tests down
+    retry: { baseDelay: 0 },
   };
 
   beforeEach(() => {
@@ -294,6 +296,51 @@ describe('ApiService', () => {
     });
   });
 
+  describe('Request Deduplication', () => {
+    it('GIVEN two identical GET requests in flight WHEN making them concurrently THEN should send a single request', async () => {
+      // GIVEN
+      const mockResponse = { data: { movies: [] }, status: 200 };
+      mockAxiosInstance.request.mockResolvedValue(mockResponse);
+
+      // WHEN
+      const [first, second] = await Promise.all([
+        apiService.get('/dedup', { page: 1, s: 'batman' }),
+        apiService.get('/dedup', { s: 'batman', page: 1 }),
+      ]);
+
+      // THEN
+      expect(mockAxiosInstance.request).toHaveBeenCalledTimes(1);
+      expect(first).toEqual(second);
+    });
+
+    it('GIVEN two identical POST requests in flight WHEN making them concurrently THEN should send both requests', async () => {
+      // GIVEN
+      const mockResponse = { data: { id: 1 }, status: 201 };
+      mockAxiosInstance.request.mockResolvedValue(mockResponse);
+
+      // WHEN
+      await Promise.all([
+        apiService.post('/dedup', { title: 'Batman' }),
+        apiService.post('/dedup', { title: 'Batman' }),
+      ]);
+
+      // THEN
+      expect(mockAxiosInstance.request).toHaveBeenCalledTimes(2);
+    });
+
+    it('GIVEN a completed GET request WHEN making it again THEN should send a new request', async () => {
+      // GIVEN
+      mockAxiosInstance.request.mockResolvedValue({ data: {}, status: 200 });
+      await apiService.get('/dedup-sequential', { page: 1 });
+
+      // WHEN
+      await apiService.get('/dedup-sequential', { page: 1 });
+
+      // THEN
+      expect(mockAxiosInstance.request).toHaveBeenCalledTimes(2);
+    });
+  });
+
   describe('Error Handling', () => {
     it('GIVEN a server error response WHEN making request THEN should throw ApiError with server details', async () => {
       // GIVEN
@@ -314,6 +361,8 @@ describe('ApiService', () => {
         message: 'Movie not found',
         status: 404,
         code: 'MOVIE_NOT_FOUND',
+        attempts: 1,
+        data: serverError.response.data,
       });
     });
 
@@ -331,7 +380,9 @@ describe('ApiService', () => {
         message: 'Network error - no response received',
         status: 0,
         code: 'NETWORK_ERROR',
+        attempts: 3,
       });
+      expect(mockAxiosInstance.request).toHaveBeenCalledTimes(3);
     });
 
     it('GIVEN an unknown error WHEN making request THEN should throw ApiError with unknown details', async () => {
@@ -347,6 +398,7 @@ describe('ApiService', () => {
         message: 'An unexpected error occurred',
         status: 0,
         code: 'UNKNOWN_ERROR',
+        attempts: 1,
       });
     });
 
@@ -367,8 +419,148 @@ describe('ApiService', () => {
         message: 'Request failed with status code 500',
         status: 500,
         code: undefined,
+        attempts: 3,
+        data: {},
       });
     });
+
+    it.each([
+      { description: 'a rejected request', error: { message: 'Network error - no response received', status: 0, code: 'NETWORK_ERROR' }, expected: true },
+      { description: 'an Error instance', error: new Error('Network Error'), expected: false },
+      { description: 'an object without a status', error: { message: 'Something went wrong' }, expected: false },
+      { description: 'null', error: null, expected: false },
+    ])('GIVEN $description WHEN checking isApiError THEN should return $expected', ({ error, expected }) => {
+      // GIVEN & WHEN
+      const result = isApiError(error);
+
+      // THEN
+      expect(result).toBe(expected);
+    });
+  });
+
+  describe('Retries', () => {
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('GIVEN a GET failing once with a server error WHEN making the request THEN should retry and return the response', async () => {
+      // GIVEN
+      mockAxiosInstance.request
+        .mockRejectedValueOnce({ response: { status: 503, data: {} } })
+        .mockResolvedValueOnce({ data: { movies: [] }, status: 200 });
+
+      // WHEN
+      const result = await apiService.get('/retry');
+
+      // THEN
+      expect(mockAxiosInstance.request).toHaveBeenCalledTimes(2);
+      expect(result.data).toEqual({ movies: [] });
+    });
+
+    it('GIVEN a failing POST WHEN making the request THEN should not retry', async () => {
+      // GIVEN
+      mockAxiosInstance.request.mockRejectedValue({ response: { status: 503, data: {} } });
+
+      // WHEN & THEN
+      await expect(apiService.post('/retry', {})).rejects.toEqual(expect.objectContaining({ status: 503, attempts: 1 }));
+      expect(mockAxiosInstance.request).toHaveBeenCalledTimes(1);
+    });
+
+    it('GIVEN a failing POST that opts in WHEN making the request THEN should retry it', async () => {
+      // GIVEN
+      mockAxiosInstance.request.mockRejectedValue({ response: { status: 503, data: {} } });
+
+      // WHEN & THEN
+      await expect(apiService.request({ method: HttpMethod.POST, url: '/retry', retry: { retries: 1 } }))
+        .rejects.toEqual(expect.objectContaining({ status: 503, attempts: 2 }));
+      expect(mockAxiosInstance.request).toHaveBeenCalledTimes(2);
+    });
+
+    it('GIVEN a GET that opts out WHEN the request fails THEN should not retry', async () => {
+      // GIVEN
+      mockAxiosInstance.request.mockRejectedValue({ response: { status: 503, data: {} } });
+
+      // WHEN & THEN
+      await expect(apiService.get('/retry', undefined, { retry: false }))
+        .rejects.toEqual(expect.objectContaining({ attempts: 1 }));
+      expect(mockAxiosInstance.request).toHaveBeenCalledTimes(1);
+    });
+
+    it('GIVEN a rate limited GET with Retry-After WHEN making the request THEN should wait that long before retrying', async () => {
+      // GIVEN
+      vi.useFakeTimers();
+      mockAxiosInstance.request
+        .mockRejectedValueOnce({ response: { status: 429, data: {}, headers: { 'retry-after': '2' } } })
+        .mockResolvedValueOnce({ data: {}, status: 200 });
+
+      // WHEN
+      const result = apiService.get('/retry-after');
+      await vi.advanceTimersByTimeAsync(1999);
+
+      // THEN
+      expect(mockAxiosInstance.request).toHaveBeenCalledTimes(1);
+      await vi.advanceTimersByTimeAsync(1);
+      await expect(result).resolves.toEqual(expect.objectContaining({ success: true }));
+      expect(mockAxiosInstance.request).toHaveBeenCalledTimes(2);
+    });
+
+    it('GIVEN a Retry-After longer than the policy allows WHEN the request fails THEN should give up', async () => {
+      // GIVEN
+      mockAxiosInstance.request.mockRejectedValue({ response: { status: 503, data: {}, headers: { 'retry-after': '3600' } } });
+
+      // WHEN & THEN
+      await expect(apiService.get('/retry-after-long')).rejects.toEqual(expect.objectContaining({
+        status: 503,
+        attempts: 1,
+        retryAfter: 3600000,
+      }));
+      expect(mockAxiosInstance.request).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('Cancellation', () => {
+    it('GIVEN an aborted signal WHEN making a GET request THEN should reject with a cancelled error without sending it', async () => {
+      // GIVEN
+      const controller = new AbortController();
+      controller.abort();
+
+      // WHEN & THEN
+      await expect(apiService.get('/cancel', undefined, { signal: controller.signal })).rejects.toEqual({
+        message: 'Request cancelled',
+        status: 0,
+        code: 'CANCELLED',
+      });
+      expect(mockAxiosInstance.request).not.toHaveBeenCalled();
+    });
+
+    it('GIVEN axios cancelling the request WHEN making a GET request THEN should reject with a cancelled error without retrying', async () => {
+      // GIVEN
+      mockAxiosInstance.request.mockRejectedValue({ name: 'CanceledError', code: 'ERR_CANCELED', message: 'canceled' });
+
+      // WHEN & THEN
+      await expect(apiService.get('/cancel')).rejects.toEqual(expect.objectContaining({ code: 'CANCELLED', attempts: 1 }));
+      expect(mockAxiosInstance.request).toHaveBeenCalledTimes(1);
+    });
+
+    it('GIVEN two identical GET requests in flight WHEN one caller aborts THEN should still resolve the other', async () => {
+      // GIVEN
+      let resolveRequest: (response: unknown) => void = () => {};
+      mockAxiosInstance.request.mockReturnValue(new Promise((resolve) => {
+        resolveRequest = resolve;
+      }));
+      const controller = new AbortController();
+      const cancelled = apiService.get('/cancel-shared', { s: 'batman' }, { signal: controller.signal });
+      const kept = apiService.get('/cancel-shared', { s: 'batman' }, { signal: new AbortController().signal });
+
+      // WHEN
+      controller.abort();
+      resolveRequest({ data: { movies: [] }, status: 200 });
+
+      // THEN
+      await expect(cancelled).rejects.toEqual(expect.objectContaining({ code: 'CANCELLED' }));
+      await expect(kept).resolves.toEqual(expect.objectContaining({ data: { movies: [] } }));
+      expect(mockAxiosInstance.request).toHaveBeenCalledTimes(1);
+    });
   });
 
   describe('Configuration Management', () => {
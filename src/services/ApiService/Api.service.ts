@@ -1,20 +1,75 @@
 import axios, { type AxiosInstance, type AxiosRequestConfig, type AxiosResponse, type HeadersDefaults, type AxiosHeaderValue } from 'axios';
-import { type ApiResponse, type ApiError, type RequestConfig, type ApiConfig, HttpMethod } from '../../types/api.types';
+import { type ApiResponse, type ApiError, type RequestConfig, type RequestOptions, type ApiConfig, type RetryPolicy, HttpMethod } from '../../types/api.types';
+import { type RequestScheduler, createRequestKey, getSharedScheduler } from '../RequestScheduler';
+import { DEFAULT_RETRY_POLICY, getRetryDelay, isRetryableError, parseRetryAfter } from '../../utils/retryUtils';
+
+const CANCELLED_ERROR_CODE = 'CANCELLED';
+
+// Resolves after `ms`, or rejects with the signal's reason as soon as it aborts
+const wait = (ms: number, signal?: AbortSignal): Promise<void> => new Promise((resolve, reject) => {
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', handleAbort);
+    resolve();
+  }, ms);
+  const handleAbort = () => {
+    clearTimeout(timer);
+    reject(signal?.reason);
+  };
+  signal?.addEventListener('abort', handleAbort, { once: true });
+});
+
+// Aborted fetches (AbortError) and axios cancellations (CanceledError)
+const isAbortError = (error: unknown): boolean => {
+  if (!error || typeof error !== 'object') return false;
+  const { name, code } = error as { name?: unknown; code?: unknown };
+  return name === 'AbortError' || name === 'CanceledError' || code === 'ERR_CANCELED';
+};
+
+const createCancelledError = (): ApiError => ({
+  message: 'Request cancelled',
+  status: 0,
+  code: CANCELLED_ERROR_CODE,
+});
+
+/**
+ * Check whether an error, or the QueryError made from it, comes from a request its caller cancelled
+ */
+export const isCancelledError = (error: unknown): boolean => {
+  return !!error && typeof error === 'object' && 'code' in error && error.code === CANCELLED_ERROR_CODE;
+};
+
+/**
+ * Check whether an error is an ApiError; ApiService rejects with these plain objects rather than Error instances
+ */
+export const isApiError = (error: unknown): error is ApiError =>
+  !!error &&
+  typeof error === 'object' &&
+  'message' in error &&
+  typeof error.message === 'string' &&
+  'status' in error &&
+  typeof error.status === 'number';
 
 /**
  * Base API service class that provides common HTTP methods and error handling
  * This service will be extended by specific API services (e.g., MovieService)
+ * Requests go through a scheduler shared per base URL, which coalesces identical in-flight GETs,
+ * enforces the requests-per-second budget and starts higher priority requests first.
+ * Failed GETs are retried with jittered exponential backoff, honouring the server's Retry-After.
+ * A request passed an AbortSignal rejects with a CANCELLED ApiError when the signal aborts.
  */
 export class ApiService {
   private axiosInstance: AxiosInstance;
+  private scheduler: RequestScheduler;
   private config: {
     timeout: number;
     defaultHeaders: HeadersDefaults & { [key: string]: AxiosHeaderValue };
     baseURL?: string;
+    retry?: Partial<RetryPolicy>;
   };
 
   constructor(config: ApiConfig) {
     this.config = config;
+    this.scheduler = getSharedScheduler(config.baseURL ?? '', { requestsPerSecond: config.requestsPerSecond });
     this.axiosInstance = axios.create({
       baseURL: config.baseURL,
       timeout: config.timeout,
@@ -26,6 +81,7 @@ export class ApiService {
 
   /**
    * Setup request and response interceptors for common functionality
+   * Errors are passed through untouched; send converts them once, keeping the response headers for retries
    */
   private setupInterceptors(): void {
     // Request interceptor
@@ -35,7 +91,7 @@ export class ApiService {
         return config;
       },
       (error) => {
-        return Promise.reject(this.handleError(error));
+        return Promise.reject(error);
       }
     );
 
@@ -45,7 +101,7 @@ export class ApiService {
         return response;
       },
       (error) => {
-        return Promise.reject(this.handleError(error));
+        return Promise.reject(error);
       }
     );
   }
@@ -53,8 +109,8 @@ export class ApiService {
   /**
    * Generic GET request
    */
-  async get<T>(url: string, params?: Record<string, unknown>): Promise<ApiResponse<T>> {
-    return this.request<T>({ method: HttpMethod.GET, url, params });
+  async get<T>(url: string, params?: Record<string, unknown>, options?: RequestOptions): Promise<ApiResponse<T>> {
+    return this.request<T>({ ...options, method: HttpMethod.GET, url, params });
   }
 
   /**
@@ -87,8 +143,70 @@ export class ApiService {
 
   /**
    * Generic request method that handles all HTTP methods
+   * Identical GET requests already in flight share a single call; other methods are never coalesced.
+   * A shared call is only aborted at the axios level once every caller sharing it has aborted.
    */
   async request<T>(config: RequestConfig): Promise<ApiResponse<T>> {
+    const key = config.method === HttpMethod.GET ? createRequestKey(config.method, config.url, config.params) : undefined;
+    try {
+      return await this.scheduler.schedule(
+        (signal) => this.sendWithRetry<T>({ ...config, signal: config.signal && signal }),
+        { key, priority: config.priority, signal: config.signal }
+      );
+    } catch (error) {
+      throw isAbortError(error) ? createCancelledError() : error;
+    }
+  }
+
+  /**
+   * Send a request, retrying retryable failures according to the call's retry policy.
+   * Retries go back through the scheduler so that they count against the rate budget.
+   * @throws ApiError with the number of attempts made
+   */
+  private async sendWithRetry<T>(config: RequestConfig): Promise<ApiResponse<T>> {
+    const policy = this.getRetryPolicy(config);
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return attempt === 1
+          ? await this.send<T>(config)
+          : await this.scheduler.schedule(() => this.send<T>(config), { priority: config.priority, signal: config.signal });
+      } catch (error) {
+        const apiError: ApiError = { ...(isAbortError(error) ? createCancelledError() : error as ApiError), attempts: attempt };
+        const delay = policy && attempt <= policy.retries && isRetryableError(apiError)
+          ? getRetryDelay(attempt, apiError, policy)
+          : null;
+
+        if (delay === null) {
+          throw apiError;
+        }
+        await wait(delay, config.signal);
+      }
+    }
+  }
+
+  /**
+   * Resolve the retry policy of a request: GETs are idempotent and retried by default,
+   * other methods only when the call opts in
+   * @returns The policy, or null when the request must not be retried
+   */
+  private getRetryPolicy(config: RequestConfig): RetryPolicy | null {
+    const retry = config.retry ?? config.method === HttpMethod.GET;
+    if (retry === false) {
+      return null;
+    }
+
+    return {
+      ...DEFAULT_RETRY_POLICY,
+      ...this.config.retry,
+      ...(typeof retry === 'object' && retry),
+    };
+  }
+
+  /**
+   * Send a request immediately, bypassing the scheduler
+   */
+  private async send<T>(config: RequestConfig): Promise<ApiResponse<T>> {
     try {
       const axiosConfig: AxiosRequestConfig = {
         method: config.method,
@@ -97,6 +215,7 @@ export class ApiService {
         params: config.params,
         data: config.data,
         timeout: config.timeout || this.config.timeout,
+        signal: config.signal,
       };
 
       const response: AxiosResponse<T> = await this.axiosInstance.request(axiosConfig);
@@ -115,13 +234,21 @@ export class ApiService {
    * Handle errors and convert them to ApiError format
    */
   private handleError(error: unknown): ApiError {
-    if (error && typeof error === 'object' && 'response' in error) {
-      const axiosError = error as { response: { data?: { message?: string; code?: string }; status: number }; message?: string };
+    if (isAbortError(error)) {
+      return createCancelledError();
+    } else if (error && typeof error === 'object' && 'response' in error) {
+      const axiosError = error as {
+        response: { data?: { message?: string; code?: string }; status: number; headers?: Record<string, unknown> };
+        message?: string;
+      };
+      const retryAfter = parseRetryAfter(axiosError.response.headers?.['retry-after']);
       // Server responded with error status
       return {
         message: axiosError.response.data?.message || axiosError.message || 'Server error occurred',
         status: axiosError.response.status,
         code: axiosError.response.data?.code,
+        ...(retryAfter !== undefined && { retryAfter }),
+        ...(axiosError.response.data !== undefined && { data: axiosError.response.data }),
       };
     } else if (error && typeof error === 'object' && 'request' in error) {
       // Request was made but no response received
@@ -1,2 +1 @@
-export { ApiService } from './Api.service';
-
+export { ApiService, isApiError, isCancelledError } from './Api.service';
@@ -1,24 +1,39 @@
 import { ApiService } from '../ApiService';
+import { type ApiError, type RequestOptions } from '../../types/api.types';
 import { 
   type OMDbConfig, 
   type OMDbSearchParams, 
   type OMDbMovieParams,
   type OMDbSearchResponse,
-  type OMDbMovie
+  type OMDbMovie,
+  type OMDbSeasonParams,
+  type OMDbEpisodeParams,
+  type OMDbSeasonResponse
 } from '../../types/omdb.types';
 import { type HeadersDefaults, type AxiosHeaderValue } from 'axios';
-import { type Movie, type HeroMovie } from '../../types/movie.types';
+import { type Movie, type MovieDetails, type TvShowDetails, type Season, type EpisodeDetails } from '../../types/movie.types';
+import { type MovieSearchPage } from '../../types/query.types';
+import { type MovieProvider, type ProviderSearchParams, type ProviderSectionParams } from '../../types/provider.types';
 import { 
   transformOMDbSearchResultToMovie, 
-  transformOMDbMovieToHeroMovie 
+  transformOMDbMovieToMovie,
+  transformOMDbMovieToMovieDetails,
+  transformOMDbSeriesToTvShowDetails,
+  transformOMDbSeasonToSeason,
+  transformOMDbEpisodeToEpisodeDetails
 } from '../../utils/dataTransformers';
 import { QUERY_CONFIG, getCurrentYear, getNextYear } from '../../utils/queryUtils';
+import { OMDbNotFoundError, createOMDbError } from './OMDbError';
+
+// OMDb returns search results in pages of ten
+const OMDB_PAGE_SIZE = 10;
 
 /**
  * OMDb API service for fetching movie data
  * Extends the base ApiService to provide OMDb-specific functionality
+ * and implements MovieProvider on top of the raw OMDb endpoints
  */
-export class OMDbService {
+export class OMDbService implements MovieProvider {
   private apiService: ApiService;
   private config: {
     apiKey: string | null;
@@ -35,6 +50,7 @@ export class OMDbService {
     this.apiService = new ApiService({
       baseURL: config.baseURL,
       timeout: config.timeout,
+      requestsPerSecond: config.requestsPerSecond,
       defaultHeaders: {
         common: {
           'Content-Type': 'application/json',
@@ -50,10 +66,52 @@ export class OMDbService {
     });
   }
 
+  /**
+   * Send a request to OMDb
+   * @throws OMDbError when OMDb answers with a `Response: "False"` payload
+   */
+  private async fetchOMDb<T extends { Response: 'True' | 'False'; Error?: string }>(
+    params: Record<string, unknown>,
+    options?: RequestOptions
+  ): Promise<T> {
+    let data: T;
+    try {
+      ({ data } = await this.apiService.get<T>('/', params, options));
+    } catch (error) {
+      // OMDb rejects bad keys and exhausted limits with a 401 carrying the same payload
+      const payload = (error as ApiError).data as Partial<T> | undefined;
+      if (payload?.Response === 'False') {
+        throw createOMDbError(payload.Error);
+      }
+      throw error;
+    }
+
+    if (data?.Response === 'False') {
+      throw createOMDbError(data.Error);
+    }
+    return data;
+  }
+
+  /**
+   * Search for a homepage section; a search without matches gives an empty section rather than an error
+   */
+  private async searchSection(params: OMDbSearchParams, options?: RequestOptions): Promise<Movie[]> {
+    try {
+      const searchResponse = await this.searchMovies(params, options);
+      return (searchResponse.Search ?? []).map(transformOMDbSearchResultToMovie);
+    } catch (error) {
+      if (error instanceof OMDbNotFoundError) {
+        return [];
+      }
+      throw error;
+    }
+  }
+
   /**
    * Search for movies by title
+   * @throws OMDbNotFoundError when nothing matches, OMDbTooManyResultsError when the term is too broad
    */
-  async searchMovies(params: OMDbSearchParams): Promise<OMDbSearchResponse> {
+  async searchMovies(params: OMDbSearchParams, options?: RequestOptions): Promise<OMDbSearchResponse> {
     const searchParams = {
       apikey: this.config.apiKey,
       s: params.s,
@@ -62,14 +120,14 @@ export class OMDbService {
       ...(params.page && { page: params.page }),
     };
 
-    const response = await this.apiService.get<OMDbSearchResponse>('/', searchParams);
-    return response.data;
+    return this.fetchOMDb<OMDbSearchResponse>(searchParams, options);
   }
 
   /**
    * Get movie details by title
+   * @throws OMDbNotFoundError when no title matches
    */
-  async getMovieByTitle(params: OMDbMovieParams): Promise<OMDbMovie> {
+  async getMovieByTitle(params: OMDbMovieParams, options?: RequestOptions): Promise<OMDbMovie> {
     const movieParams = {
       apikey: this.config.apiKey,
       t: params.t,
@@ -78,22 +136,82 @@ export class OMDbService {
       ...(params.plot && { plot: params.plot }),
     };
 
-    const response = await this.apiService.get<OMDbMovie>('/', movieParams);
-    return response.data;
+    return this.fetchOMDb<OMDbMovie>(movieParams, options);
   }
 
   /**
    * Get movie details by IMDb ID
+   * @throws OMDbNotFoundError when the IMDb ID is unknown
+   * @param options - Per-call request options, e.g. a lower priority for background enrichment
    */
-  async getMovieById(params: OMDbMovieParams): Promise<OMDbMovie> {
+  async getMovieById(params: OMDbMovieParams, options?: RequestOptions): Promise<OMDbMovie> {
     const movieParams = {
       apikey: this.config.apiKey,
       i: params.i,
       ...(params.plot && { plot: params.plot }),
     };
 
-    const response = await this.apiService.get<OMDbMovie>('/', movieParams);
-    return response.data;
+    return this.fetchOMDb<OMDbMovie>(movieParams, options);
+  }
+
+  /**
+   * Search titles and return one page of Movie objects
+   * @throws OMDbNotFoundError when nothing matches, OMDbTooManyResultsError when the term is too broad
+   */
+  async search(params: ProviderSearchParams, options?: RequestOptions): Promise<MovieSearchPage> {
+    const page = params.page || 1;
+    const response = await this.searchMovies({ s: params.query, page, type: params.type, y: params.year }, options);
+    const totalResults = parseInt(response.totalResults) || 0;
+
+    return {
+      results: (response.Search ?? []).map(transformOMDbSearchResultToMovie),
+      totalResults,
+      hasMore: page * OMDB_PAGE_SIZE < totalResults,
+    };
+  }
+
+  /**
+   * Get the rating, genres and plot of a title, which OMDb search hits lack
+   * @throws OMDbNotFoundError when the IMDb ID is unknown
+   */
+  async getMovieSummary(imdbId: string, options?: RequestOptions): Promise<Movie> {
+    const movie = await this.getMovieById({ i: imdbId }, options);
+    return transformOMDbMovieToMovie(movie);
+  }
+
+  /**
+   * Search for TV series by title
+   */
+  async searchSeries(params: Omit<OMDbSearchParams, 'type'>, options?: RequestOptions): Promise<OMDbSearchResponse> {
+    return this.searchMovies({ ...params, type: 'series' }, options);
+  }
+
+  /**
+   * Get the episode list of a single season of a series
+   */
+  async getSeason(params: OMDbSeasonParams, options?: RequestOptions): Promise<OMDbSeasonResponse> {
+    const seasonParams = {
+      apikey: this.config.apiKey,
+      i: params.i,
+      Season: params.Season,
+    };
+
+    return this.fetchOMDb<OMDbSeasonResponse>(seasonParams, options);
+  }
+
+  /**
+   * Get a single episode of a series by season and episode number
+   */
+  async getEpisode(params: OMDbEpisodeParams, options?: RequestOptions): Promise<OMDbMovie> {
+    const episodeParams = {
+      apikey: this.config.apiKey,
+      i: params.i,
+      Season: params.Season,
+      Episode: params.Episode,
+      ...(params.plot && { plot: params.plot }),
+    };
+
+    return this.fetchOMDb<OMDbMovie>(episodeParams, options);
   }
 
   /**
@@ -121,50 +239,45 @@ export class OMDbService {
    * Get popular movies by searching for recent movies
    * Since OMDb doesn't have a direct "popular" endpoint, we'll search for recent movies
    */
-  async getPopularMovies(params: { page?: number; year?: string } = {}): Promise<{ results: Movie[] }> {
+  async getPopularMovies(
+    params: ProviderSectionParams = {},
+    options?: RequestOptions
+  ): Promise<{ results: Movie[] }> {
     const searchYear = params.year || getCurrentYear();
     
     // Search for movies from the current year
-    const searchResponse = await this.searchMovies({
+    const movies = await this.searchSection({
       s: 'movie',
       type: 'movie',
       y: searchYear,
       page: params.page || 1,
-    });
-
-    if (searchResponse.Response === 'False' || !searchResponse.Search) {
-      return { results: [] };
-    }
+    }, options);
 
-    // Convert OMDb search results to Movie objects
-    const movies = searchResponse.Search.map(transformOMDbSearchResultToMovie);
-    return { results: movies };
+    return { results: params.enrich ? await params.enrich(movies, options?.signal) : movies };
   }
 
   /**
    * Get top rated movies by searching for movies with high ratings
    * Since OMDb doesn't have a direct "top rated" endpoint, we'll search for movies with specific criteria
-   * Optimized to avoid making individual API calls for each movie
+   * Search hits carry no rating, so pass `enrich` to rank by the ratings from each title's details
    */
-  async getTopRatedMovies(params: { page?: number; year?: string } = {}): Promise<{ results: Movie[] }> {
+  async getTopRatedMovies(
+    params: ProviderSectionParams = {},
+    options?: RequestOptions
+  ): Promise<{ results: Movie[] }> {
     const searchYear = params.year || getCurrentYear();
     
     // Search for movies from the current year
-    const searchResponse = await this.searchMovies({
+    const searchMovies = await this.searchSection({
       s: 'movie',
       type: 'movie',
       y: searchYear,
       page: params.page || 1,
-    });
+    }, options);
 
-    if (searchResponse.Response === 'False' || !searchResponse.Search) {
-      return { results: [] };
-    }
-
-    // Convert search results to Movie objects directly without individual API calls
-    // This avoids the cascade of API calls that was causing the infinite loop
-    const movies = searchResponse.Search
-      .map(transformOMDbSearchResultToMovie)
+    // Fill in ratings through the caller's (cached, concurrency-limited) enricher
+    const enrichedMovies = params.enrich ? await params.enrich(searchMovies, options?.signal) : searchMovies;
+    const movies = enrichedMovies
       .filter(movie => movie.vote_average >= QUERY_CONFIG.RATING_THRESHOLD)
       .sort((a, b) => b.vote_average - a.vote_average);
 
@@ -174,31 +287,85 @@ export class OMDbService {
   /**
    * Get upcoming movies by searching for movies from next year
    */
-  async getUpcomingMovies(params: { page?: number } = {}): Promise<{ results: Movie[] }> {
+  async getUpcomingMovies(
+    params: Omit<ProviderSectionParams, 'year'> = {},
+    options?: RequestOptions
+  ): Promise<{ results: Movie[] }> {
     const nextYear = getNextYear();
     
-    const searchResponse = await this.searchMovies({
+    const movies = await this.searchSection({
       s: 'movie',
       type: 'movie',
       y: nextYear,
       page: params.page || 1,
-    });
+    }, options);
 
-    if (searchResponse.Response === 'False' || !searchResponse.Search) {
-      return { results: [] };
-    }
+    return { results: params.enrich ? await params.enrich(movies, options?.signal) : movies };
+  }
 
-    // Convert OMDb search results to Movie objects
-    const movies = searchResponse.Search.map(transformOMDbSearchResultToMovie);
-    return { results: movies };
+  /**
+   * Get movie details by IMDb ID and return as MovieDetails
+   */
+  async getMovieDetails(imdbId: string, options?: RequestOptions): Promise<MovieDetails> {
+    const movie = await this.getMovieById({ i: imdbId, plot: 'full' }, { priority: 'high', ...options });
+    return transformOMDbMovieToMovieDetails(movie);
+  }
+
+  /**
+   * Get popular TV shows by searching for recent series
+   * Since OMDb doesn't have a direct "popular" endpoint, we'll search for recent series
+   */
+  async getPopularTvShows(params: Omit<ProviderSectionParams, 'enrich'> = {}, options?: RequestOptions): Promise<{ results: Movie[] }> {
+    const searchYear = params.year || getCurrentYear();
+
+    // Search results become Movie objects so they can reuse the movie cards
+    const shows = await this.searchSection({
+      s: 'series',
+      type: 'series',
+      y: searchYear,
+      page: params.page || 1,
+    }, options);
+
+    return { results: shows };
   }
 
   /**
-   * Get movie details by IMDb ID and return as HeroMovie
+   * Get TV show details by IMDb ID and return as TvShowDetails
    */
-  async getMovieDetails(imdbId: string): Promise<HeroMovie> {
-    const movie = await this.getMovieById({ i: imdbId, plot: 'full' });
-    return transformOMDbMovieToHeroMovie(movie);
+  async getTvShowDetails(imdbId: string, options?: RequestOptions): Promise<TvShowDetails> {
+    const series = await this.getMovieById({ i: imdbId, plot: 'full' }, { priority: 'high', ...options });
+    return transformOMDbSeriesToTvShowDetails(series);
   }
 
+  /**
+   * Get a season of a TV show and return as Season
+   * An unknown season has no episodes rather than being an error, so the season picker stays usable
+   */
+  async getTvShowSeason(imdbId: string, seasonNumber: number, options?: RequestOptions): Promise<Season> {
+    try {
+      const season = await this.getSeason({ i: imdbId, Season: seasonNumber }, { priority: 'high', ...options });
+      return transformOMDbSeasonToSeason(season);
+    } catch (error) {
+      if (error instanceof OMDbNotFoundError) {
+        return { season_number: seasonNumber, total_seasons: 0, episodes: [] };
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Get an episode of a TV show and return as EpisodeDetails
+   */
+  async getTvShowEpisode(
+    imdbId: string,
+    seasonNumber: number,
+    episodeNumber: number,
+    options?: RequestOptions
+  ): Promise<EpisodeDetails> {
+    const episode = await this.getEpisode(
+      { i: imdbId, Season: seasonNumber, Episode: episodeNumber, plot: 'full' },
+      { priority: 'high', ...options }
+    );
+    return transformOMDbEpisodeToEpisodeDetails(episode);
+  }
 }
@@ -0,0 +1,88 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  OMDbError,
+  OMDbInvalidApiKeyError,
+  OMDbNotFoundError,
+  OMDbRequestLimitReachedError,
+  OMDbTooManyResultsError,
+  createOMDbError,
+  isPermanentOMDbError,
+} from './OMDbError';
+import { transformToQueryError } from '../../utils/queryUtils';
+
+// Mock the api.config module to avoid import.meta issues
+vi.mock('../../config/api.config', () => ({
+  getApiConfig: vi.fn(),
+  isApiConfigValid: vi.fn(() => true),
+}));
+
+describe('OMDbError', () => {
+  describe('createOMDbError', () => {
+    it.each([
+      { message: 'Invalid API key!', expected: OMDbInvalidApiKeyError },
+      { message: 'No API key provided.', expected: OMDbInvalidApiKeyError },
+      { message: 'Request limit reached!', expected: OMDbRequestLimitReachedError },
+      { message: 'Movie not found!', expected: OMDbNotFoundError },
+      { message: 'Series or episode not found!', expected: OMDbNotFoundError },
+      { message: 'Incorrect IMDb ID.', expected: OMDbNotFoundError },
+      { message: 'Too many results.', expected: OMDbTooManyResultsError },
+    ])('GIVEN "$message" WHEN creating the error THEN should return $expected.name', ({ message, expected }) => {
+      // GIVEN & WHEN
+      const error = createOMDbError(message);
+
+      // THEN
+      expect(error).toBeInstanceOf(expected);
+      expect(error).toBeInstanceOf(OMDbError);
+      expect(error.message).toBe(message);
+    });
+
+    it('GIVEN an unrecognised message WHEN creating the error THEN should return a generic OMDbError', () => {
+      // GIVEN
+      const message = 'Error getting data.';
+
+      // WHEN
+      const error = createOMDbError(message);
+
+      // THEN
+      expect(error.constructor).toBe(OMDbError);
+      expect(error.code).toBe('OMDB_ERROR');
+    });
+  });
+
+  describe('isPermanentOMDbError', () => {
+    it('GIVEN a not found error WHEN checking THEN should return true', () => {
+      // GIVEN
+      const error = new OMDbNotFoundError();
+
+      // WHEN
+      const result = isPermanentOMDbError(error);
+
+      // THEN
+      expect(result).toBe(true);
+    });
+
+    it('GIVEN the QueryError made from a request limit error WHEN checking THEN should return true', () => {
+      // GIVEN
+      const error = transformToQueryError(new OMDbRequestLimitReachedError());
+
+      // WHEN
+      const result = isPermanentOMDbError(error);
+
+      // THEN
+      expect(error.code).toBe('OMDB_REQUEST_LIMIT_REACHED');
+      expect(result).toBe(true);
+    });
+
+    it.each([
+      { description: 'a generic OMDb error', error: new OMDbError('Error getting data.') },
+      { description: 'a network error', error: { message: 'Network', status: 0, code: 'NETWORK_ERROR' } },
+      { description: 'null', error: null },
+    ])('GIVEN $description WHEN checking THEN should return false', ({ error }) => {
+      // GIVEN & WHEN
+      const result = isPermanentOMDbError(error);
+
+      // THEN
+      expect(result).toBe(false);
+    });
+  });
+});
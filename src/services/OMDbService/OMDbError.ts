@@ -0,0 +1,84 @@
+import { OMDbErrorCode } from '../../types/omdb.types';
+
+/**
+ * Error reported by OMDb in a `Response: "False"` payload
+ */
+export class OMDbError extends Error {
+  readonly code: OMDbErrorCode;
+
+  constructor(message: string, code: OMDbErrorCode = OMDbErrorCode.UNKNOWN) {
+    super(message);
+    this.name = 'OMDbError';
+    this.code = code;
+  }
+}
+
+/**
+ * The API key is missing or was rejected
+ */
+export class OMDbInvalidApiKeyError extends OMDbError {
+  constructor(message = 'Invalid API key!') {
+    super(message, OMDbErrorCode.INVALID_API_KEY);
+    this.name = 'OMDbInvalidApiKeyError';
+  }
+}
+
+/**
+ * The API key's daily request limit is used up
+ */
+export class OMDbRequestLimitReachedError extends OMDbError {
+  constructor(message = 'Request limit reached!') {
+    super(message, OMDbErrorCode.REQUEST_LIMIT_REACHED);
+    this.name = 'OMDbRequestLimitReachedError';
+  }
+}
+
+/**
+ * No title, series, season or episode matches the request
+ */
+export class OMDbNotFoundError extends OMDbError {
+  constructor(message = 'Movie not found!') {
+    super(message, OMDbErrorCode.NOT_FOUND);
+    this.name = 'OMDbNotFoundError';
+  }
+}
+
+/**
+ * The search term is too short or too broad for OMDb to return results
+ */
+export class OMDbTooManyResultsError extends OMDbError {
+  constructor(message = 'Too many results.') {
+    super(message, OMDbErrorCode.TOO_MANY_RESULTS);
+    this.name = 'OMDbTooManyResultsError';
+  }
+}
+
+/**
+ * Create the OMDbError matching the `Error` text of an OMDb payload
+ * @param message - OMDb's error text, e.g. "Movie not found!"
+ */
+export const createOMDbError = (message: string = 'Unknown OMDb error'): OMDbError => {
+  const text = message.toLowerCase();
+
+  if (text.includes('api key')) return new OMDbInvalidApiKeyError(message);
+  if (text.includes('limit reached')) return new OMDbRequestLimitReachedError(message);
+  if (text.includes('too many results')) return new OMDbTooManyResultsError(message);
+  if (text.includes('not found') || text.includes('incorrect imdb id')) return new OMDbNotFoundError(message);
+  return new OMDbError(message);
+};
+
+// Errors that would fail the same way if the request were sent again
+const PERMANENT_ERROR_CODES = new Set<string>([
+  OMDbErrorCode.INVALID_API_KEY,
+  OMDbErrorCode.REQUEST_LIMIT_REACHED,
+  OMDbErrorCode.NOT_FOUND,
+  OMDbErrorCode.TOO_MANY_RESULTS,
+]);
+
+/**
+ * Check whether an error, or the QueryError made from it, is an OMDb error that retrying can't fix
+ */
+export const isPermanentOMDbError = (error: unknown): boolean => {
+  if (!error || typeof error !== 'object' || !('code' in error)) return false;
+  return PERMANENT_ERROR_CODES.has(String(error.code));
+};
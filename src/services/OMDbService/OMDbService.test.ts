@@ -2,6 +2,14 @@ import { OMDbService } from './OMDb.service';
 import { vi, describe, it, expect, beforeEach, type MockedObject } from 'vitest';
 import { type OMDbConfig, type OMDbSearchParams, type OMDbMovieParams } from '../../types/omdb.types';
 import { ApiService } from '../ApiService';
+import {
+  OMDbError,
+  OMDbInvalidApiKeyError,
+  OMDbNotFoundError,
+  OMDbTooManyResultsError,
+} from './OMDbError';
+import { mockOMDbMovie, mockOMDbSeries, mockOMDbSeasonResponse, mockOMDbEpisode } from '../../__mocks__/testData';
+import { type Movie } from '../../types/movie.types';
 
 // Mock the ApiService
 vi.mock('../ApiService');
@@ -108,7 +116,7 @@ describe('OMDbService', () => {
         s: 'Inception',
         type: 'movie',
         page: 1,
-      });
+      }, undefined);
       expect(result).toEqual(mockResponse.data);
     });
 
@@ -143,11 +151,11 @@ describe('OMDbService', () => {
       expect(mockApiService.get).toHaveBeenCalledWith('/', {
         apikey: mockConfig.apiKey,
         s: 'Batman',
-      });
+      }, undefined);
       expect(result).toEqual(mockResponse.data);
     });
 
-    it('GIVEN a search term that returns no results WHEN searching for movies THEN should return empty results', async () => {
+    it('GIVEN a search term that returns no results WHEN searching for movies THEN should throw OMDbNotFoundError', async () => {
       // GIVEN
       const searchParams: OMDbSearchParams = {
         s: 'NonExistentMovie12345',
@@ -165,11 +173,75 @@ describe('OMDbService', () => {
       mockApiService.get.mockResolvedValue(mockResponse);
 
       // WHEN
-      const result = await omdbService.searchMovies(searchParams);
+      const result = omdbService.searchMovies(searchParams);
 
       // THEN
-      expect(result).toEqual(mockResponse.data);
-      expect(result.Search).toHaveLength(0);
+      await expect(result).rejects.toBeInstanceOf(OMDbNotFoundError);
+      await expect(result).rejects.toMatchObject({ message: 'Movie not found!', code: 'OMDB_NOT_FOUND' });
+    });
+  });
+
+  describe('MovieProvider', () => {
+    it('GIVEN a search WHEN searching through the provider interface THEN should return a page of Movie objects', async () => {
+      // GIVEN
+      const hits = Array.from({ length: 10 }, (_, index) => ({
+        Title: `Batman ${index}`, Year: '1989', imdbID: `tt00${index}`, Type: 'movie' as const, Poster: 'N/A',
+      }));
+      mockApiService.get.mockResolvedValue({
+        data: { Search: hits, totalResults: '25', Response: 'True' },
+        status: 200,
+        success: true,
+      });
+
+      // WHEN
+      const result = await omdbService.search({ query: 'Batman', page: 2, type: 'movie', year: '1989' });
+
+      // THEN
+      expect(mockApiService.get).toHaveBeenCalledWith('/', {
+        apikey: mockConfig.apiKey,
+        s: 'Batman',
+        type: 'movie',
+        y: '1989',
+        page: 2,
+      }, undefined);
+      expect(result.results).toHaveLength(10);
+      expect(result.results[0]).toEqual(expect.objectContaining({ id: 'tt000', title: 'Batman 0' }));
+      expect(result.totalResults).toBe(25);
+      expect(result.hasMore).toBe(true);
+    });
+
+    it('GIVEN the last page WHEN searching through the provider interface THEN should report no more results', async () => {
+      // GIVEN
+      mockApiService.get.mockResolvedValue({
+        data: { Search: [{ Title: 'Batman', Year: '1989', imdbID: 'tt0096895', Type: 'movie', Poster: 'N/A' }], totalResults: '21', Response: 'True' },
+        status: 200,
+        success: true,
+      });
+
+      // WHEN
+      const result = await omdbService.search({ query: 'Batman', page: 3 });
+
+      // THEN
+      expect(result.hasMore).toBe(false);
+    });
+
+    it('GIVEN an IMDb ID WHEN getting the movie summary THEN should return the listing fields as a Movie', async () => {
+      // GIVEN
+      mockApiService.get.mockResolvedValue({ data: mockOMDbMovie, status: 200, success: true });
+
+      // WHEN
+      const result = await omdbService.getMovieSummary('tt1234567', { priority: 'low' });
+
+      // THEN
+      expect(mockApiService.get).toHaveBeenCalledWith('/', {
+        apikey: mockConfig.apiKey,
+        i: 'tt1234567',
+      }, { priority: 'low' });
+      expect(result).toEqual(expect.objectContaining({
+        id: 'tt1234567',
+        vote_average: 7.5,
+        overview: mockOMDbMovie.Plot,
+      }));
     });
   });
 
@@ -224,11 +296,11 @@ describe('OMDbService', () => {
         apikey: mockConfig.apiKey,
         t: 'Inception',
         plot: 'full',
-      });
+      }, undefined);
       expect(result).toEqual(mockResponse.data);
     });
 
-    it('GIVEN a movie title that does not exist WHEN getting movie by title THEN should return error response', async () => {
+    it('GIVEN a movie title that does not exist WHEN getting movie by title THEN should throw OMDbNotFoundError', async () => {
       // GIVEN
       const movieParams: OMDbMovieParams = {
         t: 'NonExistentMovie12345',
@@ -244,11 +316,10 @@ describe('OMDbService', () => {
       mockApiService.get.mockResolvedValue(mockResponse);
 
       // WHEN
-      const result = await omdbService.getMovieByTitle(movieParams);
+      const result = omdbService.getMovieByTitle(movieParams);
 
       // THEN
-      expect(result.Response).toBe('False');
-      expect(result.Error).toBe('Movie not found!');
+      await expect(result).rejects.toBeInstanceOf(OMDbNotFoundError);
     });
   });
 
@@ -280,11 +351,11 @@ describe('OMDbService', () => {
         apikey: mockConfig.apiKey,
         i: 'tt1375666',
         plot: 'short',
-      });
+      }, undefined);
       expect(result).toEqual(mockResponse.data);
     });
 
-    it('GIVEN an invalid IMDb ID WHEN getting movie by ID THEN should return error response', async () => {
+    it('GIVEN an invalid IMDb ID WHEN getting movie by ID THEN should throw OMDbNotFoundError', async () => {
       // GIVEN
       const movieParams: OMDbMovieParams = {
         i: 'invalid-id',
@@ -300,11 +371,210 @@ describe('OMDbService', () => {
       mockApiService.get.mockResolvedValue(mockResponse);
 
       // WHEN
-      const result = await omdbService.getMovieById(movieParams);
+      const result = omdbService.getMovieById(movieParams);
+
+      // THEN
+      await expect(result).rejects.toBeInstanceOf(OMDbNotFoundError);
+      await expect(result).rejects.toMatchObject({ message: 'Incorrect IMDb ID.' });
+    });
+
+    it('GIVEN a valid IMDb ID WHEN getting movie details THEN should request the full plot and return MovieDetails', async () => {
+      // GIVEN
+      mockApiService.get.mockResolvedValue({ data: mockOMDbMovie, status: 200, success: true });
+
+      // WHEN
+      const result = await omdbService.getMovieDetails('tt1234567');
+
+      // THEN
+      expect(mockApiService.get).toHaveBeenCalledWith('/', {
+        apikey: mockConfig.apiKey,
+        i: 'tt1234567',
+        plot: 'full',
+      }, { priority: 'high' });
+      expect(result).toEqual(expect.objectContaining({
+        imdb_id: 'tt1234567',
+        runtime: 120,
+        revenue: 100000000,
+        directors: ['Test Director'],
+        cast: ['Test Actor 1', 'Test Actor 2'],
+        rated: 'PG-13',
+        metascore: 75,
+      }));
+    });
+  });
+
+  describe('Homepage Lists', () => {
+    const searchResponse = {
+      data: {
+        Search: [
+          { Title: 'Low Rated', Year: '2024', imdbID: 'tt0000001', Type: 'movie', Poster: 'N/A' },
+          { Title: 'High Rated', Year: '2024', imdbID: 'tt0000002', Type: 'movie', Poster: 'N/A' },
+        ],
+        totalResults: '2',
+        Response: 'True',
+      },
+      status: 200,
+      success: true,
+    };
+
+    it('GIVEN an enricher WHEN getting top rated movies THEN should rank by the enriched ratings', async () => {
+      // GIVEN
+      mockApiService.get.mockResolvedValue(searchResponse);
+      const ratings: Record<string, number> = { tt0000001: 5.1, tt0000002: 8.4 };
+      const enrich = vi.fn(async (movies: Movie[]) => movies.map((movie) => ({ ...movie, vote_average: ratings[String(movie.id)] })));
+
+      // WHEN
+      const result = await omdbService.getTopRatedMovies({ year: '2024', enrich });
+
+      // THEN
+      expect(enrich).toHaveBeenCalledTimes(1);
+      expect(result.results.map((movie) => movie.title)).toEqual(['High Rated']);
+    });
+
+    it('GIVEN no enricher WHEN getting popular movies THEN should return the search hits as-is', async () => {
+      // GIVEN
+      mockApiService.get.mockResolvedValue(searchResponse);
+
+      // WHEN
+      const result = await omdbService.getPopularMovies({ year: '2024' });
+
+      // THEN
+      expect(result.results.map((movie) => movie.vote_average)).toEqual([0, 0]);
+    });
+  });
+
+  describe('TV Series', () => {
+    it('GIVEN a search term WHEN searching for series THEN should restrict the search to series', async () => {
+      // GIVEN
+      const mockResponse = {
+        data: {
+          Search: [
+            {
+              Title: 'Breaking Bad',
+              Year: '2008–2013',
+              imdbID: 'tt0903747',
+              Type: 'series',
+              Poster: 'https://example.com/poster.jpg',
+            },
+          ],
+          totalResults: '1',
+          Response: 'True',
+        },
+        status: 200,
+        success: true,
+      };
+      mockApiService.get.mockResolvedValue(mockResponse);
+
+      // WHEN
+      const result = await omdbService.searchSeries({ s: 'Breaking Bad', page: 2 });
+
+      // THEN
+      expect(mockApiService.get).toHaveBeenCalledWith('/', {
+        apikey: mockConfig.apiKey,
+        s: 'Breaking Bad',
+        type: 'series',
+        page: 2,
+      }, undefined);
+      expect(result).toEqual(mockResponse.data);
+    });
+
+    it('GIVEN a series ID and season WHEN getting the season THEN should request the season episodes', async () => {
+      // GIVEN
+      mockApiService.get.mockResolvedValue({ data: mockOMDbSeasonResponse, status: 200, success: true });
+
+      // WHEN
+      const result = await omdbService.getSeason({ i: 'tt0903747', Season: 1 });
+
+      // THEN
+      expect(mockApiService.get).toHaveBeenCalledWith('/', {
+        apikey: mockConfig.apiKey,
+        i: 'tt0903747',
+        Season: 1,
+      }, undefined);
+      expect(result).toEqual(mockOMDbSeasonResponse);
+    });
+
+    it('GIVEN a series ID, season and episode WHEN getting the episode THEN should request the single episode', async () => {
+      // GIVEN
+      mockApiService.get.mockResolvedValue({ data: mockOMDbEpisode, status: 200, success: true });
+
+      // WHEN
+      const result = await omdbService.getEpisode({ i: 'tt0903747', Season: 1, Episode: 1 });
+
+      // THEN
+      expect(mockApiService.get).toHaveBeenCalledWith('/', {
+        apikey: mockConfig.apiKey,
+        i: 'tt0903747',
+        Season: 1,
+        Episode: 1,
+      }, undefined);
+      expect(result).toEqual(mockOMDbEpisode);
+    });
+
+    it('GIVEN a series ID WHEN getting TV show details THEN should return the transformed show', async () => {
+      // GIVEN
+      mockApiService.get.mockResolvedValue({ data: mockOMDbSeries, status: 200, success: true });
+
+      // WHEN
+      const result = await omdbService.getTvShowDetails('tt0903747');
+
+      // THEN
+      expect(mockApiService.get).toHaveBeenCalledWith('/', {
+        apikey: mockConfig.apiKey,
+        i: 'tt0903747',
+        plot: 'full',
+      }, { priority: 'high' });
+      expect(result.id).toBe('tt0903747');
+      expect(result.total_seasons).toBe(2);
+    });
+
+    it('GIVEN a series ID and season WHEN getting a TV show season THEN should return the transformed episodes', async () => {
+      // GIVEN
+      mockApiService.get.mockResolvedValue({ data: mockOMDbSeasonResponse, status: 200, success: true });
+
+      // WHEN
+      const result = await omdbService.getTvShowSeason('tt0903747', 1);
+
+      // THEN
+      expect(result.season_number).toBe(1);
+      expect(result.episodes.map((episode) => episode.title)).toEqual(['Pilot', 'Second Episode']);
+    });
+
+    it('GIVEN an unknown season WHEN getting a TV show season THEN should return no episodes', async () => {
+      // GIVEN
+      mockApiService.get.mockResolvedValue({
+        data: { Response: 'False', Error: 'Series or season not found!' },
+        status: 200,
+        success: true,
+      });
+
+      // WHEN
+      const result = await omdbService.getTvShowSeason('tt0903747', 99);
 
       // THEN
-      expect(result.Response).toBe('False');
-      expect(result.Error).toBe('Incorrect IMDb ID.');
+      expect(result.episodes).toEqual([]);
+    });
+
+    it('GIVEN no search results WHEN getting popular TV shows THEN should return an empty list', async () => {
+      // GIVEN
+      mockApiService.get.mockResolvedValue({
+        data: { Response: 'False', Error: 'Movie not found!' },
+        status: 200,
+        success: true,
+      });
+
+      // WHEN
+      const result = await omdbService.getPopularTvShows({ year: '2024' });
+
+      // THEN
+      expect(mockApiService.get).toHaveBeenCalledWith('/', {
+        apikey: mockConfig.apiKey,
+        s: 'series',
+        type: 'series',
+        y: '2024',
+        page: 1,
+      }, undefined);
+      expect(result).toEqual({ results: [] });
     });
   });
 
@@ -337,7 +607,7 @@ describe('OMDbService', () => {
       await expect(omdbService.searchMovies(searchParams)).rejects.toEqual(serverError);
     });
 
-    it('GIVEN an invalid API key WHEN making API request THEN should return error response', async () => {
+    it('GIVEN an invalid API key WHEN making API request THEN should throw OMDbInvalidApiKeyError', async () => {
       // GIVEN
       const searchParams: OMDbSearchParams = { s: 'Inception' };
       const mockResponse = {
@@ -351,16 +621,60 @@ describe('OMDbService', () => {
       mockApiService.get.mockResolvedValue(mockResponse);
 
       // WHEN
-      const result = await omdbService.searchMovies(searchParams);
+      const result = omdbService.searchMovies(searchParams);
+
+      // THEN
+      await expect(result).rejects.toBeInstanceOf(OMDbInvalidApiKeyError);
+    });
+
+    it('GIVEN a 401 response with an OMDb payload WHEN making API request THEN should throw the matching OMDbError', async () => {
+      // GIVEN
+      mockApiService.get.mockRejectedValue({
+        message: 'Request failed with status code 401',
+        status: 401,
+        data: { Response: 'False', Error: 'Request limit reached!' },
+      });
+
+      // WHEN
+      const result = omdbService.searchMovies({ s: 'Inception' });
 
       // THEN
-      expect(result.Response).toBe('False');
-      expect(result.Error).toBe('Invalid API key!');
+      await expect(result).rejects.toMatchObject({ code: 'OMDB_REQUEST_LIMIT_REACHED', message: 'Request limit reached!' });
+    });
+
+    it('GIVEN no search results WHEN getting popular movies THEN should return an empty list', async () => {
+      // GIVEN
+      mockApiService.get.mockResolvedValue({
+        data: { Response: 'False', Error: 'Movie not found!' },
+        status: 200,
+        success: true,
+      });
+
+      // WHEN
+      const result = await omdbService.getPopularMovies({ year: '2024' });
+
+      // THEN
+      expect(result.results).toEqual([]);
+    });
+
+    it('GIVEN an invalid API key WHEN getting popular movies THEN should throw instead of returning an empty list', async () => {
+      // GIVEN
+      mockApiService.get.mockResolvedValue({
+        data: { Response: 'False', Error: 'Invalid API key!' },
+        status: 200,
+        success: true,
+      });
+
+      // WHEN
+      const result = omdbService.getPopularMovies({ year: '2024' });
+
+      // THEN
+      await expect(result).rejects.toBeInstanceOf(OMDbInvalidApiKeyError);
     });
   });
 
   describe('Edge Cases', () => {
-    it('GIVEN empty search term WHEN searching for movies THEN should handle gracefully', async () => {
+    it('GIVEN empty search term WHEN searching for movies THEN should throw a generic OMDbError', async () => {
       // GIVEN
       const searchParams: OMDbSearchParams = { s: '' };
       const mockResponse = {
@@ -374,10 +688,11 @@ describe('OMDbService', () => {
       mockApiService.get.mockResolvedValue(mockResponse);
 
       // WHEN
-      const result = await omdbService.searchMovies(searchParams);
+      const result = omdbService.searchMovies(searchParams);
 
       // THEN
-      expect(result.Response).toBe('False');
+      await expect(result).rejects.toBeInstanceOf(OMDbError);
+      await expect(result).rejects.toMatchObject({ message: 'Something went wrong.', code: 'OMDB_ERROR' });
     });
 
     it('GIVEN special characters in search term WHEN searching for movies THEN should encode properly', async () => {
@@ -401,10 +716,10 @@ describe('OMDbService', () => {
       expect(mockApiService.get).toHaveBeenCalledWith('/', {
         apikey: mockConfig.apiKey,
         s: 'The Lord of the Rings: The Fellowship of the Ring',
-      });
+      }, undefined);
     });
 
-    it('GIVEN very long search term WHEN searching for movies THEN should handle properly', async () => {
+    it('GIVEN very long search term WHEN searching for movies THEN should throw OMDbTooManyResultsError', async () => {
       // GIVEN
       const longTitle = 'A'.repeat(1000);
       const searchParams: OMDbSearchParams = { s: longTitle };
@@ -419,10 +734,10 @@ describe('OMDbService', () => {
       mockApiService.get.mockResolvedValue(mockResponse);
 
       // WHEN
-      const result = await omdbService.searchMovies(searchParams);
+      const result = omdbService.searchMovies(searchParams);
 
       // THEN
-      expect(result.Response).toBe('False');
+      await expect(result).rejects.toBeInstanceOf(OMDbTooManyResultsError);
     });
   });
 
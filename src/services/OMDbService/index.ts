@@ -1,2 +1,10 @@
 export { OMDbService } from './OMDb.service';
-
+export {
+  OMDbError,
+  OMDbInvalidApiKeyError,
+  OMDbRequestLimitReachedError,
+  OMDbNotFoundError,
+  OMDbTooManyResultsError,
+  createOMDbError,
+  isPermanentOMDbError,
+} from './OMDbError';
@@ -0,0 +1,309 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { RequestScheduler, createRequestKey, getSharedScheduler } from './RequestScheduler';
+
+describe('RequestScheduler', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('schedule', () => {
+    it('GIVEN an identical request in flight WHEN scheduling it again THEN should share the first call', async () => {
+      // GIVEN
+      const scheduler = new RequestScheduler();
+      const task = vi.fn().mockResolvedValue('result');
+
+      // WHEN
+      const results = await Promise.all([
+        scheduler.schedule(task, { key: 'GET /?i=tt1' }),
+        scheduler.schedule(task, { key: 'GET /?i=tt1' }),
+      ]);
+
+      // THEN
+      expect(task).toHaveBeenCalledTimes(1);
+      expect(results).toEqual(['result', 'result']);
+    });
+
+    it('GIVEN requests without a key WHEN scheduling them THEN should run each one', async () => {
+      // GIVEN
+      const scheduler = new RequestScheduler();
+      const task = vi.fn().mockResolvedValue('result');
+
+      // WHEN
+      await Promise.all([scheduler.schedule(task), scheduler.schedule(task)]);
+
+      // THEN
+      expect(task).toHaveBeenCalledTimes(2);
+    });
+
+    it('GIVEN a failed request WHEN scheduling it again THEN should retry instead of reusing the failure', async () => {
+      // GIVEN
+      const scheduler = new RequestScheduler();
+      const task = vi.fn()
+        .mockRejectedValueOnce(new Error('Network Error'))
+        .mockResolvedValueOnce('result');
+      await expect(scheduler.schedule(task, { key: 'GET /?i=tt1' })).rejects.toThrow('Network Error');
+
+      // WHEN
+      const result = await scheduler.schedule(task, { key: 'GET /?i=tt1' });
+
+      // THEN
+      expect(task).toHaveBeenCalledTimes(2);
+      expect(result).toBe('result');
+    });
+
+    it('GIVEN a task that throws synchronously WHEN scheduling it THEN should reject', async () => {
+      // GIVEN
+      const scheduler = new RequestScheduler();
+      const task = () => {
+        throw new Error('Boom');
+      };
+
+      // WHEN
+      const result = scheduler.schedule(task);
+
+      // THEN
+      await expect(result).rejects.toThrow('Boom');
+    });
+  });
+
+  describe('rate limit', () => {
+    it('GIVEN an exhausted budget WHEN scheduling more requests THEN should wait for the next window', async () => {
+      // GIVEN
+      const scheduler = new RequestScheduler({ requestsPerSecond: 2 });
+      const task = vi.fn().mockResolvedValue('result');
+
+      // WHEN
+      scheduler.schedule(task);
+      scheduler.schedule(task);
+      scheduler.schedule(task);
+
+      // THEN
+      expect(task).toHaveBeenCalledTimes(2);
+      expect(scheduler.pendingCount).toBe(1);
+
+      await vi.advanceTimersByTimeAsync(1000);
+      expect(task).toHaveBeenCalledTimes(3);
+      expect(scheduler.pendingCount).toBe(0);
+    });
+
+    it('GIVEN queued requests WHEN the budget frees up THEN should start higher priority requests first', async () => {
+      // GIVEN
+      const scheduler = new RequestScheduler({ requestsPerSecond: 1 });
+      const started: string[] = [];
+      const track = (name: string) => () => {
+        started.push(name);
+        return Promise.resolve(name);
+      };
+      scheduler.schedule(track('first'));
+
+      // WHEN
+      scheduler.schedule(track('enrichment'), { priority: 'low' });
+      scheduler.schedule(track('search'));
+      scheduler.schedule(track('details'), { priority: 'high' });
+      await vi.advanceTimersByTimeAsync(3000);
+
+      // THEN
+      expect(started).toEqual(['first', 'details', 'search', 'enrichment']);
+    });
+
+    it('GIVEN a queued low priority request WHEN a high priority caller asks for the same key THEN should promote it', async () => {
+      // GIVEN
+      const scheduler = new RequestScheduler({ requestsPerSecond: 1 });
+      const started: string[] = [];
+      const track = (name: string) => () => {
+        started.push(name);
+        return Promise.resolve(name);
+      };
+      scheduler.schedule(track('first'));
+      scheduler.schedule(track('search'));
+      scheduler.schedule(track('enrichment'), { key: 'GET /?i=tt1', priority: 'low' });
+
+      // WHEN
+      const details = scheduler.schedule(track('details'), { key: 'GET /?i=tt1', priority: 'high' });
+      await vi.advanceTimersByTimeAsync(3000);
+
+      // THEN
+      expect(started).toEqual(['first', 'enrichment', 'search']);
+      await expect(details).resolves.toBe('enrichment');
+    });
+
+    it('GIVEN a queued request WHEN the budget is raised THEN should start it immediately', () => {
+      // GIVEN
+      const scheduler = new RequestScheduler({ requestsPerSecond: 1 });
+      const task = vi.fn().mockResolvedValue('result');
+      scheduler.schedule(task);
+      scheduler.schedule(task);
+
+      // WHEN
+      scheduler.configure({ requestsPerSecond: 2 });
+
+      // THEN
+      expect(task).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('cancellation', () => {
+    const pending = (signal: AbortSignal) =>
+      new Promise<string>((_resolve, reject) => {
+        signal.addEventListener('abort', () => reject(signal.reason));
+      });
+
+    it('GIVEN an aborted signal WHEN scheduling THEN should reject without running the task', async () => {
+      // GIVEN
+      const scheduler = new RequestScheduler();
+      const task = vi.fn().mockResolvedValue('result');
+      const controller = new AbortController();
+      controller.abort(new Error('Cancelled'));
+
+      // WHEN
+      const result = scheduler.schedule(task, { signal: controller.signal });
+
+      // THEN
+      await expect(result).rejects.toThrow('Cancelled');
+      expect(task).not.toHaveBeenCalled();
+    });
+
+    it('GIVEN two callers sharing a request WHEN one aborts THEN should keep the request running for the other', async () => {
+      // GIVEN
+      const scheduler = new RequestScheduler();
+      let resolveTask: (value: string) => void = () => {};
+      let taskSignal: AbortSignal | undefined;
+      const task = vi.fn((signal: AbortSignal) => {
+        taskSignal = signal;
+        return new Promise<string>((resolve) => {
+          resolveTask = resolve;
+        });
+      });
+      const controller = new AbortController();
+      const cancelled = scheduler.schedule(task, { key: 'GET /?i=tt1', signal: controller.signal });
+      const kept = scheduler.schedule(task, { key: 'GET /?i=tt1', signal: new AbortController().signal });
+
+      // WHEN
+      controller.abort(new Error('Cancelled'));
+      resolveTask('result');
+
+      // THEN
+      await expect(cancelled).rejects.toThrow('Cancelled');
+      await expect(kept).resolves.toBe('result');
+      expect(taskSignal?.aborted).toBe(false);
+      expect(task).toHaveBeenCalledTimes(1);
+    });
+
+    it('GIVEN every caller of a running request WHEN they all abort THEN should abort the task', async () => {
+      // GIVEN
+      const scheduler = new RequestScheduler();
+      let taskSignal: AbortSignal | undefined;
+      const task = vi.fn((signal: AbortSignal) => {
+        taskSignal = signal;
+        return pending(signal);
+      });
+      const first = new AbortController();
+      const second = new AbortController();
+      const results = [
+        scheduler.schedule(task, { key: 'GET /?i=tt1', signal: first.signal }),
+        scheduler.schedule(task, { key: 'GET /?i=tt1', signal: second.signal }),
+      ];
+
+      // WHEN
+      first.abort(new Error('Cancelled'));
+      second.abort(new Error('Cancelled'));
+
+      // THEN
+      await expect(Promise.all(results)).rejects.toThrow('Cancelled');
+      expect(taskSignal?.aborted).toBe(true);
+    });
+
+    it('GIVEN a queued request WHEN its caller aborts THEN should drop it from the queue', async () => {
+      // GIVEN
+      const scheduler = new RequestScheduler({ requestsPerSecond: 1 });
+      const task = vi.fn().mockResolvedValue('result');
+      scheduler.schedule(task);
+      const controller = new AbortController();
+      const queued = scheduler.schedule(task, { signal: controller.signal });
+
+      // WHEN
+      controller.abort(new Error('Cancelled'));
+
+      // THEN
+      await expect(queued).rejects.toThrow('Cancelled');
+      await vi.advanceTimersByTimeAsync(1000);
+      expect(task).toHaveBeenCalledTimes(1);
+      expect(scheduler.pendingCount).toBe(0);
+    });
+
+    it('GIVEN an aborted request WHEN the same key is scheduled again THEN should start a fresh request', async () => {
+      // GIVEN
+      const scheduler = new RequestScheduler();
+      const task = vi.fn()
+        .mockImplementationOnce(pending)
+        .mockResolvedValueOnce('result');
+      const controller = new AbortController();
+      const cancelled = scheduler.schedule(task, { key: 'GET /?i=tt1', signal: controller.signal });
+      controller.abort(new Error('Cancelled'));
+      await expect(cancelled).rejects.toThrow('Cancelled');
+
+      // WHEN
+      const result = await scheduler.schedule(task, { key: 'GET /?i=tt1' });
+
+      // THEN
+      expect(task).toHaveBeenCalledTimes(2);
+      expect(result).toBe('result');
+    });
+  });
+});
+
+describe('createRequestKey', () => {
+  it('GIVEN the same params in a different order WHEN creating keys THEN should produce the same key', () => {
+    // GIVEN
+    const first = { s: 'batman', page: 1 };
+    const second = { page: 1, s: 'batman' };
+
+    // WHEN
+    const keys = [createRequestKey('get', '/', first), createRequestKey('GET', '/', second)];
+
+    // THEN
+    expect(keys[0]).toBe('GET /?page=1&s=batman');
+    expect(keys[1]).toBe(keys[0]);
+  });
+
+  it('GIVEN undefined params WHEN creating a key THEN should ignore them', () => {
+    // GIVEN
+    const params = { i: 'tt1', plot: undefined };
+
+    // WHEN
+    const key = createRequestKey('GET', '/', params);
+
+    // THEN
+    expect(key).toBe('GET /?i=tt1');
+  });
+
+  it('GIVEN different methods WHEN creating keys THEN should produce different keys', () => {
+    // GIVEN
+    const params = { i: 'tt1' };
+
+    // WHEN
+    const keys = [createRequestKey('GET', '/', params), createRequestKey('POST', '/', params)];
+
+    // THEN
+    expect(keys[0]).not.toBe(keys[1]);
+  });
+});
+
+describe('getSharedScheduler', () => {
+  it('GIVEN the same scope WHEN getting schedulers THEN should return the same instance', () => {
+    // GIVEN
+    const scope = 'https://shared.example.com';
+
+    // WHEN
+    const first = getSharedScheduler(scope);
+    const second = getSharedScheduler(scope, { requestsPerSecond: 5 });
+
+    // THEN
+    expect(second).toBe(first);
+    expect(getSharedScheduler('https://other.example.com')).not.toBe(first);
+  });
+});
@@ -0,0 +1,251 @@
+import { type RequestPriority } from '../../types/api.types';
+
+const PRIORITY_RANK: Record<RequestPriority, number> = {
+  high: 0,
+  normal: 1,
+  low: 2,
+};
+
+const RATE_WINDOW_MS = 1000;
+
+export interface RequestSchedulerOptions {
+  /** Maximum requests started per second; unlimited when omitted */
+  readonly requestsPerSecond?: number;
+}
+
+export interface ScheduleOptions {
+  /** Identical in-flight requests share one key and one underlying call */
+  readonly key?: string;
+  readonly priority?: RequestPriority;
+  /** Aborts this caller's request; a shared call is only aborted once every caller has aborted */
+  readonly signal?: AbortSignal;
+}
+
+interface QueuedRequest {
+  priority: RequestPriority;
+  readonly sequence: number;
+  readonly start: () => void;
+}
+
+interface ScheduledRequest {
+  readonly promise: Promise<unknown>;
+  readonly controller: AbortController;
+  readonly reject: (reason: unknown) => void;
+  /** Callers still waiting for the result */
+  callers: number;
+  /** Set while the request is still waiting for budget */
+  queued: QueuedRequest | null;
+}
+
+/**
+ * Schedules outgoing requests: coalesces identical in-flight requests,
+ * keeps within a requests-per-second budget and starts higher priority requests first
+ */
+export class RequestScheduler {
+  private requestsPerSecond: number;
+  private queue: QueuedRequest[] = [];
+  private inFlight = new Map<string, ScheduledRequest>();
+  private recentStarts: number[] = [];
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private sequence = 0;
+
+  constructor(options: RequestSchedulerOptions = {}) {
+    this.requestsPerSecond = options.requestsPerSecond ?? Infinity;
+  }
+
+  /**
+   * Schedule a request
+   * @param task - Starts the request; receives a signal that aborts once every caller has aborted
+   * @param options - Dedup key, priority and the caller's abort signal
+   * @returns The task's result, shared with any identical request already in flight.
+   * Rejects with the signal's reason when the caller aborts.
+   */
+  schedule<T>(task: (signal: AbortSignal) => Promise<T>, options: ScheduleOptions = {}): Promise<T> {
+    const { key, priority = 'normal', signal } = options;
+
+    if (signal?.aborted) {
+      return Promise.reject(signal.reason);
+    }
+
+    const existing = key !== undefined ? this.inFlight.get(key) : undefined;
+    if (existing) {
+      // A more urgent caller promotes a request that is still waiting
+      if (existing.queued && PRIORITY_RANK[priority] < PRIORITY_RANK[existing.queued.priority]) {
+        existing.queued.priority = priority;
+      }
+      return this.subscribe(existing as ScheduledRequest & { promise: Promise<T> }, signal);
+    }
+
+    return this.subscribe(this.enqueue(task, priority, key), signal);
+  }
+
+  /**
+   * Update the scheduler options; queued requests are re-evaluated against the new budget
+   */
+  configure(options: RequestSchedulerOptions): void {
+    this.requestsPerSecond = options.requestsPerSecond ?? Infinity;
+    this.drain();
+  }
+
+  /**
+   * Number of requests waiting for budget
+   */
+  get pendingCount(): number {
+    return this.queue.length;
+  }
+
+  private enqueue<T>(
+    task: (signal: AbortSignal) => Promise<T>,
+    priority: RequestPriority,
+    key: string | undefined
+  ): ScheduledRequest & { promise: Promise<T> } {
+    let resolveTask!: (value: T) => void;
+    let rejectTask!: (reason: unknown) => void;
+    const promise = new Promise<T>((resolve, reject) => {
+      resolveTask = resolve;
+      rejectTask = reject;
+    });
+
+    const controller = new AbortController();
+    const request: ScheduledRequest & { promise: Promise<T> } = {
+      promise,
+      controller,
+      reject: rejectTask,
+      callers: 0,
+      queued: null,
+    };
+    request.queued = {
+      priority,
+      sequence: this.sequence++,
+      start: () => {
+        request.queued = null;
+        try {
+          task(controller.signal).then(resolveTask, rejectTask);
+        } catch (error) {
+          rejectTask(error);
+        }
+      },
+    };
+
+    if (key !== undefined) {
+      this.inFlight.set(key, request);
+      // Only release our own entry; an aborted request may already have been replaced
+      const release = () => {
+        if (this.inFlight.get(key) === request) {
+          this.inFlight.delete(key);
+        }
+      };
+      promise.then(release, release);
+    }
+
+    this.queue.push(request.queued);
+    this.drain();
+    return request;
+  }
+
+  // Give a caller its own view of the request, which it can abort without affecting other callers
+  private subscribe<T>(request: ScheduledRequest & { promise: Promise<T> }, signal: AbortSignal | undefined): Promise<T> {
+    request.callers++;
+    if (!signal) {
+      return request.promise;
+    }
+
+    return new Promise<T>((resolve, reject) => {
+      const handleAbort = () => {
+        reject(signal.reason);
+        request.callers--;
+        if (request.callers === 0) {
+          this.abort(request, signal.reason);
+        }
+      };
+
+      signal.addEventListener('abort', handleAbort, { once: true });
+      request.promise
+        .then(resolve, reject)
+        .finally(() => signal.removeEventListener('abort', handleAbort));
+    });
+  }
+
+  // Nobody waits for the request anymore: drop it from the queue or abort it in flight
+  private abort(request: ScheduledRequest, reason: unknown): void {
+    for (const [key, inFlight] of this.inFlight) {
+      if (inFlight === request) {
+        this.inFlight.delete(key);
+      }
+    }
+
+    if (request.queued) {
+      this.queue = this.queue.filter((queued) => queued !== request.queued);
+      request.queued = null;
+      request.reject(reason);
+    }
+    request.controller.abort(reason);
+  }
+
+  private drain(): void {
+    if (this.timer !== null) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+
+    while (this.queue.length > 0) {
+      const now = Date.now();
+      this.recentStarts = this.recentStarts.filter((startedAt) => now - startedAt < RATE_WINDOW_MS);
+
+      if (this.recentStarts.length >= this.requestsPerSecond) {
+        const wait = RATE_WINDOW_MS - (now - this.recentStarts[0]);
+        this.timer = setTimeout(() => this.drain(), wait);
+        return;
+      }
+
+      this.recentStarts.push(now);
+      this.takeNext().start();
+    }
+  }
+
+  // Highest priority first, then first come first served
+  private takeNext(): QueuedRequest {
+    let nextIndex = 0;
+    this.queue.forEach((request, index) => {
+      const next = this.queue[nextIndex];
+      const rankDiff = PRIORITY_RANK[request.priority] - PRIORITY_RANK[next.priority];
+      if (rankDiff < 0 || (rankDiff === 0 && request.sequence < next.sequence)) {
+        nextIndex = index;
+      }
+    });
+    return this.queue.splice(nextIndex, 1)[0];
+  }
+}
+
+/**
+ * Build a dedup key from a request's method, url and params.
+ * Params are sorted so that key order doesn't matter; undefined values are ignored.
+ */
+export const createRequestKey = (method: string, url: string, params: Record<string, unknown> = {}): string => {
+  const serializedParams = Object.keys(params)
+    .filter((name) => params[name] !== undefined)
+    .sort()
+    .map((name) => `${encodeURIComponent(name)}=${encodeURIComponent(String(params[name]))}`)
+    .join('&');
+  return `${method.toUpperCase()} ${url}?${serializedParams}`;
+};
+
+const sharedSchedulers = new Map<string, RequestScheduler>();
+
+/**
+ * Get the scheduler shared by every service talking to the same API,
+ * so the budget and dedup span all service instances
+ * @param scope - Usually the API base URL
+ * @param options - Applied to the shared scheduler
+ */
+export const getSharedScheduler = (scope: string, options: RequestSchedulerOptions = {}): RequestScheduler => {
+  const scheduler = sharedSchedulers.get(scope);
+  if (scheduler) {
+    scheduler.configure(options);
+    return scheduler;
+  }
+
+  const newScheduler = new RequestScheduler(options);
+  sharedSchedulers.set(scope, newScheduler);
+  return newScheduler;
+};
@@ -0,0 +1 @@
+export { RequestScheduler, getSharedScheduler, createRequestKey } from './RequestScheduler';
@@ -1,13 +1,24 @@
-import { describe, it, expect, beforeEach } from 'vitest';
+import { describe, it, expect, beforeEach, vi } from 'vitest';
 import filterSlice, {
   toggleFilter,
   setFilterOpen,
   updateFilters,
   clearFilters,
   setAvailableOptions,
+  savePreset,
+  applyPreset,
+  deletePreset,
   resetFilterState,
+  selectActivePreset,
+  selectActiveFilterCount,
+  selectFilterSummary,
+  selectFilterFacets,
+  selectFilteredMovies,
 } from './filterSlice';
-import { type MovieFilters, type MovieFilterOptions } from '../../../types/movie.types';
+import { type Movie, type MovieFilters, type MovieFilterOptions, type FilterPreset } from '../../../types/movie.types';
+import { type FilterState } from '../../../types/redux.types';
+import { mockMovie } from '../../../__mocks__/testData';
+import { STORAGE_KEYS } from '../../../utils/storageUtils';
 
 describe('Filter Slice', () => {
   const mockInitialState = {
@@ -15,7 +26,11 @@ describe('Filter Slice', () => {
     movieFilters: {
       selectedGenres: [],
       selectedLanguages: [],
-      selectedReleaseYears: [],
+      releaseYearRange: null,
+      selectedDecades: [],
+      minRating: null,
+      runtimeBand: null,
+      selectedContentRatings: [],
       sortBy: 'popularity' as const,
       sortOrder: 'desc' as const,
     },
@@ -24,6 +39,7 @@ describe('Filter Slice', () => {
       languages: [],
       releaseYears: [],
     },
+    presets: [] as FilterPreset[],
   };
 
   const mockGenres = [
@@ -60,7 +76,11 @@ describe('Filter Slice', () => {
       expect(initialState.movieFilters).toEqual({
         selectedGenres: [],
         selectedLanguages: [],
-        selectedReleaseYears: [],
+        releaseYearRange: null,
+        selectedDecades: [],
+        minRating: null,
+        runtimeBand: null,
+        selectedContentRatings: [],
         sortBy: 'popularity',
         sortOrder: 'desc',
       });
@@ -127,7 +147,11 @@ describe('Filter Slice', () => {
       const newFilters: MovieFilters = {
         selectedGenres: [1, 2],
         selectedLanguages: ['en'],
-        selectedReleaseYears: [2023],
+        releaseYearRange: { from: 2020, to: 2023 },
+        selectedDecades: [],
+        minRating: null,
+        runtimeBand: null,
+        selectedContentRatings: [],
         sortBy: 'release_date',
         sortOrder: 'asc',
       };
@@ -146,7 +170,11 @@ describe('Filter Slice', () => {
         movieFilters: {
           selectedGenres: [1],
           selectedLanguages: ['en'],
-          selectedReleaseYears: [2023],
+          releaseYearRange: { from: 2023, to: 2023 },
+          selectedDecades: [2020],
+          minRating: null,
+          runtimeBand: null,
+          selectedContentRatings: [],
           sortBy: 'popularity' as const,
           sortOrder: 'desc' as const,
         },
@@ -162,7 +190,8 @@ describe('Filter Slice', () => {
       // THEN
       expect(newState.movieFilters.selectedGenres).toEqual([1, 2, 3]);
       expect(newState.movieFilters.selectedLanguages).toEqual(['en']);
-      expect(newState.movieFilters.selectedReleaseYears).toEqual([2023]);
+      expect(newState.movieFilters.releaseYearRange).toEqual({ from: 2023, to: 2023 });
+      expect(newState.movieFilters.selectedDecades).toEqual([2020]);
       expect(newState.movieFilters.sortBy).toBe('vote_average');
       expect(newState.movieFilters.sortOrder).toBe('desc');
     });
@@ -176,7 +205,11 @@ describe('Filter Slice', () => {
         movieFilters: {
           selectedGenres: [1, 2, 3],
           selectedLanguages: ['en', 'es'],
-          selectedReleaseYears: [2023, 2022],
+          releaseYearRange: { from: 2022, to: 2023 },
+          selectedDecades: [2020],
+          minRating: null,
+          runtimeBand: null,
+          selectedContentRatings: [],
           sortBy: 'release_date' as const,
           sortOrder: 'asc' as const,
         },
@@ -189,7 +222,11 @@ describe('Filter Slice', () => {
       expect(newState.movieFilters).toEqual({
         selectedGenres: [],
         selectedLanguages: [],
-        selectedReleaseYears: [],
+        releaseYearRange: null,
+        selectedDecades: [],
+        minRating: null,
+        runtimeBand: null,
+        selectedContentRatings: [],
         sortBy: 'popularity',
         sortOrder: 'desc',
       });
@@ -227,6 +264,148 @@ describe('Filter Slice', () => {
     });
   });
 
+  describe('Filter Presets', () => {
+    const actionFilters: MovieFilters = {
+      selectedGenres: [1],
+      selectedLanguages: ['en'],
+      releaseYearRange: null,
+      selectedDecades: [],
+      minRating: null,
+      runtimeBand: null,
+      selectedContentRatings: [],
+      sortBy: 'title',
+      sortOrder: 'asc',
+    };
+
+    const savedPreset: FilterPreset = { id: 'preset-1', name: 'Action', filters: actionFilters, createdAt: 1 };
+
+    it('GIVEN current filters WHEN savePreset is dispatched THEN should save them under the trimmed name', () => {
+      // GIVEN
+      const state = { ...mockInitialState, movieFilters: actionFilters };
+
+      // WHEN
+      const newState = filterSlice(state, savePreset('  Action nights '));
+
+      // THEN
+      expect(newState.presets).toHaveLength(1);
+      expect(newState.presets[0]).toMatchObject({ name: 'Action nights', filters: actionFilters });
+      expect(newState.presets[0].id).toMatch(/^preset-/);
+    });
+
+    it('GIVEN a preset with the same name WHEN savePreset is dispatched THEN should replace its filters', () => {
+      // GIVEN
+      const state = { ...mockInitialState, presets: [savedPreset] };
+
+      // WHEN
+      const newState = filterSlice(state, savePreset('action'));
+
+      // THEN
+      expect(newState.presets).toEqual([{ ...savedPreset, filters: mockInitialState.movieFilters }]);
+    });
+
+    it('GIVEN a blank name WHEN savePreset is dispatched THEN should not save a preset', () => {
+      // GIVEN
+      const state = { ...mockInitialState };
+
+      // WHEN
+      const newState = filterSlice(state, savePreset('   '));
+
+      // THEN
+      expect(newState.presets).toEqual([]);
+    });
+
+    it('GIVEN a saved preset WHEN applyPreset is dispatched THEN should replace the current filters', () => {
+      // GIVEN
+      const state = { ...mockInitialState, presets: [savedPreset] };
+
+      // WHEN
+      const newState = filterSlice(state, applyPreset('preset-1'));
+
+      // THEN
+      expect(newState.movieFilters).toEqual(actionFilters);
+    });
+
+    it('GIVEN an unknown preset id WHEN applyPreset is dispatched THEN should keep the current filters', () => {
+      // GIVEN
+      const state = { ...mockInitialState, presets: [savedPreset] };
+
+      // WHEN
+      const newState = filterSlice(state, applyPreset('missing'));
+
+      // THEN
+      expect(newState.movieFilters).toBe(state.movieFilters);
+    });
+
+    it('GIVEN a saved preset WHEN deletePreset is dispatched THEN should remove it', () => {
+      // GIVEN
+      const state = { ...mockInitialState, presets: [savedPreset] };
+
+      // WHEN
+      const newState = filterSlice(state, deletePreset('preset-1'));
+
+      // THEN
+      expect(newState.presets).toEqual([]);
+    });
+
+    it('GIVEN filters equal to a saved preset WHEN selecting the active preset THEN should return that preset', () => {
+      // GIVEN
+      const state = { filter: { ...mockInitialState, movieFilters: { ...actionFilters }, presets: [savedPreset] } };
+
+      // WHEN
+      const activePreset = selectActivePreset(state);
+
+      // THEN
+      expect(activePreset).toBe(savedPreset);
+      expect(selectActivePreset({ filter: { ...state.filter, movieFilters: mockInitialState.movieFilters } })).toBeNull();
+    });
+
+    it('GIVEN persisted presets WHEN the slice module is loaded THEN should restore them', async () => {
+      // GIVEN
+      window.localStorage.setItem(STORAGE_KEYS.FILTER_PRESETS, JSON.stringify([savedPreset]));
+      vi.resetModules();
+
+      // WHEN
+      const { default: freshReducer } = await import('./filterSlice');
+      const state = freshReducer(undefined, { type: '@@INIT' });
+
+      // THEN
+      expect(state.presets).toEqual([savedPreset]);
+      window.localStorage.clear();
+    });
+
+    it('GIVEN a preset saved with a list of release years WHEN the slice module is loaded THEN should restore it with the range they span', async () => {
+      // GIVEN
+      const legacyPreset = {
+        ...savedPreset,
+        filters: { selectedGenres: [1], selectedLanguages: ['en'], selectedReleaseYears: [1999, 1994], sortBy: 'title', sortOrder: 'asc' },
+      };
+      window.localStorage.setItem(STORAGE_KEYS.FILTER_PRESETS, JSON.stringify([legacyPreset]));
+      vi.resetModules();
+
+      // WHEN
+      const { default: freshReducer } = await import('./filterSlice');
+      const state = freshReducer(undefined, { type: '@@INIT' });
+
+      // THEN
+      expect(state.presets).toEqual([{ ...savedPreset, filters: { ...actionFilters, releaseYearRange: { from: 1994, to: 1999 } } }]);
+      window.localStorage.clear();
+    });
+
+    it('GIVEN corrupted persisted presets WHEN the slice module is loaded THEN should start with none', async () => {
+      // GIVEN
+      window.localStorage.setItem(STORAGE_KEYS.FILTER_PRESETS, JSON.stringify({ name: 'Action' }));
+      vi.resetModules();
+
+      // WHEN
+      const { default: freshReducer } = await import('./filterSlice');
+      const state = freshReducer(undefined, { type: '@@INIT' });
+
+      // THEN
+      expect(state.presets).toEqual([]);
+      window.localStorage.clear();
+    });
+  });
+
   describe('Reset Filter State', () => {
     it('GIVEN any filter state WHEN resetFilterState is dispatched THEN should return to initial state', () => {
       // GIVEN
@@ -235,11 +414,16 @@ describe('Filter Slice', () => {
         movieFilters: {
           selectedGenres: [1, 2, 3],
           selectedLanguages: ['en', 'es'],
-          selectedReleaseYears: [2023, 2022],
+          releaseYearRange: { from: 2022, to: 2023 },
+          selectedDecades: [2020],
+          minRating: null,
+          runtimeBand: null,
+          selectedContentRatings: [],
           sortBy: 'release_date' as const,
           sortOrder: 'asc' as const,
         },
         availableFilterOptions: mockFilterOptions,
+        presets: [],
       };
 
       // WHEN
@@ -248,6 +432,23 @@ describe('Filter Slice', () => {
       // THEN
       expect(newState).toEqual(mockInitialState);
     });
+
+    it('GIVEN saved presets WHEN resetFilterState is dispatched THEN should keep them', () => {
+      // GIVEN
+      const preset: FilterPreset = { id: 'preset-1', name: 'Action', filters: { ...mockInitialState.movieFilters, selectedGenres: [28] }, createdAt: 1 };
+      const state = {
+        ...mockInitialState,
+        isFilterOpen: true,
+        movieFilters: { ...mockInitialState.movieFilters, selectedGenres: [28] },
+        presets: [preset],
+      };
+
+      // WHEN
+      const newState = filterSlice(state, resetFilterState());
+
+      // THEN
+      expect(newState).toEqual({ ...mockInitialState, presets: [preset] });
+    });
   });
 
   describe('Edge Cases', () => {
@@ -269,7 +470,11 @@ describe('Filter Slice', () => {
       const emptyFilters: MovieFilters = {
         selectedGenres: [],
         selectedLanguages: [],
-        selectedReleaseYears: [],
+        releaseYearRange: null,
+        selectedDecades: [],
+        minRating: null,
+        runtimeBand: null,
+        selectedContentRatings: [],
         sortBy: 'title',
         sortOrder: 'asc',
       };
@@ -281,4 +486,86 @@ describe('Filter Slice', () => {
       expect(newState.movieFilters).toEqual(emptyFilters);
     });
   });
+
+  describe('Selectors', () => {
+    const stateWith = (movieFilters: Partial<MovieFilters>): { filter: FilterState } => ({
+      filter: {
+        ...mockInitialState,
+        movieFilters: { ...mockInitialState.movieFilters, ...movieFilters },
+        availableFilterOptions: mockFilterOptions,
+      },
+    });
+
+    const englishMovie: Movie = { ...mockMovie, id: 'tt0000001', title: 'Beta', original_language: 'en', genre_ids: [1] };
+    const spanishMovie: Movie = { ...mockMovie, id: 'tt0000002', title: 'Alpha', original_language: 'es', genre_ids: [2] };
+    const movies = [englishMovie, spanishMovie];
+
+    it('GIVEN selected genres, languages, a year range and decades WHEN selecting the active filter count THEN should count them without the sort', () => {
+      // GIVEN
+      const state = stateWith({ selectedGenres: [1, 2], selectedLanguages: ['en'], releaseYearRange: { from: 2021, to: 2023 }, selectedDecades: [2020], sortBy: 'title' });
+
+      // WHEN
+      const count = selectActiveFilterCount(state);
+
+      // THEN
+      expect(count).toBe(5);
+    });
+
+    it('GIVEN selected options WHEN selecting the filter summary THEN should name them from the available options', () => {
+      // GIVEN
+      const state = stateWith({ selectedGenres: [1], selectedLanguages: ['es'], releaseYearRange: { from: 2021, to: 2023 } });
+
+      // WHEN
+      const summary = selectFilterSummary(state);
+
+      // THEN
+      expect(summary).toBe('Action • Spanish • 2021–2023');
+    });
+
+    it('GIVEN no selections WHEN selecting the filter summary THEN should describe all movies', () => {
+      // GIVEN & WHEN
+      const summary = selectFilterSummary(stateWith({}));
+
+      // THEN
+      expect(summary).toBe('All movies');
+    });
+
+    it('GIVEN a language filter and title sort WHEN selecting filtered movies THEN should filter and sort them', () => {
+      // GIVEN
+      const state = stateWith({ selectedLanguages: ['en', 'es'], sortBy: 'title', sortOrder: 'asc' });
+
+      // WHEN
+      const filtered = selectFilteredMovies(state, movies);
+
+      // THEN
+      expect(filtered.map((movie) => movie.title)).toEqual(['Alpha', 'Beta']);
+    });
+
+    it('GIVEN unchanged filters and movies WHEN selecting filtered movies twice THEN should return the memoized array', () => {
+      // GIVEN
+      const state = stateWith({ selectedLanguages: ['en'] });
+
+      // WHEN
+      const first = selectFilteredMovies(state, movies);
+      const second = selectFilteredMovies(state, movies);
+
+      // THEN
+      expect(first).toEqual([englishMovie]);
+      expect(first).toBe(second);
+    });
+
+    it('GIVEN a language filter WHEN selecting filter facets twice THEN should count languages without it and return the memoized facets', () => {
+      // GIVEN
+      const state = stateWith({ selectedLanguages: ['en'] });
+
+      // WHEN
+      const first = selectFilterFacets(state, movies);
+      const second = selectFilterFacets(state, movies);
+
+      // THEN
+      expect(first.languages).toEqual({ en: 1, es: 1 });
+      expect(first.genres).toEqual({ 1: 1 });
+      expect(first).toBe(second);
+    });
+  });
 });
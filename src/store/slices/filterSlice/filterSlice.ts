@@ -1,23 +1,50 @@
-import { createSlice, type PayloadAction } from '@reduxjs/toolkit';
-import { type MovieFilters, type MovieFilterOptions } from '../../../types/movie.types';
+import { createSlice, createSelector, type PayloadAction } from '@reduxjs/toolkit';
+import { type Movie, type MovieFilters, type MovieFilterOptions, type FilterFacets, type FilterPreset } from '../../../types/movie.types';
+import { type FilterState } from '../../../types/redux.types';
+import {
+  DEFAULT_MOVIE_FILTERS,
+  applyFilters,
+  encodeFiltersToken,
+  getFilterCount,
+  getFilterFacets,
+  getFilterSummary,
+  migrateMovieFilters,
+} from '../../../utils/filterUtils';
+import { loadFromStorage, STORAGE_KEYS } from '../../../utils/storageUtils';
 
 /**
- * Initial state for filter slice
+ * Check that a persisted value is a list of filter presets
  */
-const initialState = {
+const isFilterPresetList = (value: unknown): value is FilterPreset[] =>
+  Array.isArray(value) &&
+  value.every((preset) =>
+    !!preset &&
+    typeof preset.id === 'string' &&
+    typeof preset.name === 'string' &&
+    !!preset.filters &&
+    typeof preset.filters === 'object'
+  );
+
+/**
+ * Generate a unique ID for filter presets
+ */
+const generatePresetId = (): string => {
+  return `preset-${Date.now()}-${Math.random().toString(36).slice(2, 11)}`;
+};
+
+/**
+ * Initial state for filter slice, with saved presets restored from localStorage when available
+ */
+const initialState: FilterState = {
   isFilterOpen: false,
-  movieFilters: {
-    selectedGenres: [] as number[],
-    selectedLanguages: [] as string[],
-    selectedReleaseYears: [] as number[],
-    sortBy: 'popularity' as MovieFilters['sortBy'],
-    sortOrder: 'desc' as MovieFilters['sortOrder'],
-  },
+  movieFilters: DEFAULT_MOVIE_FILTERS,
   availableFilterOptions: {
-    genres: [] as { id: number; name: string }[],
-    languages: [] as { code: string; name: string }[],
-    releaseYears: [] as number[],
+    genres: [],
+    languages: [],
+    releaseYears: [],
   },
+  presets: loadFromStorage(STORAGE_KEYS.FILTER_PRESETS, [], isFilterPresetList)
+    .map((preset) => ({ ...preset, filters: migrateMovieFilters(preset.filters) })),
 };
 
 /**
@@ -52,13 +79,7 @@ const filterSlice = createSlice({
      * Clear all filters
      */
     clearFilters: (state) => {
-      state.movieFilters = {
-        selectedGenres: [],
-        selectedLanguages: [],
-        selectedReleaseYears: [],
-        sortBy: 'popularity',
-        sortOrder: 'desc',
-      };
+      state.movieFilters = DEFAULT_MOVIE_FILTERS;
     },
 
     /**
@@ -69,20 +90,115 @@ const filterSlice = createSlice({
     },
 
     /**
-     * Reset filter state to initial state
+     * Save the current filters under a name, replacing the filters of a preset with the same name
+     */
+    savePreset: {
+      reducer: (state, action: PayloadAction<{ id: string; name: string; createdAt: number }>) => {
+        const { id, name, createdAt } = action.payload;
+        if (!name) return;
+
+        const existing = state.presets.find((preset) => preset.name.toLowerCase() === name.toLowerCase());
+        if (existing) {
+          existing.filters = state.movieFilters;
+        } else {
+          state.presets.push({ id, name, createdAt, filters: state.movieFilters });
+        }
+      },
+      prepare: (name: string) => ({
+        payload: { id: generatePresetId(), name: name.trim(), createdAt: Date.now() },
+      }),
+    },
+
+    /**
+     * Replace the current filters with a saved preset's
+     */
+    applyPreset: (state, action: PayloadAction<FilterPreset['id']>) => {
+      const preset = state.presets.find(({ id }) => id === action.payload);
+      if (preset) {
+        state.movieFilters = preset.filters;
+      }
+    },
+
+    /**
+     * Delete a saved preset by id
+     */
+    deletePreset: (state, action: PayloadAction<FilterPreset['id']>) => {
+      state.presets = state.presets.filter(({ id }) => id !== action.payload);
+    },
+
+    /**
+     * Reset filter state to initial state, keeping the saved presets
      */
-    resetFilterState: () => {
-      return { ...initialState };
+    resetFilterState: (state) => {
+      return { ...initialState, presets: state.presets };
     },
   },
 });
 
+/**
+ * Basic selectors
+ */
+export const selectIsFilterOpen = (state: { filter: FilterState }) => state.filter.isFilterOpen;
+
+export const selectMovieFilters = (state: { filter: FilterState }) => state.filter.movieFilters;
+
+export const selectAvailableFilterOptions = (state: { filter: FilterState }) => state.filter.availableFilterOptions;
+
+export const selectFilterPresets = (state: { filter: FilterState }) => state.filter.presets;
+
+/**
+ * Saved preset whose filters match the current filters, if any
+ */
+export const selectActivePreset = createSelector(
+  [selectMovieFilters, selectFilterPresets],
+  (filters, presets): FilterPreset | null => {
+    const token = encodeFiltersToken(filters);
+    return presets.find((preset) => encodeFiltersToken(preset.filters) === token) ?? null;
+  }
+);
+
+/**
+ * Number of active filter selections, sort options excluded
+ */
+export const selectActiveFilterCount = createSelector(
+  [selectMovieFilters],
+  (filters): number => getFilterCount(filters)
+);
+
+/**
+ * Human-readable summary of the active filters, using the names of the available options
+ */
+export const selectFilterSummary = createSelector(
+  [selectMovieFilters, selectAvailableFilterOptions],
+  (filters, options): string => getFilterSummary(filters, options.genres, options.languages)
+);
+
+/**
+ * Movies that pass the active filters, in the selected sort order.
+ * Movie data lives in React Query, so the movies are passed in; results are memoised per list.
+ */
+export const selectFilteredMovies = createSelector(
+  [selectMovieFilters, (_state: { filter: FilterState }, movies: Movie[]) => movies],
+  (filters, movies): Movie[] => applyFilters(movies, filters)
+);
+
+/**
+ * How many of the given movies each filter option would leave, memoised per list like selectFilteredMovies
+ */
+export const selectFilterFacets = createSelector(
+  [selectMovieFilters, (_state: { filter: FilterState }, movies: Movie[]) => movies],
+  (filters, movies): FilterFacets => getFilterFacets(movies, filters)
+);
+
 export const {
   toggleFilter,
   setFilterOpen,
   updateFilters,
   clearFilters,
   setAvailableOptions,
+  savePreset,
+  applyPreset,
+  deletePreset,
   resetFilterState,
 } = filterSlice.actions;
 
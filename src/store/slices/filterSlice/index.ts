@@ -5,5 +5,17 @@ export {
   updateFilters,
   clearFilters,
   setAvailableOptions,
+  savePreset,
+  applyPreset,
+  deletePreset,
   resetFilterState,
+  selectIsFilterOpen,
+  selectMovieFilters,
+  selectAvailableFilterOptions,
+  selectFilterPresets,
+  selectActivePreset,
+  selectActiveFilterCount,
+  selectFilterSummary,
+  selectFilteredMovies,
+  selectFilterFacets,
 } from './filterSlice';
@@ -1,2 +0,0 @@
-export { default as moviesReducer } from './moviesSlice';
-export * from './moviesSlice';
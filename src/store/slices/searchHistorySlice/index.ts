@@ -0,0 +1,2 @@
+export { default as searchHistoryReducer } from './searchHistorySlice';
+export * from './searchHistorySlice';
@@ -0,0 +1,175 @@
+import { configureStore } from '@reduxjs/toolkit';
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import searchHistoryReducer, {
+  MAX_RECENT_SEARCHES,
+  addRecentSearch,
+  removeRecentSearch,
+  clearRecentSearches,
+  resetSearchHistoryState,
+  selectRecentSearches,
+  selectMatchingRecentSearches,
+} from './searchHistorySlice';
+import { STORAGE_KEYS } from '../../../utils/storageUtils';
+
+describe('Search History Slice', () => {
+  let store: ReturnType<typeof configureStore<{ searchHistory: ReturnType<typeof searchHistoryReducer> }>>;
+
+  beforeEach(() => {
+    store = configureStore({
+      reducer: {
+        searchHistory: searchHistoryReducer,
+      },
+    });
+    store.dispatch(resetSearchHistoryState());
+  });
+
+  describe('Initial State', () => {
+    it('GIVEN an empty storage WHEN search history slice is created THEN should have no recent searches', () => {
+      // GIVEN
+      const initialState = store.getState().searchHistory;
+
+      // WHEN & THEN
+      expect(initialState.recentSearches).toEqual([]);
+    });
+
+    it('GIVEN a persisted history WHEN the slice module is loaded THEN should restore the saved searches', async () => {
+      // GIVEN
+      window.localStorage.setItem(STORAGE_KEYS.SEARCH_HISTORY, JSON.stringify({ recentSearches: ['batman', 'alien'] }));
+      vi.resetModules();
+
+      // WHEN
+      const { default: freshReducer } = await import('./searchHistorySlice');
+      const state = freshReducer(undefined, { type: '@@INIT' });
+
+      // THEN
+      expect(state.recentSearches).toEqual(['batman', 'alien']);
+      window.localStorage.clear();
+    });
+
+    it('GIVEN a corrupted persisted history WHEN the slice module is loaded THEN should start empty', async () => {
+      // GIVEN
+      window.localStorage.setItem(STORAGE_KEYS.SEARCH_HISTORY, JSON.stringify({ recentSearches: ['batman', 42] }));
+      vi.resetModules();
+
+      // WHEN
+      const { default: freshReducer } = await import('./searchHistorySlice');
+      const state = freshReducer(undefined, { type: '@@INIT' });
+
+      // THEN
+      expect(state.recentSearches).toEqual([]);
+      window.localStorage.clear();
+    });
+  });
+
+  describe('addRecentSearch', () => {
+    it('GIVEN earlier searches WHEN adding a search THEN should put it first, trimmed', () => {
+      // GIVEN
+      store.dispatch(addRecentSearch('alien'));
+
+      // WHEN
+      store.dispatch(addRecentSearch('  batman  '));
+
+      // THEN
+      expect(selectRecentSearches(store.getState())).toEqual(['batman', 'alien']);
+    });
+
+    it('GIVEN a search already in the history WHEN adding it again in another case THEN should move it to the top once', () => {
+      // GIVEN
+      store.dispatch(addRecentSearch('batman'));
+      store.dispatch(addRecentSearch('alien'));
+
+      // WHEN
+      store.dispatch(addRecentSearch('Batman'));
+
+      // THEN
+      expect(selectRecentSearches(store.getState())).toEqual(['Batman', 'alien']);
+    });
+
+    it('GIVEN a full history WHEN adding a search THEN should drop the oldest', () => {
+      // GIVEN
+      for (let index = 1; index <= MAX_RECENT_SEARCHES; index++) {
+        store.dispatch(addRecentSearch(`search ${index}`));
+      }
+
+      // WHEN
+      store.dispatch(addRecentSearch('newest'));
+
+      // THEN
+      const recentSearches = selectRecentSearches(store.getState());
+      expect(recentSearches).toHaveLength(MAX_RECENT_SEARCHES);
+      expect(recentSearches[0]).toBe('newest');
+      expect(recentSearches).not.toContain('search 1');
+    });
+
+    it('GIVEN a blank search WHEN adding it THEN should leave the history unchanged', () => {
+      // GIVEN
+      store.dispatch(addRecentSearch('batman'));
+
+      // WHEN
+      store.dispatch(addRecentSearch('   '));
+
+      // THEN
+      expect(selectRecentSearches(store.getState())).toEqual(['batman']);
+    });
+  });
+
+  describe('removeRecentSearch and clearRecentSearches', () => {
+    it('GIVEN recent searches WHEN removing one regardless of case THEN should keep the others', () => {
+      // GIVEN
+      store.dispatch(addRecentSearch('batman'));
+      store.dispatch(addRecentSearch('alien'));
+
+      // WHEN
+      store.dispatch(removeRecentSearch('BATMAN'));
+
+      // THEN
+      expect(selectRecentSearches(store.getState())).toEqual(['alien']);
+    });
+
+    it('GIVEN recent searches WHEN clearing them THEN should empty the history', () => {
+      // GIVEN
+      store.dispatch(addRecentSearch('batman'));
+
+      // WHEN
+      store.dispatch(clearRecentSearches());
+
+      // THEN
+      expect(selectRecentSearches(store.getState())).toEqual([]);
+    });
+  });
+
+  describe('selectMatchingRecentSearches', () => {
+    beforeEach(() => {
+      store.dispatch(addRecentSearch('The Dark Knight'));
+      store.dispatch(addRecentSearch('alien'));
+      store.dispatch(addRecentSearch('Batman Begins'));
+    });
+
+    it.each([
+      { description: 'nothing typed', query: '  ', expected: ['Batman Begins', 'alien', 'The Dark Knight'] },
+      { description: 'part of a title in another case', query: 'KNI', expected: ['The Dark Knight'] },
+      { description: 'text matching nothing', query: 'zz', expected: [] },
+    ])('GIVEN $description WHEN selecting matches THEN should return $expected', ({ query, expected }) => {
+      // GIVEN
+      const state = store.getState();
+
+      // WHEN
+      const matches = selectMatchingRecentSearches(state, query);
+
+      // THEN
+      expect(matches).toEqual(expected);
+    });
+
+    it('GIVEN the same state and query WHEN selecting twice THEN should return the same array', () => {
+      // GIVEN
+      const state = store.getState();
+
+      // WHEN
+      const first = selectMatchingRecentSearches(state, 'bat');
+      const second = selectMatchingRecentSearches(state, 'bat');
+
+      // THEN
+      expect(second).toBe(first);
+    });
+  });
+});
@@ -0,0 +1,97 @@
+import { createSlice, createSelector, type PayloadAction } from '@reduxjs/toolkit';
+import { type SearchHistoryState } from '../../../types/redux.types';
+import { loadFromStorage, STORAGE_KEYS } from '../../../utils/storageUtils';
+
+/**
+ * Most recent searches kept in the history
+ */
+export const MAX_RECENT_SEARCHES = 8;
+
+/**
+ * Check that a persisted value has the search history state shape
+ */
+const isSearchHistoryState = (value: unknown): value is SearchHistoryState => {
+  if (!value || typeof value !== 'object') return false;
+  const { recentSearches } = value as { recentSearches?: unknown };
+  return Array.isArray(recentSearches) && recentSearches.every((query) => typeof query === 'string');
+};
+
+/**
+ * Empty search history state
+ */
+const emptyState: SearchHistoryState = {
+  recentSearches: [],
+};
+
+/**
+ * Initial state for search history slice, restored from localStorage when available
+ */
+const initialState: SearchHistoryState = loadFromStorage(STORAGE_KEYS.SEARCH_HISTORY, emptyState, isSearchHistoryState);
+
+const isSameQuery = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+
+/**
+ * Search history slice
+ */
+const searchHistorySlice = createSlice({
+  name: 'searchHistory',
+  initialState,
+  reducers: {
+    /**
+     * Move a submitted search to the top of the history, dropping the oldest beyond the limit
+     */
+    addRecentSearch: (state, action: PayloadAction<string>) => {
+      const query = action.payload.trim();
+      if (!query) return;
+
+      state.recentSearches = [
+        query,
+        ...state.recentSearches.filter((recent) => !isSameQuery(recent, query)),
+      ].slice(0, MAX_RECENT_SEARCHES);
+    },
+
+    /**
+     * Remove a search from the history
+     */
+    removeRecentSearch: (state, action: PayloadAction<string>) => {
+      state.recentSearches = state.recentSearches.filter((recent) => !isSameQuery(recent, action.payload));
+    },
+
+    /**
+     * Clear the search history
+     */
+    clearRecentSearches: (state) => {
+      state.recentSearches = [];
+    },
+
+    /**
+     * Reset search history state to an empty history
+     */
+    resetSearchHistoryState: () => {
+      return { ...emptyState };
+    },
+  },
+});
+
+/**
+ * Basic selectors
+ */
+export const selectRecentSearches = (state: { searchHistory: SearchHistoryState }) => state.searchHistory.recentSearches;
+
+/**
+ * Recent searches containing the typed text, most recent first; all of them when nothing is typed
+ */
+export const selectMatchingRecentSearches = createSelector(
+  [selectRecentSearches, (_state: { searchHistory: SearchHistoryState }, query: string) => query.trim().toLowerCase()],
+  (recentSearches, query): string[] =>
+    query ? recentSearches.filter((recent) => recent.toLowerCase().includes(query)) : recentSearches
+);
+
+export const {
+  addRecentSearch,
+  removeRecentSearch,
+  clearRecentSearches,
+  resetSearchHistoryState,
+} = searchHistorySlice.actions;
+
+export default searchHistorySlice.reducer;
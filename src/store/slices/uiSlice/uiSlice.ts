@@ -12,19 +12,6 @@ const initialState: UIState = {
   selectedMovie: null,
   isGlobalLoading: false,
   notifications: [],
-  isFilterOpen: false,
-  movieFilters: {
-    selectedGenres: [],
-    selectedLanguages: [],
-    selectedReleaseYears: [],
-    sortBy: 'popularity',
-    sortOrder: 'desc',
-  },
-  availableFilterOptions: {
-    genres: [],
-    languages: [],
-    releaseYears: [],
-  },
 };
 
 /**
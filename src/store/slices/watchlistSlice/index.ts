@@ -0,0 +1,2 @@
+export { default as watchlistReducer } from './watchlistSlice';
+export * from './watchlistSlice';
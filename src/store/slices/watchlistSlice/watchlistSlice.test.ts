@@ -0,0 +1,197 @@
+import { configureStore } from '@reduxjs/toolkit';
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import watchlistReducer, {
+  addToWatchlist,
+  removeFromWatchlist,
+  toggleWatchlist,
+  clearWatchlist,
+  resetWatchlistState,
+  selectIsInWatchlist,
+  selectWatchlistMovies,
+} from './watchlistSlice';
+import { type Movie } from '../../../types/movie.types';
+import { STORAGE_KEYS } from '../../../utils/storageUtils';
+
+describe('Watchlist Slice', () => {
+  let store: ReturnType<typeof configureStore<{ watchlist: ReturnType<typeof watchlistReducer> }>>;
+
+  const mockMovie: Movie = {
+    id: 'tt1234567',
+    title: 'Test Movie',
+    overview: 'Test overview',
+    poster_path: '/movie.jpg',
+    backdrop_path: '/movie_backdrop.jpg',
+    release_date: '2023-01-01',
+    vote_average: 8.5,
+    vote_count: 1000,
+    genre_ids: [],
+    adult: false,
+    original_language: 'en',
+    original_title: 'Test Movie',
+    popularity: 0,
+    video: false,
+  };
+
+  const mockOtherMovie: Movie = {
+    ...mockMovie,
+    id: 'tt7654321',
+    title: 'Other Movie',
+    original_title: 'Other Movie',
+  };
+
+  beforeEach(() => {
+    store = configureStore({
+      reducer: {
+        watchlist: watchlistReducer,
+      },
+    });
+    store.dispatch(resetWatchlistState());
+  });
+
+  describe('Initial State', () => {
+    it('GIVEN an empty storage WHEN watchlist slice is created THEN should have no entries', () => {
+      // GIVEN
+      const initialState = store.getState().watchlist;
+
+      // WHEN & THEN
+      expect(initialState.entries).toEqual({});
+    });
+
+    it('GIVEN a persisted watchlist WHEN the slice module is loaded THEN should restore the saved entries', async () => {
+      // GIVEN
+      window.localStorage.setItem(STORAGE_KEYS.WATCHLIST, JSON.stringify({
+        entries: { [mockMovie.id]: { movie: mockMovie, addedAt: 1 } },
+      }));
+      vi.resetModules();
+
+      // WHEN
+      const { default: freshReducer } = await import('./watchlistSlice');
+      const state = freshReducer(undefined, { type: '@@INIT' });
+
+      // THEN
+      expect(state.entries[mockMovie.id].movie).toEqual(mockMovie);
+      window.localStorage.clear();
+    });
+
+    it('GIVEN a corrupted persisted watchlist WHEN the slice module is loaded THEN should start empty', async () => {
+      // GIVEN
+      window.localStorage.setItem(STORAGE_KEYS.WATCHLIST, JSON.stringify(['tt1234567']));
+      vi.resetModules();
+
+      // WHEN
+      const { default: freshReducer } = await import('./watchlistSlice');
+      const state = freshReducer(undefined, { type: '@@INIT' });
+
+      // THEN
+      expect(state.entries).toEqual({});
+      window.localStorage.clear();
+    });
+  });
+
+  describe('Watchlist Actions', () => {
+    it('GIVEN addToWatchlist action WHEN dispatched THEN should store the movie keyed by IMDb id', () => {
+      // GIVEN
+      const movie = mockMovie;
+
+      // WHEN
+      store.dispatch(addToWatchlist(movie));
+
+      // THEN
+      const entry = store.getState().watchlist.entries['tt1234567'];
+      expect(entry.movie).toEqual(movie);
+      expect(typeof entry.addedAt).toBe('number');
+    });
+
+    it('GIVEN a saved movie WHEN addToWatchlist is dispatched again THEN should keep the original entry', () => {
+      // GIVEN
+      store.dispatch(addToWatchlist(mockMovie));
+      const originalEntry = store.getState().watchlist.entries['tt1234567'];
+
+      // WHEN
+      store.dispatch(addToWatchlist({ ...mockMovie, title: 'Renamed' }));
+
+      // THEN
+      expect(store.getState().watchlist.entries['tt1234567']).toEqual(originalEntry);
+    });
+
+    it('GIVEN a saved movie WHEN removeFromWatchlist is dispatched THEN should remove the entry', () => {
+      // GIVEN
+      store.dispatch(addToWatchlist(mockMovie));
+
+      // WHEN
+      store.dispatch(removeFromWatchlist('tt1234567'));
+
+      // THEN
+      expect(store.getState().watchlist.entries).toEqual({});
+    });
+
+    it('GIVEN toggleWatchlist action WHEN dispatched twice THEN should add and then remove the movie', () => {
+      // GIVEN
+      const movie = mockMovie;
+
+      // WHEN
+      store.dispatch(toggleWatchlist(movie));
+      const afterFirstToggle = store.getState().watchlist.entries;
+      store.dispatch(toggleWatchlist(movie));
+
+      // THEN
+      expect(afterFirstToggle['tt1234567']).toBeDefined();
+      expect(store.getState().watchlist.entries).toEqual({});
+    });
+
+    it('GIVEN several saved movies WHEN clearWatchlist is dispatched THEN should remove every entry', () => {
+      // GIVEN
+      store.dispatch(addToWatchlist(mockMovie));
+      store.dispatch(addToWatchlist(mockOtherMovie));
+
+      // WHEN
+      store.dispatch(clearWatchlist());
+
+      // THEN
+      expect(store.getState().watchlist.entries).toEqual({});
+    });
+  });
+
+  describe('Selectors', () => {
+    it('GIVEN a saved movie WHEN selecting by id THEN should report membership', () => {
+      // GIVEN
+      store.dispatch(addToWatchlist(mockMovie));
+
+      // WHEN
+      const state = store.getState();
+
+      // THEN
+      expect(selectIsInWatchlist(state, 'tt1234567')).toBe(true);
+      expect(selectIsInWatchlist(state, 'tt7654321')).toBe(false);
+    });
+
+    it('GIVEN movies added at different times WHEN selecting movies THEN should return most recent first', () => {
+      // GIVEN
+      const dateSpy = vi.spyOn(Date, 'now');
+      dateSpy.mockReturnValueOnce(1000);
+      store.dispatch(addToWatchlist(mockMovie));
+      dateSpy.mockReturnValueOnce(2000);
+      store.dispatch(addToWatchlist(mockOtherMovie));
+      dateSpy.mockRestore();
+
+      // WHEN
+      const movies = selectWatchlistMovies(store.getState());
+
+      // THEN
+      expect(movies.map((movie) => movie.id)).toEqual(['tt7654321', 'tt1234567']);
+    });
+
+    it('GIVEN an unchanged watchlist WHEN selecting movies twice THEN should return the memoized array', () => {
+      // GIVEN
+      store.dispatch(addToWatchlist(mockMovie));
+      const state = store.getState();
+
+      // WHEN
+      const first = selectWatchlistMovies(state);
+      const second = selectWatchlistMovies(state);
+
+      // THEN
+      expect(first).toBe(second);
+    });
+  });
+});
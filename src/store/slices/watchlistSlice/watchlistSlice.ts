@@ -0,0 +1,115 @@
+import { createSlice, createSelector, type PayloadAction } from '@reduxjs/toolkit';
+import { type WatchlistState } from '../../../types/redux.types';
+import { type Movie } from '../../../types/movie.types';
+import { loadFromStorage, STORAGE_KEYS } from '../../../utils/storageUtils';
+
+/**
+ * Check that a persisted value has the watchlist state shape
+ */
+const isWatchlistState = (value: unknown): value is WatchlistState => {
+  if (!value || typeof value !== 'object') return false;
+  const { entries } = value as { entries?: unknown };
+  return !!entries && typeof entries === 'object' && !Array.isArray(entries);
+};
+
+/**
+ * Empty watchlist state
+ */
+const emptyState: WatchlistState = {
+  entries: {},
+};
+
+/**
+ * Initial state for watchlist slice, restored from localStorage when available
+ */
+const initialState: WatchlistState = loadFromStorage(STORAGE_KEYS.WATCHLIST, emptyState, isWatchlistState);
+
+/**
+ * Watchlist slice
+ */
+const watchlistSlice = createSlice({
+  name: 'watchlist',
+  initialState,
+  reducers: {
+    /**
+     * Add movie to the watchlist
+     */
+    addToWatchlist: {
+      reducer: (state, action: PayloadAction<{ movie: Movie; addedAt: number }>) => {
+        const id = String(action.payload.movie.id);
+        if (!state.entries[id]) {
+          state.entries[id] = action.payload;
+        }
+      },
+      prepare: (movie: Movie) => ({
+        payload: { movie, addedAt: Date.now() },
+      }),
+    },
+
+    /**
+     * Remove movie from the watchlist by IMDb id
+     */
+    removeFromWatchlist: (state, action: PayloadAction<Movie['id']>) => {
+      delete state.entries[String(action.payload)];
+    },
+
+    /**
+     * Add the movie when it is not saved yet, remove it otherwise
+     */
+    toggleWatchlist: {
+      reducer: (state, action: PayloadAction<{ movie: Movie; addedAt: number }>) => {
+        const id = String(action.payload.movie.id);
+        if (state.entries[id]) {
+          delete state.entries[id];
+        } else {
+          state.entries[id] = action.payload;
+        }
+      },
+      prepare: (movie: Movie) => ({
+        payload: { movie, addedAt: Date.now() },
+      }),
+    },
+
+    /**
+     * Clear all saved movies
+     */
+    clearWatchlist: (state) => {
+      state.entries = {};
+    },
+
+    /**
+     * Reset watchlist state to an empty list
+     */
+    resetWatchlistState: () => {
+      return { ...emptyState };
+    },
+  },
+});
+
+/**
+ * Basic selectors
+ */
+export const selectWatchlistEntries = (state: { watchlist: WatchlistState }) => state.watchlist.entries;
+
+export const selectIsInWatchlist = (state: { watchlist: WatchlistState }, movieId: Movie['id']): boolean =>
+  !!state.watchlist.entries[String(movieId)];
+
+/**
+ * Saved movies, most recently added first
+ */
+export const selectWatchlistMovies = createSelector(
+  [selectWatchlistEntries],
+  (entries): Movie[] => Object.values(entries)
+    .sort((a, b) => b.addedAt - a.addedAt)
+    .map((entry) => entry.movie)
+);
+
+export const {
+  addToWatchlist,
+  removeFromWatchlist,
+  toggleWatchlist,
+  clearWatchlist,
+  resetWatchlistState,
+} = watchlistSlice.actions;
+
+export default watchlistSlice.reducer;
@@ -0,0 +1,18 @@
+import { describe, it, expect, expectTypeOf } from 'vitest';
+import { store, type RootState } from './store';
+import { type RootState as DeclaredRootState } from '../types/redux.types';
+
+describe('Store', () => {
+  it('GIVEN the configured store WHEN reading its state THEN should hold the ui, filter, watchlist and search history slices only', () => {
+    // GIVEN & WHEN
+    const state = store.getState();
+
+    // THEN
+    expect(Object.keys(state).sort()).toEqual(['filter', 'searchHistory', 'ui', 'watchlist']);
+  });
+
+  it('GIVEN the inferred store state WHEN comparing types THEN should match the declared RootState', () => {
+    // GIVEN & WHEN & THEN
+    expectTypeOf<RootState>().toEqualTypeOf<DeclaredRootState>();
+  });
+});
@@ -1,17 +1,21 @@
 import { configureStore } from '@reduxjs/toolkit';
 import { useDispatch, useSelector, type TypedUseSelectorHook } from 'react-redux';
-import { moviesReducer } from './slices/moviesSlice';
 import { uiReducer } from './slices/uiSlice';
 import { filterReducer } from './slices/filterSlice';
+import { watchlistReducer } from './slices/watchlistSlice';
+import { searchHistoryReducer } from './slices/searchHistorySlice';
+import { persistOnChange, STORAGE_KEYS } from '../utils/storageUtils';
 
 /**
  * Redux store configuration
+ * Holds client state only; movie data is server state cached by React Query
  */
 export const store = configureStore({
   reducer: {
-    movies: moviesReducer,
     ui: uiReducer,
     filter: filterReducer,
+    watchlist: watchlistReducer,
+    searchHistory: searchHistoryReducer,
   },
   middleware: (getDefaultMiddleware) =>
     getDefaultMiddleware({
@@ -22,6 +26,13 @@ export const store = configureStore({
   devTools: true, // Enable Redux DevTools in development
 });
 
+// Persist the watchlist so saved titles survive reloads
+persistOnChange(store, (state) => state.watchlist, STORAGE_KEYS.WATCHLIST);
+// Persist saved filter presets so they are available in every session
+persistOnChange(store, (state) => state.filter.presets, STORAGE_KEYS.FILTER_PRESETS);
+// Persist recent searches for the search autocomplete
+persistOnChange(store, (state) => state.searchHistory, STORAGE_KEYS.SEARCH_HISTORY);
+
 export type RootState = ReturnType<typeof store.getState>;
 export type AppDispatch = typeof store.dispatch;
 
@@ -18,6 +18,9 @@ export interface BaseError {
 // API-specific error interface
 export interface ApiError extends BaseError {
   status: number; // Required for API errors
+  attempts?: number; // Attempts made before giving up, including the first one
+  retryAfter?: number; // Delay in ms requested by the server's Retry-After header
+  data?: unknown; // Body of the error response, for services that report errors in their own format
 }
 
 // HTTP methods const assertion
@@ -31,6 +34,16 @@ export const HttpMethod = {
 
 export type HttpMethod = typeof HttpMethod[keyof typeof HttpMethod];
 
+// Scheduling priority of a request; higher priorities start first when the rate budget is exhausted
+export type RequestPriority = 'high' | 'normal' | 'low';
+
+// Retry policy for failed requests
+export interface RetryPolicy {
+  readonly retries: number; // Retries after the first attempt
+  readonly baseDelay: number; // Backoff in ms before the first retry, doubled on each further retry
+  readonly maxDelay: number; // Longest single wait in ms; a longer Retry-After stops retrying
+}
+
 // Request configuration interface
 export interface RequestConfig {
   method: HttpMethod;
@@ -39,12 +52,20 @@ export interface RequestConfig {
   params?: Record<string, unknown>;
   data?: unknown;
   timeout?: number;
+  priority?: RequestPriority;
+  retry?: boolean | Partial<RetryPolicy>; // Only GETs are retried by default; false disables, true or a policy enables
+  signal?: AbortSignal; // Cancels the request; it then rejects with a CANCELLED ApiError
 }
 
+// Per-call options accepted by the ApiService shorthand methods
+export type RequestOptions = Pick<RequestConfig, 'headers' | 'timeout' | 'priority' | 'retry' | 'signal'>;
+
 // Base API configuration interface
 export interface BaseApiConfig {
   readonly timeout: number;
   readonly baseURL?: string;
+  readonly requestsPerSecond?: number; // Shared by all services using the same base URL; unlimited when omitted
+  readonly retry?: Partial<RetryPolicy>; // Overrides the default retry policy for this service
 }
 
 // Full API configuration interface with headers
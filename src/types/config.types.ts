@@ -0,0 +1,22 @@
+// Runtime configuration types
+
+// Codes of the configuration errors, kept as `code` on the QueryError they become
+export const ConfigErrorCode = {
+  MISSING_API_KEY: 'CONFIG_MISSING_API_KEY',
+  INVALID_URL: 'CONFIG_INVALID_URL',
+  INVALID_NUMBER: 'CONFIG_INVALID_NUMBER',
+  UNKNOWN_PROVIDER: 'CONFIG_UNKNOWN_PROVIDER',
+} as const;
+
+export type ConfigErrorCode = typeof ConfigErrorCode[keyof typeof ConfigErrorCode];
+
+// Environment variables the API configuration is read from
+export type ConfigVariable =
+  | 'VITE_MOVIE_PROVIDER'
+  | 'VITE_OMDB_API_KEY'
+  | 'VITE_OMDB_BASE_URL'
+  | 'VITE_API_TIMEOUT'
+  | 'VITE_OMDB_REQUESTS_PER_SECOND';
+
+// Raw configuration values as they come from import.meta.env
+export type ConfigEnv = Readonly<Partial<Record<ConfigVariable, string>>>;
@@ -16,9 +16,36 @@ export interface Movie {
   original_title: string;
   popularity: number;
   video: boolean;
+  /** Kind of title as reported by the provider; absent when it doesn't say */
+  type?: 'movie' | 'series' | 'episode';
+  /** Ratings by source on a common 0–10 scale; absent until full details are loaded */
+  ratings?: MovieRating[];
+  /** Runtime in minutes, 0 when unknown; absent until full details are loaded */
+  runtime?: number;
+  /** Content rating such as "PG-13", null when unknown; absent until full details are loaded */
+  rated?: string | null;
 }
 
-export interface MovieDetails extends Movie {
+/**
+ * Review sources OMDb reports ratings for
+ */
+export type RatingSource = 'imdb' | 'rotten_tomatoes' | 'metacritic';
+
+export interface MovieRating {
+  source: RatingSource;
+  /** Rating normalised to a 0–10 scale */
+  value: number;
+  /** Rating as reported by the source, e.g. "87%" or "74/100" */
+  display: string;
+}
+
+/**
+ * Fills in fields OMDb search hits lack (rating, genres, plot) from full title details.
+ * Once the signal aborts, titles not yet started are returned as they are.
+ */
+export type MovieEnricher = (movies: Movie[], signal?: AbortSignal) => Promise<Movie[]>;
+
+export interface MovieDetails extends HeroMovie {
   budget: number;
   genres: Genre[];
   homepage: string;
@@ -30,6 +57,18 @@ export interface MovieDetails extends Movie {
   spoken_languages: SpokenLanguage[];
   status: string;
   tagline: string;
+  directors: string[];
+  writers: Writer[];
+  cast: string[];
+  awards: string | null;
+  rated: string | null;
+  metascore: number | null;
+}
+
+export interface Writer {
+  name: string;
+  /** Contribution noted by OMDb, e.g. "screenplay" or "story" */
+  credit: string | null;
 }
 
 export interface Genre {
@@ -66,6 +105,31 @@ export interface HeroMovie extends Movie {
   tagline?: string;
 }
 
+export interface TvShowDetails extends HeroMovie {
+  total_seasons: number;
+}
+
+export interface Episode {
+  id: string;
+  title: string;
+  season_number: number;
+  episode_number: number;
+  air_date: string;
+  vote_average: number;
+}
+
+export interface EpisodeDetails extends Episode {
+  overview: string;
+  still_path: string | null;
+  runtime: number;
+}
+
+export interface Season {
+  season_number: number;
+  total_seasons: number;
+  episodes: Episode[];
+}
+
 export interface HomePageData {
   heroMovie: HeroMovie | null;
   sections: MovieSection[];
@@ -87,6 +151,10 @@ export interface MovieSectionProps extends BaseComponentProps {
   readonly type: MovieSection['type'];
   /** Callback function called when a movie is clicked */
   readonly onMovieClick?: (movie: Movie) => void;
+  /** Returns whether a movie is saved in the user's watchlist */
+  readonly isInWatchlist?: (movieId: Movie['id']) => boolean;
+  /** Callback function called when a movie's watchlist toggle is clicked */
+  readonly onWatchlistToggle?: (movie: Movie) => void;
 }
 
 export interface HeroSectionProps extends BaseComponentProps {
@@ -96,11 +164,17 @@ export interface HeroSectionProps extends BaseComponentProps {
   readonly onPlayClick?: (movie?: HeroMovie | null) => void;
   /** Callback function called when more info button is clicked */
   readonly onMoreInfoClick?: (movie?: HeroMovie | null) => void;
+  /** Whether the hero movie is saved in the user's watchlist */
+  readonly isInWatchlist?: boolean;
+  /** Callback function called when the watchlist toggle is clicked */
+  readonly onWatchlistToggle?: (movie: HeroMovie) => void;
 }
 
 export interface NavigationProps extends BaseComponentProps {
-  /** Callback function called when search is performed */
+  /** Callback function called with the debounced query while typing */
   readonly onSearch?: (query: string) => void;
+  /** Callback function called when a search is submitted with Enter, the search button or a recent search pick */
+  readonly onSearchSubmit?: (query: string) => void;
   /** Callback function called when search is cleared */
   readonly onClearSearch?: () => void;
   /** Current active section */
@@ -109,6 +183,8 @@ export interface NavigationProps extends BaseComponentProps {
   readonly isSearchActive?: boolean;
   /** Number of search results */
   readonly searchResultCount?: number;
+  /** Per-option counts for the filter options, over the search results */
+  readonly filterFacets?: FilterFacets;
 }
 
 export interface MovieDetailsPageProps {
@@ -128,6 +204,8 @@ export interface MovieDetailsDisplayProps {
   onPlayClick?: (movie: MovieDetails) => void;
   onMoreInfoClick?: (movie: MovieDetails) => void;
   onRetry?: () => void;
+  isInWatchlist?: boolean;
+  onWatchlistToggle?: (movie: MovieDetails) => void;
 }
 
 // ============================================================================
@@ -145,14 +223,67 @@ export interface Language {
   name: string;
 }
 
+/**
+ * Sort key for ordering movies by a single rating source
+ */
+export type RatingSortKey = `rating_${RatingSource}`;
+
+/**
+ * Runtime bands the runtime filter offers: under 90 minutes, 90–150 minutes and over 150 minutes
+ */
+export type RuntimeBand = 'short' | 'medium' | 'long';
+
+/**
+ * Inclusive range of release years
+ */
+export interface YearRange {
+  from: number;
+  to: number;
+}
+
 export interface MovieFilters {
   selectedGenres: number[];
   selectedLanguages: string[];
-  selectedReleaseYears: number[];
-  sortBy: 'popularity' | 'release_date' | 'vote_average' | 'title';
+  /** Release years to keep, null for any year */
+  releaseYearRange: YearRange | null;
+  /** Decades to keep, by their first year (1980 for the 1980s) */
+  selectedDecades: number[];
+  /** Lowest IMDb rating to keep on the 0–10 scale, null for any rating */
+  minRating: number | null;
+  runtimeBand: RuntimeBand | null;
+  /** Content ratings to keep, e.g. "PG-13" */
+  selectedContentRatings: string[];
+  sortBy: 'popularity' | 'release_date' | 'vote_average' | 'title' | RatingSortKey;
   sortOrder: 'asc' | 'desc';
 }
 
+/**
+ * Number of movies left by each option of a filter, by option; options leaving none may be missing
+ */
+export type FacetCounts<K extends string | number> = Readonly<Partial<Record<K, number>>>;
+
+/**
+ * Per-option movie counts for every filter, each counted with all the other active filters applied
+ */
+export interface FilterFacets {
+  genres: FacetCounts<number>;
+  languages: FacetCounts<string>;
+  decades: FacetCounts<number>;
+  minRatings: FacetCounts<number>;
+  runtimeBands: FacetCounts<RuntimeBand>;
+  contentRatings: FacetCounts<string>;
+}
+
+/**
+ * A named set of movie filters saved by the user
+ */
+export interface FilterPreset {
+  id: string;
+  name: string;
+  filters: MovieFilters;
+  createdAt: number;
+}
+
 export interface FilterState {
   isOpen: boolean;
   filters: MovieFilters;
@@ -168,11 +299,30 @@ export interface MovieFilterProps {
   onClearFilters?: () => void;
   onApplyFilters?: () => void;
   resultCount: number;
+  /** Per-option counts; when given, each option shows its count, and options leaving no results are disabled unless selected */
+  facets?: FilterFacets;
+  presets?: FilterPreset[];
+  activePresetId?: string | null;
+  onSavePreset?: (name: string) => void;
+  onApplyPreset?: (presetId: string) => void;
+  onDeletePreset?: (presetId: string) => void;
+  getPresetShareUrl?: (token: string) => string;
+}
+
+export interface FilterPresetPickerProps {
+  presets: FilterPreset[];
+  activePresetId?: string | null;
+  onSavePreset?: (name: string) => void;
+  onApplyPreset?: (presetId: string) => void;
+  onDeletePreset?: (presetId: string) => void;
+  /** Builds the link that opens a preset from its URL token */
+  getShareUrl?: (token: string) => string;
 }
 
 export interface GenreFilterProps {
   genres: Genre[];
   selectedGenres: number[];
+  counts?: FacetCounts<number>;
   onGenreToggle?: (genreId: number) => void;
   onSelectAll?: () => void;
   onClearAll?: () => void;
@@ -181,16 +331,44 @@ export interface GenreFilterProps {
 export interface LanguageFilterProps {
   languages: Language[];
   selectedLanguages: string[];
+  counts?: FacetCounts<string>;
   onLanguageToggle?: (languageCode: string) => void;
   onSelectAll?: () => void;
   onClearAll?: () => void;
 }
 
 export interface YearFilterProps {
+  /** Release years present in the results; their extremes bound the slider */
   years: number[];
-  selectedYears: number[];
-  onYearToggle?: (year: number) => void;
-  onSelectAll?: () => void;
+  yearRange: YearRange | null;
+  selectedDecades: number[];
+  /** Movie counts by decade */
+  decadeCounts?: FacetCounts<number>;
+  /** Called with the new range, or null once it spans every available year */
+  onYearRangeChange?: (range: YearRange | null) => void;
+  onDecadeToggle?: (decade: number) => void;
+  onClearAll?: () => void;
+}
+
+export interface RatingFilterProps {
+  minRating: number | null;
+  counts?: FacetCounts<number>;
+  /** Called with the chosen threshold, or null when the chosen one is picked again */
+  onMinRatingChange?: (minRating: number | null) => void;
+}
+
+export interface RuntimeFilterProps {
+  runtimeBand: RuntimeBand | null;
+  counts?: FacetCounts<RuntimeBand>;
+  /** Called with the chosen band, or null when the chosen one is picked again */
+  onRuntimeBandChange?: (runtimeBand: RuntimeBand | null) => void;
+}
+
+export interface ContentRatingFilterProps {
+  contentRatings: readonly string[];
+  selectedContentRatings: string[];
+  counts?: FacetCounts<string>;
+  onContentRatingToggle?: (contentRating: string) => void;
   onClearAll?: () => void;
 }
 
@@ -208,6 +386,32 @@ export interface FilterButtonProps {
   count?: number;
 }
 
+export interface WatchlistButtonProps {
+  isInWatchlist: boolean;
+  onToggle: () => void;
+  title: string;
+  variant?: 'icon' | 'full';
+  className?: string;
+}
+
+export interface MovieRatingsProps {
+  ratings: MovieRating[];
+  variant?: 'panel' | 'badge';
+  className?: string;
+}
+
+export interface SeasonPickerProps {
+  totalSeasons: number;
+  selectedSeason: number;
+  onSeasonChange: (seasonNumber: number) => void;
+}
+
+export interface EpisodeListProps {
+  episodes: Episode[];
+  selectedEpisode?: number | null;
+  onEpisodeSelect?: (episode: Episode) => void;
+}
+
 export interface FilterDropdownProps {
   isOpen: boolean;
   onClose: () => void;
@@ -222,15 +426,40 @@ export interface FilterSectionProps {
   hasSelection?: boolean;
 }
 
+/**
+ * An entry of the search autocomplete: a recent search, or a title matching the typed text
+ */
+export type SearchSuggestion =
+  | { readonly kind: 'recent'; readonly id: string; readonly label: string }
+  | { readonly kind: 'title'; readonly id: string; readonly label: string; readonly movie: Movie };
+
 export interface SearchResultsProps extends ErrorComponentProps, LoadingComponentProps {
   /** Search query string */
   readonly searchQuery: string;
   /** Movies to display in search results */
   readonly movies?: Movie[];
+  /** Movies left after the current filters are applied; defaults to all the movies */
+  readonly filteredMovies?: Movie[];
   /** Callback function called when a movie is clicked */
   readonly onMovieClick: (movie: Movie) => void;
   /** Callback function called when back to home is clicked */
   readonly onBackToHome: () => void;
-  /** Current movie filters */
+  /** Code of the error, used to explain OMDb errors such as OMDB_NOT_FOUND */
+  readonly errorCode?: string | null;
+  /** Current movie filters, used to explain an empty filtered list */
   readonly filters?: MovieFilters;
+  /** Returns whether a movie is saved in the user's watchlist */
+  readonly isInWatchlist?: (movieId: Movie['id']) => boolean;
+  /** Callback function called when a movie's watchlist toggle is clicked */
+  readonly onWatchlistToggle?: (movie: Movie) => void;
+  /** Total number of results reported by the API across all pages */
+  readonly totalResults?: number;
+  /** Whether further result pages can be loaded */
+  readonly hasMore?: boolean;
+  /** Whether the next result page is currently being loaded */
+  readonly isLoadingMore?: boolean;
+  /** Callback function called to load the next result page */
+  readonly onLoadMore?: () => void;
+  /** Callback function called with the new query when a search token chip is removed */
+  readonly onSearchQueryChange?: (query: string) => void;
 }
@@ -5,6 +5,17 @@ export interface OMDbConfig extends BaseApiConfig {
   readonly apiKey: string | null;
 }
 
+// Codes of the OMDb domain errors, kept as `code` on the QueryError they become
+export const OMDbErrorCode = {
+  INVALID_API_KEY: 'OMDB_INVALID_API_KEY',
+  REQUEST_LIMIT_REACHED: 'OMDB_REQUEST_LIMIT_REACHED',
+  NOT_FOUND: 'OMDB_NOT_FOUND',
+  TOO_MANY_RESULTS: 'OMDB_TOO_MANY_RESULTS',
+  UNKNOWN: 'OMDB_ERROR',
+} as const;
+
+export type OMDbErrorCode = typeof OMDbErrorCode[keyof typeof OMDbErrorCode];
+
 export interface OMDbMovie {
   Title: string;
   Year: string;
@@ -30,6 +41,10 @@ export interface OMDbMovie {
   BoxOffice: string;
   Production: string;
   Website: string;
+  totalSeasons?: string; // Only present for series
+  seriesID?: string; // Only present for episodes
+  Season?: string; // Only present for episodes
+  Episode?: string; // Only present for episodes
   Response: 'True' | 'False';
   Error?: string;
 }
@@ -70,4 +85,29 @@ export interface OMDbMovieParams {
   plot?: 'short' | 'full';
 }
 
+export interface OMDbSeasonParams {
+  i: string; // IMDb ID of the series
+  Season: number;
+}
+
+export interface OMDbEpisodeParams extends OMDbSeasonParams {
+  Episode: number;
+  plot?: 'short' | 'full';
+}
+
+export interface OMDbSeasonEpisode {
+  Title: string;
+  Released: string;
+  Episode: string;
+  imdbRating: string;
+  imdbID: string;
+}
 
+export interface OMDbSeasonResponse {
+  Title: string;
+  Season: string;
+  totalSeasons: string;
+  Episodes: OMDbSeasonEpisode[];
+  Response: 'True' | 'False';
+  Error?: string;
+}
@@ -0,0 +1,50 @@
+import { type RequestOptions } from './api.types';
+import { type Movie, type MovieEnricher, type MovieDetails, type TvShowDetails, type Season, type EpisodeDetails } from './movie.types';
+import { type MovieSearchPage } from './query.types';
+
+// Catalogue backends the app can run against, selected with VITE_MOVIE_PROVIDER
+export const MovieProviderName = {
+  OMDB: 'omdb',
+} as const;
+
+export type MovieProviderName = typeof MovieProviderName[keyof typeof MovieProviderName];
+
+/**
+ * Parameters of a title search
+ */
+export interface ProviderSearchParams {
+  readonly query: string;
+  readonly page?: number;
+  readonly type?: 'movie' | 'series' | 'episode';
+  readonly year?: string;
+}
+
+/**
+ * Parameters of a homepage section (popular, top rated, upcoming)
+ */
+export interface ProviderSectionParams {
+  readonly page?: number;
+  readonly year?: string;
+  /** Fills in fields the provider's listings lack; omitted when listings are already complete */
+  readonly enrich?: MovieEnricher;
+}
+
+/**
+ * A movie catalogue backend. Every method returns the app's own types,
+ * so the query hooks work the same whichever provider is configured.
+ * Failures reject; a provider may reject with its own typed errors.
+ */
+export interface MovieProvider {
+  /** Search titles by text, one page at a time */
+  search(params: ProviderSearchParams, options?: RequestOptions): Promise<MovieSearchPage>;
+  /** Listing fields (ratings, genres, plot) of a single title, used to enrich search results */
+  getMovieSummary(id: string, options?: RequestOptions): Promise<Movie>;
+  getMovieDetails(id: string, options?: RequestOptions): Promise<MovieDetails>;
+  getPopularMovies(params?: ProviderSectionParams, options?: RequestOptions): Promise<{ results: Movie[] }>;
+  getTopRatedMovies(params?: ProviderSectionParams, options?: RequestOptions): Promise<{ results: Movie[] }>;
+  getUpcomingMovies(params?: Omit<ProviderSectionParams, 'year'>, options?: RequestOptions): Promise<{ results: Movie[] }>;
+  getPopularTvShows(params?: Omit<ProviderSectionParams, 'enrich'>, options?: RequestOptions): Promise<{ results: Movie[] }>;
+  getTvShowDetails(id: string, options?: RequestOptions): Promise<TvShowDetails>;
+  getTvShowSeason(id: string, seasonNumber: number, options?: RequestOptions): Promise<Season>;
+  getTvShowEpisode(id: string, seasonNumber: number, episodeNumber: number, options?: RequestOptions): Promise<EpisodeDetails>;
+}
@@ -1,10 +1,10 @@
-import { type Movie, type HeroMovie, type MovieSection } from './movie.types';
-import { type BaseError } from './api.types';
+import { type Movie, type HeroMovie, type MovieDetails, type MovieSection, type TvShowDetails, type Season, type EpisodeDetails } from './movie.types';
+import { type ApiError, type BaseError } from './api.types';
 
 /**
  * React Query specific types
  */
-export type QueryError = BaseError;
+export type QueryError = BaseError & Pick<ApiError, 'attempts'>;
 
 /**
  * Query result wrapper for consistent error handling
@@ -30,19 +30,49 @@ export type HomePageQueryResult = QueryResult<{
  */
 export type MoviesQueryResult = QueryResult<Movie[]>;
 
+/**
+ * A single page of movie search results
+ */
+export interface MovieSearchPage {
+  readonly results: Movie[];
+  readonly totalResults: number;
+  readonly hasMore: boolean;
+}
+
 /**
  * Movie search query result
  */
-export type MovieSearchQueryResult = QueryResult<{
-  results: Movie[];
-  totalResults: number;
-  hasMore: boolean;
-}>;
+export type MovieSearchQueryResult = QueryResult<MovieSearchPage>;
+
+/**
+ * Infinite movie search query result (all loaded pages merged into one)
+ */
+export interface InfiniteMovieSearchQueryResult extends MovieSearchQueryResult {
+  readonly pageCount: number;
+  readonly hasNextPage: boolean;
+  readonly isFetchingNextPage: boolean;
+  readonly fetchNextPage: () => Promise<unknown>;
+}
 
 /**
  * Movie details query result
  */
-export type MovieDetailsQueryResult = QueryResult<HeroMovie>;
+export type MovieDetailsQueryResult = QueryResult<MovieDetails>;
+
+/**
+ * TV show details query result
+ */
+export type TvShowDetailsQueryResult = QueryResult<TvShowDetails>;
+
+/**
+ * TV show season query result
+ */
+export type SeasonQueryResult = QueryResult<Season>;
+
+/**
+ * TV show episode query result
+ */
+export type EpisodeQueryResult = QueryResult<EpisodeDetails>;
 
 /**
  * Base query parameters interface
@@ -75,6 +105,29 @@ export interface MovieSearchParams extends MovieQueryParams {
   readonly region?: string;
 }
 
+/**
+ * A `key:value` token recognised in a search query, e.g. `year:1989` or `type:series`
+ */
+export interface SearchQueryToken {
+  readonly key: 'year' | 'type';
+  /** The token as typed */
+  readonly raw: string;
+  /** Human-readable description, e.g. "Years: 2005–2012" */
+  readonly label: string;
+}
+
+/**
+ * A search query split into free text and the OMDb parameters its tokens set
+ */
+export interface ParsedSearchQuery {
+  /** The query without its tokens, sent to OMDb as the search term */
+  readonly text: string;
+  readonly type?: 'movie' | 'series' | 'episode';
+  /** Inclusive range of release years; a single year has from === to */
+  readonly years?: { readonly from: number; readonly to: number };
+  readonly tokens: readonly SearchQueryToken[];
+}
+
 /**
  * Query parameters for movie details
  */
@@ -1,38 +1,13 @@
-import { type Movie, type HeroMovie, type MovieSection, type MovieFilters, type MovieFilterOptions } from './movie.types';
+import { type Movie, type MovieFilters, type MovieFilterOptions, type FilterPreset } from './movie.types';
 
 /**
  * Root state interface for the Redux store
  */
 export interface RootState {
-  movies: MovieState;
   ui: UIState;
-}
-
-/**
- * Movie-related state interface
- */
-export interface MovieState {
-  // Homepage data
-  heroMovie: HeroMovie | null;
-  sections: MovieSection[];
-  
-  // Search results
-  searchResults: Movie[];
-  searchQuery: string;
-  
-  // Loading states
-  isLoadingHero: boolean;
-  isLoadingSections: boolean;
-  isLoadingSearch: boolean;
-  
-  // Error states
-  heroError: string | null;
-  sectionsError: string | null;
-  searchError: string | null;
-  
-  // Pagination
-  currentPage: number;
-  totalPages: number;
+  filter: FilterState;
+  watchlist: WatchlistState;
+  searchHistory: SearchHistoryState;
 }
 
 /**
@@ -52,52 +27,47 @@ export interface UIState {
   
   // Notifications
   notifications: Notification[];
-  
-  // Filter state
-  isFilterOpen: boolean;
-  movieFilters: MovieFilters;
-  availableFilterOptions: MovieFilterOptions;
 }
 
 /**
- * Notification interface
+ * Filter state interface, the single source of truth for the filter modal and the filters it applies
  */
-export interface Notification {
-  id: string;
-  type: 'success' | 'error' | 'warning' | 'info';
-  message: string;
-  timestamp: number;
-  duration?: number; // in milliseconds, undefined means persistent
+export interface FilterState {
+  isFilterOpen: boolean;
+  movieFilters: MovieFilters;
+  availableFilterOptions: MovieFilterOptions;
+  presets: FilterPreset[];
 }
 
 /**
- * Async thunk status
+ * Saved movie entry in the user's watchlist
  */
-export type AsyncStatus = 'idle' | 'pending' | 'succeeded' | 'failed';
+export interface WatchlistEntry {
+  movie: Movie;
+  addedAt: number;
+}
 
 /**
- * API response wrapper
+ * Watchlist state interface, entries are keyed by IMDb id
  */
-export interface ApiResponse<T> {
-  data: T;
-  status: AsyncStatus;
-  error: string | null;
+export interface WatchlistState {
+  entries: Record<string, WatchlistEntry>;
 }
 
 /**
- * Movie search parameters
+ * Search history state interface, recent searches are most recent first
  */
-export interface MovieSearchParams {
-  query: string;
-  page?: number;
-  year?: string;
+export interface SearchHistoryState {
+  recentSearches: string[];
 }
 
 /**
- * Movie fetch parameters
+ * Notification interface
  */
-export interface MovieFetchParams {
-  page?: number;
-  year?: string;
+export interface Notification {
+  id: string;
+  type: 'success' | 'error' | 'warning' | 'info';
+  message: string;
+  timestamp: number;
+  duration?: number; // in milliseconds, undefined means persistent
 }
-
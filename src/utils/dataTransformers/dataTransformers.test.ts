@@ -3,9 +3,18 @@ import {
   transformOMDbSearchResultToMovie, 
   transformOMDbMovieToMovie, 
   transformOMDbMovieToHeroMovie,
+  transformOMDbMovieToMovieDetails,
+  parseOMDbReleaseDate,
+  parseOMDbRuntime,
+  parseOMDbBoxOffice,
+  parseOMDbWriters,
   transformMoviesToSections,
-  createHomePageData
+  createHomePageData,
+  transformOMDbSeriesToTvShowDetails,
+  transformOMDbSeasonToSeason,
+  transformOMDbEpisodeToEpisodeDetails
 } from './dataTransformers';
+import { mockOMDbMovie, mockOMDbSeries, mockOMDbSeasonResponse, mockOMDbEpisode } from '../../__mocks__/testData';
   import { type OMDbMovie, type OMDbSearchResult } from '../../types/omdb.types';
   import { type Movie, type HeroMovie, type MovieSection, type HomePageData } from '../../types/movie.types';
 
@@ -32,10 +41,11 @@ describe('Data Transformers', () => {
           vote_count: 0,
           genre_ids: [],
           adult: false,
-          original_language: 'en',
+          original_language: '',
           original_title: 'Test Movie',
           popularity: 0,
           video: false,
+          type: 'movie',
         },
       },
       {
@@ -58,10 +68,11 @@ describe('Data Transformers', () => {
           vote_count: 0,
           genre_ids: [],
           adult: false,
-          original_language: 'en',
+          original_language: '',
           original_title: 'Test Movie',
           popularity: 0,
           video: false,
+          type: 'movie',
         },
       },
     ];
@@ -88,7 +99,7 @@ describe('Data Transformers', () => {
           Title: 'Test Movie',
           Year: '2023',
           Rated: 'PG-13',
-          Released: '2023-01-15',
+          Released: '15 Jan 2023',
           Runtime: '120 min',
           Genre: 'Action, Drama',
           Director: 'John Doe',
@@ -123,12 +134,19 @@ describe('Data Transformers', () => {
           release_date: '2023-01-15',
           vote_average: 8.5,
           vote_count: 1000,
-          genre_ids: [],
+          genre_ids: [1, 3],
           adult: false,
           original_language: 'en',
           original_title: 'Test Movie',
           popularity: 0,
           video: false,
+          type: 'movie',
+          ratings: [
+            { source: 'imdb', value: 8.5, display: '8.5/10' },
+            { source: 'rotten_tomatoes', value: 8.5, display: '85%' },
+          ],
+          runtime: 120,
+          rated: 'PG-13',
         },
       },
       {
@@ -171,10 +189,14 @@ describe('Data Transformers', () => {
           vote_count: 0,
           genre_ids: [],
           adult: false,
-          original_language: 'en',
+          original_language: '',
           original_title: 'Test Movie',
           popularity: 0,
           video: false,
+          type: 'movie',
+          ratings: [],
+          runtime: 0,
+          rated: null,
         },
       },
     ];
@@ -191,6 +213,18 @@ describe('Data Transformers', () => {
         expect(movie).toEqual(expectedMovie);
       });
     });
+
+    it('GIVEN an OMDb release date WHEN transforming to Movie THEN should normalise it like the details transformer', () => {
+      // GIVEN
+      const omdbMovie: OMDbMovie = { ...mockOMDbMovie, Released: '16 Jul 2010' };
+
+      // WHEN
+      const movie = transformOMDbMovieToMovie(omdbMovie);
+
+      // THEN
+      expect(movie.release_date).toBe('2010-07-16');
+      expect(movie.release_date).toBe(transformOMDbMovieToMovieDetails(omdbMovie).release_date);
+    });
   });
 
   describe('transformOMDbMovieToHeroMovie', () => {
@@ -240,17 +274,256 @@ describe('Data Transformers', () => {
         release_date: '2023-01-15',
         vote_average: 9.0,
         vote_count: 2000,
-        genre_ids: [],
+        genre_ids: [1, 3],
         adult: false,
         original_language: 'en',
         original_title: 'Hero Movie',
         popularity: 0,
         video: false,
+        ratings: [
+          { source: 'imdb', value: 9, display: '9.0/10' },
+          { source: 'rotten_tomatoes', value: 9, display: '90%' },
+        ],
         tagline: '',
       });
     });
   });
 
+  describe('transformOMDbMovieToMovieDetails', () => {
+    it('GIVEN an OMDb movie WHEN transforming to MovieDetails THEN should resolve its genres from the registry', () => {
+      // GIVEN
+      const omdbMovie: OMDbMovie = { ...mockOMDbMovie, Genre: 'Crime, Drama, Film-Noir', Runtime: '152 min' };
+
+      // WHEN
+      const details = transformOMDbMovieToMovieDetails(omdbMovie);
+
+      // THEN
+      expect(details.genres).toEqual([
+        { id: 12, name: 'Crime' },
+        { id: 3, name: 'Drama' },
+        { id: 15, name: 'Film-Noir' },
+      ]);
+      expect(details.genre_ids).toEqual([12, 3, 15]);
+      expect(details.imdb_id).toBe(omdbMovie.imdbID);
+      expect(details.runtime).toBe(152);
+      expect(details.homepage).toBe(omdbMovie.Website);
+    });
+
+    it('GIVEN an OMDb movie WHEN transforming to MovieDetails THEN should map its languages and countries to ISO codes', () => {
+      // GIVEN
+      const omdbMovie: OMDbMovie = { ...mockOMDbMovie, Language: 'Japanese, English', Country: 'Japan, USA' };
+
+      // WHEN
+      const details = transformOMDbMovieToMovieDetails(omdbMovie);
+
+      // THEN
+      expect(details.original_language).toBe('ja');
+      expect(details.spoken_languages).toEqual([
+        { english_name: 'Japanese', iso_639_1: 'ja', name: 'Japanese' },
+        { english_name: 'English', iso_639_1: 'en', name: 'English' },
+      ]);
+      expect(details.production_countries).toEqual([
+        { iso_3166_1: 'JP', name: 'Japan' },
+        { iso_3166_1: 'US', name: 'United States' },
+      ]);
+    });
+
+    it('GIVEN an OMDb movie without genres WHEN transforming to MovieDetails THEN should return no genres', () => {
+      // GIVEN
+      const omdbMovie: OMDbMovie = { ...mockOMDbMovie, Genre: 'N/A', Website: 'N/A', Runtime: 'N/A' };
+
+      // WHEN
+      const details = transformOMDbMovieToMovieDetails(omdbMovie);
+
+      // THEN
+      expect(details.genres).toEqual([]);
+      expect(details.genre_ids).toEqual([]);
+      expect(details.homepage).toBe('');
+      expect(details.runtime).toBe(0);
+    });
+
+    it('GIVEN an OMDb movie WHEN transforming to MovieDetails THEN should parse its credits, box office and ratings', () => {
+      // GIVEN
+      const omdbMovie: OMDbMovie = {
+        ...mockOMDbMovie,
+        Released: '16 Jul 2010',
+        Runtime: '148 min',
+        BoxOffice: '$292,587,330',
+        Director: 'Christopher Nolan',
+        Writer: 'Christopher Nolan (screenplay), Jonathan Nolan (story)',
+        Actors: 'Leonardo DiCaprio, Joseph Gordon-Levitt, Elliot Page',
+        Awards: 'Won 4 Oscars. 159 wins & 220 nominations total',
+        Rated: 'PG-13',
+        Metascore: '74',
+      };
+
+      // WHEN
+      const details = transformOMDbMovieToMovieDetails(omdbMovie);
+
+      // THEN
+      expect(details).toEqual(expect.objectContaining({
+        release_date: '2010-07-16',
+        runtime: 148,
+        revenue: 292587330,
+        directors: ['Christopher Nolan'],
+        writers: [
+          { name: 'Christopher Nolan', credit: 'screenplay' },
+          { name: 'Jonathan Nolan', credit: 'story' },
+        ],
+        cast: ['Leonardo DiCaprio', 'Joseph Gordon-Levitt', 'Elliot Page'],
+        awards: 'Won 4 Oscars. 159 wins & 220 nominations total',
+        rated: 'PG-13',
+        metascore: 74,
+      }));
+    });
+
+    it('GIVEN an OMDb movie with missing fields WHEN transforming to MovieDetails THEN should leave them empty', () => {
+      // GIVEN
+      const omdbMovie: OMDbMovie = {
+        ...mockOMDbMovie,
+        Released: 'N/A',
+        BoxOffice: 'N/A',
+        Director: 'N/A',
+        Writer: 'N/A',
+        Actors: 'N/A',
+        Awards: 'N/A',
+        Rated: 'N/A',
+        Metascore: 'N/A',
+      };
+
+      // WHEN
+      const details = transformOMDbMovieToMovieDetails(omdbMovie);
+
+      // THEN
+      expect(details).toEqual(expect.objectContaining({
+        release_date: 'N/A',
+        status: 'Unknown',
+        revenue: 0,
+        directors: [],
+        writers: [],
+        cast: [],
+        awards: null,
+        rated: null,
+        metascore: null,
+      }));
+    });
+  });
+
+  describe('OMDb field parsers', () => {
+    const releaseDateTestCases = [
+      { released: '16 Jul 2010', expected: '2010-07-16' },
+      { released: '1 Feb 1999', expected: '1999-02-01' },
+      { released: 'N/A', expected: 'N/A' },
+      { released: '2010', expected: 'N/A' },
+      { released: undefined, expected: 'N/A' },
+    ];
+
+    releaseDateTestCases.forEach(({ released, expected }) => {
+      it(`GIVEN Released "${released}" WHEN parsing THEN should return ${expected}`, () => {
+        // GIVEN
+        // WHEN
+        const result = parseOMDbReleaseDate(released);
+
+        // THEN
+        expect(result).toBe(expected);
+      });
+    });
+
+    it('GIVEN OMDb runtime and box office values WHEN parsing THEN should return numbers', () => {
+      // GIVEN
+      // WHEN
+      // THEN
+      expect(parseOMDbRuntime('142 min')).toBe(142);
+      expect(parseOMDbRuntime('N/A')).toBe(0);
+      expect(parseOMDbBoxOffice('$28,341,469')).toBe(28341469);
+      expect(parseOMDbBoxOffice('N/A')).toBe(0);
+    });
+
+    it('GIVEN writers with and without a credit WHEN parsing THEN should split name and credit', () => {
+      // GIVEN
+      const writers = 'Stephen King (based on the short novel), Frank Darabont (screenplay), Jane Doe';
+
+      // WHEN
+      const result = parseOMDbWriters(writers);
+
+      // THEN
+      expect(result).toEqual([
+        { name: 'Stephen King', credit: 'based on the short novel' },
+        { name: 'Frank Darabont', credit: 'screenplay' },
+        { name: 'Jane Doe', credit: null },
+      ]);
+    });
+  });
+
+  describe('transformOMDbSeriesToTvShowDetails', () => {
+    it('GIVEN an OMDb series WHEN transforming to TvShowDetails THEN should include the season count', () => {
+      // GIVEN
+      const omdbSeries = mockOMDbSeries;
+
+      // WHEN
+      const show = transformOMDbSeriesToTvShowDetails(omdbSeries);
+
+      // THEN
+      expect(show.id).toBe('tt0903747');
+      expect(show.title).toBe('Test Show');
+      expect(show.total_seasons).toBe(2);
+    });
+
+    it('GIVEN an OMDb series without a season count WHEN transforming THEN should default to zero seasons', () => {
+      // GIVEN
+      const omdbSeries: OMDbMovie = { ...mockOMDbSeries, totalSeasons: 'N/A' };
+
+      // WHEN
+      const show = transformOMDbSeriesToTvShowDetails(omdbSeries);
+
+      // THEN
+      expect(show.total_seasons).toBe(0);
+    });
+  });
+
+  describe('transformOMDbSeasonToSeason', () => {
+    it('GIVEN an OMDb season response WHEN transforming to Season THEN should map every episode', () => {
+      // GIVEN
+      const omdbSeason = mockOMDbSeasonResponse;
+
+      // WHEN
+      const season = transformOMDbSeasonToSeason(omdbSeason);
+
+      // THEN
+      expect(season).toEqual({
+        season_number: 1,
+        total_seasons: 2,
+        episodes: [
+          { id: 'tt0959621', title: 'Pilot', season_number: 1, episode_number: 1, air_date: '2008-01-20', vote_average: 9.0 },
+          { id: 'tt1054724', title: 'Second Episode', season_number: 1, episode_number: 2, air_date: '2008-01-27', vote_average: 0 },
+        ],
+      });
+    });
+  });
+
+  describe('transformOMDbEpisodeToEpisodeDetails', () => {
+    it('GIVEN an OMDb episode WHEN transforming to EpisodeDetails THEN should return correct EpisodeDetails object', () => {
+      // GIVEN
+      const omdbEpisode = mockOMDbEpisode;
+
+      // WHEN
+      const episode = transformOMDbEpisodeToEpisodeDetails(omdbEpisode);
+
+      // THEN
+      expect(episode).toEqual({
+        id: 'tt0959621',
+        title: 'Pilot',
+        season_number: 1,
+        episode_number: 1,
+        air_date: '20 Jan 2008',
+        vote_average: 9.0,
+        overview: 'Test episode plot',
+        still_path: '/movie.jpg',
+        runtime: 58,
+      });
+    });
+  });
+
   describe('transformMoviesToSections', () => {
     it('GIVEN arrays of movies WHEN transforming to sections THEN should return correct MovieSection array', () => {
       // GIVEN
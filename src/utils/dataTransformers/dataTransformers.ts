@@ -1,6 +1,20 @@
-import { type OMDbMovie, type OMDbSearchResult } from '../../types/omdb.types';
-import { type Movie, type HeroMovie, type MovieSection, type HomePageData } from '../../types/movie.types';
+import { type OMDbMovie, type OMDbSearchResult, type OMDbSeasonEpisode, type OMDbSeasonResponse } from '../../types/omdb.types';
+import {
+  type Movie,
+  type HeroMovie,
+  type MovieSection,
+  type HomePageData,
+  type TvShowDetails,
+  type Episode,
+  type EpisodeDetails,
+  type Season,
+  type MovieDetails,
+  type Writer,
+} from '../../types/movie.types';
 import { QUERY_CONFIG } from '../queryUtils';
+import { parseGenres, parseGenreIds } from '../genreRegistry';
+import { getPrimaryLanguageCode, parseCountries, parseSpokenLanguages } from '../localeRegistry';
+import { parseOMDbRatings } from '../ratingUtils';
 
 /**
  * Transform OMDb search result to generic Movie type
@@ -17,12 +31,13 @@ export const transformOMDbSearchResultToMovie = (omdbSearchResult: OMDbSearchRes
     release_date: omdbSearchResult.Year ? `${omdbSearchResult.Year}-01-01` : 'N/A',
     vote_average: 0, // Will be updated when we get full details
     vote_count: 0,
-    genre_ids: [], // OMDb doesn't provide genre IDs
+    genre_ids: [], // Search results carry no genre; filled in by detail enrichment
     adult: false,
-    original_language: 'en',
+    original_language: '', // Search results carry no language; filled in by detail enrichment
     original_title: omdbSearchResult.Title,
     popularity: 0,
     video: false,
+    type: omdbSearchResult.Type,
   };
 };
 
@@ -38,15 +53,19 @@ export const transformOMDbMovieToMovie = (omdbMovie: OMDbMovie): Movie => {
     overview: omdbMovie.Plot !== 'N/A' ? omdbMovie.Plot : 'No overview available.',
     poster_path: omdbMovie.Poster !== 'N/A' ? omdbMovie.Poster : '/placeholder-movie.jpg',
     backdrop_path: omdbMovie.Poster !== 'N/A' ? omdbMovie.Poster : '/placeholder-movie.jpg',
-    release_date: omdbMovie.Released !== 'N/A' ? omdbMovie.Released : 'N/A',
+    release_date: parseOMDbReleaseDate(omdbMovie.Released),
     vote_average: omdbMovie.imdbRating !== 'N/A' ? parseFloat(omdbMovie.imdbRating) : 0,
     vote_count: omdbMovie.imdbVotes !== 'N/A' ? parseInt(omdbMovie.imdbVotes.replace(/,/g, '')) : 0,
-    genre_ids: [], // OMDb doesn't provide genre IDs
+    genre_ids: parseGenreIds(omdbMovie.Genre),
     adult: false,
-    original_language: 'en',
+    original_language: getPrimaryLanguageCode(omdbMovie.Language),
     original_title: omdbMovie.Title,
     popularity: 0,
     video: false,
+    type: omdbMovie.Type,
+    ratings: parseOMDbRatings(omdbMovie.Ratings),
+    runtime: parseOMDbRuntime(omdbMovie.Runtime),
+    rated: parseOMDbText(omdbMovie.Rated),
   };
 };
 
@@ -65,16 +84,178 @@ export const transformOMDbMovieToHeroMovie = (omdbMovie: OMDbMovie): HeroMovie =
     release_date: omdbMovie.Released !== 'N/A' ? omdbMovie.Released : 'N/A',
     vote_average: omdbMovie.imdbRating !== 'N/A' ? parseFloat(omdbMovie.imdbRating) : 0,
     vote_count: omdbMovie.imdbVotes !== 'N/A' ? parseInt(omdbMovie.imdbVotes.replace(/,/g, '')) : 0,
-    genre_ids: [], // OMDb doesn't provide genre IDs
+    genre_ids: parseGenreIds(omdbMovie.Genre),
     adult: false,
-    original_language: 'en',
+    original_language: getPrimaryLanguageCode(omdbMovie.Language),
     original_title: omdbMovie.Title,
     popularity: 0,
     video: false,
+    ratings: parseOMDbRatings(omdbMovie.Ratings),
     tagline: '', // OMDb doesn't provide tagline
   };
 };
 
+const OMDB_MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+// OMDb uses 'N/A' for any missing text field
+const parseOMDbText = (value: string | undefined): string | null => {
+  return value && value !== 'N/A' ? value.trim() : null;
+};
+
+// Split a comma separated OMDb list ("Actor One, Actor Two") into names
+const parseOMDbList = (value: string | undefined): string[] => {
+  const text = parseOMDbText(value);
+  return text ? text.split(',').map((item) => item.trim()).filter(Boolean) : [];
+};
+
+/**
+ * Parse an OMDb Released date ("16 Jul 2010") into an ISO date ("2010-07-16")
+ * @param released - OMDb Released value
+ * @returns ISO date, or 'N/A' when the date is missing or unrecognised
+ */
+export const parseOMDbReleaseDate = (released: string | undefined): string => {
+  const match = /^(\d{1,2}) ([A-Za-z]{3}) (\d{4})$/.exec(released?.trim() ?? '');
+  const monthIndex = match ? OMDB_MONTHS.indexOf(match[2]) : -1;
+  if (!match || monthIndex === -1) {
+    return 'N/A';
+  }
+
+  const month = String(monthIndex + 1).padStart(2, '0');
+  return `${match[3]}-${month}-${match[1].padStart(2, '0')}`;
+};
+
+/**
+ * Parse an OMDb Runtime ("142 min") into minutes
+ * @param runtime - OMDb Runtime value
+ * @returns Runtime in minutes, or 0 when unknown
+ */
+export const parseOMDbRuntime = (runtime: string | undefined): number => {
+  return parseInt(runtime ?? '', 10) || 0;
+};
+
+/**
+ * Parse an OMDb BoxOffice amount ("$292,587,330") into a number
+ * @param boxOffice - OMDb BoxOffice value
+ * @returns Amount in US dollars, or 0 when unknown
+ */
+export const parseOMDbBoxOffice = (boxOffice: string | undefined): number => {
+  return parseInt((boxOffice ?? '').replace(/[^\d]/g, ''), 10) || 0;
+};
+
+/**
+ * Parse an OMDb Writer list, keeping the contribution noted in brackets
+ * ("Jonathan Nolan (story)") as the writer's credit
+ * @param writers - OMDb Writer value
+ * @returns Writers in credit order
+ */
+export const parseOMDbWriters = (writers: string | undefined): Writer[] => {
+  return parseOMDbList(writers).map((writer) => {
+    const match = /^(.+?)\s*\((.+)\)$/.exec(writer);
+    return match ? { name: match[1], credit: match[2] } : { name: writer, credit: null };
+  });
+};
+
+/**
+ * Transform OMDb movie to MovieDetails type
+ * @param omdbMovie - OMDb movie object
+ * @returns Transformed MovieDetails object
+ */
+export const transformOMDbMovieToMovieDetails = (omdbMovie: OMDbMovie): MovieDetails => {
+  const heroMovie = transformOMDbMovieToHeroMovie(omdbMovie);
+  const releaseDate = parseOMDbReleaseDate(omdbMovie.Released);
+  const metascore = parseInt(omdbMovie.Metascore, 10);
+
+  return {
+    ...heroMovie,
+    release_date: releaseDate !== 'N/A' ? releaseDate : heroMovie.release_date,
+    genres: parseGenres(omdbMovie.Genre),
+    imdb_id: omdbMovie.imdbID,
+    homepage: parseOMDbText(omdbMovie.Website) ?? '',
+    budget: 0, // OMDb doesn't provide budget
+    revenue: parseOMDbBoxOffice(omdbMovie.BoxOffice),
+    runtime: parseOMDbRuntime(omdbMovie.Runtime),
+    production_companies: [],
+    production_countries: parseCountries(omdbMovie.Country),
+    spoken_languages: parseSpokenLanguages(omdbMovie.Language),
+    status: omdbMovie.Released !== 'N/A' ? 'Released' : 'Unknown',
+    tagline: '', // OMDb doesn't provide tagline
+    directors: parseOMDbList(omdbMovie.Director),
+    writers: parseOMDbWriters(omdbMovie.Writer),
+    cast: parseOMDbList(omdbMovie.Actors),
+    awards: parseOMDbText(omdbMovie.Awards),
+    rated: parseOMDbText(omdbMovie.Rated),
+    metascore: Number.isNaN(metascore) ? null : metascore,
+  };
+};
+
+/**
+ * Transform OMDb series to TvShowDetails type
+ * @param omdbSeries - OMDb movie object with Type 'series'
+ * @returns Transformed TvShowDetails object
+ */
+export const transformOMDbSeriesToTvShowDetails = (omdbSeries: OMDbMovie): TvShowDetails => {
+  const totalSeasons = parseInt(omdbSeries.totalSeasons ?? '', 10);
+  return {
+    ...transformOMDbMovieToHeroMovie(omdbSeries),
+    total_seasons: Number.isNaN(totalSeasons) ? 0 : totalSeasons,
+  };
+};
+
+/**
+ * Transform an OMDb season episode entry to Episode type
+ * @param omdbEpisode - Episode entry from an OMDb season response
+ * @param seasonNumber - Season the episode belongs to
+ * @returns Transformed Episode object
+ */
+export const transformOMDbSeasonEpisodeToEpisode = (
+  omdbEpisode: OMDbSeasonEpisode,
+  seasonNumber: number
+): Episode => {
+  return {
+    id: omdbEpisode.imdbID,
+    title: omdbEpisode.Title,
+    season_number: seasonNumber,
+    episode_number: parseInt(omdbEpisode.Episode, 10) || 0,
+    air_date: omdbEpisode.Released !== 'N/A' ? omdbEpisode.Released : 'N/A',
+    vote_average: omdbEpisode.imdbRating !== 'N/A' ? parseFloat(omdbEpisode.imdbRating) : 0,
+  };
+};
+
+/**
+ * Transform OMDb season response to Season type
+ * @param omdbSeason - OMDb season response object
+ * @returns Transformed Season object
+ */
+export const transformOMDbSeasonToSeason = (omdbSeason: OMDbSeasonResponse): Season => {
+  const seasonNumber = parseInt(omdbSeason.Season, 10) || 0;
+  return {
+    season_number: seasonNumber,
+    total_seasons: parseInt(omdbSeason.totalSeasons, 10) || 0,
+    episodes: (omdbSeason.Episodes ?? []).map((episode) =>
+      transformOMDbSeasonEpisodeToEpisode(episode, seasonNumber)
+    ),
+  };
+};
+
+/**
+ * Transform OMDb episode to EpisodeDetails type
+ * @param omdbEpisode - OMDb movie object with Type 'episode'
+ * @returns Transformed EpisodeDetails object
+ */
+export const transformOMDbEpisodeToEpisodeDetails = (omdbEpisode: OMDbMovie): EpisodeDetails => {
+  return {
+    id: omdbEpisode.imdbID,
+    title: omdbEpisode.Title,
+    season_number: parseInt(omdbEpisode.Season ?? '', 10) || 0,
+    episode_number: parseInt(omdbEpisode.Episode ?? '', 10) || 0,
+    air_date: omdbEpisode.Released !== 'N/A' ? omdbEpisode.Released : 'N/A',
+    vote_average: omdbEpisode.imdbRating !== 'N/A' ? parseFloat(omdbEpisode.imdbRating) : 0,
+    overview: omdbEpisode.Plot !== 'N/A' ? omdbEpisode.Plot : 'No overview available.',
+    still_path: omdbEpisode.Poster !== 'N/A' ? omdbEpisode.Poster : null,
+    runtime: parseInt(omdbEpisode.Runtime, 10) || 0,
+  };
+};
+
 /**
  * Transform arrays of movies into movie sections
  * @param popularMovies - Array of popular movies
@@ -8,6 +8,18 @@ import {
   getFilteredMovieCount,
   hasActiveFilters,
   getFilterSummary,
+  getDefaultFilterOptions,
+  encodeFiltersToken,
+  decodeFiltersToken,
+  getAvailableDecades,
+  getYearRangeSpanning,
+  formatYearRange,
+  migrateMovieFilters,
+  getRuntimeBand,
+  getFilterCount,
+  getFilterFacets,
+  formatResultCount,
+  DEFAULT_MOVIE_FILTERS,
 } from './filterUtils';
 import { type Movie, type MovieFilters, type Genre, type Language } from '../../types/movie.types';
 
@@ -82,7 +94,11 @@ describe('Filter Utils', () => {
       const filters: MovieFilters = {
         selectedGenres: [],
         selectedLanguages: [],
-        selectedReleaseYears: [],
+        releaseYearRange: null,
+        selectedDecades: [],
+        minRating: null,
+        runtimeBand: null,
+        selectedContentRatings: [],
         sortBy: 'popularity',
         sortOrder: 'desc',
       };
@@ -99,7 +115,11 @@ describe('Filter Utils', () => {
       const filters: MovieFilters = {
         selectedGenres: [1], // Action
         selectedLanguages: [],
-        selectedReleaseYears: [],
+        releaseYearRange: null,
+        selectedDecades: [],
+        minRating: null,
+        runtimeBand: null,
+        selectedContentRatings: [],
         sortBy: 'popularity',
         sortOrder: 'desc',
       };
@@ -117,7 +137,11 @@ describe('Filter Utils', () => {
       const filters: MovieFilters = {
         selectedGenres: [],
         selectedLanguages: ['en'],
-        selectedReleaseYears: [],
+        releaseYearRange: null,
+        selectedDecades: [],
+        minRating: null,
+        runtimeBand: null,
+        selectedContentRatings: [],
         sortBy: 'popularity',
         sortOrder: 'desc',
       };
@@ -130,12 +154,16 @@ describe('Filter Utils', () => {
       expect(result[0].id).toBe('1');
     });
 
-    it('GIVEN movies and year filter WHEN filterMovies is called THEN should return movies matching selected years', () => {
+    it('GIVEN movies and year range filter WHEN filterMovies is called THEN should return movies released within the range', () => {
       // GIVEN
       const filters: MovieFilters = {
         selectedGenres: [],
         selectedLanguages: [],
-        selectedReleaseYears: [2023],
+        releaseYearRange: { from: 2023, to: 2025 },
+        selectedDecades: [],
+        minRating: null,
+        runtimeBand: null,
+        selectedContentRatings: [],
         sortBy: 'popularity',
         sortOrder: 'desc',
       };
@@ -153,7 +181,11 @@ describe('Filter Utils', () => {
       const filters: MovieFilters = {
         selectedGenres: [2], // Comedy
         selectedLanguages: ['es'],
-        selectedReleaseYears: [2022],
+        releaseYearRange: { from: 2022, to: 2022 },
+        selectedDecades: [2020],
+        minRating: null,
+        runtimeBand: null,
+        selectedContentRatings: [],
         sortBy: 'popularity',
         sortOrder: 'desc',
       };
@@ -166,12 +198,88 @@ describe('Filter Utils', () => {
       expect(result[0].id).toBe('2');
     });
 
+    it('GIVEN movies and decade filter WHEN filterMovies is called THEN should return movies released in the selected decades', () => {
+      // GIVEN
+      const oldMovie: Movie = { ...mockMovies[0], id: '4', release_date: '1994-05-01' };
+      const filters: MovieFilters = { ...DEFAULT_MOVIE_FILTERS, selectedDecades: [1990] };
+
+      // WHEN
+      const result = filterMovies([...mockMovies, oldMovie], filters);
+
+      // THEN
+      expect(result.map((movie) => movie.id)).toEqual(['4']);
+    });
+
+    it('GIVEN a movie without a release date and a year range WHEN filterMovies is called THEN should leave it out', () => {
+      // GIVEN
+      const undatedMovie: Movie = { ...mockMovies[0], id: '4', release_date: '' };
+      const filters: MovieFilters = { ...DEFAULT_MOVIE_FILTERS, releaseYearRange: { from: 1900, to: 2100 } };
+
+      // WHEN
+      const result = filterMovies([undatedMovie, ...mockMovies], filters);
+
+      // THEN
+      expect(result.map((movie) => movie.id)).toEqual(['1', '2', '3']);
+    });
+
+    it('GIVEN movies and a minimum rating WHEN filterMovies is called THEN should return rated movies at or above it', () => {
+      // GIVEN
+      const unratedMovie: Movie = { ...mockMovies[0], id: '4', vote_average: 0 };
+      const filters: MovieFilters = { ...DEFAULT_MOVIE_FILTERS, minRating: 8 };
+
+      // WHEN
+      const result = filterMovies([...mockMovies, unratedMovie], filters);
+
+      // THEN
+      expect(result.map((movie) => movie.id)).toEqual(['1', '3']);
+      expect(filterMovies([unratedMovie], { ...filters, minRating: 5 })).toEqual([]);
+    });
+
+    it('GIVEN movies with details and a runtime band WHEN filterMovies is called THEN should return movies whose runtime falls in it', () => {
+      // GIVEN
+      const movies: Movie[] = [
+        { ...mockMovies[0], id: 'short', runtime: 85 },
+        { ...mockMovies[0], id: 'medium', runtime: 150 },
+        { ...mockMovies[0], id: 'long', runtime: 151 },
+        { ...mockMovies[0], id: 'unknown', runtime: 0 },
+        { ...mockMovies[0], id: 'not-loaded' },
+      ];
+      const filters: MovieFilters = { ...DEFAULT_MOVIE_FILTERS, runtimeBand: 'medium' };
+
+      // WHEN
+      const result = filterMovies(movies, filters);
+
+      // THEN
+      expect(result.map((movie) => movie.id)).toEqual(['medium']);
+    });
+
+    it('GIVEN movies with details and content ratings WHEN filterMovies is called THEN should return movies rated with one of them', () => {
+      // GIVEN
+      const movies: Movie[] = [
+        { ...mockMovies[0], id: 'pg', rated: 'PG' },
+        { ...mockMovies[0], id: 'r', rated: 'R' },
+        { ...mockMovies[0], id: 'pg-13', rated: 'PG-13' },
+        { ...mockMovies[0], id: 'unrated', rated: null },
+      ];
+      const filters: MovieFilters = { ...DEFAULT_MOVIE_FILTERS, selectedContentRatings: ['PG', 'PG-13'] };
+
+      // WHEN
+      const result = filterMovies(movies, filters);
+
+      // THEN
+      expect(result.map((movie) => movie.id)).toEqual(['pg', 'pg-13']);
+    });
+
     it('GIVEN movies and filters with no matches WHEN filterMovies is called THEN should return empty array', () => {
       // GIVEN
       const filters: MovieFilters = {
         selectedGenres: [999], // Non-existent genre
         selectedLanguages: [],
-        selectedReleaseYears: [],
+        releaseYearRange: null,
+        selectedDecades: [],
+        minRating: null,
+        runtimeBand: null,
+        selectedContentRatings: [],
         sortBy: 'popularity',
         sortOrder: 'desc',
       };
@@ -190,7 +298,11 @@ describe('Filter Utils', () => {
       const filters: MovieFilters = {
         selectedGenres: [],
         selectedLanguages: [],
-        selectedReleaseYears: [],
+        releaseYearRange: null,
+        selectedDecades: [],
+        minRating: null,
+        runtimeBand: null,
+        selectedContentRatings: [],
         sortBy: 'popularity',
         sortOrder: 'desc',
       };
@@ -209,7 +321,11 @@ describe('Filter Utils', () => {
       const filters: MovieFilters = {
         selectedGenres: [],
         selectedLanguages: [],
-        selectedReleaseYears: [],
+        releaseYearRange: null,
+        selectedDecades: [],
+        minRating: null,
+        runtimeBand: null,
+        selectedContentRatings: [],
         sortBy: 'popularity',
         sortOrder: 'asc',
       };
@@ -228,7 +344,11 @@ describe('Filter Utils', () => {
       const filters: MovieFilters = {
         selectedGenres: [],
         selectedLanguages: [],
-        selectedReleaseYears: [],
+        releaseYearRange: null,
+        selectedDecades: [],
+        minRating: null,
+        runtimeBand: null,
+        selectedContentRatings: [],
         sortBy: 'vote_average',
         sortOrder: 'desc',
       };
@@ -247,7 +367,11 @@ describe('Filter Utils', () => {
       const filters: MovieFilters = {
         selectedGenres: [],
         selectedLanguages: [],
-        selectedReleaseYears: [],
+        releaseYearRange: null,
+        selectedDecades: [],
+        minRating: null,
+        runtimeBand: null,
+        selectedContentRatings: [],
         sortBy: 'release_date',
         sortOrder: 'desc',
       };
@@ -266,7 +390,11 @@ describe('Filter Utils', () => {
       const filters: MovieFilters = {
         selectedGenres: [],
         selectedLanguages: [],
-        selectedReleaseYears: [],
+        releaseYearRange: null,
+        selectedDecades: [],
+        minRating: null,
+        runtimeBand: null,
+        selectedContentRatings: [],
         sortBy: 'title',
         sortOrder: 'asc',
       };
@@ -279,6 +407,34 @@ describe('Filter Utils', () => {
       expect(result[1].title).toBe('Comedy Movie');
       expect(result[2].title).toBe('Drama Movie');
     });
+
+    const ratedMovies: Movie[] = [
+      { ...mockMovies[0], ratings: [{ source: 'rotten_tomatoes', value: 6.2, display: '62%' }] },
+      { ...mockMovies[1], ratings: [{ source: 'imdb', value: 9.1, display: '9.1/10' }] },
+      { ...mockMovies[2], ratings: [{ source: 'rotten_tomatoes', value: 9.4, display: '94%' }] },
+    ];
+
+    it('GIVEN movies and a rating source sort WHEN sortMovies is called THEN should sort by that source with unrated movies last', () => {
+      // GIVEN
+      const filters: Pick<MovieFilters, 'sortBy' | 'sortOrder'> = { sortBy: 'rating_rotten_tomatoes', sortOrder: 'desc' };
+
+      // WHEN
+      const result = sortMovies(ratedMovies, filters);
+
+      // THEN
+      expect(result.map((movie) => movie.id)).toEqual([ratedMovies[2].id, ratedMovies[0].id, ratedMovies[1].id]);
+    });
+
+    it('GIVEN movies and an ascending rating source sort WHEN sortMovies is called THEN should still keep unrated movies last', () => {
+      // GIVEN
+      const filters: Pick<MovieFilters, 'sortBy' | 'sortOrder'> = { sortBy: 'rating_rotten_tomatoes', sortOrder: 'asc' };
+
+      // WHEN
+      const result = sortMovies(ratedMovies, filters);
+
+      // THEN
+      expect(result.map((movie) => movie.id)).toEqual([ratedMovies[0].id, ratedMovies[2].id, ratedMovies[1].id]);
+    });
   });
 
   describe('Get Available Genres', () => {
@@ -306,6 +462,40 @@ describe('Filter Utils', () => {
     });
   });
 
+  describe('Get Default Filter Options', () => {
+    it('GIVEN movies with registry genre ids WHEN getDefaultFilterOptions is called THEN should name them from the genre registry', () => {
+      // GIVEN
+      const movies = [{ ...mockMovies[0], genre_ids: [12, 21] }];
+
+      // WHEN
+      const result = getDefaultFilterOptions(movies);
+
+      // THEN
+      expect(result.genres).toEqual([
+        { id: 12, name: 'Crime' },
+        { id: 21, name: 'War' },
+      ]);
+    });
+
+    it('GIVEN movies in several languages WHEN getDefaultFilterOptions is called THEN should list exactly those languages', () => {
+      // GIVEN
+      const movies = [
+        { ...mockMovies[0], original_language: 'ko' },
+        { ...mockMovies[1], original_language: 'en' },
+        { ...mockMovies[2], original_language: '' },
+      ];
+
+      // WHEN
+      const result = getDefaultFilterOptions(movies);
+
+      // THEN
+      expect(result.languages).toEqual([
+        { code: 'en', name: 'English' },
+        { code: 'ko', name: 'Korean' },
+      ]);
+    });
+  });
+
   describe('Get Available Languages', () => {
     it('GIVEN movies WHEN getAvailableLanguages is called THEN should return unique languages from movies', () => {
       // GIVEN
@@ -356,13 +546,160 @@ describe('Filter Utils', () => {
     });
   });
 
+  describe('Year Ranges and Decades', () => {
+    it('GIVEN years in any order WHEN getYearRangeSpanning is called THEN should return the earliest and latest', () => {
+      // GIVEN & WHEN
+      const range = getYearRangeSpanning([2001, 1987, 1999]);
+
+      // THEN
+      expect(range).toEqual({ from: 1987, to: 2001 });
+      expect(getYearRangeSpanning([])).toBeNull();
+    });
+
+    it('GIVEN years across decades WHEN getAvailableDecades is called THEN should return each decade once, oldest first', () => {
+      // GIVEN & WHEN
+      const decades = getAvailableDecades([2023, 1987, 2020, 1999, 1980]);
+
+      // THEN
+      expect(decades).toEqual([1980, 1990, 2020]);
+    });
+
+    it.each([
+      { range: { from: 1990, to: 1999 }, expected: '1990–1999' },
+      { range: { from: 2023, to: 2023 }, expected: '2023' },
+    ])('GIVEN the range $range.from to $range.to WHEN formatYearRange is called THEN should return $expected', ({ range, expected }) => {
+      // GIVEN & WHEN
+      const result = formatYearRange(range);
+
+      // THEN
+      expect(result).toBe(expected);
+    });
+
+    it('GIVEN filters saved with a list of release years WHEN migrateMovieFilters is called THEN should use the range they span', () => {
+      // GIVEN
+      const savedFilters = { selectedGenres: [1], selectedReleaseYears: [2001, 1997] };
+
+      // WHEN
+      const filters = migrateMovieFilters(savedFilters);
+
+      // THEN
+      expect(filters).toEqual({ ...DEFAULT_MOVIE_FILTERS, selectedGenres: [1], releaseYearRange: { from: 1997, to: 2001 } });
+    });
+
+    it('GIVEN current filters WHEN migrateMovieFilters is called THEN should keep them as they are', () => {
+      // GIVEN
+      const savedFilters: MovieFilters = { ...DEFAULT_MOVIE_FILTERS, releaseYearRange: { from: 1980, to: 1985 }, selectedDecades: [1980] };
+
+      // WHEN
+      const filters = migrateMovieFilters(savedFilters);
+
+      // THEN
+      expect(filters).toEqual(savedFilters);
+    });
+  });
+
+  describe('Runtime Bands', () => {
+    it.each([
+      { runtime: 89, expected: 'short' },
+      { runtime: 90, expected: 'medium' },
+      { runtime: 150, expected: 'medium' },
+      { runtime: 151, expected: 'long' },
+      { runtime: 0, expected: null },
+      { runtime: undefined, expected: null },
+    ])('GIVEN a runtime of $runtime WHEN getRuntimeBand is called THEN should return $expected', ({ runtime, expected }) => {
+      // GIVEN & WHEN
+      const band = getRuntimeBand(runtime);
+
+      // THEN
+      expect(band).toBe(expected);
+    });
+  });
+
+  describe('Get Filter Count', () => {
+    it('GIVEN every kind of filter WHEN getFilterCount is called THEN should count list selections and one per single-choice filter', () => {
+      // GIVEN
+      const filters: MovieFilters = {
+        ...DEFAULT_MOVIE_FILTERS,
+        selectedGenres: [1, 2],
+        releaseYearRange: { from: 1990, to: 1999 },
+        minRating: 7,
+        runtimeBand: 'short',
+        selectedContentRatings: ['PG', 'R'],
+        sortBy: 'title',
+      };
+
+      // WHEN
+      const count = getFilterCount(filters);
+
+      // THEN
+      expect(count).toBe(7);
+    });
+  });
+
+  describe('Get Filter Facets', () => {
+    const facetMovies: Movie[] = [
+      { ...mockMovies[0], id: 'a', genre_ids: [1, 2], original_language: 'en', release_date: '1994-03-01', vote_average: 8.1, runtime: 142, rated: 'R' },
+      { ...mockMovies[0], id: 'b', genre_ids: [1], original_language: 'fr', release_date: '2001-06-01', vote_average: 6.5, runtime: 85, rated: 'PG' },
+      { ...mockMovies[0], id: 'c', genre_ids: [3], original_language: 'en', release_date: '2008-07-18', vote_average: 9, runtime: 152, rated: 'PG-13' },
+      { ...mockMovies[0], id: 'd', genre_ids: [2], original_language: 'en', release_date: 'N/A', vote_average: 0 },
+    ];
+
+    it('GIVEN no active filters WHEN getFilterFacets is called THEN should count every option over all movies', () => {
+      // GIVEN & WHEN
+      const facets = getFilterFacets(facetMovies, DEFAULT_MOVIE_FILTERS);
+
+      // THEN
+      expect(facets).toEqual({
+        genres: { 1: 2, 2: 2, 3: 1 },
+        languages: { en: 3, fr: 1 },
+        decades: { 1990: 1, 2000: 2 },
+        minRatings: { 5: 3, 6: 3, 7: 2, 8: 2 },
+        runtimeBands: { short: 1, medium: 1, long: 1 },
+        contentRatings: { R: 1, PG: 1, 'PG-13': 1 },
+      });
+    });
+
+    it('GIVEN active filters WHEN getFilterFacets is called THEN should count each filter over the movies passing the others', () => {
+      // GIVEN
+      const filters: MovieFilters = { ...DEFAULT_MOVIE_FILTERS, selectedGenres: [1], selectedLanguages: ['en'] };
+
+      // WHEN
+      const facets = getFilterFacets(facetMovies, filters);
+
+      // THEN
+      // Genres ignore the genre selection but keep the English filter
+      expect(facets.genres).toEqual({ 1: 1, 2: 2, 3: 1 });
+      // Languages ignore the language selection but keep the genre filter
+      expect(facets.languages).toEqual({ en: 1, fr: 1 });
+      // Other filters count only the English movies with genre 1
+      expect(facets.decades).toEqual({ 1990: 1 });
+      expect(facets.contentRatings).toEqual({ R: 1 });
+    });
+
+    it.each([
+      { count: 1, expected: '1 title' },
+      { count: 0, expected: '0 titles' },
+      { count: 12, expected: '12 titles' },
+    ])('GIVEN a count of $count WHEN formatResultCount is called THEN should return $expected', ({ count, expected }) => {
+      // GIVEN & WHEN
+      const result = formatResultCount(count);
+
+      // THEN
+      expect(result).toBe(expected);
+    });
+  });
+
   describe('Get Filtered Movie Count', () => {
     it('GIVEN movies and filters WHEN getFilteredMovieCount is called THEN should return count of filtered movies', () => {
       // GIVEN
       const filters: MovieFilters = {
         selectedGenres: [1],
         selectedLanguages: [],
-        selectedReleaseYears: [],
+        releaseYearRange: null,
+        selectedDecades: [],
+        minRating: null,
+        runtimeBand: null,
+        selectedContentRatings: [],
         sortBy: 'popularity',
         sortOrder: 'desc',
       };
@@ -379,7 +716,11 @@ describe('Filter Utils', () => {
       const filters: MovieFilters = {
         selectedGenres: [],
         selectedLanguages: [],
-        selectedReleaseYears: [],
+        releaseYearRange: null,
+        selectedDecades: [],
+        minRating: null,
+        runtimeBand: null,
+        selectedContentRatings: [],
         sortBy: 'popularity',
         sortOrder: 'desc',
       };
@@ -398,7 +739,11 @@ describe('Filter Utils', () => {
       const filters: MovieFilters = {
         selectedGenres: [1],
         selectedLanguages: ['en'],
-        selectedReleaseYears: [2023],
+        releaseYearRange: { from: 2023, to: 2023 },
+        selectedDecades: [],
+        minRating: null,
+        runtimeBand: null,
+        selectedContentRatings: [],
         sortBy: 'popularity',
         sortOrder: 'desc',
       };
@@ -415,7 +760,11 @@ describe('Filter Utils', () => {
       const filters: MovieFilters = {
         selectedGenres: [],
         selectedLanguages: [],
-        selectedReleaseYears: [],
+        releaseYearRange: null,
+        selectedDecades: [],
+        minRating: null,
+        runtimeBand: null,
+        selectedContentRatings: [],
         sortBy: 'popularity',
         sortOrder: 'desc',
       };
@@ -434,7 +783,11 @@ describe('Filter Utils', () => {
       const filters: MovieFilters = {
         selectedGenres: [1, 2],
         selectedLanguages: ['en'],
-        selectedReleaseYears: [2023],
+        releaseYearRange: { from: 2023, to: 2023 },
+        selectedDecades: [2020],
+        minRating: null,
+        runtimeBand: null,
+        selectedContentRatings: [],
         sortBy: 'popularity',
         sortOrder: 'desc',
       };
@@ -445,7 +798,18 @@ describe('Filter Utils', () => {
       // THEN
       expect(result).toContain('Action, Comedy');
       expect(result).toContain('English');
-      expect(result).toContain('2023');
+      expect(result).toContain('2020s • 2023');
+    });
+
+    it('GIVEN rating, runtime and content rating filters WHEN getFilterSummary is called THEN should describe them', () => {
+      // GIVEN
+      const filters: MovieFilters = { ...DEFAULT_MOVIE_FILTERS, minRating: 7, runtimeBand: 'long', selectedContentRatings: ['PG-13', 'R'] };
+
+      // WHEN
+      const result = getFilterSummary(filters, mockGenres, mockLanguages);
+
+      // THEN
+      expect(result).toBe('IMDb 7+ • Over 150 min • PG-13, R');
     });
 
     it('GIVEN filters with no selections WHEN getFilterSummary is called THEN should return default message', () => {
@@ -453,7 +817,11 @@ describe('Filter Utils', () => {
       const filters: MovieFilters = {
         selectedGenres: [],
         selectedLanguages: [],
-        selectedReleaseYears: [],
+        releaseYearRange: null,
+        selectedDecades: [],
+        minRating: null,
+        runtimeBand: null,
+        selectedContentRatings: [],
         sortBy: 'popularity',
         sortOrder: 'desc',
       };
@@ -464,5 +832,97 @@ describe('Filter Utils', () => {
       // THEN
       expect(result).toBe('All movies');
     });
+
+    it('GIVEN a filter token WHEN getFilterSummary is called THEN should describe the decoded filters', () => {
+      // GIVEN
+      const token = 'g2~len~y2021.2023';
+
+      // WHEN
+      const result = getFilterSummary(token, mockGenres, mockLanguages);
+
+      // THEN
+      expect(result).toBe('Comedy • English • 2021–2023');
+    });
+  });
+
+  describe('Filter Tokens', () => {
+    it('GIVEN filters with selections and a sort WHEN encoding THEN should return a compact URL-safe token', () => {
+      // GIVEN
+      const filters: MovieFilters = {
+        selectedGenres: [28, 12],
+        selectedLanguages: ['en', 'fr'],
+        releaseYearRange: { from: 1990, to: 1999 },
+        selectedDecades: [1980, 2000],
+        minRating: 7,
+        runtimeBand: 'medium',
+        selectedContentRatings: ['PG', 'PG-13'],
+        sortBy: 'rating_imdb',
+        sortOrder: 'asc',
+      };
+
+      // WHEN
+      const token = encodeFiltersToken(filters);
+
+      // THEN
+      expect(token).toBe('g28.12~len.fr~y1990.1999~d1980.2000~r7~tmedium~cPG.PG-13~srating_imdb~oa');
+      expect(encodeURIComponent(token)).toBe(token);
+    });
+
+    it('GIVEN default filters WHEN encoding THEN should return an empty token', () => {
+      // GIVEN & WHEN
+      const token = encodeFiltersToken(DEFAULT_MOVIE_FILTERS);
+
+      // THEN
+      expect(token).toBe('');
+    });
+
+    it('GIVEN an encoded token WHEN decoding THEN should round-trip to the same filters', () => {
+      // GIVEN
+      const filters: MovieFilters = {
+        selectedGenres: [16],
+        selectedLanguages: ['ja'],
+        releaseYearRange: { from: 1997, to: 2001 },
+        selectedDecades: [1990],
+        minRating: 5,
+        runtimeBand: 'long',
+        selectedContentRatings: ['NC-17'],
+        sortBy: 'title',
+        sortOrder: 'desc',
+      };
+
+      // WHEN
+      const decoded = decodeFiltersToken(encodeFiltersToken(filters));
+
+      // THEN
+      expect(decoded).toEqual(filters);
+    });
+
+    it('GIVEN a token with unknown or invalid segments WHEN decoding THEN should keep the defaults for them', () => {
+      // GIVEN
+      const token = 'gx.5~sbogus~oz~qwhat~y1999~d1985.1990~r7.5~tepic~cR.TV-MA';
+
+      // WHEN
+      const decoded = decodeFiltersToken(token);
+
+      // THEN
+      expect(decoded).toEqual({
+        ...DEFAULT_MOVIE_FILTERS,
+        selectedGenres: [5],
+        releaseYearRange: { from: 1999, to: 1999 },
+        selectedDecades: [1990],
+        selectedContentRatings: ['R'],
+      });
+    });
+
+    it('GIVEN a token listing single release years WHEN decoding THEN should use the range they span', () => {
+      // GIVEN
+      const token = 'y2001.1997.1999';
+
+      // WHEN
+      const decoded = decodeFiltersToken(token);
+
+      // THEN
+      expect(decoded.releaseYearRange).toEqual({ from: 1997, to: 2001 });
+    });
   });
 });
@@ -1,4 +1,134 @@
-import { type Movie, type MovieFilters, type Genre, type Language } from '../../types/movie.types';
+import {
+  type FacetCounts,
+  type FilterFacets,
+  type Genre,
+  type Language,
+  type Movie,
+  type MovieFilters,
+  type RuntimeBand,
+  type YearRange,
+} from '../../types/movie.types';
+import { GENRES } from '../genreRegistry';
+import { LANGUAGES } from '../localeRegistry';
+import { getMovieRating, getRatingSortSource, RATING_SORT_KEYS } from '../ratingUtils';
+
+/**
+ * Default movie filters (no selections, sorted by popularity)
+ */
+export const DEFAULT_MOVIE_FILTERS: MovieFilters = {
+  selectedGenres: [],
+  selectedLanguages: [],
+  releaseYearRange: null,
+  selectedDecades: [],
+  minRating: null,
+  runtimeBand: null,
+  selectedContentRatings: [],
+  sortBy: 'popularity',
+  sortOrder: 'desc',
+};
+
+/**
+ * Valid sort options, used to reject unknown values read from URLs
+ */
+export const SORT_BY_OPTIONS: readonly MovieFilters['sortBy'][] = ['popularity', 'release_date', 'vote_average', 'title', ...RATING_SORT_KEYS];
+export const SORT_ORDER_OPTIONS: readonly MovieFilters['sortOrder'][] = ['asc', 'desc'];
+
+/**
+ * Minimum IMDb ratings the rating filter offers
+ */
+export const MIN_RATING_OPTIONS: readonly number[] = [5, 6, 7, 8];
+
+export const RUNTIME_BANDS: readonly RuntimeBand[] = ['short', 'medium', 'long'];
+
+/**
+ * MPAA-style content ratings the content rating filter offers, mildest first
+ */
+export const CONTENT_RATINGS: readonly string[] = ['G', 'PG', 'PG-13', 'R', 'NC-17'];
+
+// Inclusive runtime limits of each band, in minutes
+const RUNTIME_BAND_LIMITS: Readonly<Record<RuntimeBand, { min: number; max: number }>> = {
+  short: { min: 1, max: 89 },
+  medium: { min: 90, max: 150 },
+  long: { min: 151, max: Infinity },
+};
+
+const RUNTIME_BAND_LABELS: Readonly<Record<RuntimeBand, string>> = {
+  short: 'Under 90 min',
+  medium: '90–150 min',
+  long: 'Over 150 min',
+};
+
+// Filter token layout: segments such as "g28.12", "len", "y1990.1999", "d1980", "r7", "tmedium", "cPG.PG-13"
+// and "stitle" joined by "~"
+const TOKEN_SEGMENT_SEPARATOR = '~';
+const TOKEN_LIST_SEPARATOR = '.';
+const TOKEN_PREFIXES = {
+  GENRES: 'g',
+  LANGUAGES: 'l',
+  RELEASE_YEARS: 'y',
+  DECADES: 'd',
+  MIN_RATING: 'r',
+  RUNTIME_BAND: 't',
+  CONTENT_RATINGS: 'c',
+  SORT_BY: 's',
+  SORT_ORDER: 'o',
+} as const;
+
+const getMovieYear = (movie: Movie): number => new Date(movie.release_date).getFullYear();
+
+// Unrated titles (a vote average of 0) never meet a minimum rating
+const meetsMinRating = (movie: Movie, minRating: number): boolean =>
+  movie.vote_average > 0 && movie.vote_average >= minRating;
+
+/**
+ * Get the decade a year falls in, by its first year (1987 -> 1980)
+ */
+export const getDecade = (year: number): number => Math.floor(year / 10) * 10;
+
+/**
+ * Get the range spanned by a list of years, null when there are none
+ */
+export const getYearRangeSpanning = (years: readonly number[]): YearRange | null => {
+  const validYears = years.filter((year) => Number.isInteger(year));
+  if (validYears.length === 0) return null;
+  return { from: Math.min(...validYears), to: Math.max(...validYears) };
+};
+
+/**
+ * Describe a year range, e.g. "1990–1999", or just "2023" for a single year
+ */
+export const formatYearRange = ({ from, to }: YearRange): string =>
+  from === to ? String(from) : `${from}–${to}`;
+
+/**
+ * Describe a decade by its first year, e.g. "1980s"
+ */
+export const formatDecade = (decade: number): string => `${decade}s`;
+
+/**
+ * Get the band a runtime falls in, null when the runtime is unknown
+ * @param runtime - Runtime in minutes; 0 or absent when unknown
+ */
+export const getRuntimeBand = (runtime: number | undefined): RuntimeBand | null =>
+  RUNTIME_BANDS.find((band) => {
+    const { min, max } = RUNTIME_BAND_LIMITS[band];
+    return (runtime ?? 0) >= min && (runtime ?? 0) <= max;
+  }) ?? null;
+
+/**
+ * Describe a runtime band, e.g. "90–150 min"
+ */
+export const formatRuntimeBand = (band: RuntimeBand): string => RUNTIME_BAND_LABELS[band];
+
+/**
+ * Describe a number of results, e.g. "1 title" or "12 titles"
+ */
+export const formatResultCount = (count: number): string => `${count} ${count === 1 ? 'title' : 'titles'}`;
+
+/**
+ * Describe a minimum rating, e.g. "7+"
+ */
+export const formatMinRating = (minRating: number): string => `${minRating}+`;
 
 /**
  * Filter movies based on selected filters
@@ -22,10 +152,38 @@ export const filterMovies = <T extends Movie>(
       }
     }
 
-    // Filter by release years
-    if (filters.selectedReleaseYears.length > 0) {
-      const movieYear = new Date(movie.release_date).getFullYear();
-      if (!filters.selectedReleaseYears.includes(movieYear)) {
+    // Filter by release year range; titles without a known year never match
+    if (filters.releaseYearRange) {
+      const movieYear = getMovieYear(movie);
+      if (!(movieYear >= filters.releaseYearRange.from && movieYear <= filters.releaseYearRange.to)) {
+        return false;
+      }
+    }
+
+    // Filter by decades
+    if (filters.selectedDecades.length > 0) {
+      if (!filters.selectedDecades.includes(getDecade(getMovieYear(movie)))) {
+        return false;
+      }
+    }
+
+    // Filter by minimum rating
+    if (filters.minRating !== null) {
+      if (!meetsMinRating(movie, filters.minRating)) {
+        return false;
+      }
+    }
+
+    // Filter by runtime band; runtime and content rating are only known once details are loaded
+    if (filters.runtimeBand) {
+      if (getRuntimeBand(movie.runtime) !== filters.runtimeBand) {
+        return false;
+      }
+    }
+
+    // Filter by content ratings
+    if (filters.selectedContentRatings.length > 0) {
+      if (!movie.rated || !filters.selectedContentRatings.includes(movie.rated)) {
         return false;
       }
     }
@@ -35,12 +193,28 @@ export const filterMovies = <T extends Movie>(
 };
 
 /**
- * Sort movies based on sort criteria
+ * Sort movies based on sort criteria.
+ * When sorting by a rating source, movies without a rating from that source go last in either order.
  */
-export const sortMovies = <T extends Movie>(movies: T[], filters: MovieFilters): T[] => {
+export const sortMovies = <T extends Movie>(
+  movies: T[],
+  filters: Pick<MovieFilters, 'sortBy' | 'sortOrder'>
+): T[] => {
+  const ratingSource = getRatingSortSource(filters.sortBy);
+
   return [...movies].sort((a, b) => {
     let comparison = 0;
 
+    if (ratingSource) {
+      const ratingA = getMovieRating(a, ratingSource);
+      const ratingB = getMovieRating(b, ratingSource);
+      if (!ratingA || !ratingB) {
+        return Number(!ratingA) - Number(!ratingB);
+      }
+      comparison = ratingA.value - ratingB.value;
+      return filters.sortOrder === 'asc' ? comparison : -comparison;
+    }
+
     switch (filters.sortBy) {
       case 'popularity':
         comparison = a.popularity - b.popularity;
@@ -65,7 +239,7 @@ export const sortMovies = <T extends Movie>(movies: T[], filters: MovieFilters):
 /**
  * Get available genres from movies
  */
-export const getAvailableGenres = (movies: Movie[], allGenres: Genre[]): Genre[] => {
+export const getAvailableGenres = (movies: Movie[], allGenres: readonly Genre[]): Genre[] => {
   const usedGenreIds = new Set<number>();
   
   movies.forEach((movie) => {
@@ -80,7 +254,7 @@ export const getAvailableGenres = (movies: Movie[], allGenres: Genre[]): Genre[]
 /**
  * Get available languages from movies
  */
-export const getAvailableLanguages = (movies: Movie[], allLanguages: Language[]): Language[] => {
+export const getAvailableLanguages = (movies: Movie[], allLanguages: readonly Language[]): Language[] => {
   const usedLanguageCodes = new Set<string>();
   
   movies.forEach((movie) => {
@@ -106,6 +280,59 @@ export const getAvailableYears = (movies: Movie[]): number[] => {
   return Array.from(years).sort((a, b) => b - a); // Sort descending
 };
 
+/**
+ * Get the decades a list of years falls in, oldest first
+ */
+export const getAvailableDecades = (years: readonly number[]): number[] => {
+  return Array.from(new Set(years.map(getDecade))).sort((a, b) => a - b);
+};
+
+// Count movies by option; a movie counts once for each option it has
+const countByOption = <K extends string | number>(
+  movies: readonly Movie[],
+  getOptions: (movie: Movie) => readonly K[]
+): FacetCounts<K> => {
+  const counts: Partial<Record<K, number>> = {};
+  for (const movie of movies) {
+    for (const option of new Set(getOptions(movie))) {
+      counts[option] = (counts[option] ?? 0) + 1;
+    }
+  }
+  return counts;
+};
+
+/**
+ * Count how many movies each filter option would leave.
+ * Each filter's options are counted over the movies passing every other active filter, so an
+ * option's count is the number of results with that option chosen on its own within its filter.
+ * @param movies - Movies to count, e.g. the search results
+ * @param filters - Active movie filters
+ * @returns Counts by option for each filter; options leaving no movies are missing
+ */
+export const getFilterFacets = (movies: Movie[], filters: MovieFilters): FilterFacets => {
+  const filterWithout = (cleared: Partial<MovieFilters>) => filterMovies(movies, { ...filters, ...cleared });
+
+  return {
+    genres: countByOption(filterWithout({ selectedGenres: [] }), (movie) => movie.genre_ids),
+    languages: countByOption(filterWithout({ selectedLanguages: [] }), (movie) => [movie.original_language]),
+    decades: countByOption(filterWithout({ selectedDecades: [] }), (movie) => {
+      const year = getMovieYear(movie);
+      return Number.isNaN(year) ? [] : [getDecade(year)];
+    }),
+    // Thresholds overlap, so each one counts every movie meeting it
+    minRatings: countByOption(filterWithout({ minRating: null }), (movie) =>
+      MIN_RATING_OPTIONS.filter((minRating) => meetsMinRating(movie, minRating))
+    ),
+    runtimeBands: countByOption(filterWithout({ runtimeBand: null }), (movie) => {
+      const band = getRuntimeBand(movie.runtime);
+      return band ? [band] : [];
+    }),
+    contentRatings: countByOption(filterWithout({ selectedContentRatings: [] }), (movie) =>
+      movie.rated ? [movie.rated] : []
+    ),
+  };
+};
+
 /**
  * Get count of filtered movies
  */
@@ -124,18 +351,130 @@ export const hasActiveFilters = (filters: MovieFilters): boolean => {
   return (
     filters.selectedGenres.length > 0 ||
     filters.selectedLanguages.length > 0 ||
-    filters.selectedReleaseYears.length > 0
+    filters.releaseYearRange !== null ||
+    filters.selectedDecades.length > 0 ||
+    filters.minRating !== null ||
+    filters.runtimeBand !== null ||
+    filters.selectedContentRatings.length > 0
   );
 };
 
+/**
+ * Bring filters saved by an earlier version up to date, e.g. a saved preset.
+ * Missing fields take their defaults and the old list of release years becomes the range it spans.
+ * @param filters - Filters as saved
+ * @returns Complete MovieFilters
+ */
+export const migrateMovieFilters = (
+  filters: Partial<MovieFilters> & { selectedReleaseYears?: number[] }
+): MovieFilters => {
+  const { selectedReleaseYears, ...current } = filters;
+  return {
+    ...DEFAULT_MOVIE_FILTERS,
+    ...(selectedReleaseYears && { releaseYearRange: getYearRangeSpanning(selectedReleaseYears) }),
+    ...current,
+  };
+};
+
+/**
+ * Encode movie filters as a compact, URL-safe token (e.g. "g28.12~len~y1990.1999~stitle~oa"), omitting defaults
+ * @param filters - Movie filters
+ * @returns Filter token, empty for the default filters
+ */
+export const encodeFiltersToken = (filters: MovieFilters): string => {
+  const segments: string[] = [];
+
+  if (filters.selectedGenres.length > 0) {
+    segments.push(TOKEN_PREFIXES.GENRES + filters.selectedGenres.join(TOKEN_LIST_SEPARATOR));
+  }
+  if (filters.selectedLanguages.length > 0) {
+    segments.push(TOKEN_PREFIXES.LANGUAGES + filters.selectedLanguages.join(TOKEN_LIST_SEPARATOR));
+  }
+  if (filters.releaseYearRange) {
+    const { from, to } = filters.releaseYearRange;
+    segments.push(TOKEN_PREFIXES.RELEASE_YEARS + [from, to].join(TOKEN_LIST_SEPARATOR));
+  }
+  if (filters.selectedDecades.length > 0) {
+    segments.push(TOKEN_PREFIXES.DECADES + filters.selectedDecades.join(TOKEN_LIST_SEPARATOR));
+  }
+  if (filters.minRating !== null) {
+    segments.push(TOKEN_PREFIXES.MIN_RATING + filters.minRating);
+  }
+  if (filters.runtimeBand) {
+    segments.push(TOKEN_PREFIXES.RUNTIME_BAND + filters.runtimeBand);
+  }
+  if (filters.selectedContentRatings.length > 0) {
+    segments.push(TOKEN_PREFIXES.CONTENT_RATINGS + filters.selectedContentRatings.join(TOKEN_LIST_SEPARATOR));
+  }
+  if (filters.sortBy !== DEFAULT_MOVIE_FILTERS.sortBy) {
+    segments.push(TOKEN_PREFIXES.SORT_BY + filters.sortBy);
+  }
+  if (filters.sortOrder !== DEFAULT_MOVIE_FILTERS.sortOrder) {
+    segments.push(TOKEN_PREFIXES.SORT_ORDER + filters.sortOrder.charAt(0));
+  }
+
+  return segments.join(TOKEN_SEGMENT_SEPARATOR);
+};
+
+/**
+ * Decode a filter token, falling back to the defaults for missing or invalid segments.
+ * A release year segment listing single years (from older links) becomes the range they span.
+ * @param token - Token created by encodeFiltersToken
+ * @returns Decoded MovieFilters
+ */
+export const decodeFiltersToken = (token: string): MovieFilters => {
+  const filters: MovieFilters = { ...DEFAULT_MOVIE_FILTERS };
+
+  for (const segment of token.split(TOKEN_SEGMENT_SEPARATOR)) {
+    const prefix = segment.charAt(0);
+    const value = segment.slice(1);
+    const list = value.split(TOKEN_LIST_SEPARATOR).filter(Boolean);
+    const numbers = list.map(Number).filter((item) => Number.isInteger(item));
+
+    switch (prefix) {
+      case TOKEN_PREFIXES.GENRES:
+        filters.selectedGenres = numbers;
+        break;
+      case TOKEN_PREFIXES.LANGUAGES:
+        filters.selectedLanguages = list;
+        break;
+      case TOKEN_PREFIXES.RELEASE_YEARS:
+        filters.releaseYearRange = getYearRangeSpanning(numbers);
+        break;
+      case TOKEN_PREFIXES.DECADES:
+        filters.selectedDecades = numbers.filter((decade) => decade === getDecade(decade));
+        break;
+      case TOKEN_PREFIXES.MIN_RATING:
+        filters.minRating = MIN_RATING_OPTIONS.find((option) => option === Number(value)) ?? filters.minRating;
+        break;
+      case TOKEN_PREFIXES.RUNTIME_BAND:
+        filters.runtimeBand = RUNTIME_BANDS.find((band) => band === value) ?? filters.runtimeBand;
+        break;
+      case TOKEN_PREFIXES.CONTENT_RATINGS:
+        filters.selectedContentRatings = list.filter((rating) => CONTENT_RATINGS.includes(rating));
+        break;
+      case TOKEN_PREFIXES.SORT_BY:
+        filters.sortBy = SORT_BY_OPTIONS.find((option) => option === value) ?? filters.sortBy;
+        break;
+      case TOKEN_PREFIXES.SORT_ORDER:
+        filters.sortOrder = SORT_ORDER_OPTIONS.find((option) => option.charAt(0) === value) ?? filters.sortOrder;
+        break;
+    }
+  }
+
+  return filters;
+};
+
 /**
  * Get filter summary string
+ * @param filtersOrToken - Movie filters, or a filter token such as a saved preset's
  */
 export const getFilterSummary = (
-  filters: MovieFilters,
-  availableGenres: Genre[],
-  availableLanguages: Language[]
+  filtersOrToken: MovieFilters | string,
+  availableGenres: readonly Genre[],
+  availableLanguages: readonly Language[]
 ): string => {
+  const filters = typeof filtersOrToken === 'string' ? decodeFiltersToken(filtersOrToken) : filtersOrToken;
   const parts: string[] = [];
 
   if (filters.selectedGenres.length > 0) {
@@ -154,63 +493,68 @@ export const getFilterSummary = (
     if (languageNames) parts.push(languageNames);
   }
 
-  if (filters.selectedReleaseYears.length > 0) {
-    const years = filters.selectedReleaseYears
-      .sort((a, b) => b - a)
+  if (filters.selectedDecades.length > 0) {
+    const decades = [...filters.selectedDecades]
+      .sort((a, b) => a - b)
+      .map(formatDecade)
       .join(', ');
-    parts.push(years);
+    parts.push(decades);
+  }
+
+  if (filters.releaseYearRange) {
+    parts.push(formatYearRange(filters.releaseYearRange));
+  }
+
+  if (filters.minRating !== null) {
+    parts.push(`IMDb ${formatMinRating(filters.minRating)}`);
+  }
+
+  if (filters.runtimeBand) {
+    parts.push(formatRuntimeBand(filters.runtimeBand));
+  }
+
+  if (filters.selectedContentRatings.length > 0) {
+    parts.push(filters.selectedContentRatings.join(', '));
   }
 
   return parts.length > 0 ? parts.join(' • ') : 'All movies';
 };
 
 /**
- * Get count of active filter selections (genres, languages, years).
+ * Get count of active filter selections (genres, languages, decades and content ratings, plus one
+ * each for a year range, a minimum rating and a runtime band).
  * Sort options are not included in the count.
  */
 export const getFilterCount = (filters: MovieFilters): number => {
-  const { selectedGenres, selectedLanguages, selectedReleaseYears } = filters;
-  return (selectedGenres?.length || 0) + (selectedLanguages?.length || 0) + (selectedReleaseYears?.length || 0);
+  const {
+    selectedGenres,
+    selectedLanguages,
+    releaseYearRange,
+    selectedDecades,
+    minRating,
+    runtimeBand,
+    selectedContentRatings,
+  } = filters;
+  return (selectedGenres?.length || 0) +
+    (selectedLanguages?.length || 0) +
+    (releaseYearRange ? 1 : 0) +
+    (selectedDecades?.length || 0) +
+    (minRating != null ? 1 : 0) +
+    (runtimeBand ? 1 : 0) +
+    (selectedContentRatings?.length || 0);
 };
 
 /**
- * Get default filter options from movies
+ * Get filter options present in a set of movies (genres and languages from their registries)
  */
 export const getDefaultFilterOptions = (movies: Movie[]): {
   genres: Genre[];
   languages: Language[];
   releaseYears: number[];
 } => {
-  // This would typically come from an API, but for now we'll generate from movies
-  const allGenres: Genre[] = [
-    { id: 1, name: 'Action' },
-    { id: 2, name: 'Comedy' },
-    { id: 3, name: 'Drama' },
-    { id: 4, name: 'Horror' },
-    { id: 5, name: 'Romance' },
-    { id: 6, name: 'Thriller' },
-    { id: 7, name: 'Sci-Fi' },
-    { id: 8, name: 'Fantasy' },
-    { id: 9, name: 'Adventure' },
-    { id: 10, name: 'Animation' },
-  ];
-
-  const allLanguages: Language[] = [
-    { code: 'en', name: 'English' },
-    { code: 'es', name: 'Spanish' },
-    { code: 'fr', name: 'French' },
-    { code: 'de', name: 'German' },
-    { code: 'it', name: 'Italian' },
-    { code: 'pt', name: 'Portuguese' },
-    { code: 'ru', name: 'Russian' },
-    { code: 'ja', name: 'Japanese' },
-    { code: 'ko', name: 'Korean' },
-    { code: 'zh', name: 'Chinese' },
-  ];
-
   return {
-    genres: getAvailableGenres(movies, allGenres),
-    languages: getAvailableLanguages(movies, allLanguages),
+    genres: getAvailableGenres(movies, GENRES),
+    languages: getAvailableLanguages(movies, LANGUAGES),
     releaseYears: getAvailableYears(movies),
   };
 };
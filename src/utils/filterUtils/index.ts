@@ -1,10 +1,29 @@
 export {
+  DEFAULT_MOVIE_FILTERS,
+  SORT_BY_OPTIONS,
+  SORT_ORDER_OPTIONS,
+  MIN_RATING_OPTIONS,
+  RUNTIME_BANDS,
+  CONTENT_RATINGS,
+  encodeFiltersToken,
+  decodeFiltersToken,
+  migrateMovieFilters,
   filterMovies,
   sortMovies,
   getAvailableGenres,
   getAvailableLanguages,
   getAvailableYears,
+  getAvailableDecades,
+  getDecade,
+  getYearRangeSpanning,
+  formatYearRange,
+  formatDecade,
+  getRuntimeBand,
+  formatRuntimeBand,
+  formatMinRating,
+  formatResultCount,
   getFilteredMovieCount,
+  getFilterFacets,
   hasActiveFilters,
   getFilterSummary,
   getDefaultFilterOptions,
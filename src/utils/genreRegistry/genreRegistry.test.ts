@@ -0,0 +1,104 @@
+import { describe, it, expect } from 'vitest';
+import {
+  GENRES,
+  getGenreByName,
+  getGenreById,
+  parseGenres,
+  parseGenreIds,
+} from './genreRegistry';
+
+describe('Genre Registry', () => {
+  describe('GENRES', () => {
+    it('GIVEN the registry WHEN inspected THEN should have unique ids and names', () => {
+      // GIVEN
+      const ids = GENRES.map((genre) => genre.id);
+      const names = GENRES.map((genre) => genre.name);
+
+      // WHEN & THEN
+      expect(new Set(ids).size).toBe(GENRES.length);
+      expect(new Set(names).size).toBe(GENRES.length);
+    });
+
+    it('GIVEN the original filter genres WHEN inspected THEN should keep their ids', () => {
+      // GIVEN
+      const originalGenres = ['Action', 'Comedy', 'Drama', 'Horror', 'Romance', 'Thriller', 'Sci-Fi', 'Fantasy', 'Adventure', 'Animation'];
+
+      // WHEN
+      const ids = originalGenres.map((name) => getGenreByName(name)?.id);
+
+      // THEN
+      expect(ids).toEqual([1, 2, 3, 4, 5, 6, 7, 8, 9, 10]);
+    });
+  });
+
+  describe('getGenreByName', () => {
+    const lookupTestCases = [
+      { name: 'Film-Noir', expected: 'Film-Noir' },
+      { name: 'film noir', expected: 'Film-Noir' },
+      { name: ' SCI-FI ', expected: 'Sci-Fi' },
+      { name: 'Science Fiction', expected: 'Sci-Fi' },
+      { name: 'Reality TV', expected: 'Reality-TV' },
+      { name: 'Talk-Show', expected: 'Talk-Show' },
+    ];
+
+    lookupTestCases.forEach(({ name, expected }) => {
+      it(`GIVEN "${name}" WHEN looking up the genre THEN should return ${expected}`, () => {
+        // GIVEN & WHEN
+        const genre = getGenreByName(name);
+
+        // THEN
+        expect(genre?.name).toBe(expected);
+      });
+    });
+
+    it('GIVEN an unknown name WHEN looking up the genre THEN should return undefined', () => {
+      // GIVEN & WHEN & THEN
+      expect(getGenreByName('Cooking')).toBeUndefined();
+    });
+  });
+
+  describe('getGenreById', () => {
+    it('GIVEN a known id WHEN looking up the genre THEN should return it', () => {
+      // GIVEN & WHEN & THEN
+      expect(getGenreById(12)).toEqual({ id: 12, name: 'Crime' });
+      expect(getGenreById(999)).toBeUndefined();
+    });
+  });
+
+  describe('parseGenres', () => {
+    it('GIVEN an OMDb Genre string WHEN parsing THEN should return the genres in order', () => {
+      // GIVEN
+      const genreString = 'Action, Crime, Drama';
+
+      // WHEN
+      const genres = parseGenres(genreString);
+
+      // THEN
+      expect(genres).toEqual([
+        { id: 1, name: 'Action' },
+        { id: 12, name: 'Crime' },
+        { id: 3, name: 'Drama' },
+      ]);
+    });
+
+    it('GIVEN unknown and duplicate names WHEN parsing THEN should skip them', () => {
+      // GIVEN
+      const genreString = 'Drama, Cooking, drama,  ';
+
+      // WHEN
+      const ids = parseGenreIds(genreString);
+
+      // THEN
+      expect(ids).toEqual([3]);
+    });
+
+    const emptyTestCases = ['N/A', '', undefined, null];
+
+    emptyTestCases.forEach((genreString) => {
+      it(`GIVEN ${JSON.stringify(genreString)} WHEN parsing THEN should return no genres`, () => {
+        // GIVEN & WHEN & THEN
+        expect(parseGenreIds(genreString)).toEqual([]);
+      });
+    });
+  });
+});
@@ -0,0 +1,87 @@
+import { type Genre } from '../../types/movie.types';
+
+/**
+ * OMDb's genre vocabulary with stable ids.
+ * Ids are persisted in URLs and saved filters, so never renumber an entry; append new genres instead.
+ * Ids 1–10 keep the values of the original hardcoded filter list.
+ */
+export const GENRES: readonly Genre[] = [
+  { id: 1, name: 'Action' },
+  { id: 2, name: 'Comedy' },
+  { id: 3, name: 'Drama' },
+  { id: 4, name: 'Horror' },
+  { id: 5, name: 'Romance' },
+  { id: 6, name: 'Thriller' },
+  { id: 7, name: 'Sci-Fi' },
+  { id: 8, name: 'Fantasy' },
+  { id: 9, name: 'Adventure' },
+  { id: 10, name: 'Animation' },
+  { id: 11, name: 'Biography' },
+  { id: 12, name: 'Crime' },
+  { id: 13, name: 'Documentary' },
+  { id: 14, name: 'Family' },
+  { id: 15, name: 'Film-Noir' },
+  { id: 16, name: 'History' },
+  { id: 17, name: 'Music' },
+  { id: 18, name: 'Musical' },
+  { id: 19, name: 'Mystery' },
+  { id: 20, name: 'Sport' },
+  { id: 21, name: 'War' },
+  { id: 22, name: 'Western' },
+  { id: 23, name: 'Short' },
+  { id: 24, name: 'News' },
+  { id: 25, name: 'Reality-TV' },
+  { id: 26, name: 'Talk-Show' },
+  { id: 27, name: 'Game-Show' },
+  { id: 28, name: 'Adult' },
+];
+
+// Normalise a genre label so spelling variants ("Sci Fi", "film noir") share a key
+const normalizeGenreName = (name: string): string => name.trim().toLowerCase().replace(/[\s_-]+/g, '');
+
+// Alternative spellings seen in OMDb data, keyed by normalised name
+const GENRE_ALIASES: Record<string, string> = {
+  sciencefiction: 'scifi',
+  realitytelevision: 'realitytv',
+  biopic: 'biography',
+};
+
+const GENRES_BY_KEY = new Map(GENRES.map((genre) => [normalizeGenreName(genre.name), genre]));
+const GENRES_BY_ID = new Map(GENRES.map((genre) => [genre.id, genre]));
+
+/**
+ * Look up a genre by its OMDb name (case and separator insensitive)
+ */
+export const getGenreByName = (name: string): Genre | undefined => {
+  const key = normalizeGenreName(name);
+  return GENRES_BY_KEY.get(GENRE_ALIASES[key] ?? key);
+};
+
+/**
+ * Look up a genre by its stable id
+ */
+export const getGenreById = (id: number): Genre | undefined => GENRES_BY_ID.get(id);
+
+/**
+ * Parse an OMDb Genre string ("Action, Drama") into genres.
+ * Unknown names and 'N/A' are skipped; duplicates are removed.
+ */
+export const parseGenres = (genreString: string | null | undefined): Genre[] => {
+  if (!genreString || genreString === 'N/A') {
+    return [];
+  }
+
+  const genres = genreString
+    .split(',')
+    .map(getGenreByName)
+    .filter((genre): genre is Genre => genre !== undefined);
+
+  return Array.from(new Set(genres));
+};
+
+/**
+ * Parse an OMDb Genre string into stable genre ids
+ */
+export const parseGenreIds = (genreString: string | null | undefined): number[] => {
+  return parseGenres(genreString).map((genre) => genre.id);
+};
@@ -0,0 +1,144 @@
+import { describe, it, expect } from 'vitest';
+import {
+  LANGUAGES,
+  COUNTRIES,
+  getLanguageByName,
+  getLanguageByCode,
+  getCountryByName,
+  parseLanguages,
+  parseCountries,
+  parseSpokenLanguages,
+  getPrimaryLanguageCode,
+} from './localeRegistry';
+
+describe('Locale Registry', () => {
+  describe('Registries', () => {
+    it('GIVEN the language registry WHEN inspected THEN should use unique two-letter ISO 639-1 codes', () => {
+      // GIVEN
+      const codes = LANGUAGES.map((language) => language.code);
+
+      // WHEN & THEN
+      expect(new Set(codes).size).toBe(LANGUAGES.length);
+      codes.forEach((code) => expect(code).toMatch(/^[a-z]{2}$/));
+    });
+
+    it('GIVEN the country registry WHEN inspected THEN should use unique two-letter ISO 3166-1 codes', () => {
+      // GIVEN
+      const codes = COUNTRIES.map((country) => country.iso_3166_1);
+
+      // WHEN & THEN
+      expect(new Set(codes).size).toBe(COUNTRIES.length);
+      codes.forEach((code) => expect(code).toMatch(/^[A-Z]{2}$/));
+    });
+  });
+
+  describe('getLanguageByName', () => {
+    const languageTestCases = [
+      { name: 'English', expected: 'en' },
+      { name: ' french ', expected: 'fr' },
+      { name: 'Mandarin', expected: 'zh' },
+      { name: 'Cantonese', expected: 'zh' },
+      { name: 'Swiss German', expected: 'de' },
+      { name: 'Filipino', expected: 'tl' },
+    ];
+
+    languageTestCases.forEach(({ name, expected }) => {
+      it(`GIVEN "${name}" WHEN looking up the language THEN should return ${expected}`, () => {
+        // GIVEN & WHEN & THEN
+        expect(getLanguageByName(name)?.code).toBe(expected);
+      });
+    });
+
+    it('GIVEN a name outside the registry WHEN looking up the language THEN should return undefined', () => {
+      // GIVEN & WHEN & THEN
+      expect(getLanguageByName('None')).toBeUndefined();
+      expect(getLanguageByName('Klingon')).toBeUndefined();
+    });
+  });
+
+  describe('getLanguageByCode', () => {
+    it('GIVEN an ISO 639-1 code WHEN looking up the language THEN should return it', () => {
+      // GIVEN & WHEN & THEN
+      expect(getLanguageByCode('ko')).toEqual({ code: 'ko', name: 'Korean' });
+      expect(getLanguageByCode('xx')).toBeUndefined();
+    });
+  });
+
+  describe('getCountryByName', () => {
+    const countryTestCases = [
+      { name: 'United States', expected: 'US' },
+      { name: 'USA', expected: 'US' },
+      { name: 'UK', expected: 'GB' },
+      { name: 'West Germany', expected: 'DE' },
+      { name: 'Soviet Union', expected: 'RU' },
+      { name: 'south korea', expected: 'KR' },
+    ];
+
+    countryTestCases.forEach(({ name, expected }) => {
+      it(`GIVEN "${name}" WHEN looking up the country THEN should return ${expected}`, () => {
+        // GIVEN & WHEN & THEN
+        expect(getCountryByName(name)?.iso_3166_1).toBe(expected);
+      });
+    });
+  });
+
+  describe('parseLanguages', () => {
+    it('GIVEN an OMDb Language string WHEN parsing THEN should return unique languages in order', () => {
+      // GIVEN
+      const languageString = 'English, Mandarin, Cantonese, None';
+
+      // WHEN
+      const languages = parseLanguages(languageString);
+
+      // THEN
+      expect(languages).toEqual([
+        { code: 'en', name: 'English' },
+        { code: 'zh', name: 'Chinese' },
+      ]);
+    });
+
+    it('GIVEN "N/A" WHEN parsing THEN should return no languages', () => {
+      // GIVEN & WHEN & THEN
+      expect(parseLanguages('N/A')).toEqual([]);
+      expect(parseLanguages(undefined)).toEqual([]);
+    });
+  });
+
+  describe('parseSpokenLanguages', () => {
+    it('GIVEN an OMDb Language string WHEN parsing THEN should return spoken languages', () => {
+      // GIVEN & WHEN
+      const spokenLanguages = parseSpokenLanguages('Spanish');
+
+      // THEN
+      expect(spokenLanguages).toEqual([{ english_name: 'Spanish', iso_639_1: 'es', name: 'Spanish' }]);
+    });
+  });
+
+  describe('parseCountries', () => {
+    it('GIVEN an OMDb Country string WHEN parsing THEN should return unique countries in order', () => {
+      // GIVEN
+      const countryString = 'UK, USA, United States, Atlantis';
+
+      // WHEN
+      const countries = parseCountries(countryString);
+
+      // THEN
+      expect(countries).toEqual([
+        { iso_3166_1: 'GB', name: 'United Kingdom' },
+        { iso_3166_1: 'US', name: 'United States' },
+      ]);
+    });
+  });
+
+  describe('getPrimaryLanguageCode', () => {
+    it('GIVEN several languages WHEN getting the primary language THEN should return the first known one', () => {
+      // GIVEN & WHEN & THEN
+      expect(getPrimaryLanguageCode('None, Korean, English')).toBe('ko');
+    });
+
+    it('GIVEN no known language WHEN getting the primary language THEN should return an empty code', () => {
+      // GIVEN & WHEN & THEN
+      expect(getPrimaryLanguageCode('N/A')).toBe('');
+    });
+  });
+});
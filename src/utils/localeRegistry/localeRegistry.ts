@@ -0,0 +1,324 @@
+import { type Language, type ProductionCountry, type SpokenLanguage } from '../../types/movie.types';
+
+/**
+ * ISO 639-1 languages, named the way OMDb's Language field names them
+ */
+export const LANGUAGES: readonly Language[] = [
+  { code: 'af', name: 'Afrikaans' },
+  { code: 'am', name: 'Amharic' },
+  { code: 'ar', name: 'Arabic' },
+  { code: 'hy', name: 'Armenian' },
+  { code: 'az', name: 'Azerbaijani' },
+  { code: 'eu', name: 'Basque' },
+  { code: 'be', name: 'Belarusian' },
+  { code: 'bn', name: 'Bengali' },
+  { code: 'bs', name: 'Bosnian' },
+  { code: 'bg', name: 'Bulgarian' },
+  { code: 'my', name: 'Burmese' },
+  { code: 'ca', name: 'Catalan' },
+  { code: 'zh', name: 'Chinese' },
+  { code: 'hr', name: 'Croatian' },
+  { code: 'cs', name: 'Czech' },
+  { code: 'da', name: 'Danish' },
+  { code: 'nl', name: 'Dutch' },
+  { code: 'en', name: 'English' },
+  { code: 'eo', name: 'Esperanto' },
+  { code: 'et', name: 'Estonian' },
+  { code: 'fi', name: 'Finnish' },
+  { code: 'fr', name: 'French' },
+  { code: 'gl', name: 'Galician' },
+  { code: 'ka', name: 'Georgian' },
+  { code: 'de', name: 'German' },
+  { code: 'el', name: 'Greek' },
+  { code: 'gu', name: 'Gujarati' },
+  { code: 'ht', name: 'Haitian' },
+  { code: 'he', name: 'Hebrew' },
+  { code: 'hi', name: 'Hindi' },
+  { code: 'hu', name: 'Hungarian' },
+  { code: 'is', name: 'Icelandic' },
+  { code: 'id', name: 'Indonesian' },
+  { code: 'ga', name: 'Irish' },
+  { code: 'it', name: 'Italian' },
+  { code: 'ja', name: 'Japanese' },
+  { code: 'kn', name: 'Kannada' },
+  { code: 'kk', name: 'Kazakh' },
+  { code: 'km', name: 'Khmer' },
+  { code: 'ko', name: 'Korean' },
+  { code: 'ku', name: 'Kurdish' },
+  { code: 'lo', name: 'Lao' },
+  { code: 'la', name: 'Latin' },
+  { code: 'lv', name: 'Latvian' },
+  { code: 'lt', name: 'Lithuanian' },
+  { code: 'lb', name: 'Luxembourgish' },
+  { code: 'mk', name: 'Macedonian' },
+  { code: 'ms', name: 'Malay' },
+  { code: 'ml', name: 'Malayalam' },
+  { code: 'mt', name: 'Maltese' },
+  { code: 'mi', name: 'Maori' },
+  { code: 'mr', name: 'Marathi' },
+  { code: 'mn', name: 'Mongolian' },
+  { code: 'ne', name: 'Nepali' },
+  { code: 'no', name: 'Norwegian' },
+  { code: 'fa', name: 'Persian' },
+  { code: 'pl', name: 'Polish' },
+  { code: 'pt', name: 'Portuguese' },
+  { code: 'pa', name: 'Punjabi' },
+  { code: 'ro', name: 'Romanian' },
+  { code: 'ru', name: 'Russian' },
+  { code: 'sa', name: 'Sanskrit' },
+  { code: 'gd', name: 'Scottish Gaelic' },
+  { code: 'sr', name: 'Serbian' },
+  { code: 'si', name: 'Sinhala' },
+  { code: 'sk', name: 'Slovak' },
+  { code: 'sl', name: 'Slovenian' },
+  { code: 'so', name: 'Somali' },
+  { code: 'es', name: 'Spanish' },
+  { code: 'sw', name: 'Swahili' },
+  { code: 'sv', name: 'Swedish' },
+  { code: 'tl', name: 'Tagalog' },
+  { code: 'ta', name: 'Tamil' },
+  { code: 'te', name: 'Telugu' },
+  { code: 'th', name: 'Thai' },
+  { code: 'bo', name: 'Tibetan' },
+  { code: 'tr', name: 'Turkish' },
+  { code: 'uk', name: 'Ukrainian' },
+  { code: 'ur', name: 'Urdu' },
+  { code: 'uz', name: 'Uzbek' },
+  { code: 'vi', name: 'Vietnamese' },
+  { code: 'cy', name: 'Welsh' },
+  { code: 'xh', name: 'Xhosa' },
+  { code: 'yi', name: 'Yiddish' },
+  { code: 'yo', name: 'Yoruba' },
+  { code: 'zu', name: 'Zulu' },
+];
+
+/**
+ * ISO 3166-1 alpha-2 countries, named the way OMDb's Country field names them
+ */
+export const COUNTRIES: readonly ProductionCountry[] = [
+  { iso_3166_1: 'AF', name: 'Afghanistan' },
+  { iso_3166_1: 'AL', name: 'Albania' },
+  { iso_3166_1: 'DZ', name: 'Algeria' },
+  { iso_3166_1: 'AR', name: 'Argentina' },
+  { iso_3166_1: 'AM', name: 'Armenia' },
+  { iso_3166_1: 'AU', name: 'Australia' },
+  { iso_3166_1: 'AT', name: 'Austria' },
+  { iso_3166_1: 'AZ', name: 'Azerbaijan' },
+  { iso_3166_1: 'BS', name: 'Bahamas' },
+  { iso_3166_1: 'BD', name: 'Bangladesh' },
+  { iso_3166_1: 'BY', name: 'Belarus' },
+  { iso_3166_1: 'BE', name: 'Belgium' },
+  { iso_3166_1: 'BO', name: 'Bolivia' },
+  { iso_3166_1: 'BA', name: 'Bosnia and Herzegovina' },
+  { iso_3166_1: 'BR', name: 'Brazil' },
+  { iso_3166_1: 'BG', name: 'Bulgaria' },
+  { iso_3166_1: 'KH', name: 'Cambodia' },
+  { iso_3166_1: 'CM', name: 'Cameroon' },
+  { iso_3166_1: 'CA', name: 'Canada' },
+  { iso_3166_1: 'CL', name: 'Chile' },
+  { iso_3166_1: 'CN', name: 'China' },
+  { iso_3166_1: 'CO', name: 'Colombia' },
+  { iso_3166_1: 'CR', name: 'Costa Rica' },
+  { iso_3166_1: 'HR', name: 'Croatia' },
+  { iso_3166_1: 'CU', name: 'Cuba' },
+  { iso_3166_1: 'CY', name: 'Cyprus' },
+  { iso_3166_1: 'CZ', name: 'Czech Republic' },
+  { iso_3166_1: 'DK', name: 'Denmark' },
+  { iso_3166_1: 'DO', name: 'Dominican Republic' },
+  { iso_3166_1: 'EC', name: 'Ecuador' },
+  { iso_3166_1: 'EG', name: 'Egypt' },
+  { iso_3166_1: 'EE', name: 'Estonia' },
+  { iso_3166_1: 'ET', name: 'Ethiopia' },
+  { iso_3166_1: 'FI', name: 'Finland' },
+  { iso_3166_1: 'FR', name: 'France' },
+  { iso_3166_1: 'GE', name: 'Georgia' },
+  { iso_3166_1: 'DE', name: 'Germany' },
+  { iso_3166_1: 'GH', name: 'Ghana' },
+  { iso_3166_1: 'GR', name: 'Greece' },
+  { iso_3166_1: 'GT', name: 'Guatemala' },
+  { iso_3166_1: 'HK', name: 'Hong Kong' },
+  { iso_3166_1: 'HU', name: 'Hungary' },
+  { iso_3166_1: 'IS', name: 'Iceland' },
+  { iso_3166_1: 'IN', name: 'India' },
+  { iso_3166_1: 'ID', name: 'Indonesia' },
+  { iso_3166_1: 'IR', name: 'Iran' },
+  { iso_3166_1: 'IQ', name: 'Iraq' },
+  { iso_3166_1: 'IE', name: 'Ireland' },
+  { iso_3166_1: 'IL', name: 'Israel' },
+  { iso_3166_1: 'IT', name: 'Italy' },
+  { iso_3166_1: 'JM', name: 'Jamaica' },
+  { iso_3166_1: 'JP', name: 'Japan' },
+  { iso_3166_1: 'JO', name: 'Jordan' },
+  { iso_3166_1: 'KZ', name: 'Kazakhstan' },
+  { iso_3166_1: 'KE', name: 'Kenya' },
+  { iso_3166_1: 'KW', name: 'Kuwait' },
+  { iso_3166_1: 'LV', name: 'Latvia' },
+  { iso_3166_1: 'LB', name: 'Lebanon' },
+  { iso_3166_1: 'LT', name: 'Lithuania' },
+  { iso_3166_1: 'LU', name: 'Luxembourg' },
+  { iso_3166_1: 'MO', name: 'Macao' },
+  { iso_3166_1: 'MY', name: 'Malaysia' },
+  { iso_3166_1: 'MT', name: 'Malta' },
+  { iso_3166_1: 'MX', name: 'Mexico' },
+  { iso_3166_1: 'MN', name: 'Mongolia' },
+  { iso_3166_1: 'ME', name: 'Montenegro' },
+  { iso_3166_1: 'MA', name: 'Morocco' },
+  { iso_3166_1: 'NP', name: 'Nepal' },
+  { iso_3166_1: 'NL', name: 'Netherlands' },
+  { iso_3166_1: 'NZ', name: 'New Zealand' },
+  { iso_3166_1: 'NG', name: 'Nigeria' },
+  { iso_3166_1: 'KP', name: 'North Korea' },
+  { iso_3166_1: 'MK', name: 'North Macedonia' },
+  { iso_3166_1: 'NO', name: 'Norway' },
+  { iso_3166_1: 'PK', name: 'Pakistan' },
+  { iso_3166_1: 'PS', name: 'Palestine' },
+  { iso_3166_1: 'PA', name: 'Panama' },
+  { iso_3166_1: 'PY', name: 'Paraguay' },
+  { iso_3166_1: 'PE', name: 'Peru' },
+  { iso_3166_1: 'PH', name: 'Philippines' },
+  { iso_3166_1: 'PL', name: 'Poland' },
+  { iso_3166_1: 'PT', name: 'Portugal' },
+  { iso_3166_1: 'PR', name: 'Puerto Rico' },
+  { iso_3166_1: 'QA', name: 'Qatar' },
+  { iso_3166_1: 'RO', name: 'Romania' },
+  { iso_3166_1: 'RU', name: 'Russia' },
+  { iso_3166_1: 'SA', name: 'Saudi Arabia' },
+  { iso_3166_1: 'SN', name: 'Senegal' },
+  { iso_3166_1: 'RS', name: 'Serbia' },
+  { iso_3166_1: 'SG', name: 'Singapore' },
+  { iso_3166_1: 'SK', name: 'Slovakia' },
+  { iso_3166_1: 'SI', name: 'Slovenia' },
+  { iso_3166_1: 'ZA', name: 'South Africa' },
+  { iso_3166_1: 'KR', name: 'South Korea' },
+  { iso_3166_1: 'ES', name: 'Spain' },
+  { iso_3166_1: 'LK', name: 'Sri Lanka' },
+  { iso_3166_1: 'SE', name: 'Sweden' },
+  { iso_3166_1: 'CH', name: 'Switzerland' },
+  { iso_3166_1: 'SY', name: 'Syria' },
+  { iso_3166_1: 'TW', name: 'Taiwan' },
+  { iso_3166_1: 'TZ', name: 'Tanzania' },
+  { iso_3166_1: 'TH', name: 'Thailand' },
+  { iso_3166_1: 'TN', name: 'Tunisia' },
+  { iso_3166_1: 'TR', name: 'Turkey' },
+  { iso_3166_1: 'UG', name: 'Uganda' },
+  { iso_3166_1: 'UA', name: 'Ukraine' },
+  { iso_3166_1: 'AE', name: 'United Arab Emirates' },
+  { iso_3166_1: 'GB', name: 'United Kingdom' },
+  { iso_3166_1: 'US', name: 'United States' },
+  { iso_3166_1: 'UY', name: 'Uruguay' },
+  { iso_3166_1: 'UZ', name: 'Uzbekistan' },
+  { iso_3166_1: 'VE', name: 'Venezuela' },
+  { iso_3166_1: 'VN', name: 'Vietnam' },
+  { iso_3166_1: 'ZW', name: 'Zimbabwe' },
+];
+
+// Normalise a label so case and spacing variants share a key
+const normalizeName = (name: string): string => name.trim().toLowerCase().replace(/\s+/g, ' ');
+
+// Dialects and historical names OMDb uses, mapped onto a registry name (normalised)
+const LANGUAGE_ALIASES: Record<string, string> = {
+  mandarin: 'chinese',
+  cantonese: 'chinese',
+  'min nan': 'chinese',
+  shanghainese: 'chinese',
+  hokkien: 'chinese',
+  filipino: 'tagalog',
+  farsi: 'persian',
+  flemish: 'dutch',
+  'swiss german': 'german',
+  'brazilian portuguese': 'portuguese',
+  'serbo-croatian': 'serbian',
+  'scots gaelic': 'scottish gaelic',
+  'haitian creole': 'haitian',
+  bokmal: 'norwegian',
+  nynorsk: 'norwegian',
+};
+
+const COUNTRY_ALIASES: Record<string, string> = {
+  usa: 'united states',
+  'united states of america': 'united states',
+  uk: 'united kingdom',
+  'great britain': 'united kingdom',
+  'west germany': 'germany',
+  'east germany': 'germany',
+  'soviet union': 'russia',
+  'russian federation': 'russia',
+  czechia: 'czech republic',
+  korea: 'south korea',
+  'republic of macedonia': 'north macedonia',
+  'federal republic of yugoslavia': 'serbia',
+  yugoslavia: 'serbia',
+  'occupied palestinian territory': 'palestine',
+  'state of palestine': 'palestine',
+};
+
+const LANGUAGES_BY_NAME = new Map(LANGUAGES.map((language) => [normalizeName(language.name), language]));
+const LANGUAGES_BY_CODE = new Map(LANGUAGES.map((language) => [language.code, language]));
+const COUNTRIES_BY_NAME = new Map(COUNTRIES.map((country) => [normalizeName(country.name), country]));
+
+// Split an OMDb comma-separated field, resolve each entry and drop unknowns and duplicates
+const parseList = <T>(value: string | null | undefined, resolve: (name: string) => T | undefined): T[] => {
+  if (!value || value === 'N/A') {
+    return [];
+  }
+
+  const entries = value
+    .split(',')
+    .map(resolve)
+    .filter((entry): entry is T => entry !== undefined);
+
+  return Array.from(new Set(entries));
+};
+
+/**
+ * Look up a language by its OMDb name (case insensitive, dialects resolve to their ISO 639-1 language)
+ */
+export const getLanguageByName = (name: string): Language | undefined => {
+  const key = normalizeName(name);
+  return LANGUAGES_BY_NAME.get(LANGUAGE_ALIASES[key] ?? key);
+};
+
+/**
+ * Look up a language by its ISO 639-1 code
+ */
+export const getLanguageByCode = (code: string): Language | undefined => LANGUAGES_BY_CODE.get(code);
+
+/**
+ * Look up a country by its OMDb name (case insensitive, historical names resolve to today's country)
+ */
+export const getCountryByName = (name: string): ProductionCountry | undefined => {
+  const key = normalizeName(name);
+  return COUNTRIES_BY_NAME.get(COUNTRY_ALIASES[key] ?? key);
+};
+
+/**
+ * Parse an OMDb Language string ("English, Mandarin") into ISO 639-1 languages
+ */
+export const parseLanguages = (languageString: string | null | undefined): Language[] => {
+  return parseList(languageString, getLanguageByName);
+};
+
+/**
+ * Parse an OMDb Country string ("USA, UK") into ISO 3166-1 countries
+ */
+export const parseCountries = (countryString: string | null | undefined): ProductionCountry[] => {
+  return parseList(countryString, getCountryByName);
+};
+
+/**
+ * Parse an OMDb Language string into spoken languages
+ */
+export const parseSpokenLanguages = (languageString: string | null | undefined): SpokenLanguage[] => {
+  return parseLanguages(languageString).map((language) => ({
+    english_name: language.name,
+    iso_639_1: language.code,
+    name: language.name,
+  }));
+};
+
+/**
+ * ISO 639-1 code of a title's primary (first listed) language, or '' when OMDb lists none we know
+ */
+export const getPrimaryLanguageCode = (languageString: string | null | undefined): string => {
+  return parseLanguages(languageString)[0]?.code ?? '';
+};
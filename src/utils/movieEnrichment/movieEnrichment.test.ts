@@ -0,0 +1,192 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  mapWithConcurrency,
+  mergeMovieDetails,
+  enrichMovies,
+  createCachedDetailsLoader,
+  createMovieEnricher,
+} from './movieEnrichment';
+import { createQueryClient } from '../../__mocks__/testUtils';
+import { mockMovie, mockOMDbMovie } from '../../__mocks__/testData';
+import { queryKeys } from '../../lib/queryClient';
+import { transformOMDbMovieToMovie } from '../dataTransformers';
+import { type MovieProvider } from '../../types/provider.types';
+import { type Movie } from '../../types/movie.types';
+
+// Mock the api.config module to avoid import.meta issues
+vi.mock('../../config/api.config', () => ({
+  getApiConfig: vi.fn(() => ({
+    provider: 'omdb',
+    omdb: {
+      apiKey: 'test-key',
+      baseURL: 'https://test.com',
+      timeout: 10000,
+    },
+  })),
+  isApiConfigValid: vi.fn(() => true),
+}));
+
+describe('Movie Enrichment', () => {
+  const searchHit: Movie = {
+    ...mockMovie,
+    id: 'tt1234567',
+    overview: 'No overview available.',
+    original_language: '',
+    release_date: '2023-01-01',
+    vote_average: 0,
+    vote_count: 0,
+    popularity: 0,
+  };
+
+  const detailedMovie = transformOMDbMovieToMovie(mockOMDbMovie);
+
+  const createProvider = (getMovieSummary = vi.fn().mockResolvedValue(detailedMovie)) =>
+    ({ getMovieSummary }) as unknown as MovieProvider & { getMovieSummary: typeof getMovieSummary };
+
+  describe('mapWithConcurrency', () => {
+    it('GIVEN more items than the limit WHEN mapping THEN should never exceed the limit and keep the input order', async () => {
+      // GIVEN
+      let inFlight = 0;
+      let maxInFlight = 0;
+      const mapper = async (item: number) => {
+        inFlight++;
+        maxInFlight = Math.max(maxInFlight, inFlight);
+        await new Promise((resolve) => setTimeout(resolve, 5 - item));
+        inFlight--;
+        return item * 2;
+      };
+
+      // WHEN
+      const result = await mapWithConcurrency([1, 2, 3, 4, 5], 2, mapper);
+
+      // THEN
+      expect(result).toEqual([2, 4, 6, 8, 10]);
+      expect(maxInFlight).toBe(2);
+    });
+
+    it('GIVEN no items WHEN mapping THEN should resolve to an empty array', async () => {
+      // GIVEN
+      const mapper = vi.fn();
+
+      // WHEN
+      const result = await mapWithConcurrency([], 4, mapper);
+
+      // THEN
+      expect(result).toEqual([]);
+      expect(mapper).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('mergeMovieDetails', () => {
+    it('GIVEN the full listing of a title WHEN merging THEN should fill in the ratings, votes, plot, language, runtime and content rating', () => {
+      // GIVEN
+      const details = transformOMDbMovieToMovie({
+        ...mockOMDbMovie, imdbRating: '8.8', imdbVotes: '2,400,000', Plot: 'A thief enters dreams.', Language: 'English, Japanese',
+      });
+
+      // WHEN
+      const result = mergeMovieDetails(searchHit, details);
+
+      // THEN
+      expect(result).toEqual(expect.objectContaining({
+        id: 'tt1234567',
+        title: searchHit.title,
+        overview: 'A thief enters dreams.',
+        vote_average: 8.8,
+        vote_count: 2400000,
+        popularity: 2400000,
+        original_language: 'en',
+        release_date: '2023-01-01',
+        runtime: 120,
+        rated: 'PG-13',
+      }));
+      expect(result.ratings).toEqual([
+        { source: 'imdb', value: 7.5, display: '7.5/10' },
+        { source: 'rotten_tomatoes', value: 7.5, display: '75%' },
+        { source: 'metacritic', value: 7.5, display: '75/100' },
+      ]);
+    });
+
+    it('GIVEN details without a release date WHEN merging THEN should keep the search release date', () => {
+      // GIVEN
+      const details = transformOMDbMovieToMovie({ ...mockOMDbMovie, Released: 'N/A' });
+
+      // WHEN
+      const result = mergeMovieDetails(searchHit, details);
+
+      // THEN
+      expect(result.release_date).toBe('2023-01-01');
+    });
+  });
+
+  describe('enrichMovies', () => {
+    it('GIVEN a failing or missing title WHEN enriching THEN should keep that movie unchanged', async () => {
+      // GIVEN
+      const movies = [searchHit, { ...searchHit, id: 'tt0000001' }, { ...searchHit, id: 'tt0000002' }];
+      const loadDetails = vi.fn(async (id: string) => {
+        if (id === 'tt0000001') throw new Error('Network Error');
+        if (id === 'tt0000002') return null;
+        return detailedMovie;
+      });
+
+      // WHEN
+      const result = await enrichMovies(movies, loadDetails);
+
+      // THEN
+      expect(loadDetails).toHaveBeenCalledTimes(3);
+      expect(result[0].vote_average).toBe(7.5);
+      expect(result[1]).toBe(movies[1]);
+      expect(result[2]).toBe(movies[2]);
+    });
+
+    it('GIVEN an aborted signal WHEN enriching THEN should return the movies without loading details', async () => {
+      // GIVEN
+      const movies = [searchHit, { ...searchHit, id: 'tt0000001' }];
+      const loadDetails = vi.fn().mockResolvedValue(detailedMovie);
+      const controller = new AbortController();
+      controller.abort();
+
+      // WHEN
+      const result = await enrichMovies(movies, loadDetails, controller.signal);
+
+      // THEN
+      expect(loadDetails).not.toHaveBeenCalled();
+      expect(result).toEqual(movies);
+    });
+  });
+
+  describe('createCachedDetailsLoader', () => {
+    it('GIVEN a title loaded once WHEN loading it again THEN should be served from the query cache', async () => {
+      // GIVEN
+      const queryClient = createQueryClient();
+      const provider = createProvider();
+      const loadDetails = createCachedDetailsLoader(queryClient, provider);
+
+      // WHEN
+      await loadDetails('tt1234567');
+      const cached = await loadDetails('tt1234567');
+
+      // THEN
+      expect(provider.getMovieSummary).toHaveBeenCalledTimes(1);
+      expect(provider.getMovieSummary).toHaveBeenCalledWith('tt1234567', { priority: 'low' });
+      expect(cached).toEqual(detailedMovie);
+      expect(queryClient.getQueryData(queryKeys.movies.enrichment('tt1234567'))).toEqual(detailedMovie);
+    });
+  });
+
+  describe('createMovieEnricher', () => {
+    it('GIVEN duplicate search hits WHEN enriching THEN should fetch each IMDb id once', async () => {
+      // GIVEN
+      const queryClient = createQueryClient();
+      const provider = createProvider();
+      const enrich = createMovieEnricher(queryClient, provider);
+
+      // WHEN
+      const result = await enrich([searchHit, searchHit]);
+
+      // THEN
+      expect(provider.getMovieSummary).toHaveBeenCalledTimes(1);
+      expect(result.map((movie) => movie.vote_average)).toEqual([7.5, 7.5]);
+    });
+  });
+});
@@ -0,0 +1,108 @@
+import { type QueryClient } from '@tanstack/react-query';
+import { type Movie, type MovieEnricher } from '../../types/movie.types';
+import { type MovieProvider } from '../../types/provider.types';
+import { queryKeys } from '../../lib/queryClient';
+import { QUERY_CONFIG } from '../queryUtils';
+
+/**
+ * Loads the full listing of a single title
+ */
+export type MovieDetailsLoader = (id: string) => Promise<Movie | null | undefined>;
+
+/**
+ * Map items through an async mapper with at most `concurrency` calls in flight.
+ * Results keep the order of the input.
+ */
+export const mapWithConcurrency = async <T, R>(
+  items: readonly T[],
+  concurrency: number,
+  mapper: (item: T, index: number) => Promise<R>
+): Promise<R[]> => {
+  const results = new Array<R>(items.length);
+  let nextIndex = 0;
+
+  const worker = async (): Promise<void> => {
+    while (nextIndex < items.length) {
+      const index = nextIndex++;
+      results[index] = await mapper(items[index], index);
+    }
+  };
+
+  const workerCount = Math.max(1, Math.min(concurrency, items.length));
+  await Promise.all(Array.from({ length: workerCount }, worker));
+  return results;
+};
+
+/**
+ * Merge a title's full listing into a movie built from a search hit.
+ * Only fields the search endpoint can't provide are taken from the details.
+ */
+export const mergeMovieDetails = <T extends Movie>(movie: T, detailedMovie: Movie): T => {
+  return {
+    ...movie,
+    overview: detailedMovie.overview,
+    release_date: detailedMovie.release_date !== 'N/A' ? detailedMovie.release_date : movie.release_date,
+    vote_average: detailedMovie.vote_average,
+    vote_count: detailedMovie.vote_count,
+    genre_ids: detailedMovie.genre_ids.length > 0 ? detailedMovie.genre_ids : movie.genre_ids,
+    original_language: detailedMovie.original_language || movie.original_language,
+    ratings: detailedMovie.ratings,
+    runtime: detailedMovie.runtime,
+    rated: detailedMovie.rated,
+    // OMDb has no popularity metric; the vote count is the closest proxy
+    popularity: detailedMovie.popularity || detailedMovie.vote_count,
+  };
+};
+
+/**
+ * Enrich movies with their full listings.
+ * Movies whose details can't be loaded are returned unchanged.
+ * Once the signal aborts no further details are requested; requests already in flight
+ * still complete, so their details are cached for the next search.
+ */
+export const enrichMovies = async <T extends Movie>(
+  movies: readonly T[],
+  loadDetails: MovieDetailsLoader,
+  signal?: AbortSignal,
+  concurrency: number = QUERY_CONFIG.ENRICHMENT_CONCURRENCY
+): Promise<T[]> => {
+  return mapWithConcurrency(movies, concurrency, async (movie) => {
+    if (signal?.aborted) {
+      return movie;
+    }
+    try {
+      const details = await loadDetails(String(movie.id));
+      return details ? mergeMovieDetails(movie, details) : movie;
+    } catch {
+      return movie;
+    }
+  });
+};
+
+/**
+ * Create a details loader that caches each title's listing in the React Query cache,
+ * so a title is only fetched once across searches, pages and homepage sections
+ */
+export const createCachedDetailsLoader = (
+  queryClient: QueryClient,
+  provider: MovieProvider
+): MovieDetailsLoader => {
+  return (id) => queryClient.fetchQuery({
+    queryKey: queryKeys.movies.enrichment(id),
+    // Enrichment is background work, so it yields to details pages the user is waiting on
+    queryFn: () => provider.getMovieSummary(id, { priority: 'low' }),
+    staleTime: QUERY_CONFIG.STALE_TIME.MOVIE_DETAILS,
+    gcTime: QUERY_CONFIG.GC_TIME.MOVIE_DETAILS,
+  });
+};
+
+/**
+ * Create a MovieEnricher backed by the React Query cache
+ */
+export const createMovieEnricher = (
+  queryClient: QueryClient,
+  provider: MovieProvider
+): MovieEnricher => {
+  const loadDetails = createCachedDetailsLoader(queryClient, provider);
+  return (movies, signal) => enrichMovies(movies, loadDetails, signal);
+};
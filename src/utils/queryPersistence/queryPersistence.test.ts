@@ -0,0 +1,170 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { QueryClient } from '@tanstack/react-query';
+import {
+  QUERY_CACHE_BUSTER,
+  QUERY_CACHE_PERSIST_THROTTLE,
+  createQueryCacheSnapshot,
+  restoreQueryCache,
+  persistQueryCache,
+} from './queryPersistence';
+import { STORAGE_KEYS } from '../storageUtils';
+import { queryKeys } from '../../lib/queryClient';
+import { QUERY_CONFIG } from '../queryUtils';
+import { mockHomePageData, mockOMDbMovie } from '../../__mocks__/testData';
+
+// Mock the api.config module to avoid import.meta issues
+vi.mock('../../config/api.config', () => ({
+  getApiConfig: vi.fn(() => ({
+    provider: 'omdb',
+    omdb: {
+      apiKey: 'test-key',
+      baseURL: 'https://test.com',
+      timeout: 10000,
+    },
+  })),
+  isApiConfigValid: vi.fn(() => true),
+}));
+
+describe('Query Persistence', () => {
+  const createClient = () => {
+    const queryClient = new QueryClient({ defaultOptions: { queries: { retry: false } } });
+    queryClient.setQueryDefaults(queryKeys.homePage.all, { gcTime: QUERY_CONFIG.GC_TIME.HOMEPAGE });
+    queryClient.setQueryDefaults(queryKeys.movies.all, { gcTime: QUERY_CONFIG.GC_TIME.MOVIE_DETAILS });
+    return queryClient;
+  };
+
+  const seedClient = (queryClient: QueryClient, updatedAt: number) => {
+    queryClient.setQueryData(queryKeys.homePage.data(), mockHomePageData, { updatedAt });
+    queryClient.setQueryData(queryKeys.movies.enrichment('tt1234567'), mockOMDbMovie, { updatedAt });
+  };
+
+  beforeEach(() => {
+    window.localStorage.clear();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('createQueryCacheSnapshot', () => {
+    it('GIVEN cached queries WHEN snapshotting THEN should expire each query after its gcTime', () => {
+      // GIVEN
+      const now = 1_000_000;
+      const queryClient = createClient();
+      seedClient(queryClient, now);
+
+      // WHEN
+      const snapshot = createQueryCacheSnapshot(queryClient, now);
+
+      // THEN
+      expect(snapshot.buster).toBe(QUERY_CACHE_BUSTER);
+      expect(snapshot.state.queries).toHaveLength(2);
+      expect(Object.values(snapshot.expiresAt).sort()).toEqual([
+        now + QUERY_CONFIG.GC_TIME.HOMEPAGE,
+        now + QUERY_CONFIG.GC_TIME.MOVIE_DETAILS,
+      ]);
+    });
+
+    it('GIVEN a failed query WHEN snapshotting THEN should leave it out', async () => {
+      // GIVEN
+      const queryClient = createClient();
+      await queryClient.prefetchQuery({
+        queryKey: queryKeys.movies.details('tt0000001'),
+        queryFn: () => Promise.reject(new Error('Network Error')),
+      });
+
+      // WHEN
+      const snapshot = createQueryCacheSnapshot(queryClient);
+
+      // THEN
+      expect(snapshot.state.queries).toEqual([]);
+    });
+  });
+
+  describe('restoreQueryCache', () => {
+    it('GIVEN a persisted cache WHEN restoring THEN should hydrate only the queries that have not expired', () => {
+      // GIVEN
+      const savedAt = 1_000_000;
+      const source = createClient();
+      seedClient(source, savedAt);
+      window.localStorage.setItem(STORAGE_KEYS.QUERY_CACHE, JSON.stringify(createQueryCacheSnapshot(source, savedAt)));
+      const target = createClient();
+
+      // WHEN
+      // Past the homepage gcTime but within the details gcTime
+      const restored = restoreQueryCache(target, savedAt + QUERY_CONFIG.GC_TIME.HOMEPAGE + 1);
+
+      // THEN
+      expect(restored).toBe(1);
+      expect(target.getQueryData(queryKeys.homePage.data())).toBeUndefined();
+      expect(target.getQueryData(queryKeys.movies.enrichment('tt1234567'))).toEqual(mockOMDbMovie);
+    });
+
+    it('GIVEN a cache persisted by an older version WHEN restoring THEN should discard it', () => {
+      // GIVEN
+      const source = createClient();
+      seedClient(source, Date.now());
+      const snapshot = { ...createQueryCacheSnapshot(source), buster: 'outdated' };
+      window.localStorage.setItem(STORAGE_KEYS.QUERY_CACHE, JSON.stringify(snapshot));
+      const target = createClient();
+
+      // WHEN
+      const restored = restoreQueryCache(target);
+
+      // THEN
+      expect(restored).toBe(0);
+      expect(target.getQueryData(queryKeys.homePage.data())).toBeUndefined();
+      expect(window.localStorage.getItem(STORAGE_KEYS.QUERY_CACHE)).toBeNull();
+    });
+
+    it('GIVEN malformed storage WHEN restoring THEN should restore nothing', () => {
+      // GIVEN
+      window.localStorage.setItem(STORAGE_KEYS.QUERY_CACHE, JSON.stringify({ buster: QUERY_CACHE_BUSTER }));
+
+      // WHEN
+      const restored = restoreQueryCache(createClient());
+
+      // THEN
+      expect(restored).toBe(0);
+    });
+  });
+
+  describe('persistQueryCache', () => {
+    it('GIVEN a persisted client WHEN queries succeed THEN should write the cache once per throttle window', () => {
+      // GIVEN
+      vi.useFakeTimers();
+      const setItem = vi.spyOn(Storage.prototype, 'setItem');
+      const queryClient = createClient();
+      const unsubscribe = persistQueryCache(queryClient);
+
+      // WHEN
+      seedClient(queryClient, Date.now());
+      vi.advanceTimersByTime(QUERY_CACHE_PERSIST_THROTTLE);
+
+      // THEN
+      expect(setItem).toHaveBeenCalledTimes(1);
+      const stored = JSON.parse(window.localStorage.getItem(STORAGE_KEYS.QUERY_CACHE)!);
+      expect(stored.state.queries).toHaveLength(2);
+
+      unsubscribe();
+      setItem.mockRestore();
+    });
+
+    it('GIVEN a pending write WHEN unsubscribing THEN should flush it and stop persisting', () => {
+      // GIVEN
+      vi.useFakeTimers();
+      const queryClient = createClient();
+      const unsubscribe = persistQueryCache(queryClient);
+      seedClient(queryClient, Date.now());
+
+      // WHEN
+      unsubscribe();
+      queryClient.setQueryData(queryKeys.movies.popular(), []);
+      vi.advanceTimersByTime(QUERY_CACHE_PERSIST_THROTTLE);
+
+      // THEN
+      const stored = JSON.parse(window.localStorage.getItem(STORAGE_KEYS.QUERY_CACHE)!);
+      expect(stored.state.queries).toHaveLength(2);
+    });
+  });
+});
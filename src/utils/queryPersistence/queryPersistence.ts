@@ -0,0 +1,98 @@
+import { dehydrate, hydrate, type DehydratedState, type QueryClient } from '@tanstack/react-query';
+import { loadFromStorage, removeFromStorage, saveToStorage, STORAGE_KEYS } from '../storageUtils';
+
+/**
+ * Version of the persisted query cache.
+ * Bump it whenever the shape of cached data changes so stale entries from older builds are dropped.
+ */
+export const QUERY_CACHE_BUSTER = '2';
+
+/**
+ * Minimum delay between two writes of the query cache to storage
+ */
+export const QUERY_CACHE_PERSIST_THROTTLE = 1000;
+
+interface PersistedQueryCache {
+  buster: string;
+  /** Time after which each query is dropped, by query hash */
+  expiresAt: Record<string, number>;
+  state: DehydratedState;
+}
+
+const isPersistedQueryCache = (value: unknown): value is PersistedQueryCache => {
+  if (!value || typeof value !== 'object') return false;
+  const cache = value as Partial<PersistedQueryCache>;
+  return typeof cache.buster === 'string'
+    && typeof cache.expiresAt === 'object' && cache.expiresAt !== null
+    && Array.isArray(cache.state?.queries);
+};
+
+/**
+ * Snapshot the successful queries of a client for storage.
+ * Each query expires once its gcTime (QUERY_CONFIG.GC_TIME for our hooks) has passed since its data was fetched.
+ */
+export const createQueryCacheSnapshot = (queryClient: QueryClient, now: number = Date.now()): PersistedQueryCache => {
+  const expiresAt: Record<string, number> = {};
+
+  queryClient.getQueryCache().getAll().forEach((query) => {
+    if (query.state.status === 'success' && Number.isFinite(query.gcTime)) {
+      expiresAt[query.queryHash] = query.state.dataUpdatedAt + query.gcTime;
+    }
+  });
+
+  const state = dehydrate(queryClient, {
+    shouldDehydrateQuery: (query) => (expiresAt[query.queryHash] ?? 0) > now,
+    shouldDehydrateMutation: () => false,
+  });
+
+  return { buster: QUERY_CACHE_BUSTER, expiresAt, state };
+};
+
+/**
+ * Restore the persisted query cache into a client.
+ * Runs synchronously so it can complete before the first render.
+ * @returns Number of queries restored
+ */
+export const restoreQueryCache = (queryClient: QueryClient, now: number = Date.now()): number => {
+  const persisted = loadFromStorage<PersistedQueryCache | null>(STORAGE_KEYS.QUERY_CACHE, null, isPersistedQueryCache);
+  if (!persisted) return 0;
+
+  if (persisted.buster !== QUERY_CACHE_BUSTER) {
+    removeFromStorage(STORAGE_KEYS.QUERY_CACHE);
+    return 0;
+  }
+
+  const queries = persisted.state.queries.filter((query) => (persisted.expiresAt[query.queryHash] ?? 0) > now);
+  hydrate(queryClient, { ...persisted.state, queries });
+  return queries.length;
+};
+
+/**
+ * Persist the query cache to storage whenever it changes, throttled to one write per QUERY_CACHE_PERSIST_THROTTLE
+ * @returns Unsubscribe function that also flushes any pending write
+ */
+export const persistQueryCache = (queryClient: QueryClient): (() => void) => {
+  let timeoutId: ReturnType<typeof setTimeout> | null = null;
+
+  const save = () => {
+    timeoutId = null;
+    saveToStorage(STORAGE_KEYS.QUERY_CACHE, createQueryCacheSnapshot(queryClient));
+  };
+
+  const unsubscribe = queryClient.getQueryCache().subscribe((event) => {
+    // Only new data and garbage-collected queries change what gets stored
+    const changesData = event.type === 'removed' || (event.type === 'updated' && event.action.type === 'success');
+    if (!changesData) return;
+    if (timeoutId === null) {
+      timeoutId = setTimeout(save, QUERY_CACHE_PERSIST_THROTTLE);
+    }
+  });
+
+  return () => {
+    unsubscribe();
+    if (timeoutId !== null) {
+      clearTimeout(timeoutId);
+      save();
+    }
+  };
+};
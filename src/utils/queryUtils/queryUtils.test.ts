@@ -1,14 +1,18 @@
 import { vi, describe, it, expect, beforeEach, afterEach } from 'vitest';
 import { 
   QUERY_CONFIG, 
-  createOMDbService, 
+  createMovieProvider, 
   transformToQueryError, 
   withQueryErrorHandling,
   getCurrentYear,
-  getNextYear
+  getNextYear,
+  getMovieProvider,
+  resetMovieProvider,
+  verifyApiKey,
+  applyApiKey
 } from './queryUtils';
-import { OMDbService } from '../../services/OMDbService';
-import { getApiConfig } from '../../config/api.config';
+import { OMDbService, OMDbInvalidApiKeyError } from '../../services/OMDbService';
+import { getApiConfig, saveApiKey } from '../../config/api.config';
 
 // Mock dependencies
 vi.mock('../../services/OMDbService');
@@ -20,6 +24,7 @@ const mockGetApiConfig = vi.mocked(getApiConfig);
 describe('queryUtils', () => {
   beforeEach(() => {
     vi.clearAllMocks();
+    resetMovieProvider();
   });
 
   afterEach(() => {
@@ -62,12 +67,18 @@ describe('queryUtils', () => {
       // GIVEN & WHEN & THEN
       expect(QUERY_CONFIG.MOVIES_PER_SECTION).toBe(10);
     });
+
+    it('GIVEN QUERY_CONFIG WHEN accessed THEN should limit parallel enrichment requests', () => {
+      // GIVEN & WHEN & THEN
+      expect(QUERY_CONFIG.ENRICHMENT_CONCURRENCY).toBe(4);
+    });
   });
 
-  describe('createOMDbService', () => {
-    it('GIVEN valid API config WHEN creating OMDb service THEN should return service instance', () => {
+  describe('createMovieProvider', () => {
+    it('GIVEN valid OMDb config WHEN creating the movie provider THEN should return an OMDb service', () => {
       // GIVEN
       const mockConfig = {
+        provider: 'omdb' as const,
         omdb: {
           apiKey: 'test-api-key',
           baseURL: 'https://api.example.com',
@@ -79,7 +90,7 @@ describe('queryUtils', () => {
       mockOMDbService.mockImplementation(() => mockServiceInstance as unknown as OMDbService);
 
       // WHEN
-      const result = createOMDbService();
+      const result = createMovieProvider();
 
       // THEN
       expect(mockGetApiConfig).toHaveBeenCalledOnce();
@@ -90,6 +101,7 @@ describe('queryUtils', () => {
     it('GIVEN missing API key WHEN creating OMDb service THEN should throw error', () => {
       // GIVEN
       const mockConfig = {
+        provider: 'omdb' as const,
         omdb: {
           apiKey: '',
           baseURL: 'https://api.example.com',
@@ -99,12 +111,13 @@ describe('queryUtils', () => {
       mockGetApiConfig.mockReturnValue(mockConfig);
 
       // WHEN & THEN
-      expect(() => createOMDbService()).toThrow('API configuration is invalid');
+      expect(() => createMovieProvider()).toThrow('API configuration is invalid');
     });
 
     it('GIVEN missing base URL WHEN creating OMDb service THEN should throw error', () => {
       // GIVEN
       const mockConfig = {
+        provider: 'omdb' as const,
         omdb: {
           apiKey: 'test-api-key',
           baseURL: '',
@@ -114,12 +127,13 @@ describe('queryUtils', () => {
       mockGetApiConfig.mockReturnValue(mockConfig);
 
       // WHEN & THEN
-      expect(() => createOMDbService()).toThrow('API configuration is invalid');
+      expect(() => createMovieProvider()).toThrow('API configuration is invalid');
     });
 
     it('GIVEN null API key WHEN creating OMDb service THEN should throw error', () => {
       // GIVEN
       const mockConfig = {
+        provider: 'omdb' as const,
         omdb: {
           apiKey: null,
           baseURL: 'https://api.example.com',
@@ -129,12 +143,13 @@ describe('queryUtils', () => {
       mockGetApiConfig.mockReturnValue(mockConfig);
 
       // WHEN & THEN
-      expect(() => createOMDbService()).toThrow('API configuration is invalid');
+      expect(() => createMovieProvider()).toThrow('API configuration is invalid');
     });
 
     it('GIVEN undefined base URL WHEN creating OMDb service THEN should throw error', () => {
       // GIVEN
       const mockConfig = {
+        provider: 'omdb' as const,
         omdb: {
           apiKey: 'test-api-key',
           baseURL: undefined,
@@ -144,7 +159,24 @@ describe('queryUtils', () => {
       mockGetApiConfig.mockReturnValue(mockConfig);
 
       // WHEN & THEN
-      expect(() => createOMDbService()).toThrow('API configuration is invalid');
+      expect(() => createMovieProvider()).toThrow('API configuration is invalid');
+    });
+
+    it('GIVEN an unsupported provider WHEN creating the movie provider THEN should throw error', () => {
+      // GIVEN
+      const mockConfig = {
+        provider: 'tmdb',
+        omdb: {
+          apiKey: 'test-api-key',
+          baseURL: 'https://api.example.com',
+          timeout: 10000,
+        },
+      } as unknown as ReturnType<typeof getApiConfig>;
+      mockGetApiConfig.mockReturnValue(mockConfig);
+
+      // WHEN & THEN
+      expect(() => createMovieProvider()).toThrow('Unsupported movie provider "tmdb"');
+      expect(mockOMDbService).not.toHaveBeenCalled();
     });
   });
 
@@ -195,6 +227,16 @@ describe('queryUtils', () => {
           code: undefined,
         },
       },
+      {
+        description: 'ApiError after retries',
+        input: { message: 'Service unavailable', status: 503, attempts: 3 },
+        expected: {
+          message: 'Unknown error occurred',
+          status: 503,
+          code: undefined,
+          attempts: 3,
+        },
+      },
       {
         description: 'Null error',
         input: null,
@@ -229,6 +271,7 @@ describe('queryUtils', () => {
     it('GIVEN successful query function WHEN executing with error handling THEN should return result', async () => {
       // GIVEN
       const mockConfig = {
+        provider: 'omdb' as const,
         omdb: {
           apiKey: 'test-api-key',
           baseURL: 'https://api.example.com',
@@ -253,6 +296,7 @@ describe('queryUtils', () => {
     it('GIVEN query function that throws error WHEN executing with error handling THEN should throw transformed error', async () => {
       // GIVEN
       const mockConfig = {
+        provider: 'omdb' as const,
         omdb: {
           apiKey: 'test-api-key',
           baseURL: 'https://api.example.com',
@@ -273,6 +317,7 @@ describe('queryUtils', () => {
     it('GIVEN query function that throws error with status WHEN executing with error handling THEN should preserve error properties', async () => {
       // GIVEN
       const mockConfig = {
+        provider: 'omdb' as const,
         omdb: {
           apiKey: 'test-api-key',
           baseURL: 'https://api.example.com',
@@ -297,6 +342,7 @@ describe('queryUtils', () => {
     it('GIVEN invalid API config WHEN executing with error handling THEN should throw configuration error', async () => {
       // GIVEN
       const mockConfig = {
+        provider: 'omdb' as const,
         omdb: {
           apiKey: '',
           baseURL: 'https://api.example.com',
@@ -312,6 +358,106 @@ describe('queryUtils', () => {
     });
   });
 
+  describe('getMovieProvider', () => {
+    const createConfig = (apiKey: string, timeout = 10000) => ({
+      provider: 'omdb' as const,
+      omdb: { apiKey, baseURL: 'https://api.example.com', timeout },
+    });
+
+    it('GIVEN an unchanged configuration WHEN getting the provider twice THEN should reuse the same instance', () => {
+      // GIVEN
+      mockGetApiConfig.mockReturnValue(createConfig('test-api-key'));
+      mockOMDbService.mockImplementation(() => ({ updateApiKey: vi.fn() }) as unknown as OMDbService);
+
+      // WHEN
+      const first = getMovieProvider();
+      const second = getMovieProvider();
+
+      // THEN
+      expect(second).toBe(first);
+      expect(mockOMDbService).toHaveBeenCalledTimes(1);
+    });
+
+    it('GIVEN only the API key changed WHEN getting the provider THEN should apply the key to the live instance', () => {
+      // GIVEN
+      const updateApiKey = vi.fn();
+      mockOMDbService.mockImplementation(() => ({ updateApiKey }) as unknown as OMDbService);
+      mockGetApiConfig.mockReturnValue(createConfig('old-key'));
+      const first = getMovieProvider();
+      mockGetApiConfig.mockReturnValue(createConfig('new-key'));
+
+      // WHEN
+      const second = getMovieProvider();
+
+      // THEN
+      expect(second).toBe(first);
+      expect(updateApiKey).toHaveBeenCalledWith('new-key');
+    });
+
+    it('GIVEN another setting changed WHEN getting the provider THEN should build a new instance', () => {
+      // GIVEN
+      mockOMDbService.mockImplementation(() => ({ updateApiKey: vi.fn() }) as unknown as OMDbService);
+      mockGetApiConfig.mockReturnValue(createConfig('test-api-key'));
+      const first = getMovieProvider();
+      mockGetApiConfig.mockReturnValue(createConfig('test-api-key', 5000));
+
+      // WHEN
+      const second = getMovieProvider();
+
+      // THEN
+      expect(second).not.toBe(first);
+      expect(mockOMDbService).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('verifyApiKey', () => {
+    it('GIVEN a key WHEN verifying it THEN should look up a title with a provider using that key', async () => {
+      // GIVEN
+      const config = { provider: 'omdb' as const, omdb: { apiKey: 'candidate', baseURL: 'https://api.example.com', timeout: 10000 } };
+      mockGetApiConfig.mockReturnValue(config);
+      const getMovieSummary = vi.fn().mockResolvedValue({ id: 'tt0133093' });
+      mockOMDbService.mockImplementation(() => ({ getMovieSummary }) as unknown as OMDbService);
+
+      // WHEN
+      await verifyApiKey(' candidate ');
+
+      // THEN
+      expect(mockGetApiConfig).toHaveBeenCalledWith('candidate');
+      expect(mockOMDbService).toHaveBeenCalledWith(config.omdb);
+      expect(getMovieSummary).toHaveBeenCalledWith('tt0133093', { priority: 'high', retry: false });
+    });
+
+    it('GIVEN a key the provider rejects WHEN verifying it THEN should reject with the provider error', async () => {
+      // GIVEN
+      mockGetApiConfig.mockReturnValue({ provider: 'omdb', omdb: { apiKey: 'bad', baseURL: 'https://api.example.com', timeout: 10000 } });
+      const getMovieSummary = vi.fn().mockRejectedValue(new OMDbInvalidApiKeyError());
+      mockOMDbService.mockImplementation(() => ({ getMovieSummary }) as unknown as OMDbService);
+
+      // WHEN
+      const verification = verifyApiKey('bad');
+
+      // THEN
+      await expect(verification).rejects.toBeInstanceOf(OMDbInvalidApiKeyError);
+    });
+  });
+
+  describe('applyApiKey', () => {
+    it('GIVEN a live provider WHEN applying a key THEN should save it and update the live provider', () => {
+      // GIVEN
+      const updateApiKey = vi.fn();
+      mockOMDbService.mockImplementation(() => ({ updateApiKey }) as unknown as OMDbService);
+      mockGetApiConfig.mockReturnValue({ provider: 'omdb', omdb: { apiKey: 'old-key', baseURL: 'https://api.example.com', timeout: 10000 } });
+      getMovieProvider();
+
+      // WHEN
+      applyApiKey(' new-key ');
+
+      // THEN
+      expect(saveApiKey).toHaveBeenCalledWith('new-key');
+      expect(updateApiKey).toHaveBeenCalledWith('new-key');
+    });
+  });
+
   describe('getCurrentYear', () => {
     it('GIVEN current date WHEN getting current year THEN should return current year as string', () => {
       // GIVEN
@@ -407,6 +553,7 @@ describe('queryUtils', () => {
     it('GIVEN query function that returns undefined WHEN executing with error handling THEN should return undefined', async () => {
       // GIVEN
       const mockConfig = {
+        provider: 'omdb' as const,
         omdb: {
           apiKey: 'test-api-key',
           baseURL: 'https://api.example.com',
@@ -429,6 +576,7 @@ describe('queryUtils', () => {
     it('GIVEN query function that returns null WHEN executing with error handling THEN should return null', async () => {
       // GIVEN
       const mockConfig = {
+        provider: 'omdb' as const,
         omdb: {
           apiKey: 'test-api-key',
           baseURL: 'https://api.example.com',
@@ -451,6 +599,7 @@ describe('queryUtils', () => {
     it('GIVEN query function that returns complex object WHEN executing with error handling THEN should return the object', async () => {
       // GIVEN
       const mockConfig = {
+        provider: 'omdb' as const,
         omdb: {
           apiKey: 'test-api-key',
           baseURL: 'https://api.example.com',
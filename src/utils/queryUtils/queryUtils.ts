@@ -1,6 +1,8 @@
 import { OMDbService } from '../../services/OMDbService';
-import { getApiConfig } from '../../config/api.config';
+import { getApiConfig, saveApiKey, type ApiConfig } from '../../config/api.config';
 import { type QueryError } from '../../types/query.types';
+import { type RequestOptions } from '../../types/api.types';
+import { type MovieProvider, MovieProviderName } from '../../types/provider.types';
 
 /**
  * Common query configuration constants
@@ -20,23 +22,102 @@ export const QUERY_CONFIG = {
   },
   RATING_THRESHOLD: 7.0,
   MOVIES_PER_SECTION: 10,
+  ENRICHMENT_CONCURRENCY: 4, // Parallel detail requests when enriching search hits
+  SUGGESTIONS: {
+    LIMIT: 5, // Title matches shown in the search autocomplete
+    MIN_QUERY_LENGTH: 3, // OMDb answers shorter searches with "Too many results."
+  },
 } as const;
 
+// Title looked up to check that an API key works
+const API_KEY_PROBE_ID = 'tt0133093';
+
+// A built provider and how to switch it to another API key; keys are provider-specific, so the
+// factory handles them rather than the MovieProvider interface
+interface BuiltMovieProvider {
+  readonly provider: MovieProvider;
+  readonly setApiKey: (apiKey: string) => void;
+}
+
+const buildMovieProvider = (config: ApiConfig): BuiltMovieProvider => {
+  switch (config.provider) {
+    case MovieProviderName.OMDB: {
+      if (!config.omdb.apiKey || !config.omdb.baseURL) {
+        throw new Error('API configuration is invalid');
+      }
+      const service = new OMDbService({
+        ...config.omdb,
+        apiKey: config.omdb.apiKey,
+        baseURL: config.omdb.baseURL,
+      });
+      return { provider: service, setApiKey: (apiKey) => service.updateApiKey(apiKey) };
+    }
+    default: {
+      // Fails to compile when a provider name is added without a case here
+      const unsupportedProvider: never = config.provider;
+      throw new Error(`Unsupported movie provider "${unsupportedProvider}"`);
+    }
+  }
+};
+
 /**
- * Create and validate OMDb service instance
- * @returns OMDbService instance
+ * Create the movie provider selected by the API configuration
+ * @param config - Configuration to use, read from the environment and saved key by default
+ * @returns MovieProvider instance, OMDb unless configured otherwise
  * @throws Error if API configuration is invalid
  */
-export const createOMDbService = (): OMDbService => {
+export const createMovieProvider = (config: ApiConfig = getApiConfig()): MovieProvider =>
+  buildMovieProvider(config).provider;
+
+// Provider shared by all queries, with the settings it was built from and the key it currently uses
+let liveProvider: (BuiltMovieProvider & { settings: string; apiKey: string | null }) | null = null;
+
+/**
+ * Get the movie provider shared by all queries. It is rebuilt when the configuration changes;
+ * a new API key alone is applied to the live instance.
+ * @throws Error if API configuration is invalid
+ */
+export const getMovieProvider = (): MovieProvider => {
   const config = getApiConfig();
-  if (!config.omdb.apiKey || !config.omdb.baseURL) {
-    throw new Error('API configuration is invalid');
+  const { apiKey, ...omdbSettings } = config.omdb;
+  const settings = JSON.stringify({ provider: config.provider, ...omdbSettings });
+
+  if (liveProvider?.settings !== settings || !apiKey) {
+    liveProvider = { ...buildMovieProvider(config), settings, apiKey };
+  } else if (liveProvider.apiKey !== apiKey) {
+    liveProvider.setApiKey(apiKey);
+    liveProvider.apiKey = apiKey;
+  }
+  return liveProvider.provider;
+};
+
+/**
+ * Drop the shared movie provider so the next query builds a new one
+ */
+export const resetMovieProvider = (): void => {
+  liveProvider = null;
+};
+
+/**
+ * Check that an API key works by looking up one title with it
+ * @param apiKey - Key to check; the saved and configured keys are left alone
+ * @throws The provider's typed error, e.g. OMDbInvalidApiKeyError, or a ConfigError
+ */
+export const verifyApiKey = async (apiKey: string, options?: RequestOptions): Promise<void> => {
+  const provider = createMovieProvider(getApiConfig(apiKey.trim()));
+  await provider.getMovieSummary(API_KEY_PROBE_ID, { priority: 'high', retry: false, ...options });
+};
+
+/**
+ * Save an API key and switch the live movie provider over to it
+ */
+export const applyApiKey = (apiKey: string): void => {
+  const key = apiKey.trim();
+  saveApiKey(key);
+  if (liveProvider) {
+    liveProvider.setApiKey(key);
+    liveProvider.apiKey = key;
   }
-  return new OMDbService({
-    ...config.omdb,
-    apiKey: config.omdb.apiKey,
-    baseURL: config.omdb.baseURL,
-  });
 };
 
 /**
@@ -45,25 +126,26 @@ export const createOMDbService = (): OMDbService => {
  * @returns QueryError object
  */
 export const transformToQueryError = (error: unknown): QueryError => {
-  const errorObj = error as { status?: number; code?: string };
+  const errorObj = error as { status?: number; code?: string; attempts?: number };
   return {
     message: error instanceof Error ? error.message : 'Unknown error occurred',
     status: errorObj?.status,
     code: errorObj?.code,
+    ...(errorObj?.attempts !== undefined && { attempts: errorObj.attempts }),
   };
 };
 
 /**
- * Common query function wrapper that handles API service creation and error transformation
+ * Common query function wrapper that handles movie provider creation and error transformation
  * @param queryFn - The actual query function to execute
  * @returns Promise with the query result
  */
 export const withQueryErrorHandling = async <T>(
-  queryFn: (omdbService: OMDbService) => Promise<T>
+  queryFn: (provider: MovieProvider) => Promise<T>
 ): Promise<T> => {
   try {
-    const omdbService = createOMDbService();
-    return await queryFn(omdbService);
+    const provider = getMovieProvider();
+    return await queryFn(provider);
   } catch (error) {
     throw transformToQueryError(error);
   }
@@ -0,0 +1,109 @@
+import { describe, it, expect } from 'vitest';
+import {
+  RATING_SORT_KEYS,
+  normalizeRatingValue,
+  parseOMDbRatings,
+  getMovieRating,
+  getRatingSortSource,
+  toRatingSortKey,
+} from './ratingUtils';
+import { mockMovie } from '../../__mocks__/testData';
+
+describe('Rating Utils', () => {
+  describe('normalizeRatingValue', () => {
+    const testCases = [
+      { value: '87%', expected: 8.7 },
+      { value: '7.8/10', expected: 7.8 },
+      { value: '74/100', expected: 7.4 },
+      { value: '100%', expected: 10 },
+      { value: '0/10', expected: 0 },
+      { value: '2/3', expected: 6.7 },
+      { value: 'N/A', expected: null },
+      { value: '8/0', expected: null },
+      { value: '', expected: null },
+    ];
+
+    testCases.forEach(({ value, expected }) => {
+      it(`GIVEN "${value}" WHEN normalising THEN should return ${expected}`, () => {
+        // GIVEN
+        // WHEN
+        const result = normalizeRatingValue(value);
+
+        // THEN
+        expect(result).toBe(expected);
+      });
+    });
+  });
+
+  describe('parseOMDbRatings', () => {
+    it('GIVEN an OMDb Ratings array WHEN parsing THEN should map each known source onto the 0–10 scale', () => {
+      // GIVEN
+      const ratings = [
+        { Source: 'Metacritic', Value: '74/100' },
+        { Source: 'Internet Movie Database', Value: '8.8/10' },
+        { Source: 'Rotten Tomatoes', Value: '87%' },
+      ];
+
+      // WHEN
+      const result = parseOMDbRatings(ratings);
+
+      // THEN
+      expect(result).toEqual([
+        { source: 'imdb', value: 8.8, display: '8.8/10' },
+        { source: 'rotten_tomatoes', value: 8.7, display: '87%' },
+        { source: 'metacritic', value: 7.4, display: '74/100' },
+      ]);
+    });
+
+    it('GIVEN unknown sources or unparsable values WHEN parsing THEN should skip them', () => {
+      // GIVEN
+      const ratings = [
+        { Source: 'Letterboxd', Value: '4.2/5' },
+        { Source: 'Rotten Tomatoes', Value: 'N/A' },
+        { Source: 'Internet Movie Database', Value: '6.1/10' },
+      ];
+
+      // WHEN
+      const result = parseOMDbRatings(ratings);
+
+      // THEN
+      expect(result).toEqual([{ source: 'imdb', value: 6.1, display: '6.1/10' }]);
+    });
+
+    it('GIVEN no Ratings array WHEN parsing THEN should return no ratings', () => {
+      // GIVEN
+      // WHEN
+      // THEN
+      expect(parseOMDbRatings(undefined)).toEqual([]);
+    });
+  });
+
+  describe('getMovieRating', () => {
+    it('GIVEN a movie with and without ratings WHEN looking up a source THEN should return the matching rating', () => {
+      // GIVEN
+      const ratedMovie = { ...mockMovie, ratings: [{ source: 'metacritic' as const, value: 7.4, display: '74/100' }] };
+
+      // WHEN
+      // THEN
+      expect(getMovieRating(ratedMovie, 'metacritic')?.value).toBe(7.4);
+      expect(getMovieRating(ratedMovie, 'imdb')).toBeUndefined();
+      expect(getMovieRating(mockMovie, 'imdb')).toBeUndefined();
+    });
+  });
+
+  describe('Rating sort keys', () => {
+    it('GIVEN a rating source WHEN building its sort key THEN should round-trip back to the source', () => {
+      // GIVEN
+      const sortKey = toRatingSortKey('rotten_tomatoes');
+
+      // WHEN
+      const source = getRatingSortSource(sortKey);
+
+      // THEN
+      expect(sortKey).toBe('rating_rotten_tomatoes');
+      expect(source).toBe('rotten_tomatoes');
+      expect(getRatingSortSource('vote_average')).toBeUndefined();
+      expect(RATING_SORT_KEYS).toEqual(['rating_imdb', 'rating_rotten_tomatoes', 'rating_metacritic']);
+    });
+  });
+});
@@ -0,0 +1,86 @@
+import { type OMDbRating } from '../../types/omdb.types';
+import { type Movie, type MovieFilters, type MovieRating, type RatingSortKey, type RatingSource } from '../../types/movie.types';
+
+export interface RatingSourceInfo {
+  source: RatingSource;
+  /** Source name as reported in OMDb's Ratings array */
+  omdbName: string;
+  label: string;
+  shortLabel: string;
+}
+
+const RATING_SOURCE_INFO: Record<RatingSource, RatingSourceInfo> = {
+  imdb: { source: 'imdb', omdbName: 'Internet Movie Database', label: 'IMDb', shortLabel: 'IMDb' },
+  rotten_tomatoes: { source: 'rotten_tomatoes', omdbName: 'Rotten Tomatoes', label: 'Rotten Tomatoes', shortLabel: 'RT' },
+  metacritic: { source: 'metacritic', omdbName: 'Metacritic', label: 'Metacritic', shortLabel: 'MC' },
+};
+
+/**
+ * Rating sources in display order
+ */
+export const RATING_SOURCES: readonly RatingSourceInfo[] = Object.values(RATING_SOURCE_INFO);
+
+/**
+ * Build the sortBy key that orders movies by a rating source
+ */
+export const toRatingSortKey = (source: RatingSource): RatingSortKey => `rating_${source}`;
+
+/**
+ * Sort keys for every rating source, in display order
+ */
+export const RATING_SORT_KEYS: readonly RatingSortKey[] = RATING_SOURCES.map(({ source }) => toRatingSortKey(source));
+
+/**
+ * Look up display metadata for a rating source
+ */
+export const getRatingSourceInfo = (source: RatingSource): RatingSourceInfo => RATING_SOURCE_INFO[source];
+
+/**
+ * Convert a rating as reported by a source ("87%", "7.8/10", "74/100") onto a 0–10 scale
+ * @param value - Rating string from OMDb
+ * @returns Rating rounded to one decimal, or null when the value can't be parsed
+ */
+export const normalizeRatingValue = (value: string): number | null => {
+  const trimmed = value.trim();
+  const percentage = /^(\d+(?:\.\d+)?)%$/.exec(trimmed);
+  const fraction = /^(\d+(?:\.\d+)?)\s*\/\s*(\d+(?:\.\d+)?)$/.exec(trimmed);
+
+  let normalized: number;
+  if (percentage) {
+    normalized = Number(percentage[1]) / 10;
+  } else if (fraction && Number(fraction[2]) > 0) {
+    normalized = (Number(fraction[1]) / Number(fraction[2])) * 10;
+  } else {
+    return null;
+  }
+
+  return Math.round(Math.min(10, Math.max(0, normalized)) * 10) / 10;
+};
+
+/**
+ * Parse OMDb's Ratings array into normalised ratings.
+ * Unknown sources and unparsable values are skipped; results follow RATING_SOURCES order.
+ */
+export const parseOMDbRatings = (ratings: readonly OMDbRating[] | null | undefined): MovieRating[] => {
+  if (!ratings) {
+    return [];
+  }
+
+  return RATING_SOURCES.flatMap(({ source, omdbName }) => {
+    const rating = ratings.find((item) => item.Source === omdbName);
+    const value = rating ? normalizeRatingValue(rating.Value) : null;
+    return rating && value !== null ? [{ source, value, display: rating.Value }] : [];
+  });
+};
+
+/**
+ * Get a movie's rating from a single source
+ */
+export const getMovieRating = (movie: Movie, source: RatingSource): MovieRating | undefined =>
+  movie.ratings?.find((rating) => rating.source === source);
+
+/**
+ * Get the rating source a sortBy key orders by, if any
+ */
+export const getRatingSortSource = (sortBy: MovieFilters['sortBy']): RatingSource | undefined =>
+  RATING_SOURCES.find(({ source }) => toRatingSortKey(source) === sortBy)?.source;
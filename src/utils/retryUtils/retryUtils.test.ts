@@ -0,0 +1,114 @@
+import { describe, it, expect } from 'vitest';
+import { DEFAULT_RETRY_POLICY, getRetryDelay, isRetryableError, parseRetryAfter } from './retryUtils';
+
+describe('retryUtils', () => {
+  describe('isRetryableError', () => {
+    it.each([
+      { description: 'a network error', error: { message: 'Network', status: 0, code: 'NETWORK_ERROR' }, expected: true },
+      { description: 'an unknown error', error: { message: 'Boom', status: 0, code: 'UNKNOWN_ERROR' }, expected: false },
+      { description: 'a rate limit', error: { message: 'Too many', status: 429 }, expected: true },
+      { description: 'a server error', error: { message: 'Unavailable', status: 503 }, expected: true },
+      { description: 'a client error', error: { message: 'Not found', status: 404 }, expected: false },
+    ])('GIVEN $description WHEN checking THEN should return $expected', ({ error, expected }) => {
+      // GIVEN & WHEN
+      const result = isRetryableError(error);
+
+      // THEN
+      expect(result).toBe(expected);
+    });
+  });
+
+  describe('parseRetryAfter', () => {
+    it('GIVEN a delay in seconds WHEN parsing THEN should return milliseconds', () => {
+      // GIVEN
+      const value = '120';
+
+      // WHEN
+      const result = parseRetryAfter(value);
+
+      // THEN
+      expect(result).toBe(120000);
+    });
+
+    it('GIVEN an HTTP date WHEN parsing THEN should return the time left until that date', () => {
+      // GIVEN
+      const now = Date.parse('Wed, 21 Oct 2015 07:28:00 GMT');
+
+      // WHEN
+      const result = parseRetryAfter('Wed, 21 Oct 2015 07:28:30 GMT', now);
+
+      // THEN
+      expect(result).toBe(30000);
+    });
+
+    it('GIVEN an HTTP date in the past WHEN parsing THEN should return zero', () => {
+      // GIVEN
+      const now = Date.parse('Wed, 21 Oct 2015 07:28:00 GMT');
+
+      // WHEN
+      const result = parseRetryAfter('Wed, 21 Oct 2015 07:00:00 GMT', now);
+
+      // THEN
+      expect(result).toBe(0);
+    });
+
+    it.each([undefined, null, '', 'soon', {}])('GIVEN %p WHEN parsing THEN should return undefined', (value) => {
+      // GIVEN & WHEN
+      const result = parseRetryAfter(value);
+
+      // THEN
+      expect(result).toBeUndefined();
+    });
+  });
+
+  describe('getRetryDelay', () => {
+    const error = { message: 'Unavailable', status: 503 };
+
+    it('GIVEN successive retries WHEN getting the delay THEN should double the backoff up to the maximum', () => {
+      // GIVEN
+      const policy = { retries: 5, baseDelay: 500, maxDelay: 1500 };
+      const noJitter = () => 1;
+
+      // WHEN
+      const delays = [1, 2, 3].map((retry) => getRetryDelay(retry, error, policy, noJitter));
+
+      // THEN
+      expect(delays).toEqual([500, 1000, 1500]);
+    });
+
+    it('GIVEN jitter WHEN getting the delay THEN should stay between half and all of the backoff', () => {
+      // GIVEN
+      const policy = DEFAULT_RETRY_POLICY;
+
+      // WHEN
+      const lowest = getRetryDelay(1, error, policy, () => 0);
+      const middle = getRetryDelay(1, error, policy, () => 0.5);
+
+      // THEN
+      expect(lowest).toBe(policy.baseDelay / 2);
+      expect(middle).toBe(policy.baseDelay * 0.75);
+    });
+
+    it('GIVEN a Retry-After within the policy WHEN getting the delay THEN should wait exactly that long', () => {
+      // GIVEN
+      const rateLimited = { message: 'Too many', status: 429, retryAfter: 3000 };
+
+      // WHEN
+      const result = getRetryDelay(1, rateLimited, DEFAULT_RETRY_POLICY);
+
+      // THEN
+      expect(result).toBe(3000);
+    });
+
+    it('GIVEN a Retry-After beyond the maximum delay WHEN getting the delay THEN should return null', () => {
+      // GIVEN
+      const rateLimited = { message: 'Too many', status: 429, retryAfter: DEFAULT_RETRY_POLICY.maxDelay + 1 };
+
+      // WHEN
+      const result = getRetryDelay(1, rateLimited, DEFAULT_RETRY_POLICY);
+
+      // THEN
+      expect(result).toBeNull();
+    });
+  });
+});
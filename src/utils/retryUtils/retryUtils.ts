@@ -0,0 +1,64 @@
+import { type ApiError, type RetryPolicy } from '../../types/api.types';
+
+/**
+ * Retry policy used when neither the service nor the call overrides it
+ */
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  retries: 2,
+  baseDelay: 500,
+  maxDelay: 8000,
+};
+
+// Statuses worth retrying: timeouts, rate limiting and server errors
+const RETRYABLE_STATUSES = new Set([408, 425, 429, 500, 502, 503, 504]);
+
+/**
+ * Check whether a failed request may succeed when sent again
+ */
+export const isRetryableError = (error: ApiError): boolean => {
+  if (error.status === 0) {
+    return error.code === 'NETWORK_ERROR';
+  }
+  return RETRYABLE_STATUSES.has(error.status);
+};
+
+/**
+ * Parse a Retry-After header value, given either in seconds or as an HTTP date
+ * @param value - Raw header value
+ * @param now - Current time in ms, used for HTTP dates
+ * @returns Delay in ms, or undefined when the header is missing or invalid
+ */
+export const parseRetryAfter = (value: unknown, now: number = Date.now()): number | undefined => {
+  if (typeof value !== 'string' && typeof value !== 'number') return undefined;
+
+  const text = String(value).trim();
+  if (/^\d+$/.test(text)) {
+    return Number(text) * 1000;
+  }
+
+  const date = Date.parse(text);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+};
+
+/**
+ * Get the wait before a retry: the server's Retry-After when given,
+ * otherwise exponential backoff with jitter so that clients don't retry in lockstep
+ * @param retry - 1 for the first retry
+ * @param error - The failure being retried
+ * @param policy - Retry policy
+ * @param random - Source of jitter in [0, 1)
+ * @returns Delay in ms, or null when the server asks for a longer wait than the policy allows
+ */
+export const getRetryDelay = (
+  retry: number,
+  error: ApiError,
+  policy: RetryPolicy,
+  random: () => number = Math.random
+): number | null => {
+  if (error.retryAfter !== undefined) {
+    return error.retryAfter <= policy.maxDelay ? error.retryAfter : null;
+  }
+
+  const backoff = Math.min(policy.maxDelay, policy.baseDelay * 2 ** (retry - 1));
+  return Math.round(backoff / 2 + random() * (backoff / 2));
+};
@@ -0,0 +1,225 @@
+import { describe, it, expect } from 'vitest';
+import {
+  parseSearchParams,
+  parseFiltersFromSearchParams,
+  buildSearchParams,
+  getFiltersSearchKey,
+  buildFiltersShareParams,
+  buildSearchPath,
+} from './searchParamsUtils';
+import { DEFAULT_MOVIE_FILTERS } from '../filterUtils';
+import { type SearchRouteState } from '../../router/routing.types';
+
+describe('Search Params Utils', () => {
+  describe('parseSearchParams', () => {
+    it('GIVEN a complete query string WHEN parsing THEN should return the full search route state', () => {
+      // GIVEN
+      const params = new URLSearchParams(
+        'q=batman&page=3&type=series&y=1989&genres=1,3&languages=en,fr&years=1989-1992&decades=1980,1990&rating=7&runtime=medium&rated=PG-13,R&sort=title&order=asc'
+      );
+
+      // WHEN
+      const state = parseSearchParams(params);
+
+      // THEN
+      expect(state).toEqual({
+        query: 'batman',
+        page: 3,
+        type: 'series',
+        year: '1989',
+        filters: {
+          selectedGenres: [1, 3],
+          selectedLanguages: ['en', 'fr'],
+          releaseYearRange: { from: 1989, to: 1992 },
+          selectedDecades: [1980, 1990],
+          minRating: 7,
+          runtimeBand: 'medium',
+          selectedContentRatings: ['PG-13', 'R'],
+          sortBy: 'title',
+          sortOrder: 'asc',
+        },
+      });
+    });
+
+    it('GIVEN an empty query string WHEN parsing THEN should return defaults', () => {
+      // GIVEN
+      const params = new URLSearchParams();
+
+      // WHEN
+      const state = parseSearchParams(params);
+
+      // THEN
+      expect(state).toEqual({
+        query: '',
+        page: 1,
+        type: undefined,
+        year: undefined,
+        filters: DEFAULT_MOVIE_FILTERS,
+      });
+    });
+
+    it('GIVEN invalid values WHEN parsing THEN should fall back to defaults for each invalid field', () => {
+      // GIVEN
+      const params = new URLSearchParams('q=batman&page=-2&type=game&y=89&genres=1,abc&sort=budget&order=up');
+
+      // WHEN
+      const state = parseSearchParams(params);
+
+      // THEN
+      expect(state.page).toBe(1);
+      expect(state.type).toBeUndefined();
+      expect(state.year).toBeUndefined();
+      expect(state.filters.selectedGenres).toEqual([1]);
+      expect(state.filters.sortBy).toBe('popularity');
+      expect(state.filters.sortOrder).toBe('desc');
+    });
+
+    it('GIVEN a rating source sort WHEN parsing THEN should keep it', () => {
+      // GIVEN
+      const params = new URLSearchParams('q=batman&sort=rating_metacritic');
+
+      // WHEN
+      const state = parseSearchParams(params);
+
+      // THEN
+      expect(state.filters.sortBy).toBe('rating_metacritic');
+    });
+  });
+
+  describe('parseFiltersFromSearchParams', () => {
+    it('GIVEN only filter params WHEN parsing filters THEN should ignore unrelated params', () => {
+      // GIVEN
+      const params = new URLSearchParams('q=batman&languages=es');
+
+      // WHEN
+      const filters = parseFiltersFromSearchParams(params);
+
+      // THEN
+      expect(filters).toEqual({ ...DEFAULT_MOVIE_FILTERS, selectedLanguages: ['es'] });
+    });
+
+    it('GIVEN a list of years from an older link WHEN parsing filters THEN should use the range it spans', () => {
+      // GIVEN
+      const params = new URLSearchParams('years=1992,1989,1990');
+
+      // WHEN
+      const filters = parseFiltersFromSearchParams(params);
+
+      // THEN
+      expect(filters.releaseYearRange).toEqual({ from: 1989, to: 1992 });
+    });
+
+    it('GIVEN decades that are not multiples of ten WHEN parsing filters THEN should drop them', () => {
+      // GIVEN
+      const params = new URLSearchParams('decades=1980,1985,abc,2000');
+
+      // WHEN
+      const filters = parseFiltersFromSearchParams(params);
+
+      // THEN
+      expect(filters.selectedDecades).toEqual([1980, 2000]);
+    });
+
+    it('GIVEN unknown rating, runtime and content rating values WHEN parsing filters THEN should drop them', () => {
+      // GIVEN
+      const params = new URLSearchParams('rating=7.3&runtime=epic&rated=PG,TV-MA');
+
+      // WHEN
+      const filters = parseFiltersFromSearchParams(params);
+
+      // THEN
+      expect(filters.minRating).toBeNull();
+      expect(filters.runtimeBand).toBeNull();
+      expect(filters.selectedContentRatings).toEqual(['PG']);
+    });
+
+    it('GIVEN a filter token and individual filter params WHEN parsing filters THEN should use the token', () => {
+      // GIVEN
+      const params = new URLSearchParams('languages=es&f=g28~stitle~oa');
+
+      // WHEN
+      const filters = parseFiltersFromSearchParams(params);
+
+      // THEN
+      expect(filters).toEqual({ ...DEFAULT_MOVIE_FILTERS, selectedGenres: [28], sortBy: 'title', sortOrder: 'asc' });
+    });
+  });
+
+  describe('buildSearchParams', () => {
+    it('GIVEN a search route state WHEN building params THEN should omit default values', () => {
+      // GIVEN
+      const state: SearchRouteState = {
+        query: 'alien',
+        page: 1,
+        filters: { ...DEFAULT_MOVIE_FILTERS, selectedGenres: [7] },
+      };
+
+      // WHEN
+      const params = buildSearchParams(state);
+
+      // THEN
+      expect(params.toString()).toBe('q=alien&genres=7');
+    });
+
+    it('GIVEN a parsed state WHEN building params THEN should round-trip to the same state', () => {
+      // GIVEN
+      const original = parseSearchParams(new URLSearchParams('q=heat&page=2&type=movie&y=1995&years=1990-1995&decades=1990&rating=6&runtime=long&rated=R&sort=vote_average&order=asc'));
+
+      // WHEN
+      const roundTripped = parseSearchParams(buildSearchParams(original));
+
+      // THEN
+      expect(roundTripped).toEqual(original);
+    });
+  });
+
+  describe('buildSearchPath', () => {
+    it.each([
+      { description: 'a query with special characters', state: { query: 'F1: The Movie & More!' }, expected: '/search?q=F1%3A+The+Movie+%26+More%21' },
+      { description: 'a query and a type', state: { query: 'batman', type: 'series' as const }, expected: '/search?q=batman&type=series' },
+      { description: 'no state', state: {}, expected: '/search' },
+    ])('GIVEN $description WHEN building the search path THEN should return $expected', ({ state, expected }) => {
+      // GIVEN & WHEN
+      const path = buildSearchPath(state);
+
+      // THEN
+      expect(path).toBe(expected);
+    });
+  });
+
+  describe('getFiltersSearchKey', () => {
+    it('GIVEN default filters WHEN getting the key THEN should return an empty string', () => {
+      // GIVEN
+      const filters = DEFAULT_MOVIE_FILTERS;
+
+      // WHEN
+      const key = getFiltersSearchKey(filters);
+
+      // THEN
+      expect(key).toBe('');
+    });
+
+    it('GIVEN equal filters WHEN getting keys THEN should return equal keys', () => {
+      // GIVEN
+      const first = { ...DEFAULT_MOVIE_FILTERS, selectedLanguages: ['en'] };
+      const second = { ...DEFAULT_MOVIE_FILTERS, selectedLanguages: ['en'] };
+
+      // WHEN & THEN
+      expect(getFiltersSearchKey(first)).toBe(getFiltersSearchKey(second));
+    });
+  });
+
+  describe('buildFiltersShareParams', () => {
+    it('GIVEN a search state and a filter token WHEN building share params THEN should keep the search and replace the filters', () => {
+      // GIVEN
+      const state = parseSearchParams(new URLSearchParams('q=batman&page=3&type=movie&genres=1'));
+
+      // WHEN
+      const params = buildFiltersShareParams(state, 'g28~len');
+
+      // THEN
+      expect(params.toString()).toBe('q=batman&type=movie&f=g28%7Elen');
+      expect(parseSearchParams(params).filters).toEqual({ ...DEFAULT_MOVIE_FILTERS, selectedGenres: [28], selectedLanguages: ['en'] });
+    });
+  });
+});
@@ -0,0 +1,162 @@
+import { type MovieFilters } from '../../types/movie.types';
+import { ROUTES, type SearchRouteState } from '../../router/routing.types';
+import {
+  CONTENT_RATINGS,
+  DEFAULT_MOVIE_FILTERS,
+  MIN_RATING_OPTIONS,
+  RUNTIME_BANDS,
+  SORT_BY_OPTIONS,
+  SORT_ORDER_OPTIONS,
+  decodeFiltersToken,
+  getDecade,
+  getYearRangeSpanning,
+} from '../filterUtils';
+
+/**
+ * Query string keys used by the /search route
+ */
+export const SEARCH_PARAM_KEYS = {
+  QUERY: 'q',
+  PAGE: 'page',
+  TYPE: 'type',
+  YEAR: 'y',
+  GENRES: 'genres',
+  LANGUAGES: 'languages',
+  RELEASE_YEARS: 'years',
+  DECADES: 'decades',
+  MIN_RATING: 'rating',
+  RUNTIME_BAND: 'runtime',
+  CONTENT_RATINGS: 'rated',
+  SORT_BY: 'sort',
+  SORT_ORDER: 'order',
+  FILTERS_TOKEN: 'f',
+} as const;
+
+const SEARCH_TYPES: readonly NonNullable<SearchRouteState['type']>[] = ['movie', 'series', 'episode'];
+const LIST_SEPARATOR = ',';
+const RANGE_SEPARATOR = '-';
+
+const parseList = (value: string | null): string[] =>
+  value ? value.split(LIST_SEPARATOR).map((item) => item.trim()).filter(Boolean) : [];
+
+const parseNumberList = (value: string | null): number[] =>
+  parseList(value)
+    .map((item) => Number(item))
+    .filter((item) => Number.isInteger(item));
+
+const parseOption = <T extends string>(value: string | null, options: readonly T[]): T | undefined =>
+  options.find((option) => option === value);
+
+/**
+ * Parse movie filters from URL search params, falling back to the defaults for missing or invalid values.
+ * A shared filter token (e.g. from a preset link) takes precedence over the individual filter params.
+ * @param params - URL search params
+ * @returns Parsed MovieFilters
+ */
+export const parseFiltersFromSearchParams = (params: URLSearchParams): MovieFilters => {
+  const token = params.get(SEARCH_PARAM_KEYS.FILTERS_TOKEN);
+  if (token !== null) return decodeFiltersToken(token);
+
+  return {
+    selectedGenres: parseNumberList(params.get(SEARCH_PARAM_KEYS.GENRES)),
+    selectedLanguages: parseList(params.get(SEARCH_PARAM_KEYS.LANGUAGES)),
+    // "1990-1999"; a comma-separated list of years from older links becomes the range it spans
+    releaseYearRange: getYearRangeSpanning(
+      parseNumberList(params.get(SEARCH_PARAM_KEYS.RELEASE_YEARS)?.replace(RANGE_SEPARATOR, LIST_SEPARATOR) ?? null)
+    ),
+    selectedDecades: parseNumberList(params.get(SEARCH_PARAM_KEYS.DECADES)).filter((decade) => decade === getDecade(decade)),
+    minRating: MIN_RATING_OPTIONS.find((option) => String(option) === params.get(SEARCH_PARAM_KEYS.MIN_RATING)) ?? null,
+    runtimeBand: parseOption(params.get(SEARCH_PARAM_KEYS.RUNTIME_BAND), RUNTIME_BANDS) ?? null,
+    selectedContentRatings: parseList(params.get(SEARCH_PARAM_KEYS.CONTENT_RATINGS))
+      .filter((rating) => CONTENT_RATINGS.includes(rating)),
+    sortBy: parseOption(params.get(SEARCH_PARAM_KEYS.SORT_BY), SORT_BY_OPTIONS) ?? DEFAULT_MOVIE_FILTERS.sortBy,
+    sortOrder: parseOption(params.get(SEARCH_PARAM_KEYS.SORT_ORDER), SORT_ORDER_OPTIONS) ?? DEFAULT_MOVIE_FILTERS.sortOrder,
+  };
+};
+
+/**
+ * Parse the complete search route state from URL search params
+ * @param params - URL search params
+ * @returns Parsed SearchRouteState
+ */
+export const parseSearchParams = (params: URLSearchParams): SearchRouteState => {
+  const page = Number(params.get(SEARCH_PARAM_KEYS.PAGE));
+  const year = params.get(SEARCH_PARAM_KEYS.YEAR) ?? '';
+
+  return {
+    query: params.get(SEARCH_PARAM_KEYS.QUERY) ?? '',
+    page: Number.isInteger(page) && page > 0 ? page : 1,
+    type: parseOption(params.get(SEARCH_PARAM_KEYS.TYPE), SEARCH_TYPES),
+    year: /^\d{4}$/.test(year) ? year : undefined,
+    filters: parseFiltersFromSearchParams(params),
+  };
+};
+
+/**
+ * Build URL search params from search route state, omitting default values to keep URLs short
+ * @param state - Search route state (missing fields are treated as defaults)
+ * @returns URL search params
+ */
+export const buildSearchParams = (state: Partial<SearchRouteState>): URLSearchParams => {
+  const params = new URLSearchParams();
+  const filters = { ...DEFAULT_MOVIE_FILTERS, ...state.filters };
+
+  if (state.query) params.set(SEARCH_PARAM_KEYS.QUERY, state.query);
+  if (state.page && state.page > 1) params.set(SEARCH_PARAM_KEYS.PAGE, String(state.page));
+  if (state.type) params.set(SEARCH_PARAM_KEYS.TYPE, state.type);
+  if (state.year) params.set(SEARCH_PARAM_KEYS.YEAR, state.year);
+
+  if (filters.selectedGenres.length > 0) {
+    params.set(SEARCH_PARAM_KEYS.GENRES, filters.selectedGenres.join(LIST_SEPARATOR));
+  }
+  if (filters.selectedLanguages.length > 0) {
+    params.set(SEARCH_PARAM_KEYS.LANGUAGES, filters.selectedLanguages.join(LIST_SEPARATOR));
+  }
+  if (filters.releaseYearRange) {
+    const { from, to } = filters.releaseYearRange;
+    params.set(SEARCH_PARAM_KEYS.RELEASE_YEARS, [from, to].join(RANGE_SEPARATOR));
+  }
+  if (filters.selectedDecades.length > 0) {
+    params.set(SEARCH_PARAM_KEYS.DECADES, filters.selectedDecades.join(LIST_SEPARATOR));
+  }
+  if (filters.minRating !== null) params.set(SEARCH_PARAM_KEYS.MIN_RATING, String(filters.minRating));
+  if (filters.runtimeBand) params.set(SEARCH_PARAM_KEYS.RUNTIME_BAND, filters.runtimeBand);
+  if (filters.selectedContentRatings.length > 0) {
+    params.set(SEARCH_PARAM_KEYS.CONTENT_RATINGS, filters.selectedContentRatings.join(LIST_SEPARATOR));
+  }
+  if (filters.sortBy !== DEFAULT_MOVIE_FILTERS.sortBy) params.set(SEARCH_PARAM_KEYS.SORT_BY, filters.sortBy);
+  if (filters.sortOrder !== DEFAULT_MOVIE_FILTERS.sortOrder) params.set(SEARCH_PARAM_KEYS.SORT_ORDER, filters.sortOrder);
+
+  return params;
+};
+
+/**
+ * Build the /search path for search route state, e.g. `/search?q=batman`
+ * @param state - Search route state (missing fields are treated as defaults)
+ * @returns Path with the state in its query string
+ */
+export const buildSearchPath = (state: Partial<SearchRouteState>): string => {
+  const search = buildSearchParams(state).toString();
+  return search ? `${ROUTES.SEARCH}?${search}` : ROUTES.SEARCH;
+};
+
+/**
+ * Get a stable string key for a set of filters, used to compare URL and store state
+ * @param filters - Movie filters
+ * @returns Serialized filter query string
+ */
+export const getFiltersSearchKey = (filters: MovieFilters): string => {
+  return buildSearchParams({ filters }).toString();
+};
+
+/**
+ * Build the search params of a shareable link that opens a filter token, keeping the query, type and year
+ * @param state - Current search route state (its filters and page are replaced)
+ * @param token - Filter token, e.g. of a saved preset
+ * @returns URL search params
+ */
+export const buildFiltersShareParams = (state: Partial<SearchRouteState>, token: string): URLSearchParams => {
+  const params = buildSearchParams({ query: state.query, type: state.type, year: state.year });
+  params.set(SEARCH_PARAM_KEYS.FILTERS_TOKEN, token);
+  return params;
+};
@@ -0,0 +1,240 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  MAX_SEARCH_YEARS,
+  getProviderSearches,
+  parseSearchQuery,
+  removeSearchQueryToken,
+  searchAll,
+} from './searchQueryUtils';
+import { OMDbNotFoundError, OMDbRequestLimitReachedError } from '../../services/OMDbService';
+import { type ProviderSearchParams } from '../../types/provider.types';
+import { type MovieSearchPage } from '../../types/query.types';
+import { mockMovie } from '../../__mocks__/testData';
+
+describe('searchQueryUtils', () => {
+  describe('parseSearchQuery', () => {
+    it.each([
+      {
+        description: 'plain text',
+        query: '  the  dark knight ',
+        expected: { text: 'the dark knight', type: undefined, years: undefined, tokens: [] },
+      },
+      {
+        description: 'a year and a type',
+        query: 'batman year:1989 type:series',
+        expected: {
+          text: 'batman',
+          type: 'series',
+          years: { from: 1989, to: 1989 },
+          tokens: [
+            { key: 'year', raw: 'year:1989', label: 'Year: 1989' },
+            { key: 'type', raw: 'type:series', label: 'Type: TV Shows' },
+          ],
+        },
+      },
+      {
+        description: 'a year range with the short key',
+        query: 'inception y:2005..2012',
+        expected: {
+          text: 'inception',
+          type: undefined,
+          years: { from: 2005, to: 2012 },
+          tokens: [{ key: 'year', raw: 'y:2005..2012', label: 'Years: 2005–2012' }],
+        },
+      },
+      {
+        description: 'tokens in another case before the text',
+        query: 'TYPE:Movie Year:2001 alien',
+        expected: {
+          text: 'alien',
+          type: 'movie',
+          years: { from: 2001, to: 2001 },
+          tokens: [
+            { key: 'year', raw: 'Year:2001', label: 'Year: 2001' },
+            { key: 'type', raw: 'TYPE:Movie', label: 'Type: Movies' },
+          ],
+        },
+      },
+    ])('GIVEN $description WHEN parsing THEN should split text and tokens', ({ query, expected }) => {
+      // GIVEN & WHEN
+      const parsed = parseSearchQuery(query);
+
+      // THEN
+      expect(parsed).toEqual(expected);
+    });
+
+    it.each([
+      { description: 'a non-numeric year', query: 'batman year:soon' },
+      { description: 'an unknown type', query: 'batman type:podcast' },
+      { description: 'an unknown key', query: 'batman genre:drama' },
+      { description: 'a URL-like word', query: 'batman http://example.com' },
+    ])('GIVEN $description WHEN parsing THEN should keep it as search text', ({ query }) => {
+      // GIVEN & WHEN
+      const parsed = parseSearchQuery(query);
+
+      // THEN
+      expect(parsed.text).toBe(query);
+      expect(parsed.tokens).toEqual([]);
+    });
+
+    it('GIVEN the same key twice WHEN parsing THEN should use the last one', () => {
+      // GIVEN
+      const query = 'alien year:1979 year:1986';
+
+      // WHEN
+      const parsed = parseSearchQuery(query);
+
+      // THEN
+      expect(parsed.text).toBe('alien');
+      expect(parsed.years).toEqual({ from: 1986, to: 1986 });
+      expect(parsed.tokens).toEqual([{ key: 'year', raw: 'year:1986', label: 'Year: 1986' }]);
+    });
+
+    it('GIVEN a reversed range WHEN parsing THEN should order it', () => {
+      // GIVEN & WHEN
+      const parsed = parseSearchQuery('star y:2012..2005');
+
+      // THEN
+      expect(parsed.years).toEqual({ from: 2005, to: 2012 });
+    });
+
+    it('GIVEN a range longer than the limit WHEN parsing THEN should keep only its first years', () => {
+      // GIVEN & WHEN
+      const parsed = parseSearchQuery('star y:1980..2020');
+
+      // THEN
+      expect(parsed.years).toEqual({ from: 1980, to: 1980 + MAX_SEARCH_YEARS - 1 });
+      expect(parsed.tokens[0].label).toBe('Years: 1980–1989');
+    });
+  });
+
+  describe('removeSearchQueryToken', () => {
+    it('GIVEN a query with tokens WHEN removing the year THEN should drop every year token and keep the rest', () => {
+      // GIVEN
+      const query = 'batman  y:1980 year:1989 type:series year:later';
+
+      // WHEN
+      const result = removeSearchQueryToken(query, 'year');
+
+      // THEN
+      expect(result).toBe('batman type:series year:later');
+    });
+
+    it('GIVEN a query with tokens WHEN removing the type THEN should keep the year', () => {
+      // GIVEN & WHEN
+      const result = removeSearchQueryToken('batman year:1989 type:series', 'type');
+
+      // THEN
+      expect(result).toBe('batman year:1989');
+    });
+  });
+
+  describe('getProviderSearches', () => {
+    it('GIVEN plain text WHEN building searches THEN should make a single search with the defaults', () => {
+      // GIVEN
+      const parsed = parseSearchQuery('batman');
+
+      // WHEN
+      const searches = getProviderSearches(parsed, 2, { type: 'movie', year: '1989' });
+
+      // THEN
+      expect(searches).toEqual([{ query: 'batman', page: 2, type: 'movie', year: '1989' }]);
+    });
+
+    it('GIVEN a year range and a type token WHEN building searches THEN should make one search per year over the defaults', () => {
+      // GIVEN
+      const parsed = parseSearchQuery('inception y:2010..2012 type:series');
+
+      // WHEN
+      const searches = getProviderSearches(parsed, 1, { type: 'movie', year: '1999' });
+
+      // THEN
+      expect(searches).toEqual([
+        { query: 'inception', page: 1, type: 'series', year: '2010' },
+        { query: 'inception', page: 1, type: 'series', year: '2011' },
+        { query: 'inception', page: 1, type: 'series', year: '2012' },
+      ]);
+    });
+
+    it('GIVEN only tokens WHEN building searches THEN should make none', () => {
+      // GIVEN & WHEN
+      const searches = getProviderSearches(parseSearchQuery('year:1989'), 1);
+
+      // THEN
+      expect(searches).toEqual([]);
+    });
+  });
+
+  describe('searchAll', () => {
+    const pageFor = (year: string | undefined, hasMore = false): MovieSearchPage => ({
+      results: [{ ...mockMovie, id: `tt${year}` }],
+      totalResults: hasMore ? 15 : 1,
+      hasMore,
+    });
+
+    const searchesFor = (...years: string[]): ProviderSearchParams[] =>
+      years.map((year) => ({ query: 'alien', page: 1, year }));
+
+    it('GIVEN one search WHEN searching THEN should return its page as is', async () => {
+      // GIVEN
+      const provider = { search: vi.fn().mockResolvedValue(pageFor('1979')) };
+      const signal = new AbortController().signal;
+
+      // WHEN
+      const page = await searchAll(provider, searchesFor('1979'), { signal });
+
+      // THEN
+      expect(page).toEqual(pageFor('1979'));
+      expect(provider.search).toHaveBeenCalledWith(searchesFor('1979')[0], { signal });
+    });
+
+    it('GIVEN no searches WHEN searching THEN should return an empty page without a request', async () => {
+      // GIVEN
+      const provider = { search: vi.fn() };
+
+      // WHEN
+      const page = await searchAll(provider, []);
+
+      // THEN
+      expect(page).toEqual({ results: [], totalResults: 0, hasMore: false });
+      expect(provider.search).not.toHaveBeenCalled();
+    });
+
+    it('GIVEN several years some without matches WHEN searching THEN should merge the years that matched', async () => {
+      // GIVEN
+      const provider = {
+        search: vi.fn((params: ProviderSearchParams) => params.year === '1980'
+          ? Promise.reject(new OMDbNotFoundError())
+          : Promise.resolve(pageFor(params.year, params.year === '1981'))),
+      };
+
+      // WHEN
+      const page = await searchAll(provider, searchesFor('1979', '1980', '1981'));
+
+      // THEN
+      expect(page.results.map((movie) => movie.id)).toEqual(['tt1979', 'tt1981']);
+      expect(page.totalResults).toBe(16);
+      expect(page.hasMore).toBe(true);
+    });
+
+    it('GIVEN several years none with matches WHEN searching THEN should fail as not found', async () => {
+      // GIVEN
+      const provider = { search: vi.fn().mockRejectedValue(new OMDbNotFoundError()) };
+
+      // WHEN & THEN
+      await expect(searchAll(provider, searchesFor('1979', '1980'))).rejects.toBeInstanceOf(OMDbNotFoundError);
+    });
+
+    it('GIVEN several years one failing for another reason WHEN searching THEN should fail with that error', async () => {
+      // GIVEN
+      const provider = {
+        search: vi.fn((params: ProviderSearchParams) => params.year === '1980'
+          ? Promise.reject(new OMDbRequestLimitReachedError())
+          : Promise.resolve(pageFor(params.year))),
+      };
+
+      // WHEN & THEN
+      await expect(searchAll(provider, searchesFor('1979', '1980'))).rejects.toBeInstanceOf(OMDbRequestLimitReachedError);
+    });
+  });
+});
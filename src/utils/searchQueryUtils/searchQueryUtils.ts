@@ -0,0 +1,192 @@
+import { type MovieProvider, type ProviderSearchParams } from '../../types/provider.types';
+import { type RequestOptions } from '../../types/api.types';
+import {
+  type MovieSearchPage,
+  type ParsedSearchQuery,
+  type SearchQueryToken,
+} from '../../types/query.types';
+import { OMDbErrorCode } from '../../types/omdb.types';
+
+/**
+ * Most years a range token fans out to; longer ranges are cut to their first years
+ * so one search can't cost dozens of requests
+ */
+export const MAX_SEARCH_YEARS = 10;
+
+type SearchType = NonNullable<ParsedSearchQuery['type']>;
+
+// Token keys as typed, mapped to the parameter they set
+const TOKEN_KEYS: Readonly<Record<string, SearchQueryToken['key']>> = {
+  year: 'year',
+  y: 'year',
+  type: 'type',
+};
+
+const TYPE_LABELS: Readonly<Record<SearchType, string>> = {
+  movie: 'Movies',
+  series: 'TV Shows',
+  episode: 'Episodes',
+};
+
+const TOKEN_PATTERN = /^([a-z]+):(.+)$/i;
+const YEAR_PATTERN = /^(\d{4})(?:\.\.(\d{4}))?$/;
+
+const parseYears = (value: string): ParsedSearchQuery['years'] => {
+  const match = YEAR_PATTERN.exec(value);
+  if (!match) return undefined;
+
+  const first = Number(match[1]);
+  const last = match[2] ? Number(match[2]) : first;
+  const from = Math.min(first, last);
+  return { from, to: Math.min(Math.max(first, last), from + MAX_SEARCH_YEARS - 1) };
+};
+
+const parseType = (value: string): SearchType | undefined => {
+  const type = value.toLowerCase();
+  return type in TYPE_LABELS ? (type as SearchType) : undefined;
+};
+
+const getYearsLabel = ({ from, to }: NonNullable<ParsedSearchQuery['years']>) =>
+  from === to ? `Year: ${from}` : `Years: ${from}–${to}`;
+
+// The parameter a word sets, or null when the word is free text (including malformed tokens)
+const parseToken = (word: string):
+  | { key: 'year'; years: NonNullable<ParsedSearchQuery['years']> }
+  | { key: 'type'; type: SearchType }
+  | null => {
+  const match = TOKEN_PATTERN.exec(word);
+  const key = match ? TOKEN_KEYS[match[1].toLowerCase()] : undefined;
+  if (!match || !key) return null;
+
+  if (key === 'year') {
+    const years = parseYears(match[2]);
+    return years ? { key, years } : null;
+  }
+  const type = parseType(match[2]);
+  return type ? { key, type } : null;
+};
+
+/**
+ * Parse a search query such as `batman year:1989 type:series` or `inception y:2005..2012`.
+ * Recognised tokens set the year (or an inclusive year range) and the title type; when a key
+ * appears twice the last one wins. Anything else, including tokens with invalid values, stays
+ * part of the search text.
+ * @param query - Search query as typed
+ * @returns The search text, the parameters the tokens set and the tokens for display
+ */
+export const parseSearchQuery = (query: string): ParsedSearchQuery => {
+  const textWords: string[] = [];
+  let years: ParsedSearchQuery['years'];
+  let type: ParsedSearchQuery['type'];
+  const rawTokens: Partial<Record<SearchQueryToken['key'], string>> = {};
+
+  for (const word of query.trim().split(/\s+/).filter(Boolean)) {
+    const token = parseToken(word);
+    if (!token) {
+      textWords.push(word);
+    } else if (token.key === 'year') {
+      years = token.years;
+      rawTokens.year = word;
+    } else {
+      type = token.type;
+      rawTokens.type = word;
+    }
+  }
+
+  const tokens: SearchQueryToken[] = [];
+  if (years && rawTokens.year) {
+    tokens.push({ key: 'year', raw: rawTokens.year, label: getYearsLabel(years) });
+  }
+  if (type && rawTokens.type) {
+    tokens.push({ key: 'type', raw: rawTokens.type, label: `Type: ${TYPE_LABELS[type]}` });
+  }
+
+  return { text: textWords.join(' '), type, years, tokens };
+};
+
+/**
+ * Remove every token setting a parameter from a search query, keeping the rest as typed
+ * @param query - Search query as typed
+ * @param key - Parameter whose tokens to remove
+ * @returns The query without those tokens
+ */
+export const removeSearchQueryToken = (query: string, key: SearchQueryToken['key']): string =>
+  query
+    .trim()
+    .split(/\s+/)
+    .filter((word) => parseToken(word)?.key !== key)
+    .join(' ');
+
+/**
+ * Turn a parsed query into provider searches: one per year of a year range, otherwise one.
+ * Tokens in the query take precedence over the type and year chosen elsewhere (e.g. the URL).
+ * @param parsed - Parsed search query
+ * @param page - Result page to request from each search
+ * @param defaults - Type and year to use when the query has no such token
+ * @returns Provider search params; empty when there's no search text
+ */
+export const getProviderSearches = (
+  parsed: ParsedSearchQuery,
+  page: number,
+  defaults: Pick<ProviderSearchParams, 'type' | 'year'> = {}
+): ProviderSearchParams[] => {
+  if (!parsed.text) return [];
+
+  const type = parsed.type ?? defaults.type;
+  if (!parsed.years) {
+    return [{ query: parsed.text, page, type, year: defaults.year }];
+  }
+
+  const { from, to } = parsed.years;
+  return Array.from({ length: to - from + 1 }, (_, index) => ({
+    query: parsed.text,
+    page,
+    type,
+    year: String(from + index),
+  }));
+};
+
+const isNotFoundError = (error: unknown): boolean =>
+  (error as { code?: string } | null)?.code === OMDbErrorCode.NOT_FOUND;
+
+/**
+ * Run the searches for one result page and merge them into a single page.
+ * With several searches (a year range), a year without matches adds nothing; the search only
+ * fails as not found when no year has matches.
+ * @param provider - Movie provider to search
+ * @param searches - Searches from getProviderSearches
+ * @param options - Request options shared by every search, e.g. the abort signal
+ * @throws The provider's errors, e.g. OMDbNotFoundError when nothing matches
+ */
+export const searchAll = async (
+  provider: Pick<MovieProvider, 'search'>,
+  searches: readonly ProviderSearchParams[],
+  options?: RequestOptions
+): Promise<MovieSearchPage> => {
+  if (searches.length === 0) {
+    return { results: [], totalResults: 0, hasMore: false };
+  }
+  if (searches.length === 1) {
+    return provider.search(searches[0], options);
+  }
+
+  let notFoundError: unknown = null;
+  const pages = await Promise.all(searches.map((search) =>
+    provider.search(search, options).catch((error: unknown) => {
+      if (!isNotFoundError(error)) throw error;
+      notFoundError = error;
+      return null;
+    })
+  ));
+
+  const foundPages = pages.filter((page): page is MovieSearchPage => page !== null);
+  if (foundPages.length === 0) {
+    throw notFoundError;
+  }
+
+  return {
+    results: foundPages.flatMap((page) => page.results),
+    totalResults: foundPages.reduce((total, page) => total + page.totalResults, 0),
+    hasMore: foundPages.some((page) => page.hasMore),
+  };
+};
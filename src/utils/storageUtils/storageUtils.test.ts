@@ -0,0 +1,153 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+  loadFromStorage,
+  saveToStorage,
+  removeFromStorage,
+  persistOnChange,
+} from './storageUtils';
+
+describe('Storage Utils', () => {
+  const storageKey = 'thoughtflix:test';
+
+  beforeEach(() => {
+    window.localStorage.clear();
+    vi.restoreAllMocks();
+  });
+
+  describe('loadFromStorage', () => {
+    it('GIVEN no stored value WHEN loading THEN should return the fallback', () => {
+      // GIVEN
+      const fallback = { items: [] };
+
+      // WHEN
+      const result = loadFromStorage(storageKey, fallback);
+
+      // THEN
+      expect(result).toBe(fallback);
+    });
+
+    it('GIVEN a stored JSON value WHEN loading THEN should return the parsed value', () => {
+      // GIVEN
+      window.localStorage.setItem(storageKey, JSON.stringify({ items: ['tt1234567'] }));
+
+      // WHEN
+      const result = loadFromStorage(storageKey, { items: [] as string[] });
+
+      // THEN
+      expect(result).toEqual({ items: ['tt1234567'] });
+    });
+
+    it('GIVEN malformed JSON WHEN loading THEN should return the fallback', () => {
+      // GIVEN
+      window.localStorage.setItem(storageKey, '{not json');
+
+      // WHEN
+      const result = loadFromStorage(storageKey, 'fallback');
+
+      // THEN
+      expect(result).toBe('fallback');
+    });
+
+    it('GIVEN a stored value rejected by the validator WHEN loading THEN should return the fallback', () => {
+      // GIVEN
+      window.localStorage.setItem(storageKey, JSON.stringify('not-a-number'));
+      const isNumber = (value: unknown): value is number => typeof value === 'number';
+
+      // WHEN
+      const result = loadFromStorage(storageKey, 0, isNumber);
+
+      // THEN
+      expect(result).toBe(0);
+    });
+  });
+
+  describe('saveToStorage and removeFromStorage', () => {
+    it('GIVEN a value WHEN saving THEN should store it as JSON', () => {
+      // GIVEN
+      const value = { count: 2 };
+
+      // WHEN
+      saveToStorage(storageKey, value);
+
+      // THEN
+      expect(window.localStorage.getItem(storageKey)).toBe('{"count":2}');
+    });
+
+    it('GIVEN a storage that throws WHEN saving THEN should not throw', () => {
+      // GIVEN
+      vi.spyOn(Storage.prototype, 'setItem').mockImplementation(() => {
+        throw new Error('QuotaExceededError');
+      });
+
+      // WHEN / THEN
+      expect(() => saveToStorage(storageKey, { count: 1 })).not.toThrow();
+    });
+
+    it('GIVEN a stored value WHEN removing THEN should delete it', () => {
+      // GIVEN
+      saveToStorage(storageKey, 'value');
+
+      // WHEN
+      removeFromStorage(storageKey);
+
+      // THEN
+      expect(window.localStorage.getItem(storageKey)).toBeNull();
+    });
+  });
+
+  describe('persistOnChange', () => {
+    const createStore = (initialState: { value: number; other: number }) => {
+      let state = initialState;
+      const listeners = new Set<() => void>();
+      return {
+        getState: () => state,
+        subscribe: (listener: () => void) => {
+          listeners.add(listener);
+          return () => listeners.delete(listener);
+        },
+        setState: (nextState: { value: number; other: number }) => {
+          state = nextState;
+          listeners.forEach((listener) => listener());
+        },
+      };
+    };
+
+    it('GIVEN a subscribed store WHEN the selected value changes THEN should persist it', () => {
+      // GIVEN
+      const store = createStore({ value: 1, other: 1 });
+      persistOnChange(store, (state) => state.value, storageKey);
+
+      // WHEN
+      store.setState({ value: 2, other: 1 });
+
+      // THEN
+      expect(window.localStorage.getItem(storageKey)).toBe('2');
+    });
+
+    it('GIVEN a subscribed store WHEN an unrelated value changes THEN should not write to storage', () => {
+      // GIVEN
+      const store = createStore({ value: 1, other: 1 });
+      const setItemSpy = vi.spyOn(Storage.prototype, 'setItem');
+      persistOnChange(store, (state) => state.value, storageKey);
+
+      // WHEN
+      store.setState({ value: 1, other: 2 });
+
+      // THEN
+      expect(setItemSpy).not.toHaveBeenCalled();
+    });
+
+    it('GIVEN an unsubscribed listener WHEN the selected value changes THEN should stop persisting', () => {
+      // GIVEN
+      const store = createStore({ value: 1, other: 1 });
+      const unsubscribe = persistOnChange(store, (state) => state.value, storageKey);
+
+      // WHEN
+      unsubscribe();
+      store.setState({ value: 3, other: 1 });
+
+      // THEN
+      expect(window.localStorage.getItem(storageKey)).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,104 @@
+/**
+ * Storage keys used for persisted client state
+ */
+export const STORAGE_KEYS = {
+  WATCHLIST: 'thoughtflix:watchlist',
+  QUERY_CACHE: 'thoughtflix:query-cache',
+  OMDB_API_KEY: 'thoughtflix:omdb-api-key',
+  FILTER_PRESETS: 'thoughtflix:filter-presets',
+  SEARCH_HISTORY: 'thoughtflix:search-history',
+} as const;
+
+/**
+ * Get the browser localStorage if it is available
+ * @returns Storage object or null when storage is unavailable (SSR, privacy mode)
+ */
+const getStorage = (): Storage | null => {
+  try {
+    return typeof window !== 'undefined' && window.localStorage ? window.localStorage : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Load a JSON value from localStorage
+ * @param key - Storage key
+ * @param fallback - Value returned when nothing is stored or the stored value is invalid
+ * @param validate - Optional guard used to reject stored values with an unexpected shape
+ * @returns The stored value or the fallback
+ */
+export const loadFromStorage = <T>(
+  key: string,
+  fallback: T,
+  validate?: (value: unknown) => value is T
+): T => {
+  const storage = getStorage();
+  if (!storage) return fallback;
+
+  try {
+    const rawValue = storage.getItem(key);
+    if (rawValue === null) return fallback;
+
+    const parsedValue: unknown = JSON.parse(rawValue);
+    if (validate && !validate(parsedValue)) return fallback;
+
+    return parsedValue as T;
+  } catch {
+    return fallback;
+  }
+};
+
+/**
+ * Save a JSON value to localStorage
+ * @param key - Storage key
+ * @param value - Serializable value to store
+ */
+export const saveToStorage = <T>(key: string, value: T): void => {
+  const storage = getStorage();
+  if (!storage) return;
+
+  try {
+    storage.setItem(key, JSON.stringify(value));
+  } catch {
+    // Ignore quota and serialization errors - persistence is best effort
+  }
+};
+
+/**
+ * Remove a value from localStorage
+ * @param key - Storage key
+ */
+export const removeFromStorage = (key: string): void => {
+  const storage = getStorage();
+  if (!storage) return;
+
+  try {
+    storage.removeItem(key);
+  } catch {
+    // Ignore storage access errors
+  }
+};
+
+/**
+ * Persist a slice of a store to localStorage whenever it changes
+ * @param store - Store exposing getState and subscribe (e.g. the Redux store)
+ * @param selector - Selects the value to persist from the store state
+ * @param key - Storage key
+ * @returns Unsubscribe function
+ */
+export const persistOnChange = <S, T>(
+  store: { getState: () => S; subscribe: (listener: () => void) => () => void },
+  selector: (state: S) => T,
+  key: string
+): (() => void) => {
+  let lastValue = selector(store.getState());
+
+  return store.subscribe(() => {
+    const nextValue = selector(store.getState());
+    if (nextValue !== lastValue) {
+      lastValue = nextValue;
+      saveToStorage(key, nextValue);
+    }
+  });
+};
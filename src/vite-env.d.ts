@@ -1,9 +1,11 @@
 /// <reference types="vite/client" />
 
 interface ImportMetaEnv {
-  readonly VITE_OMDB_API_KEY: string
+  readonly VITE_OMDB_API_KEY?: string
   readonly VITE_OMDB_BASE_URL: string
   readonly VITE_API_TIMEOUT?: string
+  readonly VITE_OMDB_REQUESTS_PER_SECOND?: string
+  readonly VITE_MOVIE_PROVIDER?: string
 }
 
 interface ImportMeta {
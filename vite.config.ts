@@ -1,7 +1,24 @@
-import { defineConfig } from 'vite'
+import { defineConfig, loadEnv } from 'vite'
 import react from '@vitejs/plugin-react'
+import { mockOMDbPlugin } from './src/__mocks__/mockOMDbServer'
+
+const toNumber = (value: string | undefined): number | undefined =>
+  value ? Number(value) : undefined
 
 // https://vite.dev/config/
-export default defineConfig({
-  plugins: [react()],
+export default defineConfig(({ mode }) => {
+  // Mock OMDb server at /mock-omdb; select it with VITE_OMDB_BASE_URL=/mock-omdb
+  const env = loadEnv(mode, process.cwd(), 'MOCK_OMDB_')
+
+  return {
+    plugins: [
+      react(),
+      mockOMDbPlugin({
+        apiKey: env.MOCK_OMDB_API_KEY || undefined,
+        requestLimit: toNumber(env.MOCK_OMDB_REQUEST_LIMIT),
+        latency: toNumber(env.MOCK_OMDB_LATENCY),
+        failureRate: toNumber(env.MOCK_OMDB_FAILURE_RATE),
+      }),
+    ],
+  }
 })